@@ -0,0 +1,142 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  buildBatchCSV,
+  buildBatchJSON,
+  BUILTIN_PROTOCOL,
+  calculateBatchRow,
+  formatBatchSummary,
+  parseBatchJSON,
+  parseCSV,
+  parseProtocolProfile,
+  ProtocolProfile,
+  summarizeBatch
+} from "../src/engine";
+
+/**
+ * Batch calculator: recalculates every row of a CSV or JSON dataset with the same engine as the web app
+ * and writes each input row back with its results or validation error. The summary report goes to
+ * stderr, and to --summary as JSON when given.
+ *
+ * Exit codes: 0 when the batch ran (rows that fail validation are reported in the output), 1 for usage
+ * and file errors, 2 for malformed input or protocol files.
+ */
+
+type Format = "csv" | "json";
+
+const FORMATS: Format[] = ["csv", "json"];
+
+const USAGE = `Usage: iwl-batch <input.csv|input.json|-> [options]
+
+Options:
+  --format <csv|json>         input format (default: from the file extension, csv for stdin)
+  -o, --output <file>         write results to a file instead of stdout
+  --output-format <csv|json>  results format (default: the input format)
+  --protocol <file>           protocol profile JSON exported from the app (default: built-in)
+  --locale <tag>              locale for rows without a locale column (default: en-US)
+  --summary <file>            also write the summary report as JSON
+  -h, --help                  show this help
+
+Columns are the form field names (weight, weightUnit, height, heightUnit, temperature,
+temperatureUnit, respiratoryRate, ageYears, ageMonthsOnly, sex, bsaMethod, careSetting, ...),
+factors separated by ";", burns as burn.<region>.partial / burn.<region>.full and
+part-day factors as exposure.<factor> in hours ("8") or start-stop times ("20:00-04:00").`;
+
+class UsageError extends Error {}
+
+class FileError extends Error {}
+
+class InputError extends Error {}
+
+const readText = (path: string) => {
+  try {
+    return readFileSync(path === "-" ? 0 : path, "utf8");
+  } catch (error) {
+    throw new FileError(`Cannot read ${path === "-" ? "standard input" : path}: ${(error as Error).message}`);
+  }
+};
+
+const writeText = (path: string, text: string) => {
+  try {
+    writeFileSync(path, text);
+  } catch (error) {
+    throw new FileError(`Cannot write ${path}: ${(error as Error).message}`);
+  }
+};
+
+const toFormat = (value: string | undefined, option: string): Format | undefined => {
+  if (value === undefined) return undefined;
+  const format = value.toLowerCase() as Format;
+  if (!FORMATS.includes(format)) throw new UsageError(`${option} must be one of ${FORMATS.join(", ")}`);
+  return format;
+};
+
+const run = (argv: string[]) => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: "string" },
+        output: { type: "string", short: "o" },
+        "output-format": { type: "string" },
+        protocol: { type: "string" },
+        locale: { type: "string" },
+        summary: { type: "string" },
+        help: { type: "boolean", short: "h" }
+      }
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (positionals.length !== 1) throw new UsageError("Expected exactly one input file, or - for standard input");
+
+  const [inputPath] = positionals;
+  const inputFormat = toFormat(values.format, "--format") ?? (extname(inputPath).toLowerCase() === ".json" ? "json" : "csv");
+  const outputFormat = toFormat(values["output-format"], "--output-format") ?? inputFormat;
+  const locale = values.locale ?? "en-US";
+
+  let protocol: ProtocolProfile = BUILTIN_PROTOCOL;
+  if (values.protocol) {
+    const { profile, error } = parseProtocolProfile(readText(values.protocol));
+    if (!profile) throw new InputError(`${values.protocol}: ${error?.message}`);
+    protocol = profile;
+  }
+
+  const { rows, error } = inputFormat === "json" ? parseBatchJSON(readText(inputPath), locale) : parseCSV(readText(inputPath));
+  if (error) throw new InputError(error.message);
+  if (rows.length === 0) throw new InputError("Input has no data rows");
+
+  const results = rows.map((row, index) => calculateBatchRow(row, index + 1, protocol, { locale }));
+  const output = outputFormat === "json" ? buildBatchJSON(results) : buildBatchCSV(results);
+  if (values.output) writeText(values.output, output);
+  else process.stdout.write(output);
+
+  const summary = summarizeBatch(results, protocol);
+  if (values.summary) writeText(values.summary, `${JSON.stringify(summary, null, 2)}\n`);
+  process.stderr.write(`${formatBatchSummary(summary)}\n`);
+};
+
+try {
+  run(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof UsageError) {
+    process.stderr.write(`iwl-batch: ${error.message}\n\n${USAGE}\n`);
+    process.exitCode = 1;
+  } else if (error instanceof FileError) {
+    process.stderr.write(`iwl-batch: ${error.message}\n`);
+    process.exitCode = 1;
+  } else if (error instanceof InputError) {
+    process.stderr.write(`iwl-batch: ${error.message}\n`);
+    process.exitCode = 2;
+  } else {
+    throw error;
+  }
+}
@@ -0,0 +1,68 @@
+import { createHash } from "node:crypto";
+import { FHIR_VITALS, FhirObservation, FhirPatient, LOINC_SYSTEM, UCUM_SYSTEM } from "../src/engine";
+
+/**
+ * Seed data and the PKCE check of the mock SMART on FHIR server, shared with the tests so the app's side
+ * of the launch can be checked against what the server holds and accepts. Times are relative to `now`.
+ */
+
+export const MOCK_PATIENT_ID = "peds-001";
+export const MOCK_LAUNCH_ID = "mock-launch";
+
+// Human-readable units as EHRs usually send them next to the UCUM code.
+const UNIT_DISPLAY: Record<string, string> = { "[degF]": "°F", "/min": "breaths/min" };
+
+export const base64url = (bytes: Buffer) => bytes.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/** The S256 code challenge the token endpoint expects for a code verifier. */
+export const getCodeChallenge = (verifier: string) => base64url(createHash("sha256").update(verifier).digest());
+
+// A fixed age keeps the derived ageYears/ageMonthsOnly stable from day to day: 3 years 5 months.
+const birthDateMonthsAgo = (months: number, now: Date) => {
+  const date = new Date(now);
+  date.setDate(1);
+  date.setMonth(date.getMonth() - months);
+  return date.toISOString().slice(0, 10);
+};
+
+const hoursAgo = (hours: number, now: Date) => new Date(now.getTime() - hours * 3600 * 1000).toISOString();
+
+const vital = (
+  id: string,
+  code: string,
+  display: string,
+  value: number,
+  unit: string,
+  effectiveDateTime: string,
+  extra: Partial<FhirObservation> = {}
+): FhirObservation => ({
+  resourceType: "Observation",
+  id,
+  status: "final",
+  code: { coding: [{ system: LOINC_SYSTEM, code, display }], text: display },
+  subject: { reference: `Patient/${MOCK_PATIENT_ID}` },
+  effectiveDateTime,
+  valueQuantity: { value, unit: UNIT_DISPLAY[unit] ?? unit, system: UCUM_SYSTEM, code: unit },
+  ...extra
+});
+
+export const seedMockFhir = (now = new Date()) => {
+  const patient: FhirPatient = {
+    resourceType: "Patient",
+    id: MOCK_PATIENT_ID,
+    name: [{ given: ["Sam"], family: "Rivera" }],
+    birthDate: birthDateMonthsAgo(41, now)
+  };
+  const nurse = { performer: [{ display: "Ward 4B nursing" }] };
+  const monitor = { device: { display: "Bedside monitor 12" } };
+  const observations: FhirObservation[] = [
+    vital("weight-1", FHIR_VITALS.weight.codes[0], "Body weight", 13.8, "kg", hoursAgo(72, now), nurse),
+    vital("weight-2", FHIR_VITALS.weight.codes[0], "Body weight", 14.2, "kg", hoursAgo(6, now), nurse),
+    // Newer but retracted; the app must skip it.
+    vital("weight-3", FHIR_VITALS.weight.codes[0], "Body weight", 41.2, "kg", hoursAgo(1, now), { ...nurse, status: "entered-in-error" }),
+    vital("height-1", FHIR_VITALS.height.codes[0], "Body height", 97.5, "cm", hoursAgo(72, now), nurse),
+    vital("temperature-1", FHIR_VITALS.temperature.codes[0], "Body temperature", 101.3, "[degF]", hoursAgo(2, now), monitor),
+    vital("rr-1", FHIR_VITALS.respiratoryRate.codes[0], "Respiratory rate", 34, "/min", hoursAgo(2, now), monitor)
+  ];
+  return { patient, observations };
+};
@@ -0,0 +1,232 @@
+import { randomBytes } from "node:crypto";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { parseArgs } from "node:util";
+import { FhirObservation } from "../src/engine";
+import { base64url, getCodeChallenge, MOCK_LAUNCH_ID, MOCK_PATIENT_ID, seedMockFhir } from "./mock-fhir-fixture";
+
+/**
+ * Mock SMART on FHIR server for trying the EHR launch locally: SMART discovery, an authorize endpoint
+ * that approves every request for the seeded patient, a PKCE-checking token endpoint, and an in-memory
+ * FHIR R4 store with the patient, a few vital signs and any Observations the app writes back. Data
+ * resets when the server stops.
+ */
+
+const USAGE = `Usage: mock-fhir-server [options]
+
+Options:
+  --port <number>   port to listen on (default: 4010)
+  --app <url>       calculator URL for the printed launch links (default: http://localhost:5173/)
+  -h, --help        show this help`;
+
+interface PendingCode {
+  challenge: string;
+  redirectUri: string;
+  clientId: string;
+}
+
+class UsageError extends Error {}
+
+const readBody = (request: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", chunk => {
+      body += chunk;
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+
+const send = (response: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+  response.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type, Accept",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Expose-Headers": "Location",
+    ...(body === undefined ? {} : { "Content-Type": "application/fhir+json" }),
+    ...headers
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body, null, 2));
+};
+
+const outcome = (diagnostics: string) => ({
+  resourceType: "OperationOutcome",
+  issue: [{ severity: "error", code: "processing", diagnostics }]
+});
+
+/** Matches a FHIR token search value, "system|code" or a bare code, against an Observation's codings. */
+const matchesCode = (observation: FhirObservation, tokens: string[]) =>
+  (observation.code.coding ?? []).some(coding =>
+    tokens.some(token => {
+      const [system, code] = token.includes("|") ? token.split("|") : [undefined, token];
+      return coding.code === code && (system === undefined || system === "" || coding.system === system);
+    }));
+
+const startServer = (port: number, appUrl: string) => {
+  const { patient, observations } = seedMockFhir();
+  const codes = new Map<string, PendingCode>();
+  const tokens = new Set<string>();
+  let nextId = 1;
+
+  const base = `http://localhost:${port}`;
+  const fhirBase = `${base}/fhir`;
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? "/", base);
+    const path = url.pathname.replace(/\/+$/, "");
+    if (request.method === "OPTIONS") return send(response, 204);
+
+    if (path === "/fhir/.well-known/smart-configuration") {
+      return send(response, 200, {
+        authorization_endpoint: `${base}/auth/authorize`,
+        token_endpoint: `${base}/auth/token`,
+        grant_types_supported: ["authorization_code"],
+        code_challenge_methods_supported: ["S256"],
+        capabilities: ["launch-ehr", "launch-standalone", "client-public", "context-ehr-patient", "context-standalone-patient", "permission-patient"]
+      });
+    }
+
+    if (path === "/fhir/metadata") {
+      return send(response, 200, {
+        resourceType: "CapabilityStatement",
+        status: "active",
+        kind: "instance",
+        fhirVersion: "4.0.1",
+        format: ["json"],
+        rest: [{ mode: "server", resource: [{ type: "Patient" }, { type: "Observation" }] }]
+      });
+    }
+
+    if (path === "/auth/authorize") {
+      const params = url.searchParams;
+      const redirectUri = params.get("redirect_uri");
+      if (!redirectUri) return send(response, 400, { error: "invalid_request", error_description: "redirect_uri is required" });
+      const redirect = new URL(redirectUri);
+      const reject = (error: string, description: string) => {
+        redirect.search = new URLSearchParams({ error, error_description: description, state: params.get("state") ?? "" }).toString();
+        send(response, 302, undefined, { Location: redirect.toString() });
+      };
+      if (params.get("response_type") !== "code") return reject("unsupported_response_type", "response_type must be code");
+      if (params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+        return reject("invalid_request", "PKCE with S256 is required");
+      }
+      if (params.get("aud")?.replace(/\/+$/, "") !== fhirBase) return reject("invalid_request", `aud must be ${fhirBase}`);
+      if (params.has("launch") && params.get("launch") !== MOCK_LAUNCH_ID) return reject("invalid_request", "Unknown launch id");
+
+      const code = base64url(randomBytes(24));
+      codes.set(code, { challenge: params.get("code_challenge") ?? "", redirectUri, clientId: params.get("client_id") ?? "" });
+      redirect.search = new URLSearchParams({ code, state: params.get("state") ?? "" }).toString();
+      return send(response, 302, undefined, { Location: redirect.toString() });
+    }
+
+    if (path === "/auth/token" && request.method === "POST") {
+      const params = new URLSearchParams(await readBody(request));
+      const pending = codes.get(params.get("code") ?? "");
+      codes.delete(params.get("code") ?? "");
+      const verifier = params.get("code_verifier") ?? "";
+      if (
+        params.get("grant_type") !== "authorization_code"
+        || !pending
+        || pending.redirectUri !== params.get("redirect_uri")
+        || pending.clientId !== params.get("client_id")
+        || getCodeChallenge(verifier) !== pending.challenge
+      ) {
+        return send(response, 400, { error: "invalid_grant", error_description: "Unknown code, or the redirect URI, client or code verifier does not match" });
+      }
+      const accessToken = base64url(randomBytes(24));
+      tokens.add(accessToken);
+      return send(response, 200, {
+        access_token: accessToken,
+        token_type: "Bearer",
+        expires_in: 3600,
+        scope: "launch patient/Patient.read patient/Observation.read patient/Observation.write",
+        patient: MOCK_PATIENT_ID
+      });
+    }
+
+    if (!path.startsWith("/fhir/")) return send(response, 404, outcome(`Unknown path ${path}`));
+    const token = /^Bearer (.+)$/.exec(request.headers.authorization ?? "")?.[1];
+    if (!token || !tokens.has(token)) return send(response, 401, outcome("A valid bearer token is required"));
+
+    const [type, id] = path.slice("/fhir/".length).split("/");
+    if (type === "Patient" && request.method === "GET") {
+      return id === MOCK_PATIENT_ID ? send(response, 200, patient) : send(response, 404, outcome(`Patient/${id} not found`));
+    }
+    if (type === "Observation" && request.method === "GET" && id) {
+      const found = observations.find(observation => observation.id === id);
+      return found ? send(response, 200, found) : send(response, 404, outcome(`Observation/${id} not found`));
+    }
+    if (type === "Observation" && request.method === "GET") {
+      const subject = url.searchParams.get("patient") ?? url.searchParams.get("subject")?.replace(/^Patient\//, "");
+      const codeTokens = url.searchParams.get("code")?.split(",");
+      const matches = observations
+        .filter(observation => !subject || observation.subject?.reference === `Patient/${subject}`)
+        .filter(observation => !codeTokens || matchesCode(observation, codeTokens))
+        .sort((a, b) => (b.effectiveDateTime ?? "").localeCompare(a.effectiveDateTime ?? ""));
+      return send(response, 200, {
+        resourceType: "Bundle",
+        type: "searchset",
+        total: matches.length,
+        entry: matches.map(resource => ({ fullUrl: `${fhirBase}/Observation/${resource.id}`, resource }))
+      });
+    }
+    if (type === "Observation" && request.method === "POST" && !id) {
+      let observation: FhirObservation;
+      try {
+        observation = JSON.parse(await readBody(request));
+      } catch {
+        return send(response, 400, outcome("Request body is not valid JSON"));
+      }
+      if (observation.resourceType !== "Observation") return send(response, 400, outcome("Expected an Observation resource"));
+      if (observation.subject?.reference !== `Patient/${MOCK_PATIENT_ID}`) {
+        return send(response, 403, outcome(`Writes are limited to Patient/${MOCK_PATIENT_ID}`));
+      }
+      const created = { ...observation, id: `iwl-${nextId++}`, meta: { lastUpdated: new Date().toISOString() } };
+      observations.push(created);
+      process.stdout.write(`Created Observation/${created.id}\n${JSON.stringify(created, null, 2)}\n`);
+      return send(response, 201, created, { Location: `${fhirBase}/Observation/${created.id}` });
+    }
+    return send(response, 404, outcome(`Unsupported request ${request.method} ${path}`));
+  };
+
+  createServer((request, response) => {
+    handle(request, response).catch(error => send(response, 500, outcome((error as Error).message)));
+  }).listen(port, () => {
+    process.stdout.write(`Mock FHIR server at ${fhirBase}
+EHR launch:        ${appUrl}?iss=${encodeURIComponent(fhirBase)}&launch=${MOCK_LAUNCH_ID}
+Standalone launch: ${appUrl}?iss=${encodeURIComponent(fhirBase)}
+`);
+  });
+};
+
+const run = (argv: string[]) => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        port: { type: "string" },
+        app: { type: "string" },
+        help: { type: "boolean", short: "h" }
+      }
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values } = parsed;
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  const port = Number(values.port ?? 4010);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new UsageError("--port must be a whole number between 1 and 65535");
+  startServer(port, values.app ?? "http://localhost:5173/");
+};
+
+try {
+  run(process.argv.slice(2));
+} catch (error) {
+  if (!(error instanceof UsageError)) throw error;
+  process.stderr.write(`mock-fhir-server: ${error.message}\n\n${USAGE}\n`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,154 @@
+/*
+ * Offline service worker. The app shell (index.html, the hashed bundles it references, the manifest and
+ * icons) is precached under a version derived from index.html, so every deployment gets its own cache.
+ * Pages are always served from the current version; a newer deployment is downloaded in the background
+ * and only switched to when the user accepts the update prompt, so a calculation on screen is never
+ * replaced mid-entry. Sessions and settings live in IndexedDB and localStorage and need no caching here.
+ */
+
+const SHELL_PREFIX = "pediatric-iwl-shell-";
+const META_CACHE = "pediatric-iwl-meta";
+const STATIC_FILES = [
+  "manifest.webmanifest",
+  "icons/icon.svg",
+  "icons/icon-192.png",
+  "icons/icon-512.png",
+  "icons/icon-maskable-512.png",
+  "icons/apple-touch-icon.png"
+];
+
+const scoped = path => new URL(path, self.registration.scope).href;
+const indexURL = () => scoped("./");
+const stateURL = () => scoped("__shell-state");
+
+// { current, pending }: the shell version pages are served from and a downloaded one awaiting the prompt.
+const readState = async () => {
+  const response = await (await caches.open(META_CACHE)).match(stateURL());
+  return response ? response.json() : { current: null, pending: null };
+};
+
+const writeState = async state =>
+  (await caches.open(META_CACHE)).put(stateURL(), new Response(JSON.stringify(state), { headers: { "Content-Type": "application/json" } }));
+
+const digest = async text => {
+  const bytes = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+  return Array.from(bytes.slice(0, 8), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Same-origin scripts, stylesheets and icons referenced by index.html; Vite gives these hashed names.
+const shellAssets = html => {
+  const urls = Array.from(html.matchAll(/\b(?:src|href)="([^"]+)"/g), match => new URL(match[1], indexURL()));
+  return [...new Set(urls.filter(url => url.origin === self.location.origin && url.href !== indexURL()).map(url => url.href))];
+};
+
+/** Downloads the deployed shell into its versioned cache, unless already complete, and returns the version. */
+const downloadShell = async () => {
+  const response = await fetch(indexURL(), { cache: "no-store" });
+  if (!response.ok) throw new Error(`index.html: HTTP ${response.status}`);
+  const html = await response.clone().text();
+  const version = await digest(html);
+  const cache = await caches.open(SHELL_PREFIX + version);
+  // index.html is stored last, so its presence marks a complete download.
+  if (!(await cache.match(indexURL()))) {
+    await cache.addAll([...STATIC_FILES.map(scoped), ...shellAssets(html)]);
+    await cache.put(indexURL(), response);
+  }
+  return version;
+};
+
+const pruneCaches = async () => {
+  const { current, pending } = await readState();
+  const keep = [current, pending].filter(Boolean).map(version => SHELL_PREFIX + version);
+  const names = await caches.keys();
+  await Promise.all(names.filter(name => name.startsWith(SHELL_PREFIX) && !keep.includes(name)).map(name => caches.delete(name)));
+};
+
+const notifyClients = async message => {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  clients.forEach(client => client.postMessage(message));
+};
+
+const checkForUpdate = async () => {
+  let version;
+  try {
+    version = await downloadShell();
+  } catch {
+    return; // Offline or a failed deployment: keep serving the current shell.
+  }
+  const state = await readState();
+  const next = !state.current
+    ? { current: version, pending: null }
+    : { current: state.current, pending: version === state.current ? null : version };
+  await writeState(next);
+  await pruneCaches();
+  if (next.pending) await notifyClients({ type: "UPDATE_AVAILABLE" });
+};
+
+const applyUpdate = async () => {
+  const { current, pending } = await readState();
+  if (pending) await writeState({ current: pending, pending: null });
+  else if (!current) return;
+  await pruneCaches();
+};
+
+const currentCache = async () => {
+  const { current } = await readState();
+  return current ? caches.open(SHELL_PREFIX + current) : null;
+};
+
+// Every navigation in scope is the single-page app, whatever its query string.
+const serveShell = async request => {
+  const cache = await currentCache();
+  const cached = cache && (await cache.match(indexURL()));
+  return cached ?? fetch(request);
+};
+
+const serveAsset = async request => {
+  const cache = await currentCache();
+  const cached = cache && (await cache.match(request));
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (cache && response.ok) await cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener("install", event => {
+  event.waitUntil((async () => {
+    const version = await downloadShell();
+    const state = await readState();
+    if (!state.current) await writeState({ current: version, pending: null });
+    else if (version !== state.current) await writeState({ current: state.current, pending: version });
+  })());
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    await pruneCaches();
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener("message", event => {
+  const type = event.data && event.data.type;
+  if (type === "CHECK_FOR_UPDATE") {
+    event.waitUntil(checkForUpdate());
+  } else if (type === "APPLY_UPDATE") {
+    // A waiting worker (a new sw.js) takes over with skipWaiting; for the active one this is a no-op.
+    event.waitUntil((async () => {
+      await applyUpdate();
+      await self.skipWaiting();
+      if (event.source) event.source.postMessage({ type: "UPDATE_APPLIED" });
+    })());
+  }
+});
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+  if (request.mode === "navigate") {
+    event.respondWith(serveShell(request));
+    event.waitUntil(checkForUpdate());
+  } else {
+    event.respondWith(serveAsset(request));
+  }
+});
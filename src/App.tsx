@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Baby,
   ChevronDown,
@@ -10,176 +10,406 @@ import {
   AlertTriangle,
   Calculator,
   Info,
-  Calendar
+  Calendar,
+  Languages,
+  Bed,
+  Wind,
+  AirVent,
+  Droplet,
+  Layers,
+  CircleDot,
+  ShieldOff
 } from "lucide-react";
+import {
+  BSA_METHOD_IDS,
+  BSA_METHODS,
+  BSAMethodId,
+  BUILTIN_PROTOCOL,
+  buildFhirPrefill,
+  calculateIWL as runIWLEngine,
+  CARE_SETTINGS,
+  CareSetting,
+  CalculationResult,
+  compareBSAMethods,
+  decodeShareLink,
+  DEFAULT_AIR_TEMPERATURE_C,
+  DEFAULT_FACTOR_EXPOSURE,
+  DEFAULT_FORM_VALUES,
+  EngineMessage,
+  FACTOR_CATALOGUE,
+  FactorKey,
+  FhirPrefill,
+  FormConversion,
+  formatClockTime,
+  formatProtocolName,
+  getAgeInMonths,
+  getFactorPercentages,
+  getProfileExtremes,
+  getProtocolValue,
+  HEIGHT_UNIT_LABELS,
+  HeightUnit,
+  IWLFactors,
+  IWLFormValues,
+  IWLInput,
+  isPretermNeonate,
+  isShareLink,
+  getFormMigrationNotice,
+  normalizeFormValues,
+  parseIWLForm,
+  PercentFactorKey,
+  ProtocolProfile,
+  selectFactor,
+  Sex,
+  TEMPERATURE_UNIT_LABELS,
+  TemperatureUnit,
+  UnitBoardPatient,
+  validateIWLInput,
+  WEIGHT_UNIT_LABELS,
+  WeightUnit
+} from "./engine";
+import BSAComparisonTable from "./components/BSAComparisonTable";
+import BurnAssessmentForm from "./components/BurnAssessmentForm";
+import BurnBreakdown from "./components/BurnBreakdown";
+import ClinicalWarnings from "./components/ClinicalWarnings";
+import ComponentBreakdown from "./components/ComponentBreakdown";
+import ExportActions from "./components/ExportActions";
+import FactorExposureFields from "./components/FactorExposureFields";
+import Formula from "./components/Formula";
+import FluidPlanner from "./components/FluidPlanner";
+import FluidBalanceTracker from "./components/FluidBalanceTracker";
+import GrowthCheck from "./components/GrowthCheck";
+import HourlyProfileChart from "./components/HourlyProfileChart";
+import HumidityCurve from "./components/HumidityCurve";
+import NeonatalBreakdown from "./components/NeonatalBreakdown";
+import PrintReport from "./components/PrintReport";
+import ProtocolSelector from "./components/ProtocolSelector";
+import PwaStatus from "./components/PwaStatus";
+import SensitivityPanel from "./components/SensitivityPanel";
+import ShareLink from "./components/ShareLink";
+import SessionPanel from "./components/SessionPanel";
+import SmartLaunchPanel from "./components/SmartLaunchPanel";
+import UnitBoard from "./components/UnitBoard";
+import UnitToggle from "./components/UnitToggle";
+import {
+  createI18n,
+  getNeonatalBandLabel,
+  I18nContext,
+  Language,
+  LANGUAGE_LABELS,
+  LANGUAGES,
+  MessageKey,
+  NUMERAL_SYSTEMS,
+  NumeralSystem,
+  translateFieldLabel
+} from "./i18n";
+import { SmartPatientData } from "./fhir/smart";
+import { useSmartLaunch } from "./fhir/useSmartLaunch";
+import { loadLanguage, loadNumerals, storeLanguage, storeNumerals } from "./storage/preferences";
+import { loadSelectedProtocolId, loadStoredProtocols, storeProtocols, storeSelectedProtocolId } from "./storage/protocols";
+
+const DISCLAIMER_KEYS: MessageKey[] = ["disclaimer.0", "disclaimer.1", "disclaimer.2"];
 
-const getNormalRRByAge = (months: number) => {
-  if (months < 1) return { min: 30, max: 60, label: "Newborn (<1 month)" };
-  if (months < 3) return { min: 30, max: 50, label: "1–3 months" };
-  if (months < 6) return { min: 25, max: 40, label: "3–6 months" };
-  if (months < 12) return { min: 20, max: 35, label: "6–12 months" };
-  if (months < 36) return { min: 20, max: 30, label: "1–3 years" };
-  return { min: 15, max: 25, label: "3+ years" };
+const FACTOR_ICONS: Record<FactorKey, { icon: typeof Sun; color: string }> = {
+  phototherapy: { icon: Sun, color: "text-yellow-500" },
+  radiantWarmer: { icon: Thermometer, color: "text-red-500" },
+  burns: { icon: Flame, color: "text-orange-500" },
+  ventilation: { icon: Wind, color: "text-sky-500" },
+  cpap: { icon: AirVent, color: "text-cyan-500" },
+  emollient: { icon: Droplet, color: "text-teal-500" },
+  plasticWrap: { icon: Layers, color: "text-emerald-500" },
+  abdominalWallDefect: { icon: CircleDot, color: "text-amber-600" },
+  skinDisease: { icon: ShieldOff, color: "text-rose-500" }
 };
 
-interface CalculationResult {
-  totalIWL_low: string;
-  totalIWL_high: string;
-  hourly_low: string;
-  hourly_high: string;
-  rrAdjustment: number;
-  feverAdjustment: number;
-  temperature: string;
-  factors: {
-    phototherapy: boolean;
-    radiantWarmer: boolean;
-    lowHumidity: boolean;
-    burns: boolean;
-  };
-  baseIWL_low: number;
-  baseIWL_high: number;
-  factorPercentages: {
-    phototherapy: number;
-    radiantWarmer: number;
-    lowHumidity: number;
-    burns: number;
-  };
-  bsa: number;
-  additionalAdjustment_low: number;
-  additionalAdjustment_high: number;
-  feverMultiplier: number;
-  rrRange: {
-    min: number;
-    max: number;
-    label: string;
+// Adds the factor catalogue's references that the general list does not already cite.
+const withCatalogueReferences = (references: string[]) => [
+  ...references,
+  ...FACTOR_CATALOGUE.flatMap(definition => definition.references)
+    .filter((reference, index, all) => all.indexOf(reference) === index && !references.includes(reference))
+];
+
+/**
+ * A calculation opened from a shared link: the form is restored and, when the link's protocol profile is
+ * loaded here, calculated as if Calculate had been pressed. Read once, as the initial state.
+ */
+const readSharedLink = () => {
+  if (!isShareLink(window.location.hash)) return null;
+  const { shared, error } = decodeShareLink(window.location.hash, loadStoredProtocols());
+  const opened = {
+    form: shared?.form ?? null,
+    protocol: shared?.protocol ?? null,
+    error,
+    result: null as CalculationResult | null,
+    input: null as IWLInput | null,
+    conversions: [] as FormConversion[]
   };
-}
+  if (!shared?.protocol) return opened;
+  const parsed = parseIWLForm(shared.form);
+  const inputError = parsed.error ?? validateIWLInput(parsed.input);
+  if (inputError !== null) return { ...opened, error: inputError };
+  return { ...opened, result: runIWLEngine(parsed.input, shared.protocol), input: parsed.input, conversions: parsed.conversions };
+};
 
 const PediatricIWLCalculator = () => {
+  const [sharedLink] = useState(readSharedLink);
+  const initialForm = sharedLink?.form ?? { ...DEFAULT_FORM_VALUES, locale: navigator.language };
   const [showDetails, setShowDetails] = useState(false);
   const [showReferences, setShowReferences] = useState(false);
-  const [weight, setWeight] = useState("");
-  const [height, setHeight] = useState("");
-  const [temperature, setTemperature] = useState("");
-  const [respiratoryRate, setRespiratoryRate] = useState("");
-  const [ageYears, setAgeYears] = useState("");
-  const [ageMonthsOnly, setAgeMonthsOnly] = useState("");
-  const [factors, setFactors] = useState({
-    phototherapy: false,
-    radiantWarmer: false,
-    lowHumidity: false,
-    burns: false
-  });
-  const [result, setResult] = useState<CalculationResult | null>(null);
-  const [error, setError] = useState("");
+  const [showBSAComparison, setShowBSAComparison] = useState(false);
+  const [weight, setWeight] = useState(initialForm.weight);
+  const [weightOunces, setWeightOunces] = useState(initialForm.weightOunces);
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(initialForm.weightUnit);
+  const [height, setHeight] = useState(initialForm.height);
+  const [heightUnit, setHeightUnit] = useState<HeightUnit>(initialForm.heightUnit);
+  const [bsaMethod, setBsaMethod] = useState<BSAMethodId>(initialForm.bsaMethod);
+  const [temperature, setTemperature] = useState(initialForm.temperature);
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit>(initialForm.temperatureUnit);
+  const [locale, setLocale] = useState(initialForm.locale);
+  const [respiratoryRate, setRespiratoryRate] = useState(initialForm.respiratoryRate);
+  const [ageYears, setAgeYears] = useState(initialForm.ageYears);
+  const [ageMonthsOnly, setAgeMonthsOnly] = useState(initialForm.ageMonthsOnly);
+  const [sex, setSex] = useState<Sex | "">(initialForm.sex);
+  const [gestationalWeeks, setGestationalWeeks] = useState(initialForm.gestationalWeeks);
+  const [gestationalDays, setGestationalDays] = useState(initialForm.gestationalDays);
+  const [postnatalDays, setPostnatalDays] = useState(initialForm.postnatalDays);
+  const [birthWeightGrams, setBirthWeightGrams] = useState(initialForm.birthWeightGrams);
+  const [careSetting, setCareSetting] = useState<CareSetting>(initialForm.careSetting);
+  const [relativeHumidity, setRelativeHumidity] = useState(initialForm.relativeHumidity);
+  const [airTemperature, setAirTemperature] = useState(initialForm.airTemperature);
+  const [factors, setFactors] = useState<IWLFactors>(initialForm.factors);
+  const [burnRegions, setBurnRegions] = useState<IWLFormValues["burnRegions"]>(initialForm.burnRegions);
+  const [factorExposures, setFactorExposures] = useState<IWLFormValues["factorExposures"]>(initialForm.factorExposures);
+  const [result, setResult] = useState<CalculationResult | null>(sharedLink?.result ?? null);
+  const [resultInput, setResultInput] = useState<IWLInput | null>(sharedLink?.input ?? null);
+  const [resultConversions, setResultConversions] = useState<FormConversion[]>(sharedLink?.conversions ?? []);
+  const [resultForm, setResultForm] = useState<IWLFormValues | null>(sharedLink?.result ? initialForm : null);
+  const [error, setError] = useState<EngineMessage | null>(sharedLink?.error ?? null);
   const [hoveredFactor, setHoveredFactor] = useState<string | null>(null);
+  const [protocols, setProtocols] = useState<ProtocolProfile[]>(loadStoredProtocols);
+  const [protocolId, setProtocolId] = useState(() => sharedLink?.protocol?.id ?? loadSelectedProtocolId());
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const [numerals, setNumerals] = useState<NumeralSystem>(loadNumerals);
 
-  const factorExplanations = {
-    phototherapy: "Phototherapy using blue light to treat jaundice increases IWL by 20% due to increased skin blood flow and heat production.",
-    radiantWarmer: "Radiant warmers increase IWL by 30% due to increased ambient temperature and direct radiant heat affecting skin temperature.",
-    lowHumidity: "Low humidity environments (<50%) increase IWL by 25% as the gradient for water evaporation from skin increases.",
-    burns: "Burns significantly increase IWL by 50% due to loss of skin barrier function and increased metabolic rate."
-  };
+  const i18n = useMemo(() => createI18n(language, numerals), [language, numerals]);
+  const { t, fixed, num, digits } = i18n;
+
+  // The fragment is dropped once read, so later edits are not mistaken for the shared values.
+  useEffect(() => {
+    if (sharedLink) window.history.replaceState(null, "", window.location.pathname + window.location.search);
+  }, [sharedLink]);
+
+  // A link opened in a tab that already runs the app only changes the fragment; start over from it.
+  useEffect(() => {
+    const openLink = () => {
+      if (isShareLink(window.location.hash)) window.location.reload();
+    };
+    window.addEventListener("hashchange", openLink);
+    return () => window.removeEventListener("hashchange", openLink);
+  }, []);
 
-  const references = [
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = i18n.dir;
+  }, [language, i18n.dir]);
+
+  const protocol = protocols.find(profile => profile.id === protocolId) ?? BUILTIN_PROTOCOL;
+  const factorPercentages = getFactorPercentages(protocol);
+  const signed = (value: number) => `${value < 0 ? "−" : "+"}${fixed(Math.abs(value), 1)}`;
+  const factorOptions = FACTOR_CATALOGUE.map(definition => ({ ...definition, ...FACTOR_ICONS[definition.key], label: t(`factor.${definition.key}`) }));
+  // The explanations say "increases" or "reduces", so the percentage is given without its sign.
+  const factorExplanation = (key: FactorKey) => key === "burns"
+    ? t("factor.burns.explanation")
+    : t(`factor.${key}.explanation`, { percent: `${num(Math.abs(factorPercentages[key]) * 100, 1)}%` });
+
+  const references = withCatalogueReferences([
     "Fanaroff, A. A., & Stoll, B. J. (2019). Fanaroff and Martin's Neonatal-Perinatal Medicine: Diseases of the Fetus and Infant (11th ed.). Elsevier.",
     "Kliegman, R. M., St. Geme, J. W., Blum, N. J., Shah, S. S., Tasker, R. C., & Wilson, K. M. (2020). Nelson Textbook of Pediatrics (21st ed.). Elsevier.",
     "Oh, W. (1978). Fluid and electrolyte management in low-birth-weight infants. Clinics in Perinatology, 5(1), 173-182.",
     "Bell, E. F., & Oh, W. (1980). Fluid and electrolyte management. In G. B. Avery (Ed.), Neonatology: Pathophysiology and Management of the Newborn (2nd ed., pp. 697-710). Lippincott.",
     "Baumgart, S. (1982). Radiant energy and insensible water loss in the premature newborn. Clinical Pediatrics, 21(3), 136-139.",
-    "Hammarlund, K., & Sedin, G. (1979). Transepidermal water loss in newborn infants. VII. Relation to gestational age. Acta Paediatrica Scandinavica, 68(6), 795-801."
-  ];
+    "Hammarlund, K., & Sedin, G. (1979). Transepidermal water loss in newborn infants. VII. Relation to gestational age. Acta Paediatrica Scandinavica, 68(6), 795-801.",
+    "Lund, C. C., & Browder, N. C. (1944). The estimation of areas of burns. Surgery, Gynecology & Obstetrics, 79, 352-358."
+  ]);
+
+  const disclaimer = DISCLAIMER_KEYS.map(key => t(key));
 
   // Prevent wheel scrolling on number inputs
   const handleWheel = (e: React.WheelEvent) => {
     e.currentTarget.blur();
   };
 
+  const formValues: IWLFormValues = {
+    weight,
+    weightOunces,
+    weightUnit,
+    height,
+    heightUnit,
+    temperature,
+    temperatureUnit,
+    respiratoryRate,
+    ageYears,
+    ageMonthsOnly,
+    sex,
+    factors,
+    bsaMethod,
+    burnRegions,
+    factorExposures,
+    gestationalWeeks,
+    gestationalDays,
+    postnatalDays,
+    birthWeightGrams,
+    careSetting,
+    relativeHumidity,
+    airTemperature,
+    locale
+  };
+  const parsedForm = parseIWLForm(formValues);
+  const { input } = parsedForm;
+  const neonatalMode = isPretermNeonate(input.neonatal);
+  const heightRequired = !neonatalMode && BSA_METHODS[bsaMethod].requiresHeight;
+
   const validateInputs = () => {
-    const weightNum = parseFloat(weight);
-    const heightNum = parseFloat(height);
-    if (isNaN(weightNum) || weightNum <= 0) {
-      setError("Please enter a valid weight (kg)");
-      return false;
-    }
-    if (isNaN(heightNum) || heightNum <= 0) {
-      setError("Please enter a valid height (cm)");
-      return false;
-    }
-    setError("");
-    return true;
+    const message = parsedForm.error ?? validateIWLInput(input);
+    setError(message);
+    return message === null;
   };
 
   const calculateIWL = () => {
     if (!validateInputs()) return;
-    
-    const weightNum = parseFloat(weight);
-    const heightNum = parseFloat(height);
-    const tempNum = parseFloat(temperature);
-    const rrNum = parseFloat(respiratoryRate);
-    const feverAdjustment = !isNaN(tempNum) && tempNum > 37 ? (tempNum - 37) * 0.13 : 0;
-    const ageInMonths = (parseInt(ageYears || "0") * 12) + parseInt(ageMonthsOnly || "0");
-    
-    const bsa = Math.sqrt((heightNum * weightNum) / 3600);
-    const baseIWL_low = bsa * 400;
-    const baseIWL_high = bsa * 500;
-    const feverMultiplier = 1 + feverAdjustment;
-    
-    let rrAdjustment = 0;
-    const rrRange = getNormalRRByAge(ageInMonths);
-    if (!isNaN(rrNum) && rrNum > rrRange.max) {
-      rrAdjustment = (rrNum - rrRange.max) * 2 * weightNum;
-    }
-    
-    const factorPercentages = {
-      phototherapy: 0.2,
-      radiantWarmer: 0.3,
-      lowHumidity: 0.25,
-      burns: 0.5
-    };
-    
-    const additionalAdjustment_low = Object.entries(factors).reduce(
-      (sum, [key, enabled]) => enabled ? sum + baseIWL_low * factorPercentages[key as keyof typeof factorPercentages] : sum,
-      0
-    );
-    const additionalAdjustment_high = Object.entries(factors).reduce(
-      (sum, [key, enabled]) => enabled ? sum + baseIWL_high * factorPercentages[key as keyof typeof factorPercentages] : sum,
-      0
-    );
-    
-    const totalIWL_low = (baseIWL_low * feverMultiplier) + rrAdjustment + additionalAdjustment_low;
-    const totalIWL_high = (baseIWL_high * feverMultiplier) + rrAdjustment + additionalAdjustment_high;
-    
-    setResult({
-      totalIWL_low: totalIWL_low.toFixed(1),
-      totalIWL_high: totalIWL_high.toFixed(1),
-      hourly_low: (totalIWL_low / 24).toFixed(1),
-      hourly_high: (totalIWL_high / 24).toFixed(1),
-      rrAdjustment,
-      feverAdjustment,
-      temperature,
-      factors,
-      baseIWL_low,
-      baseIWL_high,
-      factorPercentages,
-      bsa,
-      additionalAdjustment_low,
-      additionalAdjustment_high,
-      feverMultiplier,
-      rrRange
-    });
+    setResult(runIWLEngine(input, protocol));
+    setResultInput(input);
+    setResultConversions(parsedForm.conversions);
+    setResultForm(formValues);
+  };
+
+  // Restores a saved calculation's form; the user recalculates from there.
+  const loadForm = (saved: IWLFormValues) => {
+    const values = normalizeFormValues(saved);
+    setWeight(values.weight);
+    setWeightOunces(values.weightOunces);
+    setWeightUnit(values.weightUnit);
+    setHeight(values.height);
+    setHeightUnit(values.heightUnit);
+    setTemperature(values.temperature);
+    setTemperatureUnit(values.temperatureUnit);
+    setRespiratoryRate(values.respiratoryRate);
+    setAgeYears(values.ageYears);
+    setAgeMonthsOnly(values.ageMonthsOnly);
+    setSex(values.sex);
+    setFactors(values.factors);
+    setBsaMethod(values.bsaMethod);
+    setBurnRegions(values.burnRegions);
+    setFactorExposures(values.factorExposures);
+    setGestationalWeeks(values.gestationalWeeks);
+    setGestationalDays(values.gestationalDays);
+    setPostnatalDays(values.postnatalDays);
+    setBirthWeightGrams(values.birthWeightGrams);
+    setCareSetting(values.careSetting);
+    setRelativeHumidity(values.relativeHumidity);
+    setAirTemperature(values.airTemperature);
+    setLocale(values.locale);
+    setResult(null);
+    setError(getFormMigrationNotice(saved));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // A SMART launch fills the form from the EHR's latest records; other entries are kept.
+  const [fhirPrefill, setFhirPrefill] = useState<FhirPrefill | null>(null);
+  const smartLaunch = useSmartLaunch(({ patient, observations }: SmartPatientData) => {
+    const prefill = buildFhirPrefill(patient, observations, locale);
+    setFhirPrefill(prefill);
+    loadForm({ ...formValues, ...prefill.values });
+  });
+
+  // The unit board replaces the calculator on screen; opening a row brings the calculator back with that
+  // patient's latest saved form, or an empty one, and session.
+  const [view, setView] = useState<"calculator" | "board">("calculator");
+  const [activeSessionId, setActiveSessionId] = useState("");
+
+  const openBoardPatient = (patient: UnitBoardPatient) => {
+    setActiveSessionId(patient.id);
+    // A patient without a saved calculation starts from an empty form, so nothing is filed under the wrong session.
+    loadForm(patient.latest ? patient.latest.form : { ...DEFAULT_FORM_VALUES, locale });
+    setView("calculator");
+  };
+
+  const selectLanguage = (next: Language) => {
+    setLanguage(next);
+    storeLanguage(next);
+  };
+
+  const selectNumerals = (next: NumeralSystem) => {
+    setNumerals(next);
+    storeNumerals(next);
+  };
+
+  const selectProtocol = (id: string) => {
+    setProtocolId(id);
+    storeSelectedProtocolId(id);
+  };
+
+  // A loaded profile replaces any earlier one with the same id.
+  const importProtocol = (profile: ProtocolProfile) => {
+    const next = [...protocols.filter(existing => existing.id !== profile.id), profile];
+    setProtocols(next);
+    storeProtocols(next);
+    selectProtocol(profile.id);
+  };
+
+  const removeProtocol = (id: string) => {
+    const next = protocols.filter(existing => existing.id !== id);
+    setProtocols(next);
+    storeProtocols(next);
+    selectProtocol(BUILTIN_PROTOCOL.id);
+  };
+
+  // The radiant warmer factor follows the care setting; it can still be ticked on its own for part-time use.
+  const handleCareSettingChange = (setting: CareSetting) => {
+    setCareSetting(setting);
+    setFactors(prev => ({ ...prev, radiantWarmer: setting === "radiantWarmer" }));
   };
 
-  const handleFactorChange = (factor: keyof typeof factors) => {
-    setFactors(prev => ({
-      ...prev,
-      [factor]: !prev[factor]
-    }));
+  // Ticking a factor unticks the ones it excludes; unticking the warmer leaves the care setting that needs it.
+  const handleFactorChange = (factor: FactorKey) => {
+    if (factor === "radiantWarmer" && factors.radiantWarmer && careSetting === "radiantWarmer") setCareSetting("openCot");
+    setFactors(prev => prev[factor] ? { ...prev, [factor]: false } : selectFactor(prev, factor));
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
+    <I18nContext.Provider value={i18n}>
+    <div lang={language} dir={i18n.dir} className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 print:bg-none">
+      <div className="container mx-auto px-4 py-8 max-w-4xl print:hidden">
+        <PwaStatus />
+
+        {/* Language */}
+        <div className="flex justify-end items-center gap-2 mb-4 text-sm text-gray-600">
+          <Languages size={16} />
+          <label htmlFor="language" className="sr-only">{t("language.label")}</label>
+          <select
+            id="language"
+            value={language}
+            onChange={e => selectLanguage(e.target.value as Language)}
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {LANGUAGES.map(code => (
+              <option key={code} value={code}>{LANGUAGE_LABELS[code]}</option>
+            ))}
+          </select>
+          <label htmlFor="numerals" className="ms-2">{t("language.numerals")}</label>
+          <select
+            id="numerals"
+            value={numerals}
+            onChange={e => selectNumerals(e.target.value as NumeralSystem)}
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {NUMERAL_SYSTEMS.map(system => (
+              <option key={system} value={system}>
+                {t(`language.numerals.${system}`, { digits: createI18n(language, system).digits("0123") })}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Header */}
         <div className="text-center mb-12">
           <div className="flex justify-center items-center mb-6">
@@ -188,53 +418,118 @@ const PediatricIWLCalculator = () => {
             </div>
           </div>
           <h1 className="text-5xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4">
-            Pediatric IWL Calculator
+            {t("app.title")}
           </h1>
           <p className="text-xl text-gray-600 max-w-2xl mx-auto leading-relaxed">
-            Evidence-based Insensible Water Loss Calculator for Pediatric Patients
+            {t("app.subtitle")}
           </p>
         </div>
 
+        {/* View */}
+        <div className="flex justify-center gap-2 mb-8" role="tablist">
+          {([["calculator", Calculator], ["board", Bed]] as const).map(([id, Icon]) => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={view === id}
+              onClick={() => setView(id)}
+              className={`flex items-center px-5 py-2 rounded-lg font-medium transition-all ${view === id ? "bg-blue-600 text-white shadow" : "bg-white text-gray-700 border border-gray-200 hover:bg-blue-50"}`}
+            >
+              <Icon className="me-2" size={18} />
+              {t(`view.${id}`)}
+            </button>
+          ))}
+        </div>
+
+        {/* Unit Board */}
+        {view === "board" && <UnitBoard onOpen={openBoardPatient} />}
+
         {/* Main Content - Changed to single column layout */}
-        <div className="space-y-8">
+        <div className={view === "board" ? "hidden" : "space-y-8"}>
+          {/* Protocol Profile */}
+          <ProtocolSelector
+            profiles={protocols}
+            active={protocol}
+            onSelect={selectProtocol}
+            onImport={importProtocol}
+            onRemove={removeProtocol}
+          />
+
+          {/* SMART on FHIR */}
+          <SmartLaunchPanel launch={smartLaunch} prefill={fhirPrefill} result={result} />
+
           {/* Input Section - Now full width */}
           <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
             <div className="flex items-center mb-6">
-              <Calculator className="text-blue-600 mr-3" size={24} />
-              <h2 className="text-2xl font-semibold text-gray-800">Patient Information</h2>
+              <Calculator className="text-blue-600 me-3" size={24} />
+              <h2 className="text-2xl font-semibold text-gray-800">{t("form.title")}</h2>
             </div>
 
             {error && (
-              <div className="bg-red-50 border-l-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
-                <AlertTriangle className="mr-3 flex-shrink-0" size={20} />
-                <span className="text-lg">{error}</span>
+              <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
+                <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+                <span className="text-lg">{i18n.message(error)}</span>
               </div>
             )}
 
+            {/* Number Format */}
+            <div className="flex justify-end items-center mb-4 text-sm text-gray-600">
+              <label htmlFor="decimal-format" className="me-2">{t("form.decimalSeparator")}</label>
+              <select
+                id="decimal-format"
+                value={locale}
+                onChange={e => setLocale(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value={navigator.language}>{t("form.decimalSeparator.device", { locale: navigator.language })}</option>
+                <option value="en-US">{t("form.decimalSeparator.point", { example: "1.5" })}</option>
+                <option value="fr-FR">{t("form.decimalSeparator.comma", { example: "1,5" })}</option>
+              </select>
+            </div>
+
             {/* Required Fields */}
             <div className="grid md:grid-cols-2 gap-6 mb-8">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Weight (kg) <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  inputMode="decimal"
-                  placeholder="Enter weight"
-                  value={weight}
-                  onChange={e => setWeight(e.target.value)}
-                  onWheel={handleWheel}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                />
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {t("form.weight", { unit: WEIGHT_UNIT_LABELS[weightUnit] })} <span className="text-red-500">*</span>
+                  </label>
+                  <UnitToggle units={WEIGHT_UNIT_LABELS} value={weightUnit} onChange={setWeightUnit} />
+                </div>
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={weightUnit === "lb" ? "lb" : t("form.weight.placeholder")}
+                    value={weight}
+                    onChange={e => setWeight(e.target.value)}
+                    onWheel={handleWheel}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                  />
+                  {weightUnit === "lb" && (
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="oz"
+                      value={weightOunces}
+                      onChange={e => setWeightOunces(e.target.value)}
+                      onWheel={handleWheel}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                    />
+                  )}
+                </div>
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Height (cm) <span className="text-red-500">*</span>
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {t("form.height", { unit: HEIGHT_UNIT_LABELS[heightUnit] })} {!heightRequired ? <span className="text-gray-400">{t("form.optional")}</span> : <span className="text-red-500">*</span>}
+                  </label>
+                  <UnitToggle units={HEIGHT_UNIT_LABELS} value={heightUnit} onChange={setHeightUnit} />
+                </div>
                 <input
                   type="text"
                   inputMode="decimal"
-                  placeholder="Enter height"
+                  placeholder={t("form.height.placeholder")}
                   value={height}
                   onChange={e => setHeight(e.target.value)}
                   onWheel={handleWheel}
@@ -243,21 +538,44 @@ const PediatricIWLCalculator = () => {
               </div>
             </div>
 
+            {/* BSA Formula */}
+            <div className="mb-8">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t("form.bsaFormula")}
+              </label>
+              <select
+                value={bsaMethod}
+                onChange={e => setBsaMethod(e.target.value as BSAMethodId)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white"
+              >
+                {BSA_METHOD_IDS.map(id => (
+                  <option key={id} value={id}>{BSA_METHODS[id].label}</option>
+                ))}
+              </select>
+              <div className="mt-2 text-xs text-gray-500 flex items-center">
+                <Info className="me-1" size={12} />
+                <Formula>{digits(BSA_METHODS[bsaMethod].formula)}</Formula>
+              </div>
+            </div>
+
             {/* Optional Fields */}
             <div className="mb-8">
               <h3 className="text-lg font-medium text-gray-700 mb-4 flex items-center">
-                <Info className="mr-2" size={20} />
-                Optional Parameters
+                <Info className="me-2" size={20} />
+                {t("form.optionalParameters")}
               </h3>
               <div className="grid md:grid-cols-2 gap-6">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Temperature (°C)
-                  </label>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {t("form.temperature", { unit: TEMPERATURE_UNIT_LABELS[temperatureUnit] })}
+                    </label>
+                    <UnitToggle units={TEMPERATURE_UNIT_LABELS} value={temperatureUnit} onChange={setTemperatureUnit} />
+                  </div>
                   <input
                     type="text"
                     inputMode="decimal"
-                    placeholder="37.0"
+                    placeholder={digits(temperatureUnit === "F" ? "98.6" : "37.0")}
                     value={temperature}
                     onChange={e => setTemperature(e.target.value)}
                     onWheel={handleWheel}
@@ -266,12 +584,12 @@ const PediatricIWLCalculator = () => {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Respiratory Rate
+                    {t("form.respiratoryRate")}
                   </label>
                   <input
                     type="text"
                     inputMode="numeric"
-                    placeholder="Enter RR"
+                    placeholder={t("form.respiratoryRate.placeholder")}
                     value={respiratoryRate}
                     onChange={e => setRespiratoryRate(e.target.value)}
                     onWheel={handleWheel}
@@ -283,19 +601,19 @@ const PediatricIWLCalculator = () => {
               {/* Age Section - Improved */}
               <div className="mt-6">
                 <label className="block text-sm font-medium text-gray-700 mb-3 flex items-center">
-                  <Calendar className="mr-2" size={18} />
-                  Patient Age
+                  <Calendar className="me-2" size={18} />
+                  {t("form.age")}
                 </label>
                 <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="block text-xs font-medium text-gray-600 mb-2 uppercase tracking-wide">
-                        Years
+                        {t("form.age.years")}
                       </label>
                       <input
                         type="text"
                         inputMode="numeric"
-                        placeholder="0"
+                        placeholder={digits("0")}
                         value={ageYears}
                         onChange={e => setAgeYears(e.target.value)}
                         onWheel={handleWheel}
@@ -304,12 +622,12 @@ const PediatricIWLCalculator = () => {
                     </div>
                     <div>
                       <label className="block text-xs font-medium text-gray-600 mb-2 uppercase tracking-wide">
-                        Months
+                        {t("form.age.months")}
                       </label>
                       <input
                         type="text"
                         inputMode="numeric"
-                        placeholder="0"
+                        placeholder={digits("0")}
                         value={ageMonthsOnly}
                         onChange={e => setAgeMonthsOnly(e.target.value)}
                         onWheel={handleWheel}
@@ -318,126 +636,365 @@ const PediatricIWLCalculator = () => {
                     </div>
                   </div>
                   <div className="mt-2 text-xs text-gray-500 flex items-center">
-                    <Info className="mr-1" size={12} />
-                    Example: For a 2 years 8 months old patient, enter "2" years and "8" months
+                    <Info className="me-1" size={12} />
+                    {t("form.age.hint")}
                   </div>
                 </div>
               </div>
+
+              {/* Sex */}
+              <div className="mt-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("form.sex")}
+                </label>
+                <select
+                  value={sex}
+                  onChange={e => setSex(e.target.value as Sex | "")}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white"
+                >
+                  <option value="">{t("form.sex.none")}</option>
+                  <option value="male">{t("form.sex.male")}</option>
+                  <option value="female">{t("form.sex.female")}</option>
+                </select>
+                <div className="mt-2 text-xs text-gray-500 flex items-center">
+                  <Info className="me-1" size={12} />
+                  {t("form.sex.hint")}
+                </div>
+              </div>
+            </div>
+
+            {/* Neonatal Section */}
+            <div className="mb-8">
+              <h3 className="text-lg font-medium text-gray-700 mb-4 flex items-center">
+                <Baby className="me-2" size={20} />
+                {t("form.neonatal")}
+              </h3>
+              <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    { label: t("form.neonatal.gaWeeks"), placeholder: t("form.example", { value: 28 }), value: gestationalWeeks, onChange: setGestationalWeeks, inputMode: "numeric" as const },
+                    { label: t("form.neonatal.gaDays"), placeholder: digits("0–6"), value: gestationalDays, onChange: setGestationalDays, inputMode: "numeric" as const },
+                    { label: t("form.neonatal.postnatalDays"), placeholder: digits("0"), value: postnatalDays, onChange: setPostnatalDays, inputMode: "numeric" as const },
+                    { label: t("form.neonatal.birthWeight"), placeholder: t("form.example", { value: 1100 }), value: birthWeightGrams, onChange: setBirthWeightGrams, inputMode: "decimal" as const }
+                  ].map(({ label, placeholder, value, onChange, inputMode }) => (
+                    <div key={label}>
+                      <label className="block text-xs font-medium text-gray-600 mb-2 uppercase tracking-wide">
+                        {label}
+                      </label>
+                      <input
+                        type="text"
+                        inputMode={inputMode}
+                        placeholder={placeholder}
+                        value={value}
+                        onChange={e => onChange(e.target.value)}
+                        onWheel={handleWheel}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 text-xs text-gray-500 flex items-center">
+                  <Info className="me-1" size={12} />
+                  {neonatalMode ? t("form.neonatal.active") : t("form.neonatal.hint")}
+                </div>
+              </div>
+            </div>
+
+            {/* Environment */}
+            <div className="mb-8">
+              <h3 className="text-lg font-medium text-gray-700 mb-4 flex items-center">
+                <Droplets className="me-2" size={20} />
+                {t("form.environment")}
+              </h3>
+              <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-2 uppercase tracking-wide">{t("form.careSetting")}</label>
+                    <select
+                      value={careSetting}
+                      onChange={e => handleCareSettingChange(e.target.value as CareSetting)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white"
+                    >
+                      {CARE_SETTINGS.map(setting => (
+                        <option key={setting} value={setting}>{t(`careSetting.${setting}`)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {[
+                    {
+                      label: careSetting === "incubator" ? t("form.humidity.incubator") : t("form.humidity.ambient"),
+                      placeholder: t("form.example", { value: careSetting === "incubator" ? 80 : 40 }),
+                      value: relativeHumidity,
+                      onChange: setRelativeHumidity
+                    },
+                    {
+                      label: t("form.airTemperature", { unit: TEMPERATURE_UNIT_LABELS[temperatureUnit] }),
+                      placeholder: t("form.airTemperature.placeholder", { value: DEFAULT_AIR_TEMPERATURE_C[careSetting] }),
+                      value: airTemperature,
+                      onChange: setAirTemperature
+                    }
+                  ].map(({ label, placeholder, value, onChange }) => (
+                    <div key={label}>
+                      <label className="block text-xs font-medium text-gray-600 mb-2 uppercase tracking-wide">
+                        {label}
+                      </label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder={placeholder}
+                        value={value}
+                        onChange={e => onChange(e.target.value)}
+                        onWheel={handleWheel}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 text-xs text-gray-500 flex items-center">
+                  <Info className="me-1" size={12} />
+                  {t("form.environment.hint")}
+                </div>
+              </div>
             </div>
 
             {/* Additional Adjustments */}
             <div className="mb-8">
-              <h3 className="text-lg font-medium text-gray-700 mb-4">Additional Adjustments</h3>
+              <h3 className="text-lg font-medium text-gray-700 mb-4">{t("form.adjustments")}</h3>
               <div className="grid md:grid-cols-2 gap-4">
-                {[
-                  { key: 'phototherapy', icon: Sun, color: 'text-yellow-500', label: 'Phototherapy' },
-                  { key: 'radiantWarmer', icon: Thermometer, color: 'text-red-500', label: 'Radiant Warmer' },
-                  { key: 'lowHumidity', icon: Droplets, color: 'text-blue-500', label: 'Low Humidity' },
-                  { key: 'burns', icon: Flame, color: 'text-orange-500', label: 'Burns' }
-                ].map(({ key, icon: Icon, color, label }) => (
+                {factorOptions.map(({ key, excludes, references, icon: Icon, color, label }) => (
                   <div key={key} className="relative">
                     <label 
-                      className="flex items-center space-x-3 cursor-pointer hover:bg-gray-50 p-4 rounded-lg transition-all border border-gray-200 hover:border-gray-300"
+                      className="flex items-center gap-3 cursor-pointer hover:bg-gray-50 p-4 rounded-lg transition-all border border-gray-200 hover:border-gray-300"
                       onMouseEnter={() => setHoveredFactor(key)}
                       onMouseLeave={() => setHoveredFactor(null)}
                     >
                       <input
                         type="checkbox"
-                        checked={factors[key as keyof typeof factors]}
-                        onChange={() => handleFactorChange(key as keyof typeof factors)}
+                        checked={factors[key]}
+                        onChange={() => handleFactorChange(key)}
                         className="rounded w-5 h-5 text-blue-600 focus:ring-blue-500"
                       />
                       <Icon className={color} size={24} />
                       <span className="text-lg font-medium">{label}</span>
                     </label>
                     {hoveredFactor === key && (
-                      <div className="absolute top-full mt-2 left-0 z-20 w-full bg-white border border-gray-200 rounded-lg shadow-xl p-4">
+                      <div className="absolute top-full mt-2 start-0 z-20 w-full bg-white border border-gray-200 rounded-lg shadow-xl p-4">
                         <div className="flex items-center mb-2">
-                          <Icon className={`${color} mr-2`} size={20} />
+                          <Icon className={`${color} me-2`} size={20} />
                           <span className="font-semibold text-lg">{label}</span>
                         </div>
-                        <p className="text-base text-gray-600">{factorExplanations[key as keyof typeof factorExplanations]}</p>
+                        <p className="text-base text-gray-600">{factorExplanation(key)}</p>
+                        {excludes.length > 0 && (
+                          <p className="text-sm text-gray-500 mt-2">
+                            {t("factor.excludes", { factors: excludes.map(excluded => t(`factor.${excluded}`)).join(", ") })}
+                          </p>
+                        )}
+                        <div className="text-xs text-gray-500 mt-2">
+                          <span className="font-semibold">{t("factor.references")}</span>
+                          <ul className="list-disc ps-4">
+                            {references.map(reference => <li key={reference}>{reference}</li>)}
+                          </ul>
+                        </div>
                       </div>
                     )}
+                    {key !== "burns" && factors[key] && (
+                      <FactorExposureFields
+                        factor={key as PercentFactorKey}
+                        exposure={factorExposures[key as PercentFactorKey] ?? DEFAULT_FACTOR_EXPOSURE}
+                        onChange={exposure => setFactorExposures(prev => ({ ...prev, [key]: exposure }))}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
+              {factors.burns && (
+                <BurnAssessmentForm
+                  ageMonths={getAgeInMonths(ageYears, ageMonthsOnly, locale)}
+                  locale={locale}
+                  regions={burnRegions}
+                  onChange={setBurnRegions}
+                />
+              )}
             </div>
 
             <button 
               onClick={calculateIWL} 
               className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-4 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all text-xl font-semibold shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
             >
-              Calculate IWL
+              {t("form.calculate")}
             </button>
           </div>
 
           {/* Results Section - Now full width */}
           {result && (
             <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-              <h3 className="text-2xl font-semibold text-gray-800 mb-6">Results</h3>
+              <h3 className="text-2xl font-semibold text-gray-800 mb-2">{t("results.title")}</h3>
+              <p className="text-sm text-gray-500 mb-6">
+                {t("results.protocol", { protocol: formatProtocolName(result.protocol), version: result.engineVersion })}
+              </p>
+
+              {result.neonatal && (
+                <div className="bg-teal-50 border-s-4 border-teal-400 text-teal-800 px-6 py-3 rounded-lg mb-6 flex items-center">
+                  <Baby className="me-3 flex-shrink-0" size={20} />
+                  <span>
+                    {t("results.neonatalMode", { band: getNeonatalBandLabel(result.neonatal.band, i18n), day: result.neonatal.postnatalAgeDays })}
+                  </span>
+                </div>
+              )}
               
+              <ClinicalWarnings warnings={result.warnings} />
+
+              {result.growth.alerts.map(alert => (
+                <div key={alert.message} className="bg-amber-50 border-s-4 border-amber-400 text-amber-800 px-6 py-3 rounded-lg mb-6 flex items-center">
+                  <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+                  <span>{i18n.message(alert)}</span>
+                </div>
+              ))}
+
               <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-6 rounded-xl border border-blue-200 mb-6">
                 <div className="grid md:grid-cols-2 gap-6">
                   <div>
-                    <p className="text-sm font-medium text-gray-600">Daily IWL</p>
+                    <p className="text-sm font-medium text-gray-600">{t("results.daily")}</p>
                     <p className="text-2xl font-bold text-blue-600">
-                      {result.totalIWL_low} – {result.totalIWL_high} <span className="text-lg">mL/day</span>
+                      {digits(result.totalIWL_low)} – {digits(result.totalIWL_high)} <span className="text-lg">{t("unit.mlPerDay")}</span>
                     </p>
                   </div>
+                  {/* With a timed factor the highest hour leads, and the 24-hour average follows as such. */}
                   <div>
-                    <p className="text-sm font-medium text-gray-600">Hourly IWL</p>
+                    <p className="text-sm font-medium text-gray-600">{t(getProfileExtremes(result) ? "results.hourlyPeak" : "results.hourly")}</p>
                     <p className="text-2xl font-bold text-purple-600">
-                      {result.hourly_low} – {result.hourly_high} <span className="text-lg">mL/hour</span>
+                      {digits(result.peakHourly_low)} – {digits(result.peakHourly_high)} <span className="text-lg">{t("unit.mlPerHour")}</span>
                     </p>
+                    {getProfileExtremes(result) && (
+                      <p className="text-sm text-gray-600">{t("results.hourlyAverage", { low: digits(result.hourly_low), high: digits(result.hourly_high) })}</p>
+                    )}
                   </div>
                 </div>
               </div>
 
+              <HourlyProfileChart result={result} />
+
+              {resultInput && <ExportActions result={result} input={resultInput} conversions={resultConversions} />}
+
+              {resultForm && <ShareLink form={resultForm} protocol={result.protocol} />}
+
               <button
                 onClick={() => setShowDetails(!showDetails)}
                 className="w-full text-blue-700 hover:text-blue-900 font-medium flex items-center justify-center py-3 px-4 rounded-lg hover:bg-blue-50 transition-all"
               >
-                {showDetails ? <ChevronUp className="mr-2" size={20} /> : <ChevronDown className="mr-2" size={20} />}
-                How it's calculated
+                {showDetails ? <ChevronUp className="me-2" size={20} /> : <ChevronDown className="me-2" size={20} />}
+                {t("results.howCalculated")}
               </button>
             </div>
           )}
 
+          {/* Neonatal Calculation */}
+          {result && showDetails && result.neonatal && (
+            <NeonatalBreakdown
+              estimate={result.neonatal}
+              baseIWL_low={result.baseIWL_low}
+              baseIWL_high={result.baseIWL_high}
+            />
+          )}
+
           {/* Detailed Calculation */}
           {result && showDetails && (
             <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-              <h3 className="text-2xl font-semibold text-blue-700 mb-6">Step-by-Step Calculation</h3>
+              <h3 className="text-2xl font-semibold text-blue-700 mb-6">{t("steps.title")}</h3>
               
               <div className="space-y-6">
-                {/* Step 1: BSA */}
-                <div className="bg-blue-50 p-6 rounded-xl">
-                  <h4 className="font-semibold mb-3 text-blue-700 text-lg">Step 1: Calculate Body Surface Area (BSA)</h4>
-                  <div className="space-y-2 text-gray-700">
-                    <div><strong>Formula:</strong> BSA = √((height × weight) / 3600)</div>
-                    <div><strong>Calculation:</strong> BSA = √(({height} × {weight}) / 3600)</div>
-                    <div><strong>Result:</strong> BSA = {result.bsa.toFixed(3)} m²</div>
+                {/* Unit Conversions */}
+                {resultConversions.length > 0 && (
+                  <div className="bg-gray-50 p-6 rounded-xl">
+                    <h4 className="font-semibold mb-3 text-gray-700 text-lg">{t("steps.conversions")}</h4>
+                    <div className="space-y-2 text-gray-700">
+                      {resultConversions.map(conversion => (
+                        <div key={conversion.label}>
+                          <strong>{translateFieldLabel(conversion.label, i18n)}:</strong>{" "}
+                          <Formula>{digits(conversion.entered)} → {digits(conversion.converted)}</Formula>
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                </div>
+                )}
 
-                {/* Step 2: Base IWL */}
-                <div className="bg-blue-50 p-6 rounded-xl">
-                  <h4 className="font-semibold mb-3 text-blue-700 text-lg">Step 2: Calculate Base IWL</h4>
-                  <div className="space-y-2 text-gray-700">
-                    <div><strong>Formula:</strong> Base IWL = 400–500 mL/m²/day × BSA</div>
-                    <div><strong>Calculation:</strong> Base IWL = 400–500 × {result.bsa.toFixed(3)}</div>
-                    <div><strong>Result:</strong> Base IWL = {result.baseIWL_low.toFixed(1)} – {result.baseIWL_high.toFixed(1)} mL/day</div>
+                {result.neonatal ? (
+                  <div className="bg-teal-50 p-6 rounded-xl">
+                    <h4 className="font-semibold mb-3 text-teal-700 text-lg">{t("steps.neonatalBase")}</h4>
+                    <div className="space-y-2 text-gray-700">
+                      <div>
+                        <strong>{t("steps.method")}</strong>{" "}
+                        {t("steps.neonatalMethod", { band: getNeonatalBandLabel(result.neonatal.band, i18n), day: result.neonatal.postnatalAgeDays })}
+                      </div>
+                      <div>
+                        <strong>{t("steps.result")}</strong>{" "}
+                        <Formula>{t("formula.baseIWL")} = {fixed(result.baseIWL_low, 1)} – {fixed(result.baseIWL_high, 1)} {t("unit.mlPerDay")}</Formula>
+                      </div>
+                    </div>
                   </div>
-                </div>
+                ) : (
+                  <>
+                    {/* Step 1: BSA */}
+                    <div className="bg-blue-50 p-6 rounded-xl">
+                      <h4 className="font-semibold mb-3 text-blue-700 text-lg">
+                        {t("steps.bsa", { method: BSA_METHODS[result.bsaMethod].label })}
+                      </h4>
+                      <div className="space-y-2 text-gray-700">
+                        <div><strong>{t("steps.formula")}</strong> <Formula>{digits(BSA_METHODS[result.bsaMethod].formula)}</Formula></div>
+                        <div>
+                          <strong>{t("steps.calculation")}</strong>{" "}
+                          <Formula>{digits(BSA_METHODS[result.bsaMethod].describe(result.height ?? 0, result.weight))}</Formula>
+                        </div>
+                        <div><strong>{t("steps.result")}</strong> <Formula>{t("formula.bsa")} = {fixed(result.bsa ?? 0, 3)} m²</Formula></div>
+                      </div>
+                    </div>
+
+                    {/* Step 2: Base IWL */}
+                    <div className="bg-blue-50 p-6 rounded-xl">
+                      <h4 className="font-semibold mb-3 text-blue-700 text-lg">{t("steps.base")}</h4>
+                      <div className="space-y-2 text-gray-700">
+                        <div>
+                          <strong>{t("steps.formula")}</strong>{" "}
+                          <Formula>
+                            {t("formula.baseIWL")} = {num(getProtocolValue(result.protocol, "baseIWLPerM2Low"))}–{num(getProtocolValue(result.protocol, "baseIWLPerM2High"))} {t("unit.mlPerM2PerDay")} × {t("formula.bsa")}
+                          </Formula>
+                        </div>
+                        <div>
+                          <strong>{t("steps.calculation")}</strong>{" "}
+                          <Formula>
+                            {t("formula.baseIWL")} = {num(getProtocolValue(result.protocol, "baseIWLPerM2Low"))}–{num(getProtocolValue(result.protocol, "baseIWLPerM2High"))} × {fixed(result.bsa ?? 0, 3)}
+                          </Formula>
+                        </div>
+                        <div>
+                          <strong>{t("steps.result")}</strong>{" "}
+                          <Formula>{t("formula.baseIWL")} = {fixed(result.baseIWL_low, 1)} – {fixed(result.baseIWL_high, 1)} {t("unit.mlPerDay")}</Formula>
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {/* Fever Adjustment */}
                 {result.feverAdjustment > 0 && (
                   <div className="bg-red-50 p-6 rounded-xl">
-                    <h4 className="font-semibold mb-3 text-red-700 text-lg">Step 3: Apply Fever Adjustment</h4>
+                    <h4 className="font-semibold mb-3 text-red-700 text-lg">{t("steps.fever", { step: 3 })}</h4>
                     <div className="space-y-2 text-gray-700">
-                      <div><strong>Formula:</strong> Fever Multiplier = 1 + (Temperature - 37) × 0.13</div>
-                      <div><strong>Calculation:</strong> Fever Multiplier = 1 + ({result.temperature} - 37) × 0.13</div>
-                      <div><strong>Result:</strong> Fever Multiplier = {result.feverMultiplier.toFixed(3)} (+{(result.feverAdjustment * 100).toFixed(1)}%)</div>
+                      <div>
+                        <strong>{t("steps.formula")}</strong>{" "}
+                        <Formula>
+                          {t("formula.feverMultiplier")} = {num(1)} + ({t("formula.temperature")} - {num(getProtocolValue(result.protocol, "feverThresholdC"))}) × {num(getProtocolValue(result.protocol, "feverCoefficient"))}
+                        </Formula>
+                      </div>
+                      <div>
+                        <strong>{t("steps.calculation")}</strong>{" "}
+                        <Formula>
+                          {t("formula.feverMultiplier")} = {num(1)} + ({num(result.temperature ?? 0, 2)} - {num(getProtocolValue(result.protocol, "feverThresholdC"))}) × {num(getProtocolValue(result.protocol, "feverCoefficient"))}
+                        </Formula>
+                      </div>
+                      <div>
+                        <strong>{t("steps.result")}</strong>{" "}
+                        <Formula>{t("formula.feverMultiplier")} = {fixed(result.feverMultiplier, 3)} (+{fixed(result.feverAdjustment * 100, 1)}%)</Formula>
+                      </div>
                     </div>
                   </div>
                 )}
@@ -446,33 +1003,85 @@ const PediatricIWLCalculator = () => {
                 {result.rrAdjustment > 0 && (
                   <div className="bg-green-50 p-6 rounded-xl">
                     <h4 className="font-semibold mb-3 text-green-700 text-lg">
-                      Step {result.feverAdjustment > 0 ? '4' : '3'}: Apply Respiratory Rate Adjustment
+                      {t("steps.rr", { step: result.feverAdjustment > 0 ? 4 : 3 })}
                     </h4>
                     <div className="space-y-2 text-gray-700">
-                      <div><strong>Formula:</strong> RR Adjustment = (RR - Normal Max RR) × 2 × Weight</div>
-                      <div><strong>Calculation:</strong> RR Adjustment = ({respiratoryRate} - {result.rrRange.max}) × 2 × {weight}</div>
-                      <div><strong>Result:</strong> RR Adjustment = +{result.rrAdjustment.toFixed(1)} mL/day</div>
+                      <div>
+                        <strong>{t("steps.formula")}</strong>{" "}
+                        <Formula>
+                          {t("formula.rrAdjustment")} = ({t("formula.rr")} - {t("formula.normalMaxRR")}) × {num(getProtocolValue(result.protocol, "rrMlPerKgPerBreath"))} × {t("formula.weight")}
+                        </Formula>
+                      </div>
+                      <div>
+                        <strong>{t("steps.calculation")}</strong>{" "}
+                        <Formula>
+                          {t("formula.rrAdjustment")} = ({num(result.respiratoryRate ?? 0)} - {num(result.rrRange.max)}) × {num(getProtocolValue(result.protocol, "rrMlPerKgPerBreath"))} × {num(result.weight)}
+                        </Formula>
+                      </div>
+                      <div>
+                        <strong>{t("steps.result")}</strong>{" "}
+                        <Formula>{t("formula.rrAdjustment")} = +{fixed(result.rrAdjustment, 1)} {t("unit.mlPerDay")}</Formula>
+                      </div>
                     </div>
                   </div>
                 )}
 
+                {/* Humidity Adjustment */}
+                {result.environment && (
+                  <HumidityCurve
+                    environment={result.environment}
+                    baseIWL_low={result.baseIWL_low}
+                    baseIWL_high={result.baseIWL_high}
+                    humidityAdjustment_low={result.humidityAdjustment_low}
+                    humidityAdjustment_high={result.humidityAdjustment_high}
+                  />
+                )}
+
                 {/* Additional Adjustments */}
                 {Object.values(result.factors).some(Boolean) && (
                   <div className="bg-purple-50 p-6 rounded-xl">
                     <h4 className="font-semibold mb-3 text-purple-700 text-lg">
-                      Additional Factor Adjustments
+                      {t("steps.factors")}
                     </h4>
                     <div className="space-y-3">
                       {Object.entries(result.factors).map(([key, val]) => {
                         if (!val) return null;
-                        const factorName = key === 'lowHumidity' ? 'Low Humidity' : key.charAt(0).toUpperCase() + key.slice(1);
-                        const percentage = (result.factorPercentages[key as keyof typeof result.factorPercentages] * 100);
-                        const lowAdjustment = (result.baseIWL_low * result.factorPercentages[key as keyof typeof result.factorPercentages]).toFixed(1);
-                        const highAdjustment = (result.baseIWL_high * result.factorPercentages[key as keyof typeof result.factorPercentages]).toFixed(1);
+                        if (key === 'burns' && result.burns) {
+                          return (
+                            <div key={key} className="bg-white p-4 rounded-lg">
+                              <div>
+                                <strong>{t("factor.burns")}:</strong>{" "}
+                                <Formula>{t("burns.factor", { tbsa: fixed(result.burns.totalTBSA, 1), rate: num(result.burns.evaporationRate) })}</Formula>
+                              </div>
+                              <div className="text-gray-600"><Formula>= +{fixed(result.burnAdjustment, 1)} {t("unit.mlPerDay")}</Formula></div>
+                            </div>
+                          );
+                        }
+                        const adjustment = result.factorAdjustments.find(candidate => candidate.key === key);
+                        if (!adjustment) return null;
+                        const percentage = result.factorPercentages[adjustment.key];
+                        const exposure = result.exposures[adjustment.key];
+                        const params = {
+                          sign: percentage < 0 ? "−" : "+",
+                          percent: num(Math.abs(percentage) * 100, 1),
+                          low: fixed(adjustment.basis_low, 1),
+                          high: fixed(adjustment.basis_high, 1)
+                        };
                         return (
                           <div key={key} className="bg-white p-4 rounded-lg">
-                            <div><strong>{factorName}:</strong> +{percentage}% of Base IWL</div>
-                            <div className="text-gray-600">= +{lowAdjustment} – {highAdjustment} mL/day</div>
+                            <div>
+                              <strong>{t(`factor.${adjustment.key}`)}:</strong>{" "}
+                              {adjustment.basis === "base" && t("steps.factorPercent", params)}
+                              {adjustment.basis === "skin" && t("steps.factorPercentSkin", params)}
+                              {adjustment.basis === "respiratory" && t("steps.factorPercentRespiratory", params)}
+                              {exposure?.mode === "duration" && ` ${t("steps.factorExposure", { hours: num(exposure.hours, 2) })}`}
+                              {exposure?.mode === "window" && ` ${t("steps.factorExposureWindow", {
+                                hours: num(adjustment.hours, 2),
+                                start: digits(formatClockTime(exposure.start)),
+                                end: digits(formatClockTime(exposure.end))
+                              })}`}
+                            </div>
+                            <div className="text-gray-600"><Formula>= {signed(adjustment.low)} – {signed(adjustment.high)} {t("unit.mlPerDay")}</Formula></div>
                           </div>
                         );
                       })}
@@ -480,20 +1089,58 @@ const PediatricIWLCalculator = () => {
                   </div>
                 )}
 
+                {/* Skin and Respiratory Components */}
+                <ComponentBreakdown result={result} />
+
+                {/* Growth Plausibility */}
+                <GrowthCheck growth={result.growth} />
+
+                {/* Burn Assessment */}
+                {result.burns && <BurnBreakdown burns={result.burns} />}
+
+                {/* BSA Formula Comparison */}
+                {result.method === "bsa" && resultInput && (
+                  <div className="bg-gray-50 p-6 rounded-xl">
+                    <button
+                      onClick={() => setShowBSAComparison(!showBSAComparison)}
+                      className="w-full text-start font-semibold text-gray-700 flex justify-between items-center hover:text-blue-700 text-lg"
+                    >
+                      <span>{t("steps.compareBSA")}</span>
+                      {showBSAComparison ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+                    </button>
+                    {showBSAComparison && (
+                      <div className="mt-4">
+                        <BSAComparisonTable rows={compareBSAMethods(resultInput, result.protocol)} selectedMethod={result.bsaMethod} />
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Final Calculation */}
-                <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-6 rounded-xl border-l-4 border-blue-500">
-                  <h4 className="font-semibold mb-3 text-blue-700 text-xl">Final Calculation</h4>
+                <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-6 rounded-xl border-s-4 border-blue-500">
+                  <h4 className="font-semibold mb-3 text-blue-700 text-xl">{t("steps.final")}</h4>
                   <div className="space-y-3 text-gray-700">
-                    <div><strong>Formula:</strong> Total IWL = (Base IWL × Fever Multiplier) + RR Adjustment + Additional Adjustments</div>
                     <div>
-                      <strong>Low Range:</strong> ({result.baseIWL_low.toFixed(1)} × {result.feverMultiplier.toFixed(3)}) + {result.rrAdjustment.toFixed(1)} + {result.additionalAdjustment_low.toFixed(1)} = {result.totalIWL_low} mL/day
+                      <strong>{t("steps.formula")}</strong>{" "}
+                      <Formula>
+                        {t("formula.totalIWL")} = ({t("formula.baseIWL")} × {t("formula.feverMultiplier")}) + {t("formula.rrAdjustment")} + {t("formula.additionalAdjustments")}
+                      </Formula>
+                    </div>
+                    <div>
+                      <strong>{t("steps.low")}</strong>{" "}
+                      <Formula>
+                        ({fixed(result.baseIWL_low, 1)} × {fixed(result.feverMultiplier, 3)}) + {fixed(result.rrAdjustment, 1)} + {fixed(result.additionalAdjustment_low, 1)} = {digits(result.totalIWL_low)} {t("unit.mlPerDay")}
+                      </Formula>
                     </div>
                     <div>
-                      <strong>High Range:</strong> ({result.baseIWL_high.toFixed(1)} × {result.feverMultiplier.toFixed(3)}) + {result.rrAdjustment.toFixed(1)} + {result.additionalAdjustment_high.toFixed(1)} = {result.totalIWL_high} mL/day
+                      <strong>{t("steps.high")}</strong>{" "}
+                      <Formula>
+                        ({fixed(result.baseIWL_high, 1)} × {fixed(result.feverMultiplier, 3)}) + {fixed(result.rrAdjustment, 1)} + {fixed(result.additionalAdjustment_high, 1)} = {digits(result.totalIWL_high)} {t("unit.mlPerDay")}
+                      </Formula>
                     </div>
                     <div className="mt-4 p-4 bg-blue-100 rounded-lg">
-                      <div className="font-semibold text-lg">Hourly IWL: {result.hourly_low} – {result.hourly_high} mL/hour</div>
-                      <div className="text-base text-gray-600">(Total Daily IWL ÷ 24 hours)</div>
+                      <div className="font-semibold text-lg">{t("steps.hourly", { low: digits(result.hourly_low), high: digits(result.hourly_high) })}</div>
+                      <div className="text-base text-gray-600">{t(getProfileExtremes(result) ? "steps.hourlyNoteProfile" : "steps.hourlyNote")}</div>
                     </div>
                   </div>
                 </div>
@@ -501,18 +1148,36 @@ const PediatricIWLCalculator = () => {
             </div>
           )}
 
+          {/* Sensitivity Analysis */}
+          {result && resultInput && <SensitivityPanel input={resultInput} protocol={result.protocol} locale={locale} />}
+
+          {/* Patient Sessions; remounted after the unit board so it reloads calculations saved there */}
+          <SessionPanel
+            key={view}
+            current={result && resultInput && resultForm ? { form: resultForm, input: resultInput, result } : null}
+            onLoad={loadForm}
+            activeSessionId={activeSessionId}
+            onSelectSession={setActiveSessionId}
+          />
+
+          {/* Fluid Planner */}
+          {result && <FluidPlanner result={result} locale={locale} />}
+
+          {/* Fluid Balance */}
+          {result && <FluidBalanceTracker result={result} locale={locale} />}
+
           {/* References Section */}
           <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
             <button
               onClick={() => setShowReferences(!showReferences)}
-              className="w-full text-left font-semibold text-gray-700 flex justify-between items-center hover:text-blue-700 text-lg py-2"
+              className="w-full text-start font-semibold text-gray-700 flex justify-between items-center hover:text-blue-700 text-lg py-2"
             >
-              <span>Scientific References</span>
+              <span>{t("references.title")}</span>
               {showReferences ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
             </button>
             {showReferences && (
               <div className="mt-6 text-base text-gray-800">
-                <ol className="list-decimal pl-6 space-y-3">
+                <ol className="list-decimal ps-6 space-y-3">
                   {references.map((ref, index) => (
                     <li key={index} className="leading-relaxed">{ref}</li>
                   ))}
@@ -524,28 +1189,32 @@ const PediatricIWLCalculator = () => {
           {/* Medical Disclaimer */}
           <div className="bg-red-50 rounded-2xl shadow-xl p-8 border border-red-200">
             <div className="font-semibold text-red-700 flex items-center mb-4 text-lg">
-              <AlertTriangle className="mr-3" size={24} />
-              <span>Medical Disclaimer</span>
+              <AlertTriangle className="me-3" size={24} />
+              <span>{t("disclaimer.title")}</span>
             </div>
             <div className="text-base text-red-800 space-y-3 leading-relaxed">
-              <p>
-                <strong>Important:</strong> This calculator is for educational and informational purposes only. 
-                The information provided may not be accurate and should not be considered as medical advice. 
-                Always consult with a qualified healthcare professional or neonatologist before making any clinical decisions.
-              </p>
-              <p>
-                This tool does not replace professional medical judgment, clinical assessment, or established protocols. 
-                Healthcare providers must verify all calculations and consider individual patient factors, institutional guidelines, 
-                and current evidence-based practices.
-              </p>
-              <p>
-                Use of this calculator is at your own risk. The developers assume no responsibility for any clinical decisions made based on this tool.
-              </p>
+              {disclaimer.map((paragraph, index) => (
+                <p key={index}>
+                  {index === 0 && <strong>{t("disclaimer.important")}</strong>}
+                  {paragraph}
+                </p>
+              ))}
             </div>
           </div>
         </div>
       </div>
+
+      {/* Printable Report */}
+      {result && (
+        <PrintReport
+          result={result}
+          conversions={resultConversions}
+          references={references}
+          disclaimer={DISCLAIMER_KEYS.map(key => t(key))}
+        />
+      )}
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,47 @@
+import { BSA_METHODS, BSAComparisonRow, BSAMethodId } from "../engine";
+import { useI18n } from "../i18n";
+import Formula from "./Formula";
+
+interface BSAComparisonTableProps {
+  rows: BSAComparisonRow[];
+  selectedMethod: BSAMethodId;
+}
+
+const BSAComparisonTable = ({ rows, selectedMethod }: BSAComparisonTableProps) => {
+  const { t, fixed, digits } = useI18n();
+  const selected = rows.find(row => row.bsaMethod === selectedMethod);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-start text-gray-700">
+        <thead>
+          <tr className="border-b border-gray-200 text-sm uppercase tracking-wide text-gray-500">
+            <th className="py-2 pe-4">{t("bsa.formula")}</th>
+            <th className="py-2 pe-4">{t("bsa.bsa")}</th>
+            <th className="py-2 pe-4">{t("bsa.daily")}</th>
+            <th className="py-2">{t("bsa.delta")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const isSelected = row.bsaMethod === selectedMethod;
+            const delta = selected ? parseFloat(row.totalIWL_low) - parseFloat(selected.totalIWL_low) : 0;
+            return (
+              <tr key={row.bsaMethod} className={`border-b border-gray-100 ${isSelected ? "bg-blue-50 font-semibold" : ""}`}>
+                <td className="py-2 pe-4">
+                  <div>{BSA_METHODS[row.bsaMethod].label}</div>
+                  <div className="text-xs text-gray-500 font-normal"><Formula>{digits(BSA_METHODS[row.bsaMethod].formula)}</Formula></div>
+                </td>
+                <td className="py-2 pe-4">{fixed(row.bsa, 3)}</td>
+                <td className="py-2 pe-4">{digits(row.totalIWL_low)} – {digits(row.totalIWL_high)}</td>
+                <td className="py-2"><bdi dir="ltr">{isSelected ? "—" : `${delta >= 0 ? "+" : ""}${fixed(delta, 1)}`}</bdi></td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BSAComparisonTable;
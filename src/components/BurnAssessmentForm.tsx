@@ -0,0 +1,117 @@
+import { AlertTriangle, Flame } from "lucide-react";
+import {
+  BurnRegionGroup,
+  getLundBrowderAgeBand,
+  IWLFormValues,
+  LUND_BROWDER_REGIONS,
+  parseLocaleNumber
+} from "../engine";
+import { getBurnAgeBandLabel, MessageKey, useI18n } from "../i18n";
+
+type BurnRegionValues = IWLFormValues["burnRegions"];
+
+interface BurnAssessmentFormProps {
+  ageMonths?: number;
+  regions: BurnRegionValues;
+  locale: string;
+  onChange: (regions: BurnRegionValues) => void;
+}
+
+const GROUPS: Record<BurnRegionGroup, MessageKey> = {
+  "Head & Neck": "burns.group.head",
+  Trunk: "burns.group.trunk",
+  Arms: "burns.group.arms",
+  Legs: "burns.group.legs"
+};
+
+const inputClassName = "w-full px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-orange-400 focus:border-transparent transition-all bg-white";
+
+const BurnAssessmentForm = ({ ageMonths, regions, locale, onChange }: BurnAssessmentFormProps) => {
+  const i18n = useI18n();
+  const { t, fixed, num, digits, message } = i18n;
+  const ageBand = getLundBrowderAgeBand(ageMonths);
+
+  const update = (id: keyof BurnRegionValues, field: "partialThickness" | "fullThickness", value: string) => {
+    const current = regions[id] ?? { partialThickness: "", fullThickness: "" };
+    onChange({ ...regions, [id]: { ...current, [field]: value } });
+  };
+
+  // Labelled as the calculator labels them, so a typing error reads the same here and on Calculate.
+  const parsed = LUND_BROWDER_REGIONS.flatMap(region => {
+    const entry = regions[region.id];
+    if (!entry) return [];
+    return [{
+      region,
+      partial: parseLocaleNumber(entry.partialThickness, locale, `${region.label} (partial)`),
+      full: parseLocaleNumber(entry.fullThickness, locale, `${region.label} (full)`)
+    }];
+  });
+  const parseError = parsed.flatMap(({ partial, full }) => [partial.error, full.error]).find(error => error !== null) ?? null;
+  const totalTBSA = parsed.reduce(
+    (sum, { region, partial, full }) => sum + region.percent(ageBand) * ((partial.value ?? 0) + (full.value ?? 0)) / 100,
+    0
+  );
+
+  return (
+    <div className="mt-4 bg-orange-50 p-4 rounded-lg border border-orange-200">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-orange-700 flex items-center">
+          <Flame className="me-2" size={18} />
+          {t("burns.title", { band: getBurnAgeBandLabel(ageBand, i18n) })}
+        </h4>
+        <span className="font-semibold text-orange-700">{t("burns.tbsa", { tbsa: fixed(totalTBSA, 1) })}</span>
+      </div>
+      <p className="text-xs text-gray-600 mb-4">
+        {t("burns.hint")}
+      </p>
+      {parseError && (
+        <p className="text-sm text-red-700 mb-4 flex items-center">
+          <AlertTriangle className="me-2 flex-shrink-0" size={16} />
+          {message(parseError)}
+        </p>
+      )}
+      {ageMonths === undefined && (
+        <p className="text-xs text-orange-800 font-medium mb-4">
+          {t("burns.ageBandAssumed", { band: getBurnAgeBandLabel(ageBand, i18n) })}
+        </p>
+      )}
+      <div className="grid md:grid-cols-2 gap-4">
+        {(Object.keys(GROUPS) as BurnRegionGroup[]).map(group => (
+          <div key={group} className="bg-white p-3 rounded-lg border border-orange-100">
+            <div className="text-xs font-medium text-gray-600 uppercase tracking-wide mb-2">{t(GROUPS[group])}</div>
+            <div className="grid grid-cols-[1fr_4rem_4rem] gap-2 items-center text-sm">
+              <span className="text-xs text-gray-500">{t("burns.regionColumn")}</span>
+              <span className="text-xs text-gray-500">{t("burns.partialPercent")}</span>
+              <span className="text-xs text-gray-500">{t("burns.fullPercent")}</span>
+              {LUND_BROWDER_REGIONS.filter(region => region.group === group).map(region => (
+                <div key={region.id} className="contents">
+                  <span>{t(`burns.region.${region.id}`)} ({num(region.percent(ageBand))}%)</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={digits("0")}
+                    aria-label={t("burns.partialLabel", { region: t(`burns.region.${region.id}`) })}
+                    value={regions[region.id]?.partialThickness ?? ""}
+                    onChange={e => update(region.id, "partialThickness", e.target.value)}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={digits("0")}
+                    aria-label={t("burns.fullLabel", { region: t(`burns.region.${region.id}`) })}
+                    value={regions[region.id]?.fullThickness ?? ""}
+                    onChange={e => update(region.id, "fullThickness", e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BurnAssessmentForm;
@@ -0,0 +1,77 @@
+import { BurnAssessment } from "../engine";
+import { getBurnAgeBandLabel, useI18n } from "../i18n";
+import Formula from "./Formula";
+
+interface BurnBreakdownProps {
+  burns: BurnAssessment;
+}
+
+const BurnBreakdown = ({ burns }: BurnBreakdownProps) => {
+  const i18n = useI18n();
+  const { t, fixed, num } = i18n;
+  const phases = (volumes: BurnAssessment["parkland"]) => t("burns.phases", { first: fixed(volumes.first8h, 0), next: fixed(volumes.next16h, 0) });
+
+  return (
+    <div className="bg-orange-50 p-6 rounded-xl">
+      <h4 className="font-semibold mb-3 text-orange-700 text-lg">{t("burns.title", { band: getBurnAgeBandLabel(burns.ageBand, i18n) })}</h4>
+      {burns.ageBandAssumed && (
+        <p className="text-sm text-orange-800 font-medium mb-3">
+          {t("burns.ageBandAssumed", { band: getBurnAgeBandLabel(burns.ageBand, i18n) })}
+        </p>
+      )}
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-start text-gray-700">
+          <thead>
+            <tr className="border-b border-orange-200 text-sm uppercase tracking-wide text-gray-500">
+              <th className="py-2 pe-4">{t("burns.region")}</th>
+              <th className="py-2 pe-4">{t("burns.regionPercent")}</th>
+              <th className="py-2 pe-4">{t("burns.partial")}</th>
+              <th className="py-2">{t("burns.full")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {burns.regions.map(region => (
+              <tr key={region.id} className="border-b border-orange-100">
+                <td className="py-2 pe-4">{t(`burns.region.${region.id}`)}</td>
+                <td className="py-2 pe-4">{num(region.regionPercent)}%</td>
+                <td className="py-2 pe-4">{fixed(region.partialTBSA, 2)}%</td>
+                <td className="py-2">{fixed(region.fullTBSA, 2)}%</td>
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td className="py-2 pe-4" colSpan={2}>{t("burns.total", { tbsa: fixed(burns.totalTBSA, 1) })}</td>
+              <td className="py-2 pe-4">{fixed(burns.partialTBSA, 1)}%</td>
+              <td className="py-2">{fixed(burns.fullTBSA, 1)}%</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div className="space-y-2 text-gray-700">
+        <div>
+          <strong>{t("burns.evaporativeLoss")}</strong>{" "}
+          <Formula>
+            %TBSA × {t("formula.bsa")} × {t("formula.rate")} × {num(24)} = {fixed(burns.totalTBSA, 1)} × {fixed(burns.bsa, 3)} × {num(burns.evaporationRate)} × {num(24)}
+            {" "}= +{fixed(burns.evaporativeLoss, 1)} {t("unit.mlPerDay")}
+          </Formula>
+        </div>
+        <div className="text-sm text-gray-500">{t("burns.rateNote", { rate: num(burns.evaporationRate) })}</div>
+      </div>
+      <div className="mt-4 bg-white p-4 rounded-lg space-y-2 text-gray-700">
+        <div className="font-semibold">{t("burns.resuscitation")}</div>
+        <div>
+          <strong>{t("burns.parkland")}</strong>{" "}
+          <Formula>{num(4)} mL × kg × {t("burns.tbsa", { tbsa: fixed(burns.totalTBSA, 1) })} = {fixed(burns.parkland.total, 0)} mL</Formula>
+          {" "}{phases(burns.parkland)}
+        </div>
+        <div>
+          <strong>{t("burns.galveston")}</strong>{" "}
+          <Formula>{t("burns.galvestonFormula")} = {fixed(burns.galveston.total, 0)} mL</Formula>
+          {" "}{phases(burns.galveston)}
+        </div>
+        <div className="text-sm text-gray-500">{t("burns.resuscitationNote")}</div>
+      </div>
+    </div>
+  );
+};
+
+export default BurnBreakdown;
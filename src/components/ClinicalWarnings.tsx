@@ -0,0 +1,42 @@
+import { AlertOctagon, AlertTriangle, Info, LucideIcon } from "lucide-react";
+import { ClinicalWarning, WarningSeverity } from "../engine";
+import { useI18n } from "../i18n";
+
+interface ClinicalWarningsProps {
+  warnings: ClinicalWarning[];
+}
+
+const SEVERITY_STYLES: Record<WarningSeverity, { Icon: LucideIcon; className: string }> = {
+  critical: { Icon: AlertOctagon, className: "bg-red-50 border-red-500 text-red-800" },
+  warning: { Icon: AlertTriangle, className: "bg-amber-50 border-amber-400 text-amber-800" },
+  info: { Icon: Info, className: "bg-blue-50 border-blue-300 text-blue-800" }
+};
+
+const ClinicalWarnings = ({ warnings }: ClinicalWarningsProps) => {
+  const { t, message } = useI18n();
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      {warnings.map(warning => {
+        const { Icon, className } = SEVERITY_STYLES[warning.severity];
+        return (
+          <div
+            key={warning.code}
+            role={warning.severity === "critical" ? "alert" : "status"}
+            className={`border-s-4 px-6 py-3 rounded-lg flex items-center ${className}`}
+          >
+            <Icon className="me-3 flex-shrink-0" size={20} />
+            <span>
+              <strong>{t(`warning.severity.${warning.severity}`)}:</strong> {message(warning)}
+              <span className="ms-2 text-xs opacity-70">{warning.code}</span>
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ClinicalWarnings;
@@ -0,0 +1,50 @@
+import { CalculationResult, getComponentShare, IWLComponent, IWLComponentPart } from "../engine";
+import { useI18n } from "../i18n";
+
+interface ComponentBreakdownProps {
+  result: CalculationResult;
+}
+
+/** The total split into skin and respiratory routes, with every part that feeds each one. */
+const ComponentBreakdown = ({ result }: ComponentBreakdownProps) => {
+  const { t, fixed, num } = useI18n();
+  const signed = (value: number) => `${value < 0 ? "−" : "+"}${fixed(Math.abs(value), 1)}`;
+
+  const partLabel = (part: IWLComponentPart, component: IWLComponent) => {
+    if (part.source === "factor" && part.factor) return t(`factor.${part.factor}`);
+    if (part.source === "base") return t("components.base", { percent: num(getComponentShare(result, component.key) * 100, 1) });
+    return t(`components.${part.source as Exclude<IWLComponentPart["source"], "base" | "factor">}`);
+  };
+
+  return (
+    <div className="bg-cyan-50 p-6 rounded-xl">
+      <h4 className="font-semibold mb-3 text-cyan-700 text-lg">{t("components.title")}</h4>
+      <div className="grid md:grid-cols-2 gap-4">
+        {result.components.map(component => (
+          <div key={component.key} className="bg-white p-4 rounded-lg">
+            <div className="font-semibold text-gray-800 mb-2">{t(`components.${component.key}`)}</div>
+            <table className="w-full text-start text-gray-700 text-sm">
+              <tbody>
+                {component.parts.map(part => (
+                  <tr key={part.factor ?? part.source} className="border-b border-cyan-100">
+                    <td className="py-1 pe-4">{partLabel(part, component)}</td>
+                    <td className={`py-1 text-end whitespace-nowrap ${part.high < 0 ? "text-emerald-700" : ""}`}>
+                      {signed(part.low)} – {signed(part.high)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="py-1 pe-4">{t("components.subtotal")}</td>
+                  <td className="py-1 text-end whitespace-nowrap">{fixed(component.low, 1)} – {fixed(component.high, 1)} {t("unit.mlPerDay")}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-gray-500 mt-3">{t("components.note")}</p>
+    </div>
+  );
+};
+
+export default ComponentBreakdown;
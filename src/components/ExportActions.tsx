@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { ClipboardCopy, FileJson, FileSpreadsheet, Printer } from "lucide-react";
+import {
+  buildCalculationExport,
+  buildClinicalNote,
+  buildCSVHeader,
+  buildCSVRow,
+  CalculationResult,
+  FormConversion,
+  IWLInput
+} from "../engine";
+import { useI18n } from "../i18n";
+
+interface ExportActionsProps {
+  result: CalculationResult;
+  input: IWLInput;
+  conversions: FormConversion[];
+}
+
+const download = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const buttonClassName = "flex items-center justify-center px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-blue-700 transition-all font-medium";
+
+const ExportActions = ({ result, input, conversions }: ExportActionsProps) => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState("");
+
+  const stamp = () => new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+
+  const copyNote = async () => {
+    try {
+      await navigator.clipboard.writeText(buildClinicalNote(result));
+      setStatus(t("export.copied"));
+    } catch {
+      setStatus(t("export.copyBlocked"));
+    }
+  };
+
+  const exportJSON = () =>
+    download(JSON.stringify(buildCalculationExport(result, input, conversions), null, 2), "application/json", `iwl-${stamp()}.json`);
+
+  const exportCSV = () =>
+    download(`${buildCSVHeader()}\n${buildCSVRow(result, input)}\n`, "text/csv", `iwl-${stamp()}.csv`);
+
+  return (
+    <div className="mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <button onClick={copyNote} className={buttonClassName}>
+          <ClipboardCopy className="me-2" size={18} />
+          {t("export.copyNote")}
+        </button>
+        <button onClick={exportJSON} className={buttonClassName}>
+          <FileJson className="me-2" size={18} />
+          JSON
+        </button>
+        <button onClick={exportCSV} className={buttonClassName}>
+          <FileSpreadsheet className="me-2" size={18} />
+          CSV
+        </button>
+        <button onClick={() => window.print()} className={buttonClassName}>
+          <Printer className="me-2" size={18} />
+          {t("export.print")}
+        </button>
+      </div>
+      {status && <p className="text-sm text-gray-600 mt-3">{status}</p>}
+    </div>
+  );
+};
+
+export default ExportActions;
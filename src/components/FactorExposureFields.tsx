@@ -0,0 +1,76 @@
+import { Clock } from "lucide-react";
+import { EXPOSURE_MODES, ExposureMode, FactorExposureForm, PercentFactorKey } from "../engine";
+import { useI18n } from "../i18n";
+
+interface FactorExposureFieldsProps {
+  factor: PercentFactorKey;
+  exposure: FactorExposureForm;
+  onChange: (exposure: FactorExposureForm) => void;
+}
+
+const inputClassName = "w-full px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white";
+
+const FactorExposureFields = ({ factor, exposure, onChange }: FactorExposureFieldsProps) => {
+  const { t } = useI18n();
+  const id = `exposure-${factor}`;
+  const update = (field: keyof FactorExposureForm, value: string) => onChange({ ...exposure, [field]: value });
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-gray-50 border border-gray-200 space-y-2">
+      <label htmlFor={`${id}-mode`} className="flex items-center text-sm font-medium text-gray-700">
+        <Clock className="me-2 text-gray-500" size={16} />
+        {t("exposure.label")}
+      </label>
+      <select
+        id={`${id}-mode`}
+        value={exposure.mode}
+        onChange={e => onChange({ ...exposure, mode: e.target.value as ExposureMode })}
+        className={inputClassName}
+      >
+        {EXPOSURE_MODES.map(mode => <option key={mode} value={mode}>{t(`exposure.mode.${mode}`)}</option>)}
+      </select>
+      {exposure.mode === "duration" && (
+        <div>
+          <label htmlFor={`${id}-hours`} className="block text-sm text-gray-600 mb-1">{t("exposure.hours")}</label>
+          <input
+            id={`${id}-hours`}
+            type="text"
+            inputMode="decimal"
+            value={exposure.hours}
+            onChange={e => update("hours", e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      )}
+      {exposure.mode === "window" && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`${id}-start`} className="block text-sm text-gray-600 mb-1">{t("exposure.start")}</label>
+              <input
+                id={`${id}-start`}
+                type="time"
+                value={exposure.start}
+                onChange={e => update("start", e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor={`${id}-end`} className="block text-sm text-gray-600 mb-1">{t("exposure.end")}</label>
+              <input
+                id={`${id}-end`}
+                type="time"
+                value={exposure.end}
+                onChange={e => update("end", e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">{t("exposure.overnight")}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FactorExposureFields;
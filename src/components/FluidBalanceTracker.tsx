@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { AlertTriangle, ClipboardList, Plus, Trash2 } from "lucide-react";
+import {
+  BALANCE_FIELD_KEYS,
+  BALANCE_WINDOWS,
+  BalanceFieldKey,
+  BalanceRange,
+  calculateFluidBalance,
+  CalculationResult,
+  DEFAULT_NEGATIVE_THRESHOLD_ML_PER_KG,
+  FluidBalance,
+  FluidBalanceEntry,
+  INTAKE_KEYS,
+  MAX_BALANCE_HOURS,
+  OUTPUT_KEYS,
+  parseLocaleNumber,
+  validateFluidBalanceInput
+} from "../engine";
+import { I18n, useI18n } from "../i18n";
+
+interface FluidBalanceTrackerProps {
+  result: CalculationResult;
+  locale: string;
+}
+
+type EntryText = Partial<Record<BalanceFieldKey, string>>;
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 20, right: 20, bottom: 32, left: 56 };
+
+const cellClassName = "w-16 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-end bg-white";
+
+const signed = (value: number, { fixed }: I18n) => `${value < 0 ? "−" : "+"}${fixed(Math.abs(value), 0)}`;
+const formatRange = (range: BalanceRange, i18n: I18n) =>
+  i18n.t("balance.range", { low: signed(range.low, i18n), high: signed(range.high, i18n) });
+
+const hourLabel = (startHour: number, index: number, { digits }: I18n) => digits(`${String((startHour + index) % 24).padStart(2, "0")}:00`);
+
+const BalanceChart = ({ balance, startHour }: { balance: FluidBalance; startHour: number }) => {
+  const i18n = useI18n();
+  const values = balance.hours.flatMap(hour => [hour.net.low, hour.net.high, hour.running[24].low, hour.running[24].high]);
+  const maxValue = Math.max(...values, 0, 1);
+  const minValue = Math.min(...values, -balance.thresholdMl, -1);
+  const slot = (WIDTH - PADDING.left - PADDING.right) / MAX_BALANCE_HOURS;
+  const x = (hour: number) => PADDING.left + hour * slot;
+  const y = (value: number) => PADDING.top + (maxValue - value) / (maxValue - minValue) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-white rounded-lg" role="img" aria-label={i18n.t("balance.chart")}>
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(-balance.thresholdMl)} y2={y(-balance.thresholdMl)} stroke="#ef4444" strokeDasharray="4 3" />
+      <text x={PADDING.left - 8} y={y(maxValue) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{signed(maxValue, i18n)}</text>
+      <text x={PADDING.left - 8} y={y(0) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{i18n.num(0)}</text>
+      <text x={PADDING.left - 8} y={y(minValue) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{signed(minValue, i18n)}</text>
+      <text x={12} y={HEIGHT / 2} fontSize="11" fill="#6b7280" transform={`rotate(-90 12 ${HEIGHT / 2})`} textAnchor="middle">{i18n.t("unit.ml")}</text>
+
+      {balance.hours.map(hour => (
+        <g key={hour.hour}>
+          <rect
+            x={x(hour.hour) + slot * 0.15}
+            width={slot * 0.7}
+            y={Math.min(y(hour.net.low), y(0))}
+            height={Math.abs(y(hour.net.low) - y(0))}
+            fill={hour.flagged ? "#fca5a5" : "#bfdbfe"}
+          />
+          {hour.hour % 3 === 0 && (
+            <text x={x(hour.hour) + slot / 2} y={HEIGHT - 12} textAnchor="middle" fontSize="10" fill="#6b7280">{hourLabel(startHour, hour.hour, i18n)}</text>
+          )}
+        </g>
+      ))}
+      <polyline
+        points={balance.hours.map(hour => `${x(hour.hour) + slot / 2},${y(hour.running[24].high)}`).join(" ")}
+        fill="none"
+        stroke="#7c3aed"
+        strokeWidth={2}
+      />
+      <polyline
+        points={balance.hours.map(hour => `${x(hour.hour) + slot / 2},${y(hour.running[24].low)}`).join(" ")}
+        fill="none"
+        stroke="#2563eb"
+        strokeWidth={2}
+      />
+    </svg>
+  );
+};
+
+const FluidBalanceTracker = ({ result, locale }: FluidBalanceTrackerProps) => {
+  const i18n = useI18n();
+  const { t, fixed, digits, message } = i18n;
+  const [startHour, setStartHour] = useState(7);
+  const [rows, setRows] = useState<EntryText[]>([{}]);
+  const [threshold, setThreshold] = useState(String(DEFAULT_NEGATIVE_THRESHOLD_ML_PER_KG));
+
+  const parsedRows = rows.map((row, index) =>
+    BALANCE_FIELD_KEYS.map(key => ({
+      key,
+      parsed: parseLocaleNumber(row[key] ?? "", locale, t("balance.cell", { hour: hourLabel(startHour, index, i18n), entry: t(`balance.field.${key}`) }))
+    }))
+  );
+  const parsedThreshold = parseLocaleNumber(threshold, locale, t("balance.thresholdField"));
+  const parseError = [...parsedRows.flat().map(field => field.parsed), parsedThreshold].find(parsed => parsed.error !== null)?.error ?? null;
+
+  const balanceInput = {
+    weightKg: result.weight,
+    iwlHourly_low: parseFloat(result.hourly_low),
+    iwlHourly_high: parseFloat(result.hourly_high),
+    iwlProfile: rows.map((_, index) => result.hourlyProfile[(startHour + index) % 24]),
+    entries: parsedRows.map(fields => fields.reduce<FluidBalanceEntry>(
+      (entry, { key, parsed }) => parsed.value === null ? entry : { ...entry, [key]: parsed.value },
+      {}
+    )),
+    negativeThresholdMlPerKg: parsedThreshold.value ?? DEFAULT_NEGATIVE_THRESHOLD_ML_PER_KG
+  };
+  const error = parseError ?? validateFluidBalanceInput(balanceInput);
+  const balance = error ? null : calculateFluidBalance(balanceInput);
+
+  const updateCell = (index: number, key: BalanceFieldKey, value: string) =>
+    setRows(prev => prev.map((row, rowIndex) => rowIndex === index ? { ...row, [key]: value } : row));
+
+  const latest = balance && balance.hours.length > 0 ? balance.hours[balance.hours.length - 1] : null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <div className="flex items-center mb-6">
+        <ClipboardList className="text-cyan-600 me-3" size={24} />
+        <h3 className="text-2xl font-semibold text-gray-800">{t("balance.title")}</h3>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t("balance.startHour")}</label>
+          <select
+            value={startHour}
+            onChange={e => setStartHour(parseInt(e.target.value))}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white"
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>{hourLabel(hour, 0, i18n)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t("balance.threshold")}</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={threshold}
+            onChange={e => setThreshold(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-start text-gray-700 text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 uppercase tracking-wide text-gray-500">
+              <th className="py-2 pe-2">{t("balance.hour")}</th>
+              {INTAKE_KEYS.map(key => <th key={key} className="py-2 pe-2 text-green-700">{t(`balance.field.${key}`)}</th>)}
+              {OUTPUT_KEYS.map(key => <th key={key} className="py-2 pe-2 text-red-700">{t(`balance.field.${key}`)}</th>)}
+              <th className="py-2 pe-2">{t("balance.iwl")}</th>
+              <th className="py-2 pe-2">{t("balance.net")}</th>
+              <th className="py-2">{t("balance.running24")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const hour = balance?.hours[index];
+              return (
+                <tr key={index} className={`border-b border-gray-100 ${hour?.flagged ? "bg-red-50" : ""}`}>
+                  <td className="py-1 pe-2 font-medium whitespace-nowrap">{hourLabel(startHour, index, i18n)}</td>
+                  {BALANCE_FIELD_KEYS.map(key => (
+                    <td key={key} className="py-1 pe-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={row[key] ?? ""}
+                        onChange={e => updateCell(index, key, e.target.value)}
+                        className={cellClassName}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-1 pe-2 whitespace-nowrap">
+                    {hour ? `${fixed(hour.insensible_low, 1)}–${fixed(hour.insensible_high, 1)}` : digits(`${result.hourly_low}–${result.hourly_high}`)}
+                  </td>
+                  <td className="py-1 pe-2 whitespace-nowrap">{hour ? formatRange(hour.net, i18n) : "—"}</td>
+                  <td className="py-1 whitespace-nowrap">
+                    {hour ? formatRange(hour.running[24], i18n) : "—"}
+                    {hour?.flagged && <AlertTriangle className="inline ms-1 text-red-600" size={14} />}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-6">
+        <button
+          onClick={() => setRows(prev => [...prev, {}])}
+          disabled={rows.length >= MAX_BALANCE_HOURS}
+          className="flex items-center px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-blue-700 transition-all font-medium disabled:opacity-50"
+        >
+          <Plus className="me-2" size={18} />
+          {t("balance.addHour")}
+        </button>
+        <button
+          onClick={() => setRows(prev => prev.slice(0, -1))}
+          disabled={rows.length <= 1}
+          className="flex items-center px-4 py-2 rounded-lg text-red-700 hover:bg-red-50 transition-all font-medium disabled:opacity-50"
+        >
+          <Trash2 className="me-2" size={18} />
+          {t("balance.removeHour")}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
+          <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+          <span className="text-lg">{message(error)}</span>
+        </div>
+      )}
+
+      {balance && latest && (
+        <div className="space-y-6">
+          {balance.flaggedHours.length > 0 && (
+            <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg flex items-center">
+              <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+              <span>
+                {t("balance.flagged", {
+                  threshold: fixed(balance.thresholdMl, 0),
+                  hours: balance.flaggedHours.map(hour => hourLabel(startHour, hour, i18n)).join(", ")
+                })}
+              </span>
+            </div>
+          )}
+
+          <div className="bg-gradient-to-r from-cyan-50 to-blue-50 p-6 rounded-xl border border-cyan-200">
+            <div className="grid md:grid-cols-3 gap-6">
+              {BALANCE_WINDOWS.map(window => (
+                <div key={window}>
+                  <p className="text-sm font-medium text-gray-600">{t("balance.runningNet", { hours: window })}</p>
+                  <p className={`text-xl font-bold ${latest.running[window].low < -balance.thresholdMl ? "text-red-600" : "text-cyan-700"}`}>
+                    {formatRange(latest.running[window], i18n)} <span className="text-base">{t("unit.ml")}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-cyan-50 p-6 rounded-xl">
+            <h4 className="font-semibold mb-3 text-cyan-700 text-lg">{t("balance.overTime")}</h4>
+            <BalanceChart balance={balance} startHour={startHour} />
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500 mt-2">
+              <span className="flex items-center"><span className="inline-block w-3 h-3 bg-blue-200 me-1" />{t("balance.legend.hourly")}</span>
+              <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-blue-600 me-1" />{t("balance.legend.runningHigh")}</span>
+              <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-purple-600 me-1" />{t("balance.legend.runningLow")}</span>
+              <span className="flex items-center"><span className="inline-block w-3 border-t border-dashed border-red-500 me-1" />{t("balance.legend.threshold")}</span>
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-500">
+            {t("balance.note", {
+              low: digits(result.hourly_low),
+              high: digits(result.hourly_high),
+              intake: fixed(balance.totalIntake, 0),
+              output: fixed(balance.totalMeasuredOutput, 0)
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FluidBalanceTracker;
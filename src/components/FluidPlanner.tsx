@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { AlertTriangle, Droplets } from "lucide-react";
+import {
+  calculateFluidPlan,
+  CalculationResult,
+  DEFAULT_MAINTENANCE_BASIS,
+  FluidPlanInput,
+  MAINTENANCE_BASIS_LABELS,
+  MaintenanceBasis,
+  ParsedNumber,
+  parseLocaleNumber,
+  validateFluidPlanInput
+} from "../engine";
+import { useI18n } from "../i18n";
+
+interface FluidPlannerProps {
+  result: CalculationResult;
+  locale: string;
+}
+
+const optionalNumber = (parsed: ParsedNumber) => parsed.value ?? undefined;
+
+const inputClassName = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white";
+
+const FluidPlanner = ({ result, locale }: FluidPlannerProps) => {
+  const { t, fixed, num, digits, message } = useI18n();
+  const [basis, setBasis] = useState<MaintenanceBasis>(DEFAULT_MAINTENANCE_BASIS);
+  const [urineOutput, setUrineOutput] = useState("");
+  const [dehydrationPercent, setDehydrationPercent] = useState("");
+  const [ongoingLosses, setOngoingLosses] = useState("");
+  const [firstPhaseHours, setFirstPhaseHours] = useState("8");
+  const [firstPhasePercent, setFirstPhasePercent] = useState("50");
+
+  const parsed = {
+    urineOutput: parseLocaleNumber(urineOutput, locale, t("plan.urineOutput")),
+    dehydrationPercent: parseLocaleNumber(dehydrationPercent, locale, t("plan.dehydration")),
+    ongoingLosses: parseLocaleNumber(ongoingLosses, locale, t("plan.ongoingLosses")),
+    firstPhaseHours: parseLocaleNumber(firstPhaseHours, locale, t("plan.firstPhaseHours")),
+    firstPhasePercent: parseLocaleNumber(firstPhasePercent, locale, t("plan.firstPhasePercent"))
+  };
+  const parseError = Object.values(parsed).find(field => field.error !== null)?.error ?? null;
+
+  const planInput: FluidPlanInput = {
+    weightKg: result.weight,
+    // The engine's own formatting, always with a "." decimal point.
+    iwl_low: parseFloat(result.totalIWL_low),
+    iwl_high: parseFloat(result.totalIWL_high),
+    basis,
+    urineOutputMlPerKgPerHour: optionalNumber(parsed.urineOutput),
+    dehydrationPercent: optionalNumber(parsed.dehydrationPercent),
+    ongoingLossesMlPerDay: optionalNumber(parsed.ongoingLosses),
+    deficitFirstPhaseHours: optionalNumber(parsed.firstPhaseHours),
+    deficitFirstPhaseFraction: parsed.firstPhasePercent.value === null ? undefined : parsed.firstPhasePercent.value / 100
+  };
+  const error = parseError ?? validateFluidPlanInput(planInput);
+  const plan = error ? null : calculateFluidPlan(planInput);
+
+  const fields = [
+    { label: t("plan.urineOutput"), placeholder: t("form.example", { value: 1 }), value: urineOutput, onChange: setUrineOutput },
+    { label: t("plan.dehydration"), placeholder: num(0), value: dehydrationPercent, onChange: setDehydrationPercent },
+    { label: t("plan.ongoingLosses"), placeholder: num(0), value: ongoingLosses, onChange: setOngoingLosses },
+    { label: t("plan.firstPhaseHours"), placeholder: num(8), value: firstPhaseHours, onChange: setFirstPhaseHours },
+    { label: t("plan.firstPhasePercent"), placeholder: num(50), value: firstPhasePercent, onChange: setFirstPhasePercent }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <div className="flex items-center mb-6">
+        <Droplets className="text-cyan-600 me-3" size={24} />
+        <h3 className="text-2xl font-semibold text-gray-800">{t("plan.title")}</h3>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-2">{t("plan.basis")}</label>
+        <select value={basis} onChange={e => setBasis(e.target.value as MaintenanceBasis)} className={inputClassName}>
+          {(Object.keys(MAINTENANCE_BASIS_LABELS) as MaintenanceBasis[]).map(key => (
+            <option key={key} value={key}>{t(`plan.basis.${key}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mb-6">
+        {fields.map(({ label, placeholder, value, onChange }) => (
+          <div key={label}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder={placeholder}
+              value={value}
+              onChange={e => onChange(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
+          <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+          <span className="text-lg">{message(error)}</span>
+        </div>
+      )}
+
+      {plan && (
+        <div className="space-y-6">
+          <div className="bg-gradient-to-r from-cyan-50 to-blue-50 p-6 rounded-xl border border-cyan-200">
+            <div className="grid md:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm font-medium text-gray-600">{t("plan.total")}</p>
+                <p className="text-2xl font-bold text-cyan-700">
+                  {fixed(plan.total_low, 0)} – {fixed(plan.total_high, 0)} <span className="text-lg">{t("unit.mlPerDay")}</span>
+                </p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-600">{t("plan.hourly")}</p>
+                <p className="text-2xl font-bold text-blue-700">
+                  {fixed(plan.hourly_low, 1)} – {fixed(plan.hourly_high, 1)} <span className="text-lg">{t("unit.mlPerHour")}</span>
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-cyan-50 p-6 rounded-xl">
+            <h4 className="font-semibold mb-3 text-cyan-700 text-lg">{t("plan.maintenance", { basis: t(`plan.basis.${plan.basis}`) })}</h4>
+            <div className="space-y-2 text-gray-700">
+              {plan.basis === "hollidaySegar" ? (
+                <>
+                  <div><strong>{t("steps.formula")}</strong> {t("plan.hollidaySegarFormula")}</div>
+                  <div>
+                    <strong>{t("steps.calculation")}</strong>{" "}
+                    {plan.hollidaySegarTiers.map(tier => `${fixed(tier.kg, 2)} × ${num(tier.mlPerKg)}`).join(" + ")}
+                  </div>
+                  <div><strong>{t("steps.result")}</strong> {t("plan.hollidaySegarResult", { volume: fixed(plan.hollidaySegar, 0) })}</div>
+                  <div className="text-sm text-amber-800 font-medium flex items-center">
+                    <AlertTriangle className="me-2 flex-shrink-0" size={16} />
+                    {t("plan.hollidaySegarIgnoresIWL", { range: digits(`${result.totalIWL_low}–${result.totalIWL_high}`) })}
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div><strong>{t("steps.formula")}</strong> {t("plan.insensibleFormula")}</div>
+                  <div>
+                    <strong>{t("steps.calculation")}</strong>{" "}
+                    {digits(`${result.totalIWL_low}–${result.totalIWL_high}`)} + {num(planInput.urineOutputMlPerKgPerHour ?? 0)} × {num(plan.weightKg)} × {num(24)}
+                  </div>
+                  <div>
+                    <strong>{t("steps.result")}</strong>{" "}
+                    {t("plan.maintenanceResult", { low: fixed(plan.maintenance_low, 0), high: fixed(plan.maintenance_high, 0) })}
+                  </div>
+                  <div className="text-sm text-gray-500">{t("plan.hollidaySegarReference", { volume: fixed(plan.hollidaySegar, 0) })}</div>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-cyan-50 p-6 rounded-xl">
+            <h4 className="font-semibold mb-3 text-cyan-700 text-lg">{t("plan.deficitStep")}</h4>
+            <div className="space-y-2 text-gray-700">
+              <div>
+                <strong>{t("plan.deficit")}</strong>{" "}
+                {t("plan.deficitFormula", { percent: plan.dehydrationPercent, weight: plan.weightKg, volume: fixed(plan.deficit, 0) })}
+              </div>
+              <div><strong>{t("plan.ongoing")}</strong> {fixed(plan.ongoingLosses, 0)} {t("unit.mlPerDay")}</div>
+            </div>
+          </div>
+
+          <div className="bg-cyan-50 p-6 rounded-xl">
+            <h4 className="font-semibold mb-3 text-cyan-700 text-lg">{t("plan.totalStep")}</h4>
+            <div className="space-y-2 text-gray-700">
+              <div><strong>{t("steps.formula")}</strong> {t("plan.totalFormula")}</div>
+              <div>
+                <strong>{t("steps.calculation")}</strong>{" "}
+                {fixed(plan.maintenance_low, 0)}–{fixed(plan.maintenance_high, 0)} + {fixed(plan.deficit, 0)} + {fixed(plan.ongoingLosses, 0)}
+              </div>
+              <div>
+                <strong>{t("steps.result")}</strong>{" "}
+                {t("plan.totalResult", {
+                  low: fixed(plan.total_low, 0),
+                  high: fixed(plan.total_high, 0),
+                  hourlyLow: fixed(plan.hourly_low, 1),
+                  hourlyHigh: fixed(plan.hourly_high, 1)
+                })}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gradient-to-r from-cyan-50 to-blue-50 p-6 rounded-xl border-s-4 border-cyan-500">
+            <h4 className="font-semibold mb-3 text-cyan-700 text-xl">{t("plan.schedule")}</h4>
+            <div className="space-y-3 text-gray-700">
+              {plan.phases.map((phase, index) => {
+                const hours = { phase: index + 1, start: phase.startHour, end: phase.endHour };
+                return (
+                  <div key={phase.label} className="bg-white p-4 rounded-lg">
+                    <div>
+                      <strong>{plan.phases.length > 1 ? t("plan.phase", hours) : t("plan.steadyRate", hours)}</strong>{" "}
+                      {fixed(phase.rate_low, 1)} – {fixed(phase.rate_high, 1)} {t("unit.mlPerHour")}
+                    </div>
+                    <div className="text-gray-600">
+                      = {fixed(phase.volume_low, 0)} – {fixed(phase.volume_high, 0)} {t("unit.ml")}
+                      {phase.deficitVolume > 0 && <> {t("plan.phaseDeficit", { volume: fixed(phase.deficitVolume, 0) })}</>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FluidPlanner;
@@ -0,0 +1,10 @@
+import { ReactNode } from "react";
+
+interface FormulaProps {
+  children: ReactNode;
+}
+
+/** Keeps a formula or worked calculation in left-to-right order inside right-to-left text. */
+const Formula = ({ children }: FormulaProps) => <bdi dir="ltr">{children}</bdi>;
+
+export default Formula;
@@ -0,0 +1,48 @@
+import { GrowthAssessment } from "../engine";
+import { useI18n } from "../i18n";
+
+interface GrowthCheckProps {
+  growth: GrowthAssessment;
+}
+
+const GrowthCheck = ({ growth }: GrowthCheckProps) => {
+  const { t, fixed } = useI18n();
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-xl">
+      <h4 className="font-semibold mb-3 text-gray-700 text-lg">{t("growth.title")}</h4>
+      {growth.zScores.length === 0 ? (
+        <div className="text-gray-600">
+          {t("growth.none")}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-start text-gray-700">
+            <thead>
+              <tr className="border-b border-gray-200 text-sm uppercase tracking-wide text-gray-500">
+                <th className="py-2 pe-4">{t("growth.indicator")}</th>
+                <th className="py-2 pe-4">{t("growth.reference")}</th>
+                <th className="py-2 pe-4">{t("growth.median")}</th>
+                <th className="py-2 pe-4">{t("growth.zScore")}</th>
+                <th className="py-2">{t("growth.percentile")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {growth.zScores.map(score => (
+                <tr key={score.indicator} className={`border-b border-gray-100 ${Math.abs(score.z) > 3 ? "text-amber-700 font-semibold" : ""}`}>
+                  <td className="py-2 pe-4">{t(`growth.indicator.${score.indicator}`)}</td>
+                  <td className="py-2 pe-4">{score.reference} ({score.sex ? t(`growth.sex.${score.sex}`) : t("growth.sexNotEntered")})</td>
+                  <td className="py-2 pe-4">{fixed(score.median, 1)} {score.indicator === "lengthForAge" ? "cm" : "kg"}</td>
+                  <td className="py-2 pe-4"><bdi dir="ltr">{score.z >= 0 ? "+" : ""}{fixed(score.z, 2)}</bdi></td>
+                  <td className="py-2">{fixed(score.percentile, 1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GrowthCheck;
@@ -0,0 +1,77 @@
+import { CalculationResult, getProfileExtremes } from "../engine";
+import { useI18n } from "../i18n";
+
+interface HourlyProfileChartProps {
+  result: CalculationResult;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 20, right: 20, bottom: 32, left: 56 };
+
+const clock = (hour: number) => `${String(hour % 24).padStart(2, "0")}:00`;
+
+/** Loss per clock hour when a factor runs for part of the day; nothing is shown for a flat profile. */
+const HourlyProfileChart = ({ result }: HourlyProfileChartProps) => {
+  const { t, fixed, digits } = useI18n();
+  const extremes = getProfileExtremes(result);
+  if (!extremes) return null;
+
+  const profile = result.hourlyProfile;
+  const maxValue = extremes.peak.high * 1.1;
+  const slot = (WIDTH - PADDING.left - PADDING.right) / profile.length;
+  const x = (hour: number) => PADDING.left + hour * slot;
+  const y = (value: number) => PADDING.top + (maxValue - value) / maxValue * (HEIGHT - PADDING.top - PADDING.bottom);
+  const averageHigh = parseFloat(result.hourly_high);
+
+  return (
+    <div className="bg-indigo-50 p-6 rounded-xl mb-6">
+      <h4 className="font-semibold mb-2 text-indigo-700 text-lg">{t("profile.title")}</h4>
+      <p className="text-gray-700 mb-4">
+        {t("profile.summary", {
+          peakLow: fixed(extremes.peak.low, 1),
+          peakHigh: fixed(extremes.peak.high, 1),
+          peakHours: extremes.peakHours,
+          lowestLow: fixed(extremes.trough.low, 1),
+          lowestHigh: fixed(extremes.trough.high, 1),
+          lowestHours: extremes.troughHours
+        })}
+      </p>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-white rounded-lg" role="img" aria-label={t("profile.chart")}>
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+        <text x={PADDING.left - 8} y={y(maxValue) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{fixed(maxValue, 1)}</text>
+        <text x={PADDING.left - 8} y={y(0) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{digits("0")}</text>
+        <text x={12} y={HEIGHT / 2} fontSize="11" fill="#6b7280" transform={`rotate(-90 12 ${HEIGHT / 2})`} textAnchor="middle">
+          {t("unit.mlPerHour")}
+        </text>
+
+        {profile.map(hour => (
+          <g key={hour.hour}>
+            <rect x={x(hour.hour) + slot * 0.15} width={slot * 0.7} y={y(hour.high)} height={y(hour.low) - y(hour.high)} fill="#a5b4fc" />
+            <rect x={x(hour.hour) + slot * 0.15} width={slot * 0.7} y={y(hour.low)} height={y(0) - y(hour.low)} fill="#6366f1" />
+            {hour.hour % 3 === 0 && (
+              <text x={x(hour.hour) + slot / 2} y={HEIGHT - 12} textAnchor="middle" fontSize="10" fill="#6b7280">{digits(clock(hour.hour))}</text>
+            )}
+          </g>
+        ))}
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(averageHigh)}
+          y2={y(averageHigh)}
+          stroke="#7c3aed"
+          strokeDasharray="4 3"
+        />
+      </svg>
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500 mt-2">
+        <span className="flex items-center"><span className="inline-block w-3 h-3 bg-indigo-500 me-1" />{t("profile.low")}</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 bg-indigo-300 me-1" />{t("profile.high")}</span>
+        <span className="flex items-center"><span className="inline-block w-3 border-t border-dashed border-purple-600 me-1" />{t("profile.average")}</span>
+      </div>
+      <p className="text-sm text-gray-500 mt-2">{t("profile.note")}</p>
+    </div>
+  );
+};
+
+export default HourlyProfileChart;
@@ -0,0 +1,97 @@
+import { EnvironmentAssessment, getHumidityCurve, REFERENCE_RELATIVE_HUMIDITY, SKIN_TEMPERATURE_C } from "../engine";
+import { useI18n } from "../i18n";
+import Formula from "./Formula";
+
+interface HumidityCurveProps {
+  environment: EnvironmentAssessment;
+  baseIWL_low: number;
+  baseIWL_high: number;
+  humidityAdjustment_low: number;
+  humidityAdjustment_high: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 20, right: 20, bottom: 36, left: 56 };
+
+const HumidityCurve = ({ environment, baseIWL_low, baseIWL_high, humidityAdjustment_low, humidityAdjustment_high }: HumidityCurveProps) => {
+  const { t, fixed, num } = useI18n();
+  const signed = (value: number) => `${value < 0 ? "−" : "+"}${fixed(Math.abs(value), 1)}`;
+  const curve = getHumidityCurve(environment.airTemperatureC, environment.skinFraction);
+  const values = curve.map(point => point.adjustment * 100);
+  const maxValue = Math.max(...values, 10);
+  const minValue = Math.min(...values, -10);
+
+  const x = (relativeHumidity: number) => PADDING.left + relativeHumidity / 100 * (WIDTH - PADDING.left - PADDING.right);
+  const y = (percent: number) => PADDING.top + (maxValue - percent) / (maxValue - minValue) * (HEIGHT - PADDING.top - PADDING.bottom);
+  const pointX = x(environment.relativeHumidity);
+  const pointY = y(environment.adjustment * 100);
+
+  return (
+    <div className="bg-sky-50 p-6 rounded-xl">
+      <h4 className="font-semibold mb-3 text-sky-700 text-lg">{t("humidity.title")}</h4>
+      <div className="space-y-2 text-gray-700 mb-4">
+        <div>
+          <strong>{t("humidity.environment")}</strong>{" "}
+          {t("humidity.environmentValue", {
+            setting: t(`careSetting.${environment.careSetting}`),
+            humidity: num(environment.relativeHumidity, 1),
+            temperature: num(environment.airTemperatureC, 1)
+          })}
+          {environment.airTemperatureAssumed && t("humidity.assumed")}
+        </div>
+        <div>
+          <strong>{t("steps.formula")}</strong>{" "}
+          <Formula>
+            {t("formula.adjustment")} = {t("formula.skinShare")} × ((P skin - RH × P air) / (P skin - {num(50)}% × P air) - {num(1)})
+          </Formula>
+        </div>
+        <div>
+          <strong>{t("steps.calculation")}</strong>{" "}
+          <Formula>
+            {num(environment.skinFraction)} × (({fixed(environment.skinVapourPressure, 2)} - {fixed(environment.ambientVapourPressure, 2)})
+            / ({fixed(environment.skinVapourPressure, 2)} - {fixed(environment.referenceVapourPressure, 2)}) - {num(1)}) = {signed(environment.adjustment * 100)}%
+          </Formula>
+        </div>
+        <div>
+          <strong>{t("steps.result")}</strong>{" "}
+          <Formula>
+            {signed(environment.adjustment * 100)}% × {fixed(baseIWL_low, 1)} – {fixed(baseIWL_high, 1)}
+            {" "}= {signed(humidityAdjustment_low)} – {signed(humidityAdjustment_high)} {t("unit.mlPerDay")}
+          </Formula>
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-white rounded-lg" role="img" aria-label={t("humidity.chart")}>
+        {[0, 25, 50, 75, 100].map(tick => (
+          <g key={tick}>
+            <line x1={x(tick)} x2={x(tick)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} stroke="#e5e7eb" />
+            <text x={x(tick)} y={HEIGHT - PADDING.bottom + 16} textAnchor="middle" fontSize="11" fill="#6b7280">{num(tick)}%</text>
+          </g>
+        ))}
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+        <text x={PADDING.left - 8} y={y(maxValue) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{signed(maxValue)}%</text>
+        <text x={PADDING.left - 8} y={y(0) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{num(0)}%</text>
+        <text x={PADDING.left - 8} y={y(minValue) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{signed(minValue)}%</text>
+        <text x={(WIDTH + PADDING.left) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="11" fill="#6b7280">{t("humidity.axis")}</text>
+
+        <polyline
+          points={curve.map(point => `${x(point.relativeHumidity)},${y(point.adjustment * 100)}`).join(" ")}
+          fill="none"
+          stroke="#0284c7"
+          strokeWidth={2}
+        />
+        <line x1={pointX} x2={pointX} y1={pointY} y2={y(0)} stroke="#0369a1" strokeDasharray="4 3" />
+        <circle cx={pointX} cy={pointY} r={5} fill="#0369a1" />
+        <text x={pointX + 8} y={pointY - 8} fontSize="11" fill="#0369a1">
+          {num(environment.relativeHumidity, 1)}% RH → {signed(environment.adjustment * 100)}%
+        </text>
+      </svg>
+      <div className="text-sm text-gray-500 mt-2">
+        {t("humidity.note", { air: num(environment.airTemperatureC, 1), skin: SKIN_TEMPERATURE_C, reference: REFERENCE_RELATIVE_HUMIDITY })}
+      </div>
+    </div>
+  );
+};
+
+export default HumidityCurve;
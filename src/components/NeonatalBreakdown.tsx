@@ -0,0 +1,103 @@
+import { Baby } from "lucide-react";
+import { NeonatalEstimate } from "../engine";
+import { getNeonatalBandLabel, I18n, useI18n } from "../i18n";
+import Formula from "./Formula";
+
+interface NeonatalBreakdownProps {
+  estimate: NeonatalEstimate;
+  baseIWL_low: number;
+  baseIWL_high: number;
+}
+
+const interpolation = (estimate: NeonatalEstimate, side: "low" | "high", { num }: I18n) => {
+  const { lowerPoint, upperPoint, postnatalAgeDays } = estimate;
+  if (lowerPoint.day === upperPoint.day) return num(lowerPoint[side]);
+  const day = Math.max(postnatalAgeDays, lowerPoint.day);
+  return `${num(lowerPoint[side])} + (${num(upperPoint[side])} - ${num(lowerPoint[side])}) × (${num(day)} - ${num(lowerPoint.day)}) / (${num(upperPoint.day)} - ${num(lowerPoint.day)})`;
+};
+
+const NeonatalBreakdown = ({ estimate, baseIWL_low, baseIWL_high }: NeonatalBreakdownProps) => {
+  const i18n = useI18n();
+  const { t, fixed } = i18n;
+  const tableRow = (point: NeonatalEstimate["lowerPoint"]) => t("neonatal.tableRow", { day: point.day, low: point.low, high: point.high });
+  const citations = [...new Set([estimate.lowerPoint.citation, estimate.upperPoint.citation])];
+  const daySource = {
+    entered: "",
+    age: ` ${t("neonatal.dayFromAge")}`,
+    assumed: ` ${t("neonatal.dayAssumed")}`
+  }[estimate.postnatalAgeSource];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <h3 className="text-2xl font-semibold text-teal-700 mb-6 flex items-center">
+        <Baby className="me-3" size={24} />
+        {t("neonatal.title")}
+      </h3>
+
+      <div className="space-y-6">
+        <div className="bg-teal-50 p-6 rounded-xl">
+          <h4 className="font-semibold mb-3 text-teal-700 text-lg">{t("neonatal.step1")}</h4>
+          <div className="space-y-2 text-gray-700">
+            <div>
+              <strong>{t("neonatal.gestationalAge")}</strong>{" "}
+              {t("neonatal.gestationalAgeValue", { weeks: estimate.gestationalAgeWeeks, days: estimate.gestationalAgeDays })}
+            </div>
+            <div><strong>{t("neonatal.postnatalAge")}</strong> {t("neonatal.day", { day: estimate.postnatalAgeDays })}{daySource}</div>
+            <div>
+              <strong>{t("steps.result")}</strong> {t("neonatal.bandResult", { band: getNeonatalBandLabel(estimate.band, i18n) })}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-teal-50 p-6 rounded-xl">
+          <h4 className="font-semibold mb-3 text-teal-700 text-lg">{t("neonatal.step2")}</h4>
+          <div className="space-y-2 text-gray-700">
+            <div>
+              <strong>{t("neonatal.tableRows")}</strong> {tableRow(estimate.lowerPoint)}
+              {estimate.upperPoint !== estimate.lowerPoint && <>; {tableRow(estimate.upperPoint)}</>}
+            </div>
+            <div className="text-sm">
+              <strong>{t("neonatal.sources")}</strong> <span lang="en" dir="ltr">{citations.join("; ")}</span>
+            </div>
+            <div>
+              <strong>{t("neonatal.low")}</strong>{" "}
+              <Formula>{interpolation(estimate, "low", i18n)} = {fixed(estimate.perKg_low, 1)} {t("unit.mlPerKgPerDay")}</Formula>
+            </div>
+            <div>
+              <strong>{t("neonatal.high")}</strong>{" "}
+              <Formula>{interpolation(estimate, "high", i18n)} = {fixed(estimate.perKg_high, 1)} {t("unit.mlPerKgPerDay")}</Formula>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-teal-50 p-6 rounded-xl">
+          <h4 className="font-semibold mb-3 text-teal-700 text-lg">{t("neonatal.step3")}</h4>
+          <div className="space-y-2 text-gray-700">
+            <div>
+              <strong>{t("steps.formula")}</strong>{" "}
+              <Formula>
+                {t("formula.baseIWL")} = {t("formula.perKg")} × {estimate.dosingWeightSource === "birth" ? t("formula.birthWeight") : t("formula.currentWeight")}
+              </Formula>
+            </div>
+            <div>
+              <strong>{t("steps.calculation")}</strong>{" "}
+              <Formula>
+                {t("formula.baseIWL")} = {fixed(estimate.perKg_low, 1)}–{fixed(estimate.perKg_high, 1)} × {fixed(estimate.dosingWeightKg, 3)} kg
+              </Formula>
+            </div>
+            <div>
+              <strong>{t("steps.result")}</strong>{" "}
+              <Formula>{t("formula.baseIWL")} = {fixed(baseIWL_low, 1)} – {fixed(baseIWL_high, 1)} {t("unit.mlPerDay")}</Formula>
+            </div>
+          </div>
+        </div>
+
+        <div className="text-sm text-gray-500">
+          {t("neonatal.note")}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NeonatalBreakdown;
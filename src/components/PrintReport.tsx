@@ -0,0 +1,138 @@
+import {
+  buildClinicalNote,
+  CalculationResult,
+  formatClockTime,
+  formatProtocolName,
+  FormConversion,
+  getActiveFactors,
+  getDerivationSteps,
+  getProfileExtremes,
+  getProtocolValue,
+  ReportFactor
+} from "../engine";
+import { useI18n } from "../i18n";
+
+interface PrintReportProps {
+  result: CalculationResult;
+  conversions: FormConversion[];
+  references: string[];
+  disclaimer: string[];
+}
+
+// Hidden on screen; replaces the interactive page when printing.
+const PrintReport = ({ result, conversions, references, disclaimer }: PrintReportProps) => {
+  const { t, fixed, num, digits, language } = useI18n();
+  const factors = getActiveFactors(result);
+  const extremes = getProfileExtremes(result);
+  const signed = (value: number) => `${value < 0 ? "−" : "+"}${fixed(Math.abs(value), 1)}`;
+
+  const describeFactor = (factor: ReportFactor) => {
+    const adjustment = result.factorAdjustments.find(candidate => candidate.key === factor.key);
+    if (factor.percentage === null || !adjustment) {
+      return t("burns.factor", {
+        tbsa: fixed(result.burns?.totalTBSA ?? 0, 1),
+        rate: num(getProtocolValue(result.protocol, "burnEvaporation"))
+      });
+    }
+    const params = {
+      sign: factor.percentage < 0 ? "−" : "+",
+      percent: num(Math.abs(factor.percentage) * 100, 1),
+      low: fixed(adjustment.basis_low, 1),
+      high: fixed(adjustment.basis_high, 1)
+    };
+    const basis = {
+      base: t("steps.factorPercent", params),
+      skin: t("steps.factorPercentSkin", params),
+      respiratory: t("steps.factorPercentRespiratory", params)
+    }[factor.basis];
+    const { exposure } = factor;
+    if (exposure?.mode === "duration") return `${basis} ${t("steps.factorExposure", { hours: num(exposure.hours, 2) })}`;
+    if (exposure?.mode === "window") {
+      return `${basis} ${t("steps.factorExposureWindow", {
+        hours: num(adjustment.hours, 2),
+        start: digits(formatClockTime(exposure.start)),
+        end: digits(formatClockTime(exposure.end))
+      })}`;
+    }
+    return basis;
+  };
+
+  return (
+    <div className="hidden print:block text-black text-sm leading-relaxed">
+      <h1 className="text-2xl font-bold mb-1">{t("print.title")}</h1>
+      <p className="text-gray-600 mb-6">
+        {t("print.generated", {
+          time: digits(new Date().toLocaleString(language)),
+          protocol: formatProtocolName(result.protocol),
+          version: result.engineVersion
+        })}
+      </p>
+
+      <section className="mb-6 border border-gray-400 p-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="font-semibold">{t("results.daily")}</div>
+            <div className="text-xl">{digits(`${result.totalIWL_low} – ${result.totalIWL_high}`)} {t("unit.mlPerDay")}</div>
+          </div>
+          <div>
+            <div className="font-semibold">{t(extremes ? "results.hourlyPeak" : "results.hourly")}</div>
+            <div className="text-xl">{digits(`${result.peakHourly_low} – ${result.peakHourly_high}`)} {t("unit.mlPerHour")}</div>
+            {extremes && <div>{t("results.hourlyAverage", { low: digits(result.hourly_low), high: digits(result.hourly_high) })}</div>}
+          </div>
+        </div>
+        {/* The note and the derivation below are the English text copied into the chart. */}
+        {language !== "en" && <p className="mt-4 italic">{t("print.chartText")}</p>}
+        <p className="mt-4" lang="en" dir="ltr">{buildClinicalNote(result)}</p>
+      </section>
+
+      <section className="mb-6">
+        <h2 className="text-lg font-semibold mb-2">{t("print.activeFactors")}</h2>
+        {factors.length === 0 ? (
+          <p>{t("print.noFactors")}</p>
+        ) : (
+          <table className="w-full text-start">
+            <tbody>
+              {factors.map(factor => (
+                <tr key={factor.key} className="border-b border-gray-300">
+                  <td className="py-1 pe-4 font-semibold">{t(`factor.${factor.key}`)}</td>
+                  <td className="py-1 pe-4">{describeFactor(factor)}</td>
+                  <td className="py-1">{signed(factor.adjustment_low)} – {signed(factor.adjustment_high)} {t("unit.mlPerDay")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="mb-6">
+        <h2 className="text-lg font-semibold mb-2">{t("steps.title")}</h2>
+        {getDerivationSteps(result, conversions).map(step => (
+          <div key={step.title} className="mb-3 break-inside-avoid" lang="en" dir="ltr">
+            <h3 className="font-semibold">{step.title}</h3>
+            {step.lines.map(line => (
+              <div key={line}>{line}</div>
+            ))}
+          </div>
+        ))}
+      </section>
+
+      <section className="mb-6">
+        <h2 className="text-lg font-semibold mb-2">{t("references.title")}</h2>
+        <ol className="list-decimal ps-6 space-y-1">
+          {references.map((ref, index) => (
+            <li key={index}>{ref}</li>
+          ))}
+        </ol>
+      </section>
+
+      <section className="border-t border-gray-400 pt-4">
+        <h2 className="text-lg font-semibold mb-2">{t("disclaimer.title")}</h2>
+        {disclaimer.map((paragraph, index) => (
+          <p key={index} className="mb-2">{paragraph}</p>
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default PrintReport;
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { AlertTriangle, BookOpen, ChevronDown, ChevronUp, Download, Trash2, Upload } from "lucide-react";
+import {
+  BUILTIN_PROTOCOL,
+  EngineMessage,
+  parseProtocolProfile,
+  PROTOCOL_COEFFICIENT_KEYS,
+  PROTOCOL_COEFFICIENTS,
+  ProtocolProfile
+} from "../engine";
+import { useI18n } from "../i18n";
+
+interface ProtocolSelectorProps {
+  profiles: ProtocolProfile[];
+  active: ProtocolProfile;
+  onSelect: (id: string) => void;
+  onImport: (profile: ProtocolProfile) => void;
+  onRemove: (id: string) => void;
+}
+
+const ProtocolSelector = ({ profiles, active, onSelect, onImport, onRemove }: ProtocolSelectorProps) => {
+  const { t, num, digits, message } = useI18n();
+  const [error, setError] = useState<EngineMessage | null>(null);
+  const [showValues, setShowValues] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const { profile, error } = parseProtocolProfile(await file.text());
+    setError(error);
+    if (profile) onImport(profile);
+  };
+
+  // Any profile, the built-in one included, can be saved as the starting point for a unit's own file.
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(active, null, 2)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${active.id}-protocol.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <div className="flex items-center mb-6">
+        <BookOpen className="text-blue-600 me-3" size={24} />
+        <h2 className="text-2xl font-semibold text-gray-800">{t("protocol.title")}</h2>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
+          <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+          <span className="text-lg">{message(error)}</span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <select
+          value={active.id}
+          onChange={e => onSelect(e.target.value)}
+          className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white"
+        >
+          {[BUILTIN_PROTOCOL, ...profiles].map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name} (v{profile.version})</option>
+          ))}
+        </select>
+        <label className="flex items-center px-4 py-3 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-blue-700 transition-all font-medium cursor-pointer">
+          <Upload className="me-2" size={18} />
+          {t("protocol.load")}
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+        <button
+          onClick={downloadTemplate}
+          title={t("protocol.download")}
+          className="p-3 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-blue-700 transition-all"
+        >
+          <Download size={18} />
+        </button>
+        {active.id !== BUILTIN_PROTOCOL.id && (
+          <button
+            onClick={() => onRemove(active.id)}
+            title={t("protocol.remove")}
+            className="p-3 rounded-lg text-red-700 hover:bg-red-50 transition-all"
+          >
+            <Trash2 size={18} />
+          </button>
+        )}
+      </div>
+      {active.description && <p className="text-gray-600 mt-3">{active.description}</p>}
+
+      <button
+        onClick={() => setShowValues(!showValues)}
+        className="w-full text-start font-semibold text-gray-700 flex justify-between items-center hover:text-blue-700 mt-6"
+      >
+        <span>{t("protocol.values")}</span>
+        {showValues ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+      </button>
+      {showValues && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-start text-gray-700">
+            <thead>
+              <tr className="border-b border-gray-200 text-sm uppercase tracking-wide text-gray-500">
+                <th className="py-2 pe-4">{t("protocol.coefficient")}</th>
+                <th className="py-2 pe-4">{t("protocol.value")}</th>
+                <th className="py-2">{t("protocol.citation")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {PROTOCOL_COEFFICIENT_KEYS.map(key => (
+                <tr key={key} className="border-b border-gray-100">
+                  <td className="py-2 pe-4">{PROTOCOL_COEFFICIENTS[key].label}</td>
+                  <td className="py-2 pe-4 whitespace-nowrap">
+                    {num(active.coefficients[key].value)} {PROTOCOL_COEFFICIENTS[key].unit}
+                  </td>
+                  <td className="py-2 text-sm">{active.coefficients[key].citation}</td>
+                </tr>
+              ))}
+              {active.rrBands.map(band => (
+                <tr key={band.label} className="border-b border-gray-100">
+                  <td className="py-2 pe-4">{t("protocol.normalRR", { band: digits(band.label) })}</td>
+                  <td className="py-2 pe-4 whitespace-nowrap">{num(band.min)}–{num(band.max)} {t("protocol.breathsPerMinute")}</td>
+                  <td className="py-2 text-sm">{band.citation}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProtocolSelector;
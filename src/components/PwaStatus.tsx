@@ -0,0 +1,35 @@
+import { RefreshCw, WifiOff } from "lucide-react";
+import { useI18n } from "../i18n";
+import { usePwaStatus } from "../pwa/usePwaStatus";
+
+const PwaStatus = () => {
+  const { t } = useI18n();
+  const { online, updateAvailable, applyUpdate } = usePwaStatus();
+
+  if (online && !updateAvailable) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      {!online && (
+        <div role="status" className="bg-amber-50 border-s-4 border-amber-400 text-amber-800 px-6 py-3 rounded-lg flex items-center">
+          <WifiOff className="me-3 flex-shrink-0" size={20} />
+          <span>{t("pwa.offline")}</span>
+        </div>
+      )}
+      {updateAvailable && (
+        <div role="status" className="bg-blue-50 border-s-4 border-blue-400 text-blue-800 px-6 py-3 rounded-lg flex flex-wrap items-center gap-3">
+          <RefreshCw className="flex-shrink-0" size={20} />
+          <span className="flex-1">{t("pwa.updateAvailable")}</span>
+          <button
+            onClick={applyUpdate}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-all"
+          >
+            {t("pwa.reload")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PwaStatus;
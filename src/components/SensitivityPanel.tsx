@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { AlertTriangle, BarChart3, Shuffle } from "lucide-react";
+import {
+  analyzeSensitivity,
+  DEFAULT_MONTE_CARLO_ITERATIONS,
+  DEFAULT_SENSITIVITY_RANGES,
+  FactorKey,
+  formatNumber,
+  IWLInput,
+  MONTE_CARLO_ITERATIONS,
+  MonteCarloResult,
+  parseLocaleNumber,
+  PercentileBand,
+  ProtocolProfile,
+  runMonteCarlo,
+  SENSITIVITY_INPUT_IDS,
+  SENSITIVITY_INPUTS,
+  SensitivityBar,
+  SensitivityInput,
+  SensitivityRanges,
+  validateSensitivityRanges
+} from "../engine";
+import { useI18n } from "../i18n";
+
+interface SensitivityPanelProps {
+  input: IWLInput;
+  protocol: ProtocolProfile;
+  locale: string;
+}
+
+// Units of the perturbed values, which the engine works in; respiratory rate is labelled from the catalog.
+const VALUE_UNITS: Record<Exclude<SensitivityInput, "respiratoryRate">, string> = {
+  weight: "kg",
+  height: "cm",
+  temperature: "°C"
+};
+
+const DECREASE_COLOR = "#3b82f6";
+const INCREASE_COLOR = "#f97316";
+
+const WIDTH = 640;
+const ROW_HEIGHT = 44;
+const BAR_HEIGHT = 14;
+const PADDING = { top: 12, right: 56, bottom: 36, left: 150 };
+
+const inputClassName = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white";
+
+const SensitivityPanel = ({ input, protocol, locale }: SensitivityPanelProps) => {
+  const { t, fixed, num, message } = useI18n();
+  const [rangeText, setRangeText] = useState<Record<SensitivityInput, string>>(() =>
+    Object.fromEntries(SENSITIVITY_INPUT_IDS.map(id => [id, formatNumber(DEFAULT_SENSITIVITY_RANGES[id])])) as Record<SensitivityInput, string>
+  );
+  const [iterations, setIterations] = useState(DEFAULT_MONTE_CARLO_ITERATIONS);
+  const [monteCarlo, setMonteCarlo] = useState<{ input: IWLInput; ranges: string; result: MonteCarloResult } | null>(null);
+
+  const parsed = SENSITIVITY_INPUT_IDS.map(id => ({ id, ...parseLocaleNumber(rangeText[id], locale, SENSITIVITY_INPUTS[id].label) }));
+  const ranges = Object.fromEntries(parsed.map(({ id, value }) => [id, value ?? 0])) as SensitivityRanges;
+  const error = parsed.find(entry => entry.error)?.error ?? validateSensitivityRanges(ranges);
+  const analysis = error ? null : analyzeSensitivity(input, ranges, protocol);
+  // A run belongs to the calculation and ranges it was made with; changing either hides it.
+  const rangeKey = JSON.stringify(ranges);
+  const currentRun = monteCarlo && monteCarlo.input === input && monteCarlo.ranges === rangeKey ? monteCarlo.result : null;
+
+  const signed = (value: number) => `${value < 0 ? "−" : "+"}${fixed(Math.abs(value), 1)}`;
+  const unitLabel = (id: SensitivityInput) =>
+    id === "respiratoryRate" ? t("protocol.breathsPerMinute") : SENSITIVITY_INPUTS[id].unit;
+  const valueUnit = (id: SensitivityInput) => id === "respiratoryRate" ? t("protocol.breathsPerMinute") : VALUE_UNITS[id];
+  const barLabel = (bar: SensitivityBar) =>
+    bar.type === "factor" ? t(`factor.${bar.id as FactorKey}`) : t(`field.${bar.id as SensitivityInput}`);
+  const testedValues = (bar: SensitivityBar) => {
+    if (bar.type === "factor") return t("sensitivity.offOn");
+    const value = (entry: SensitivityBar["decrease"]) => entry?.value != null ? num(entry.value, 2) : t("sensitivity.notCalculable");
+    return `${value(bar.decrease)} – ${value(bar.increase)} ${valueUnit(bar.id as SensitivityInput)}`;
+  };
+  const totals = (entry: SensitivityBar["decrease"]) =>
+    entry ? `${fixed(entry.totalIWL_low, 1)} – ${fixed(entry.totalIWL_high, 1)}` : t("sensitivity.notCalculable");
+  const band = (values: PercentileBand) => `${fixed(values.p5, 1)} – ${fixed(values.p95, 1)}`;
+
+  const run = () => {
+    setMonteCarlo({ input, ranges: rangeKey, result: runMonteCarlo(input, ranges, protocol, iterations) });
+  };
+
+  const renderChart = () => {
+    if (!analysis || analysis.bars.length === 0) return null;
+    const { baseline, bars } = analysis;
+    const deltas = bars.flatMap(bar => [bar.decrease, bar.increase].flatMap(entry => entry
+      ? [entry.totalIWL_low - baseline.totalIWL_low, entry.totalIWL_high - baseline.totalIWL_high]
+      : []));
+    const extent = Math.max(1, ...deltas.map(Math.abs));
+    const height = PADDING.top + bars.length * ROW_HEIGHT + PADDING.bottom;
+    const centre = PADDING.left + (WIDTH - PADDING.left - PADDING.right) / 2;
+    const x = (delta: number) => centre + delta / extent * (WIDTH - PADDING.left - PADDING.right) / 2;
+
+    const segment = (delta: number, y: number, color: string, opacity: number, key: string) => (
+      <rect key={key} x={Math.min(x(0), x(delta))} y={y} width={Math.abs(x(delta) - x(0))} height={BAR_HEIGHT} fill={color} fillOpacity={opacity} />
+    );
+
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full bg-white rounded-lg" role="img" aria-label={t("sensitivity.chart")}>
+        {[-1, -0.5, 0, 0.5, 1].map(tick => (
+          <g key={tick}>
+            <line x1={x(tick * extent)} x2={x(tick * extent)} y1={PADDING.top} y2={height - PADDING.bottom} stroke={tick === 0 ? "#9ca3af" : "#e5e7eb"} />
+            <text x={x(tick * extent)} y={height - PADDING.bottom + 16} textAnchor="middle" fontSize="11" fill="#6b7280">
+              {tick === 0 ? num(0) : signed(tick * extent)}
+            </text>
+          </g>
+        ))}
+        <text x={centre} y={height - 4} textAnchor="middle" fontSize="11" fill="#6b7280">{t("sensitivity.axis")}</text>
+
+        {bars.map((bar, index) => {
+          const top = PADDING.top + index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT * 2) / 2;
+          // Upper bar: low estimate; lower bar: high estimate.
+          return (
+            <g key={bar.id}>
+              <text x={PADDING.left - 10} y={top + BAR_HEIGHT + 4} textAnchor="end" fontSize="12" fill="#374151">{barLabel(bar)}</text>
+              {([["totalIWL_low", top, 0.6], ["totalIWL_high", top + BAR_HEIGHT, 1]] as const).map(([total, y, opacity]) => (
+                <g key={total}>
+                  {bar.decrease && segment(bar.decrease[total] - baseline[total], y, DECREASE_COLOR, opacity, "decrease")}
+                  {bar.increase && segment(bar.increase[total] - baseline[total], y, INCREASE_COLOR, opacity, "increase")}
+                </g>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <div className="flex items-center mb-2">
+        <BarChart3 className="text-indigo-600 me-3" size={24} />
+        <h3 className="text-2xl font-semibold text-gray-800">{t("sensitivity.title")}</h3>
+      </div>
+      <p className="text-gray-600 mb-6">{t("sensitivity.hint")}</p>
+
+      <div className="grid md:grid-cols-4 gap-4 mb-6">
+        {SENSITIVITY_INPUT_IDS.map(id => (
+          <div key={id}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t("sensitivity.range", { field: t(`field.${id}`), unit: unitLabel(id) })}
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={rangeText[id]}
+              onChange={e => setRangeText({ ...rangeText, [id]: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
+          <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+          <span className="text-lg">{message(error)}</span>
+        </div>
+      )}
+
+      {analysis && (
+        <div className="space-y-4 mb-8">
+          <div className="font-semibold text-gray-700">
+            {t("sensitivity.baseline", { low: fixed(analysis.baseline.totalIWL_low, 1), high: fixed(analysis.baseline.totalIWL_high, 1) })}
+          </div>
+          {renderChart()}
+          <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-600">
+            <span className="flex items-center"><span className="inline-block w-3 h-3 me-2 rounded-sm" style={{ backgroundColor: DECREASE_COLOR }} />{t("sensitivity.decrease")}</span>
+            <span className="flex items-center"><span className="inline-block w-3 h-3 me-2 rounded-sm" style={{ backgroundColor: INCREASE_COLOR }} />{t("sensitivity.increase")}</span>
+            <span>{t("sensitivity.lowEstimate")} / {t("sensitivity.highEstimate")}</span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-start text-gray-700">
+              <thead>
+                <tr className="border-b border-gray-200 text-sm uppercase tracking-wide text-gray-500">
+                  <th className="py-2 pe-4">{t("sensitivity.input")}</th>
+                  <th className="py-2 pe-4">{t("sensitivity.tested")}</th>
+                  <th className="py-2 pe-4">{t("sensitivity.decrease")}</th>
+                  <th className="py-2">{t("sensitivity.increase")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.bars.map(bar => (
+                  <tr key={bar.id} className="border-b border-gray-100">
+                    <td className="py-2 pe-4 font-medium">{barLabel(bar)}</td>
+                    <td className="py-2 pe-4">{testedValues(bar)}</td>
+                    <td className="py-2 pe-4">{totals(bar.decrease)}</td>
+                    <td className="py-2">{totals(bar.increase)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {analysis.skipped.some(skip => !skip.reason) && (
+            <div className="text-sm text-gray-500">
+              {t("sensitivity.skipped", {
+                inputs: analysis.skipped
+                  .filter(skip => !skip.reason)
+                  .map(skip => t(`field.${skip.id as SensitivityInput}`))
+                  .join(", ")
+              })}
+            </div>
+          )}
+          {analysis.skipped.map(skip => skip.reason && (
+            <div key={skip.id} className="text-sm text-gray-500">
+              {t("sensitivity.factorSkipped", { factor: t(`factor.${skip.id as FactorKey}`), reason: message(skip.reason) })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {analysis && (
+        <div className="bg-indigo-50 p-6 rounded-xl">
+          <h4 className="font-semibold mb-2 text-indigo-700 text-lg">{t("sensitivity.monteCarlo")}</h4>
+          <p className="text-gray-600 mb-4">{t("sensitivity.monteCarloHint")}</p>
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t("sensitivity.iterations")}</label>
+              <select value={iterations} onChange={e => setIterations(Number(e.target.value))} className={inputClassName}>
+                {MONTE_CARLO_ITERATIONS.map(count => <option key={count} value={count}>{num(count)}</option>)}
+              </select>
+            </div>
+            <button
+              onClick={run}
+              className="flex items-center px-6 py-3 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition-all"
+            >
+              <Shuffle className="me-2" size={18} />
+              {t("sensitivity.run")}
+            </button>
+          </div>
+
+          {currentRun && (currentRun.totalIWL_low && currentRun.totalIWL_high ? (
+            <div className="grid md:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm font-medium text-gray-600">{t("sensitivity.median")}</p>
+                <p className="text-2xl font-bold text-indigo-700">
+                  {fixed(currentRun.totalIWL_low.median, 1)} – {fixed(currentRun.totalIWL_high.median, 1)} <span className="text-lg">{t("unit.mlPerDay")}</span>
+                </p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-600">{t("sensitivity.band")}</p>
+                <p className="text-gray-700">{t("sensitivity.lowEstimate")}: {band(currentRun.totalIWL_low)} {t("unit.mlPerDay")}</p>
+                <p className="text-gray-700">{t("sensitivity.highEstimate")}: {band(currentRun.totalIWL_high)} {t("unit.mlPerDay")}</p>
+              </div>
+              <div className="md:col-span-2 text-sm text-gray-500">
+                {t("sensitivity.samples", { samples: currentRun.samples, iterations: currentRun.iterations })}
+              </div>
+            </div>
+          ) : (
+            <div className="text-red-700">{t("sensitivity.noSamples")}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, History, Save, Trash2, Upload } from "lucide-react";
+import { CalculationResult, FACTOR_KEYS, IWLFormValues, IWLInput } from "../engine";
+import { MessageKey, useI18n } from "../i18n";
+import {
+  deleteCalculation,
+  deleteSession,
+  listCalculations,
+  listSessions,
+  openSession,
+  PatientSession,
+  SavedCalculation,
+  saveCalculation
+} from "../storage/sessions";
+import SessionTimeline from "./SessionTimeline";
+
+interface SessionPanelProps {
+  // The calculation currently on screen, with the form and input it was made from.
+  current: { form: IWLFormValues; input: IWLInput; result: CalculationResult } | null;
+  onLoad: (form: IWLFormValues) => void;
+  // The selected session, kept by the app so the unit board can open a patient here.
+  activeSessionId: string;
+  onSelectSession: (id: string) => void;
+}
+
+const SessionPanel = ({ current, onLoad, activeSessionId, onSelectSession }: SessionPanelProps) => {
+  const { t, digits, language } = useI18n();
+  const [sessions, setSessions] = useState<PatientSession[]>([]);
+  const [identifier, setIdentifier] = useState("");
+  const [calculations, setCalculations] = useState<SavedCalculation[]>([]);
+  const [scale, setScale] = useState<"daily" | "hourly">("daily");
+  // A storage failure from the browser, or a catalog message.
+  const [error, setError] = useState<Error | MessageKey | null>(null);
+
+  const report = (e: unknown) => setError(e instanceof Error ? e : "board.storageError");
+
+  useEffect(() => {
+    listSessions().then(setSessions).catch(report);
+  }, []);
+
+  useEffect(() => {
+    if (!activeSessionId) {
+      setCalculations([]);
+      return;
+    }
+    listCalculations(activeSessionId).then(setCalculations).catch(report);
+  }, [activeSessionId]);
+
+  const handleOpen = async () => {
+    const id = identifier.trim();
+    if (!id) {
+      setError("session.identifierRequired");
+      return;
+    }
+    try {
+      await openSession(id);
+      setSessions(await listSessions());
+      onSelectSession(id);
+      setIdentifier("");
+      setError(null);
+    } catch (e) {
+      report(e);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!current || !activeSessionId) return;
+    try {
+      const saved = await saveCalculation({ sessionId: activeSessionId, timestamp: new Date().toISOString(), ...current });
+      setCalculations(prev => [...prev, saved]);
+      setSessions(await listSessions());
+    } catch (e) {
+      report(e);
+    }
+  };
+
+  const handleDeleteSession = async () => {
+    if (!activeSessionId || !window.confirm(t("session.confirmDelete", { session: activeSessionId }))) return;
+    try {
+      await deleteSession(activeSessionId);
+      onSelectSession("");
+      setSessions(await listSessions());
+    } catch (e) {
+      report(e);
+    }
+  };
+
+  const handleDeleteCalculation = async (id?: number) => {
+    if (id === undefined) return;
+    try {
+      await deleteCalculation(id);
+      setCalculations(prev => prev.filter(calculation => calculation.id !== id));
+    } catch (e) {
+      report(e);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <div className="flex items-center mb-6">
+        <History className="text-indigo-600 me-3" size={24} />
+        <h3 className="text-2xl font-semibold text-gray-800">{t("session.title")}</h3>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
+          <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+          <span className="text-lg">{typeof error === "string" ? t(error) : error.message}</span>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t("session.identifier")}</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder={t("session.identifierExample")}
+              value={identifier}
+              onChange={e => setIdentifier(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg"
+            />
+            <button
+              onClick={handleOpen}
+              className="bg-indigo-600 text-white px-4 rounded-lg hover:bg-indigo-700 transition-all font-medium"
+            >
+              {t("session.open")}
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t("session.saved")}</label>
+          <select
+            value={activeSessionId}
+            onChange={e => onSelectSession(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-lg bg-white"
+          >
+            <option value="">{t("session.none")}</option>
+            {sessions.map(session => (
+              <option key={session.id} value={session.id}>{session.id}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {activeSessionId && (
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleSave}
+              disabled={!current}
+              className="flex items-center bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all font-medium disabled:opacity-50"
+            >
+              <Save className="me-2" size={18} />
+              {t("session.save", { session: activeSessionId })}
+            </button>
+            <button
+              onClick={handleDeleteSession}
+              className="flex items-center text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 transition-all font-medium"
+            >
+              <Trash2 className="me-2" size={18} />
+              {t("session.delete")}
+            </button>
+          </div>
+
+          <div className="bg-gray-50 p-6 rounded-xl">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="font-semibold text-gray-700 text-lg">{t("session.trend")}</h4>
+              <select
+                value={scale}
+                onChange={e => setScale(e.target.value as "daily" | "hourly")}
+                className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm"
+              >
+                <option value="daily">{t("session.scale.daily")}</option>
+                <option value="hourly">{t("session.scale.hourly")}</option>
+              </select>
+            </div>
+            <SessionTimeline calculations={calculations} scale={scale} />
+          </div>
+
+          {calculations.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-start text-gray-700">
+                <thead>
+                  <tr className="border-b border-gray-200 text-sm uppercase tracking-wide text-gray-500">
+                    <th className="py-2 pe-4">{t("session.time")}</th>
+                    <th className="py-2 pe-4">{t("results.daily")}</th>
+                    <th className="py-2 pe-4">{t("results.hourly")}</th>
+                    <th className="py-2 pe-4">{t("session.factors")}</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...calculations].reverse().map(calculation => (
+                    <tr key={calculation.id} className="border-b border-gray-100">
+                      <td className="py-2 pe-4">{digits(new Date(calculation.timestamp).toLocaleString(language))}</td>
+                      <td className="py-2 pe-4">{digits(`${calculation.result.totalIWL_low} – ${calculation.result.totalIWL_high}`)}</td>
+                      <td className="py-2 pe-4">{digits(`${calculation.result.hourly_low} – ${calculation.result.hourly_high}`)}</td>
+                      <td className="py-2 pe-4 text-sm">
+                        {FACTOR_KEYS
+                          .filter(factor => calculation.result.factors[factor])
+                          .map(factor => t(`factor.${factor}`))
+                          .join(", ") || "—"}
+                      </td>
+                      <td className="py-2 whitespace-nowrap">
+                        <button onClick={() => onLoad(calculation.form)} title={t("session.load")} className="p-2 text-blue-700 hover:bg-blue-50 rounded-lg">
+                          <Upload size={16} />
+                        </button>
+                        <button onClick={() => handleDeleteCalculation(calculation.id)} title={t("session.deleteCalculation")} className="p-2 text-red-700 hover:bg-red-50 rounded-lg">
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,110 @@
+import { FACTOR_KEYS, FactorKey } from "../engine";
+import { I18n, useI18n } from "../i18n";
+import { SavedCalculation } from "../storage/sessions";
+
+interface SessionTimelineProps {
+  calculations: SavedCalculation[];
+  scale: "daily" | "hourly";
+}
+
+interface FactorChange {
+  factor: FactorKey;
+  enabled: boolean;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 20, right: 20, bottom: 40, left: 56 };
+
+const getFactorChanges = (previous: SavedCalculation, next: SavedCalculation): FactorChange[] =>
+  FACTOR_KEYS
+    // Results saved before a factor existed have no entry for it, which means it was off.
+    .filter(factor => Boolean(previous.result.factors[factor]) !== Boolean(next.result.factors[factor]))
+    .map(factor => ({ factor, enabled: Boolean(next.result.factors[factor]) }));
+
+const formatTime = (timestamp: string, { language, digits }: I18n) =>
+  digits(new Date(timestamp).toLocaleString(language, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }));
+
+const SessionTimeline = ({ calculations, scale }: SessionTimelineProps) => {
+  const i18n = useI18n();
+  const { t, fixed } = i18n;
+  if (calculations.length === 0) {
+    return <div className="text-gray-500">{t("session.empty")}</div>;
+  }
+
+  const points = calculations.map(calculation => ({
+    time: new Date(calculation.timestamp).getTime(),
+    low: parseFloat(scale === "daily" ? calculation.result.totalIWL_low : calculation.result.hourly_low),
+    high: parseFloat(scale === "daily" ? calculation.result.totalIWL_high : calculation.result.hourly_high)
+  }));
+  const minTime = points[0].time;
+  const maxTime = points[points.length - 1].time;
+  const maxValue = Math.max(...points.map(point => point.high)) * 1.1 || 1;
+
+  const x = (time: number) => maxTime === minTime
+    ? PADDING.left + (WIDTH - PADDING.left - PADDING.right) / 2
+    : PADDING.left + (time - minTime) / (maxTime - minTime) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) => HEIGHT - PADDING.bottom - value / maxValue * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const band = [
+    ...points.map(point => `${x(point.time)},${y(point.high)}`),
+    ...[...points].reverse().map(point => `${x(point.time)},${y(point.low)}`)
+  ].join(" ");
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(fraction => maxValue * fraction);
+  const unit = t(scale === "daily" ? "unit.mlPerDay" : "unit.mlPerHour");
+  const describeChanges = (changes: FactorChange[]) =>
+    changes.map(change => `${change.enabled ? "+" : "−"}${t(`factor.${change.factor}`)}`).join(", ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={t("session.chart", { unit })}>
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{fixed(tick, 0)}</text>
+          </g>
+        ))}
+        <text x={12} y={HEIGHT / 2} fontSize="11" fill="#6b7280" transform={`rotate(-90 12 ${HEIGHT / 2})`} textAnchor="middle">{unit}</text>
+
+        {calculations.slice(1).map((calculation, index) => {
+          const changes = getFactorChanges(calculations[index], calculation);
+          if (changes.length === 0) return null;
+          const markerX = x(points[index + 1].time);
+          return (
+            <g key={calculation.id ?? calculation.timestamp}>
+              <line x1={markerX} x2={markerX} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} stroke="#a855f7" strokeDasharray="4 3" />
+              <title>{describeChanges(changes)}</title>
+              <text x={markerX + 4} y={PADDING.top + 10} fontSize="10" fill="#7e22ce">
+                {describeChanges(changes)}
+              </text>
+            </g>
+          );
+        })}
+
+        <polygon points={band} fill="#bfdbfe" opacity={0.6} />
+        <polyline points={points.map(point => `${x(point.time)},${y(point.high)}`).join(" ")} fill="none" stroke="#7c3aed" strokeWidth={2} />
+        <polyline points={points.map(point => `${x(point.time)},${y(point.low)}`).join(" ")} fill="none" stroke="#2563eb" strokeWidth={2} />
+        {points.map(point => (
+          <g key={point.time}>
+            <circle cx={x(point.time)} cy={y(point.high)} r={3} fill="#7c3aed" />
+            <circle cx={x(point.time)} cy={y(point.low)} r={3} fill="#2563eb" />
+          </g>
+        ))}
+
+        <text x={PADDING.left} y={HEIGHT - 12} fontSize="11" fill="#6b7280">{formatTime(calculations[0].timestamp, i18n)}</text>
+        {calculations.length > 1 && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 12} fontSize="11" fill="#6b7280" textAnchor="end">
+            {formatTime(calculations[calculations.length - 1].timestamp, i18n)}
+          </text>
+        )}
+      </svg>
+      <div className="flex items-center gap-4 text-xs text-gray-500 mt-2">
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-blue-600 me-1" />{t("session.low")}</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-purple-600 me-1" />{t("session.high")}</span>
+        <span className="flex items-center"><span className="inline-block w-3 border-t border-dashed border-purple-500 me-1" />{t("session.factorChange")}</span>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeline;
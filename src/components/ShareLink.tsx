@@ -0,0 +1,74 @@
+import { useMemo, useState } from "react";
+import qrcode from "qrcode-generator";
+import { Link2, QrCode } from "lucide-react";
+import { encodeShareLink, IWLFormValues, ProtocolProfile } from "../engine";
+import { useI18n } from "../i18n";
+
+interface ShareLinkProps {
+  form: IWLFormValues;
+  protocol: ProtocolProfile;
+}
+
+// Scanners need four modules of blank margin around the code.
+const QUIET_ZONE = 4;
+
+const ShareLink = ({ form, protocol }: ShareLinkProps) => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState("");
+
+  const url = `${window.location.origin}${window.location.pathname}#${encodeShareLink(form, protocol)}`;
+
+  const { size, path } = useMemo(() => {
+    const code = qrcode(0, "M");
+    code.addData(url);
+    code.make();
+    const count = code.getModuleCount();
+    const modules: string[] = [];
+    for (let row = 0; row < count; row++) {
+      for (let col = 0; col < count; col++) {
+        if (code.isDark(row, col)) modules.push(`M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`);
+      }
+    }
+    return { size: count + QUIET_ZONE * 2, path: modules.join("") };
+  }, [url]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus(t("share.copied"));
+    } catch {
+      setStatus(t("share.copyBlocked"));
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row items-center gap-6 p-4 rounded-xl border border-gray-200">
+      <svg
+        viewBox={`0 0 ${size} ${size}`}
+        className="w-40 h-40 flex-shrink-0 bg-white"
+        shapeRendering="crispEdges"
+        role="img"
+        aria-label={t("share.qr")}
+      >
+        <path d={path} fill="#111827" />
+      </svg>
+      <div className="flex-1 min-w-0">
+        <h4 className="font-semibold text-gray-700 flex items-center mb-2">
+          <QrCode className="me-2" size={18} />
+          {t("share.title")}
+        </h4>
+        <p className="text-sm text-gray-600 mb-3">{t("share.hint")}</p>
+        <button
+          onClick={copyLink}
+          className="flex items-center justify-center px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-blue-700 transition-all font-medium"
+        >
+          <Link2 className="me-2" size={18} />
+          {t("share.copy")}
+        </button>
+        {status && <p className="text-sm text-gray-600 mt-3">{status}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ShareLink;
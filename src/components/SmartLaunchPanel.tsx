@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { AlertTriangle, Loader2, Stethoscope, UploadCloud } from "lucide-react";
+import { buildIWLObservation, CalculationResult, FhirPrefill, FhirPrefillField, getPatientName } from "../engine";
+import { writeSmartObservation } from "../fhir/smart";
+import { SmartLaunchState } from "../fhir/useSmartLaunch";
+import { MessageKey, useI18n } from "../i18n";
+
+interface SmartLaunchPanelProps {
+  launch: SmartLaunchState;
+  prefill: FhirPrefill | null;
+  // The calculation on screen, offered for write-back.
+  result: CalculationResult | null;
+}
+
+const FIELD_LABELS: Record<FhirPrefillField, MessageKey> = {
+  weight: "fhir.vital.weight",
+  height: "fhir.vital.height",
+  temperature: "fhir.vital.temperature",
+  respiratoryRate: "fhir.vital.respiratoryRate",
+  age: "fhir.birthDate"
+};
+
+const SmartLaunchPanel = ({ launch, prefill, result }: SmartLaunchPanelProps) => {
+  const { t, digits, message, language } = useI18n();
+  // The write-back status belongs to the result it was made for.
+  const [write, setWrite] = useState<{ result: CalculationResult; status: string; failed: boolean } | null>(null);
+  const [writing, setWriting] = useState(false);
+
+  if (launch.status === "inactive") return null;
+
+  const formatTime = (time: string | null) => time ? digits(new Date(time).toLocaleString(language)) : t("fhir.notRecorded");
+
+  const writeObservation = async () => {
+    if (!result || !launch.data || !prefill) return;
+    const { session } = launch.data;
+    setWriting(true);
+    try {
+      const observation = buildIWLObservation(result, {
+        patientId: session.patientId,
+        derivedFrom: prefill.items.map(item => item.reference).filter(reference => reference.startsWith("Observation/"))
+      });
+      const reference = await writeSmartObservation(session, observation);
+      setWrite({ result, status: t("fhir.written", { reference }), failed: false });
+    } catch (e) {
+      setWrite({ result, status: t("fhir.writeFailed", { error: e instanceof Error ? e.message : String(e) }), failed: true });
+    } finally {
+      setWriting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <div className="flex items-center mb-4">
+        <Stethoscope className="text-blue-600 me-3" size={24} />
+        <h2 className="text-2xl font-semibold text-gray-800">{t("fhir.title")}</h2>
+      </div>
+
+      {(launch.status === "authorizing" || launch.status === "loading") && (
+        <p className="text-gray-600 flex items-center" role="status">
+          <Loader2 className="me-2 animate-spin" size={18} />
+          {t(launch.status === "authorizing" ? "fhir.authorizing" : "fhir.loading")}
+        </p>
+      )}
+
+      {launch.status === "error" && (
+        <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg flex items-center" role="alert">
+          <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+          <span>{t("fhir.failed", { error: launch.error ?? "" })}</span>
+        </div>
+      )}
+
+      {launch.status === "ready" && launch.data && prefill && (
+        <>
+          <p className="font-semibold text-gray-700 mb-1">
+            {t("fhir.patient", { name: getPatientName(launch.data.patient) || `Patient/${launch.data.session.patientId}` })}
+          </p>
+          <p className="text-sm text-gray-600 mb-4">{t("fhir.hint")}</p>
+
+          {prefill.errors.length > 0 && (
+            <div className="bg-amber-50 border-s-4 border-amber-400 text-amber-800 px-6 py-3 rounded-lg mb-4 space-y-1">
+              {prefill.errors.map(error => <p key={error.message}>{message(error)}</p>)}
+            </div>
+          )}
+
+          {prefill.items.length > 0 && (
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full text-sm text-start">
+                <thead>
+                  <tr className="border-b border-gray-200 text-gray-600">
+                    <th className="py-2 pe-4 text-start font-semibold">{t("fhir.field")}</th>
+                    <th className="py-2 pe-4 text-start font-semibold">{t("fhir.value")}</th>
+                    <th className="py-2 pe-4 text-start font-semibold">{t("fhir.measuredAt")}</th>
+                    <th className="py-2 pe-4 text-start font-semibold">{t("fhir.source")}</th>
+                    <th className="py-2 text-start font-semibold">{t("fhir.record")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {prefill.items.map(item => (
+                    <tr key={item.field} className="border-b border-gray-100">
+                      <td className="py-2 pe-4">{t(FIELD_LABELS[item.field])}</td>
+                      <td className="py-2 pe-4 font-mono" dir="ltr">{digits(item.value)}</td>
+                      <td className="py-2 pe-4">{item.field === "age" ? "—" : formatTime(item.effective)}</td>
+                      <td className="py-2 pe-4">{item.source || t("fhir.notRecorded")}</td>
+                      <td className="py-2 font-mono text-xs text-gray-500" dir="ltr">{item.reference}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {prefill.missing.length > 0 && (
+            <p className="text-sm text-gray-600 mb-4">
+              {t("fhir.missing", { fields: prefill.missing.map(field => t(FIELD_LABELS[field])).join(", ") })}
+            </p>
+          )}
+
+          {result && (
+            <div className="pt-4 border-t border-gray-100">
+              <p className="text-sm text-gray-600 mb-3">{t("fhir.writeHint")}</p>
+              <button
+                onClick={writeObservation}
+                disabled={writing}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                <UploadCloud className="me-2" size={18} />
+                {t(writing ? "fhir.writing" : "fhir.write")}
+              </button>
+              {write?.result === result && (
+                <p className={`mt-2 text-sm ${write.failed ? "text-red-700" : "text-green-700"}`} role="status">{write.status}</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SmartLaunchPanel;
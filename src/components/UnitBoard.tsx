@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, ArrowUpDown, Bed, ExternalLink, Filter } from "lucide-react";
+import {
+  EngineMessage,
+  FACTOR_KEYS,
+  FactorKey,
+  filterUnitBoard,
+  getSavedWarnings,
+  recalculateWithFactor,
+  sortUnitBoard,
+  UNIT_BOARD_SORTS,
+  UnitBoardFilter,
+  UnitBoardPatient,
+  UnitBoardSort,
+  WarningSeverity
+} from "../engine";
+import { useI18n } from "../i18n";
+import { listUnitBoard, saveCalculation, updateSessionBed } from "../storage/sessions";
+
+interface UnitBoardProps {
+  onOpen: (patient: UnitBoardPatient) => void;
+}
+
+const SEVERITY_BADGES: Record<WarningSeverity, string> = {
+  critical: "bg-red-100 text-red-800",
+  warning: "bg-amber-100 text-amber-800",
+  info: "bg-blue-50 text-blue-800"
+};
+
+const UnitBoard = ({ onOpen }: UnitBoardProps) => {
+  const { t, fixed, digits, message, language } = useI18n();
+  const [patients, setPatients] = useState<UnitBoardPatient[]>([]);
+  const [filter, setFilter] = useState<UnitBoardFilter>({ bed: "", factor: "" });
+  const [sort, setSort] = useState<UnitBoardSort>("bed");
+  // Beds being typed; saved on blur so rows do not re-sort under the cursor.
+  const [bedDrafts, setBedDrafts] = useState<Record<string, string>>({});
+  const [rowErrors, setRowErrors] = useState<Record<string, EngineMessage | null>>({});
+  const [storageError, setStorageError] = useState(false);
+
+  useEffect(() => {
+    listUnitBoard().then(setPatients).catch(() => setStorageError(true));
+  }, []);
+
+  const rows = sortUnitBoard(filterUnitBoard(patients, filter), sort);
+
+  const saveBed = async (patient: UnitBoardPatient) => {
+    const bed = (bedDrafts[patient.id] ?? patient.bed).trim();
+    setBedDrafts(prev => {
+      const next = { ...prev };
+      delete next[patient.id];
+      return next;
+    });
+    if (bed === patient.bed) return;
+    try {
+      await updateSessionBed(patient.id, bed);
+      setPatients(prev => prev.map(entry => entry.id === patient.id ? { ...entry, bed } : entry));
+    } catch {
+      setStorageError(true);
+    }
+  };
+
+  // The recalculated row is saved as a new calculation, so the change shows in the patient's trend.
+  const toggleFactor = async (patient: UnitBoardPatient, factor: FactorKey) => {
+    if (!patient.latest) return;
+    const { calculation, error } = recalculateWithFactor(patient.latest, factor, !patient.latest.form.factors[factor]);
+    setRowErrors(prev => ({ ...prev, [patient.id]: error }));
+    if (!calculation) return;
+    try {
+      await saveCalculation({ sessionId: patient.id, ...calculation });
+      setPatients(prev => prev.map(entry => entry.id === patient.id ? { ...entry, latest: calculation } : entry));
+    } catch {
+      setStorageError(true);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+      <div className="flex items-center mb-2">
+        <Bed className="text-indigo-600 me-3" size={24} />
+        <h2 className="text-2xl font-semibold text-gray-800">{t("board.title")}</h2>
+      </div>
+      <p className="text-gray-600 mb-6">{t("board.hint")}</p>
+
+      {storageError && (
+        <div className="bg-red-50 border-s-4 border-red-400 text-red-700 px-6 py-4 rounded-lg mb-6 flex items-center">
+          <AlertTriangle className="me-3 flex-shrink-0" size={20} />
+          <span className="text-lg">{t("board.storageError")}</span>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label htmlFor="board-bed" className="block text-sm font-medium text-gray-700 mb-2">{t("board.filterBed")}</label>
+          <input
+            id="board-bed"
+            type="search"
+            value={filter.bed}
+            onChange={e => setFilter(prev => ({ ...prev, bed: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label htmlFor="board-factor" className="block text-sm font-medium text-gray-700 mb-2">
+            <Filter className="inline me-1" size={14} />
+            {t("board.filterFactor")}
+          </label>
+          <select
+            id="board-factor"
+            value={filter.factor}
+            onChange={e => setFilter(prev => ({ ...prev, factor: e.target.value as FactorKey | "" }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white"
+          >
+            <option value="">{t("board.allFactors")}</option>
+            {FACTOR_KEYS.map(factor => <option key={factor} value={factor}>{t(`factor.${factor}`)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="board-sort" className="block text-sm font-medium text-gray-700 mb-2">
+            <ArrowUpDown className="inline me-1" size={14} />
+            {t("board.sort")}
+          </label>
+          <select
+            id="board-sort"
+            value={sort}
+            onChange={e => setSort(e.target.value as UnitBoardSort)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white"
+          >
+            {UNIT_BOARD_SORTS.map(option => <option key={option} value={option}>{t(`board.sort.${option}`)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {patients.length === 0 && !storageError && <p className="text-gray-600">{t("board.empty")}</p>}
+      {patients.length > 0 && rows.length === 0 && <p className="text-gray-600">{t("board.noMatch")}</p>}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-start text-gray-700 text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs uppercase tracking-wide text-gray-500">
+                <th className="py-2 pe-3 text-start">{t("board.bed")}</th>
+                <th className="py-2 pe-3 text-start">{t("board.patient")}</th>
+                <th className="py-2 pe-3 text-start">{t("board.weight")}</th>
+                <th className="py-2 pe-3 text-start">{t("board.factors")}</th>
+                <th className="py-2 pe-3 text-start">{t("results.daily")}</th>
+                <th className="py-2 pe-3 text-start">{t("results.hourly")}</th>
+                <th className="py-2 pe-3 text-start">{t("board.warnings")}</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(patient => {
+                const { latest } = patient;
+                const rowError = rowErrors[patient.id];
+                const warnings = latest ? getSavedWarnings(latest.result) : [];
+                return (
+                  <tr
+                    key={patient.id}
+                    onClick={() => onOpen(patient)}
+                    className="border-b border-gray-100 align-top cursor-pointer hover:bg-blue-50"
+                  >
+                    <td className="py-2 pe-3" onClick={e => e.stopPropagation()}>
+                      <input
+                        type="text"
+                        aria-label={t("board.bed")}
+                        value={bedDrafts[patient.id] ?? patient.bed}
+                        onChange={e => setBedDrafts(prev => ({ ...prev, [patient.id]: e.target.value }))}
+                        onBlur={() => saveBed(patient)}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </td>
+                    <td className="py-2 pe-3 font-medium">
+                      {patient.id}
+                      <div className="text-xs text-gray-500 font-normal">
+                        {latest ? t("board.saved", { time: digits(new Date(latest.timestamp).toLocaleString(language)) }) : t("board.noCalculation")}
+                      </div>
+                    </td>
+                    <td className="py-2 pe-3">{latest ? fixed(latest.result.weight, 2) : "—"}</td>
+                    <td className="py-2 pe-3" onClick={e => e.stopPropagation()}>
+                      {latest && FACTOR_KEYS.map(factor => (
+                        <label key={factor} className="flex items-center whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={latest.form.factors[factor]}
+                            onChange={() => toggleFactor(patient, factor)}
+                            className="me-2"
+                          />
+                          {t(`factor.${factor}`)}
+                        </label>
+                      ))}
+                      {rowError && <p className="text-red-700 text-xs mt-1">{message(rowError)}</p>}
+                    </td>
+                    <td className="py-2 pe-3 whitespace-nowrap">
+                      {latest ? `${digits(latest.result.totalIWL_low)} – ${digits(latest.result.totalIWL_high)}` : "—"}
+                    </td>
+                    <td className="py-2 pe-3 whitespace-nowrap">
+                      {latest ? `${digits(latest.result.hourly_low)} – ${digits(latest.result.hourly_high)}` : "—"}
+                    </td>
+                    <td className="py-2 pe-3">
+                      {latest && warnings.length === 0 && <span className="text-gray-500">{t("board.noWarnings")}</span>}
+                      {warnings.map(warning => (
+                        <span
+                          key={warning.code}
+                          title={message(warning)}
+                          className={`inline-block me-1 mb-1 px-2 py-0.5 rounded text-xs ${SEVERITY_BADGES[warning.severity]}`}
+                        >
+                          {t(`warning.severity.${warning.severity}`)}: {warning.code}
+                        </span>
+                      ))}
+                    </td>
+                    <td className="py-2">
+                      <button
+                        onClick={e => {
+                          e.stopPropagation();
+                          onOpen(patient);
+                        }}
+                        title={t("board.open")}
+                        aria-label={t("board.open")}
+                        className="p-2 text-blue-700 hover:bg-blue-50 rounded-lg"
+                      >
+                        <ExternalLink size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UnitBoard;
@@ -0,0 +1,22 @@
+interface UnitToggleProps<U extends string> {
+  units: Record<U, string>;
+  value: U;
+  onChange: (unit: U) => void;
+}
+
+const UnitToggle = <U extends string>({ units, value, onChange }: UnitToggleProps<U>) => (
+  <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs font-medium">
+    {(Object.keys(units) as U[]).map(unit => (
+      <button
+        key={unit}
+        type="button"
+        onClick={() => onChange(unit)}
+        className={`px-2 py-1 transition-all ${unit === value ? "bg-blue-600 text-white" : "bg-white text-gray-600 hover:bg-gray-50"}`}
+      >
+        {units[unit]}
+      </button>
+    ))}
+  </div>
+);
+
+export default UnitToggle;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { batchRowToForm, calculateBatchRow, parseBatchJSON, parseCSV, summarizeBatch } from "./batch";
+
+describe("parseCSV", () => {
+  it("reads quoted fields, escaped quotes, CRLF and a byte order mark, skipping blank lines", () => {
+    const { rows, error } = parseCSV('\uFEFFid,weight,note\r\n1,"12,5","said ""hi""\nthen left"\r\n\r\n2,8,\n');
+    expect(error).toBeNull();
+    expect(rows).toEqual([
+      { id: "1", weight: "12,5", note: 'said "hi"\nthen left' },
+      { id: "2", weight: "8", note: "" }
+    ]);
+  });
+
+  it("reports structural problems with their line", () => {
+    expect(parseCSV("").error?.code).toBe("CSV_EMPTY");
+    expect(parseCSV("a,a\n1,2").error?.code).toBe("CSV_DUPLICATE_COLUMN");
+    expect(parseCSV("a,\n1,2").error?.code).toBe("CSV_EMPTY_COLUMN");
+    expect(parseCSV("a,b\n1,2\n3").error?.params).toEqual({ line: 3, fields: 1, columns: 2 });
+    expect(parseCSV('a\n"open').error?.params).toEqual({ line: 2 });
+  });
+});
+
+describe("parseBatchJSON", () => {
+  it("writes numbers with the row locale's separator and joins factor arrays", () => {
+    const { rows, error } = parseBatchJSON('[{"weight": 12.5, "locale": "fr-FR", "factors": ["phototherapy", "cpap"], "sex": null}]');
+    expect(error).toBeNull();
+    expect(rows).toEqual([{ weight: "12,5", locale: "fr-FR", factors: "phototherapy;cpap", sex: "" }]);
+  });
+
+  it("rejects anything but an array of flat objects", () => {
+    expect(parseBatchJSON("{").error?.code).toBe("JSON_INVALID");
+    expect(parseBatchJSON("{}").error?.code).toBe("JSON_NOT_ARRAY");
+    expect(parseBatchJSON("[1]").error?.code).toBe("JSON_ROW_NOT_OBJECT");
+    expect(parseBatchJSON('[{"weight": {"value": 3}}]').error?.params).toEqual({ row: 1, column: "weight" });
+  });
+});
+
+describe("batchRowToForm", () => {
+  it("matches choices and factors regardless of case", () => {
+    const { form, error } = batchRowToForm({ weight: "3", weightUnit: "KG", factors: "Phototherapy; CPAP", "exposure.cpap": "8" });
+    expect(error).toBeNull();
+    expect(form.weightUnit).toBe("kg");
+    expect(form.factors.phototherapy && form.factors.cpap).toBe(true);
+    expect(form.factorExposures.cpap).toMatchObject({ mode: "duration", hours: "8" });
+  });
+
+  it("reports unknown choices and factors", () => {
+    expect(batchRowToForm({ weightUnit: "stone" }).error?.code).toBe("UNKNOWN_CHOICE");
+    expect(batchRowToForm({ factors: "lowHumidity" }).error?.code).toBe("UNKNOWN_FACTOR");
+  });
+});
+
+describe("calculateBatchRow", () => {
+  it("calculates valid rows and reports invalid ones in English", () => {
+    const calculated = calculateBatchRow({ weight: "12", height: "86", ageYears: "2" }, 1);
+    expect(calculated.error).toBeNull();
+    expect(calculated.result?.totalIWL_low).toBeDefined();
+
+    const failed = calculateBatchRow({ weight: "0" }, 2);
+    expect(failed.result).toBeNull();
+    expect(failed.error).toBe("Please enter a valid weight (kg)");
+
+    const summary = summarizeBatch([calculated, failed]);
+    expect(summary).toMatchObject({ rows: 2, calculated: 1, failed: 1, errors: [{ rowNumber: 2, message: failed.error }] });
+  });
+});
@@ -0,0 +1,333 @@
+import { LUND_BROWDER_REGIONS } from "./burns";
+import {
+  DEFAULT_FORM_VALUES,
+  FORM_CHOICES,
+  FORM_TEXT_FIELDS,
+  FormChoiceField,
+  IWLFormValues,
+  parseExposureText,
+  parseIWLForm
+} from "./form";
+import { FactorKey, NO_FACTORS, PERCENT_FACTOR_KEYS } from "./factors";
+import { calculateIWL, CalculationResult, IWLInput, validateIWLInput } from "./iwl";
+import { EngineMessage, engineMessage } from "./messages";
+import { BUILTIN_PROTOCOL, formatProtocolName, ProtocolProfile } from "./protocol";
+import { CSV_COLUMNS, CSVValue, escapeCSV } from "./report";
+import { getDecimalSeparator } from "./units";
+
+/**
+ * Batch recalculation of tabular datasets, as run by the command-line tool. Each row goes through the
+ * same form parsing, validation and calculation as the web app. Columns are named after the form
+ * fields (weight, weightUnit, height, temperature, respiratoryRate, ageYears, ageMonthsOnly, sex,
+ * bsaMethod, careSetting, ...), factors lists the ticked factors separated by ";", burns are entered
+ * as burn.<region>.partial and burn.<region>.full, and exposure.<factor> gives the hours a factor runs
+ * ("8") or its start and stop times ("20:00-04:00"). Any other column is carried through unchanged.
+ *
+ * Structural problems (unreadable CSV or JSON) stop the whole batch; a row that fails validation is
+ * reported in the output and the summary like any other.
+ */
+
+export type BatchRow = Record<string, string>;
+
+export interface BatchRowResult {
+  // 1-based position among the data rows.
+  rowNumber: number;
+  row: BatchRow;
+  result: CalculationResult | null;
+  input: IWLInput | null;
+  // English, as written to the output file.
+  error: string | null;
+}
+
+export interface BatchSummary {
+  rows: number;
+  calculated: number;
+  failed: number;
+  // Calculated rows with a growth plausibility alert.
+  withAlerts: number;
+  // Calculated rows with a critical safety warning.
+  withCriticalWarnings: number;
+  engineVersion: string;
+  protocol: string;
+  // Daily IWL (mL/day) over calculated rows; null when none were calculated.
+  totalIWL: { low: BatchStatistics; high: BatchStatistics } | null;
+  errors: { rowNumber: number; message: string }[];
+}
+
+export interface BatchStatistics {
+  min: number;
+  median: number;
+  max: number;
+}
+
+const FACTORS_COLUMN = "factors";
+
+const burnColumn = (id: string, thickness: "partial" | "full") => `burn.${id}.${thickness}`;
+
+const exposureColumn = (factor: string) => `exposure.${factor}`;
+
+const OUTPUT_COLUMNS = ["row", "status", "error", ...CSV_COLUMNS.map(column => column.header), "alerts"];
+
+/** Parses RFC 4180 CSV with a header row; blank lines are skipped. */
+export const parseCSV = (text: string): { rows: BatchRow[]; error: EngineMessage | null } => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  const source = text.replace(/^\uFEFF/, "");
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== "") records.push({ line: recordLine, fields });
+    fields = [];
+    field = "";
+  };
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    return { rows: [], error: engineMessage("CSV_UNCLOSED_QUOTE", `CSV line ${recordLine}: a quoted field is never closed`, { line: recordLine }) };
+  }
+  if (field !== "" || fields.length > 0) endRecord();
+
+  const [header, ...data] = records;
+  if (!header) return { rows: [], error: engineMessage("CSV_EMPTY", "CSV input is empty") };
+  const columns = header.fields.map(name => name.trim());
+  const duplicate = columns.find((name, index) => columns.indexOf(name) !== index);
+  if (duplicate !== undefined) {
+    return {
+      rows: [],
+      error: engineMessage("CSV_DUPLICATE_COLUMN", `CSV header has the column "${duplicate}" more than once`, { column: duplicate })
+    };
+  }
+  if (columns.some(name => name === "")) return { rows: [], error: engineMessage("CSV_EMPTY_COLUMN", "CSV header has an empty column name") };
+
+  const rows: BatchRow[] = [];
+  for (const record of data) {
+    if (record.fields.length !== columns.length) {
+      return {
+        rows: [],
+        error: engineMessage(
+          "CSV_FIELD_COUNT",
+          `CSV line ${record.line} has ${record.fields.length} fields; the header has ${columns.length}`,
+          { line: record.line, fields: record.fields.length, columns: columns.length }
+        )
+      };
+    }
+    rows.push(Object.fromEntries(columns.map((name, index) => [name, record.fields[index]])));
+  }
+  return { rows, error: null };
+};
+
+/**
+ * Parses a JSON array of flat objects. Numbers are written with the decimal separator of locale so they
+ * read back exactly; factors may also be given as an array.
+ */
+export const parseBatchJSON = (
+  text: string,
+  locale = DEFAULT_FORM_VALUES.locale
+): { rows: BatchRow[]; error: EngineMessage | null } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { rows: [], error: engineMessage("JSON_INVALID", "JSON input is not valid JSON") };
+  }
+  if (!Array.isArray(parsed)) return { rows: [], error: engineMessage("JSON_NOT_ARRAY", "JSON input must be an array of rows") };
+
+  const rows: BatchRow[] = [];
+  for (const [index, item] of parsed.entries()) {
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      return { rows: [], error: engineMessage("JSON_ROW_NOT_OBJECT", `JSON row ${index + 1} is not an object`, { row: index + 1 }) };
+    }
+    const row: BatchRow = {};
+    const rowLocale = typeof item.locale === "string" && item.locale ? item.locale : locale;
+    for (const [name, value] of Object.entries(item)) {
+      if (value === null) {
+        row[name] = "";
+      } else if (typeof value === "number") {
+        row[name] = String(value).replace(".", getDecimalSeparator(rowLocale));
+      } else if (typeof value === "string" || typeof value === "boolean") {
+        row[name] = String(value);
+      } else if (name === FACTORS_COLUMN && Array.isArray(value) && value.every(entry => typeof entry === "string")) {
+        row[name] = value.join(";");
+      } else {
+        return {
+          rows: [],
+          error: engineMessage(
+            "JSON_ROW_VALUE",
+            `JSON row ${index + 1}: "${name}" must be a string, number, boolean or null`,
+            { row: index + 1, column: name }
+          )
+        };
+      }
+    }
+    rows.push(row);
+  }
+  return { rows, error: null };
+};
+
+/** Builds a form from a row, filling blank fields from defaults; unknown choices and factors are row errors. */
+export const batchRowToForm = (
+  row: BatchRow,
+  defaults: Partial<IWLFormValues> = {}
+): { form: IWLFormValues; error: EngineMessage | null } => {
+  const form: IWLFormValues = { ...DEFAULT_FORM_VALUES, ...defaults, factors: NO_FACTORS, burnRegions: {}, factorExposures: {} };
+  const cell = (name: string) => row[name]?.trim() ?? "";
+
+  FORM_TEXT_FIELDS.forEach(field => {
+    if (cell(field) !== "") form[field] = cell(field);
+  });
+
+  for (const field of Object.keys(FORM_CHOICES) as FormChoiceField[]) {
+    const value = cell(field);
+    if (value === "") continue;
+    const match = FORM_CHOICES[field].find(choice => choice !== "" && choice.toLowerCase() === value.toLowerCase());
+    if (!match) {
+      const expected = FORM_CHOICES[field].filter(Boolean).join(", ");
+      return { form, error: engineMessage("UNKNOWN_CHOICE", `Unknown ${field} "${value}"; expected one of ${expected}`, { column: field, value, expected }) };
+    }
+    Object.assign(form, { [field]: match });
+  }
+
+  const factorKeys = Object.keys(NO_FACTORS) as FactorKey[];
+  for (const name of cell(FACTORS_COLUMN).split(/[;|\s]+/).filter(Boolean)) {
+    const key = factorKeys.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    if (!key) {
+      const expected = factorKeys.join(", ");
+      return { form, error: engineMessage("UNKNOWN_FACTOR", `Unknown factor "${name}"; expected one of ${expected}`, { value: name, expected }) };
+    }
+    form.factors = { ...form.factors, [key]: true };
+  }
+
+  PERCENT_FACTOR_KEYS.forEach(key => {
+    const text = cell(exposureColumn(key));
+    if (text) form.factorExposures = { ...form.factorExposures, [key]: parseExposureText(text) };
+  });
+
+  LUND_BROWDER_REGIONS.forEach(region => {
+    const partialThickness = cell(burnColumn(region.id, "partial"));
+    const fullThickness = cell(burnColumn(region.id, "full"));
+    if (partialThickness || fullThickness) form.burnRegions = { ...form.burnRegions, [region.id]: { partialThickness, fullThickness } };
+  });
+
+  return { form, error: null };
+};
+
+export const calculateBatchRow = (
+  row: BatchRow,
+  rowNumber: number,
+  protocol: ProtocolProfile = BUILTIN_PROTOCOL,
+  defaults: Partial<IWLFormValues> = {}
+): BatchRowResult => {
+  const failed = (error: string): BatchRowResult => ({ rowNumber, row, result: null, input: null, error });
+  const { form, error } = batchRowToForm(row, defaults);
+  if (error) return failed(error.message);
+  const parsed = parseIWLForm(form);
+  const message = parsed.error ?? validateIWLInput(parsed.input);
+  if (message) return failed(message.message);
+  try {
+    return { rowNumber, row, result: calculateIWL(parsed.input, protocol), input: parsed.input, error: null };
+  } catch (calculationError) {
+    if (calculationError instanceof RangeError) return failed(calculationError.message);
+    throw calculationError;
+  }
+};
+
+/** Output columns: the input columns first, then the results, which replace input columns of the same name. */
+export const getBatchColumns = (rows: BatchRow[]) => {
+  const inputColumns = [...new Set(rows.flatMap(row => Object.keys(row)))].filter(name => !OUTPUT_COLUMNS.includes(name));
+  return [...inputColumns, ...OUTPUT_COLUMNS];
+};
+
+export const toBatchOutputRow = ({ rowNumber, row, result, input, error }: BatchRowResult): Record<string, CSVValue> => ({
+  ...row,
+  row: rowNumber,
+  status: result ? "ok" : "error",
+  error,
+  ...Object.fromEntries(CSV_COLUMNS.map(column => [column.header, result && input ? column.value(result, input) : null])),
+  alerts: result?.growth.alerts.map(alert => alert.message).join(" | ") || null
+});
+
+export const buildBatchCSV = (results: BatchRowResult[]) => {
+  const columns = getBatchColumns(results.map(entry => entry.row));
+  const lines = results.map(entry => {
+    const output = toBatchOutputRow(entry);
+    return columns.map(column => escapeCSV(output[column])).join(",");
+  });
+  return [columns.map(escapeCSV).join(","), ...lines].join("\n") + "\n";
+};
+
+export const buildBatchJSON = (results: BatchRowResult[]) => `${JSON.stringify(results.map(toBatchOutputRow), null, 2)}\n`;
+
+const statistics = (values: number[]): BatchStatistics => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return { min: sorted[0], median, max: sorted[sorted.length - 1] };
+};
+
+export const summarizeBatch = (results: BatchRowResult[], protocol: ProtocolProfile = BUILTIN_PROTOCOL): BatchSummary => {
+  const calculated = results.flatMap(entry => entry.result ? [entry.result] : []);
+  return {
+    rows: results.length,
+    calculated: calculated.length,
+    failed: results.length - calculated.length,
+    withAlerts: calculated.filter(result => result.growth.alerts.length > 0).length,
+    withCriticalWarnings: calculated.filter(result => result.warnings.some(warning => warning.severity === "critical")).length,
+    engineVersion: calculated[0]?.engineVersion ?? "",
+    protocol: formatProtocolName(protocol),
+    totalIWL: calculated.length === 0 ? null : {
+      low: statistics(calculated.map(result => parseFloat(result.totalIWL_low))),
+      high: statistics(calculated.map(result => parseFloat(result.totalIWL_high)))
+    },
+    errors: results.flatMap(entry => entry.error ? [{ rowNumber: entry.rowNumber, message: entry.error }] : [])
+  };
+};
+
+/** Plain-text summary report; at most maxErrors validation errors are listed individually. */
+export const formatBatchSummary = (summary: BatchSummary, maxErrors = 20) => {
+  const range = (key: keyof BatchStatistics) =>
+    summary.totalIWL ? `${summary.totalIWL.low[key].toFixed(1)} – ${summary.totalIWL.high[key].toFixed(1)}` : "";
+  const lines = [
+    `Rows: ${summary.rows}, calculated: ${summary.calculated}, validation errors: ${summary.failed}`,
+    `Protocol: ${summary.protocol}${summary.engineVersion ? ` · Engine v${summary.engineVersion}` : ""}`
+  ];
+  if (summary.totalIWL) {
+    lines.push(`Daily IWL (mL/day): median ${range("median")}, lowest ${range("min")}, highest ${range("max")}`);
+  }
+  lines.push(`Rows with growth alerts: ${summary.withAlerts}`);
+  lines.push(`Rows with critical safety warnings: ${summary.withCriticalWarnings}`);
+  if (summary.errors.length > 0) {
+    lines.push("Validation errors:");
+    summary.errors.slice(0, maxErrors).forEach(({ rowNumber, message }) => lines.push(`  row ${rowNumber}: ${message}`));
+    if (summary.errors.length > maxErrors) lines.push(`  … and ${summary.errors.length - maxErrors} more`);
+  }
+  return lines.join("\n");
+};
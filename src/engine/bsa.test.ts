@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { BSA_METHOD_IDS, BSA_METHODS, BSAMethodId, DEFAULT_BSA_METHOD } from "./bsa";
+import { NO_FACTORS } from "./factors";
+import { calculateIWL, validateIWLInput } from "./iwl";
+
+// Published surface areas for the 170 cm, 70 kg reference adult, to two decimals.
+const REFERENCE_ADULT: Record<BSAMethodId, number> = {
+  mosteller: 1.82,
+  haycock: 1.83,
+  duBois: 1.81,
+  gehanGeorge: 1.83,
+  boyd: 1.83,
+  weightOnly: 1.79
+};
+
+describe("BSA_METHODS", () => {
+  it("match the published values for the reference adult", () => {
+    for (const id of BSA_METHOD_IDS) expect(BSA_METHODS[id].calculate(170, 70)).toBeCloseTo(REFERENCE_ADULT[id], 2);
+  });
+
+  it("give a term newborn about 0.22 m²", () => {
+    expect(BSA_METHODS.mosteller.calculate(50, 3.5)).toBeCloseTo(0.2205, 4);
+    expect(BSA_METHODS.haycock.calculate(50, 3.5)).toBeCloseTo(0.22, 2);
+    expect(BSA_METHODS.duBois.calculate(50, 3.5)).toBeCloseTo(0.21, 2);
+  });
+
+  it("describe the formula with the patient's values", () => {
+    expect(BSA_METHODS.mosteller.describe(86, 12)).toBe("BSA = √((86 × 12) / 3600)");
+    expect(BSA_METHODS.weightOnly.describe(NaN, 12)).toBe("BSA = (4 × 12 + 7) / (12 + 90)");
+  });
+
+  it("need a height for every formula but Costeff's", () => {
+    expect(BSA_METHOD_IDS.filter(id => !BSA_METHODS[id].requiresHeight)).toEqual(["weightOnly"]);
+    expect(BSA_METHODS[DEFAULT_BSA_METHOD].requiresHeight).toBe(true);
+  });
+});
+
+describe("missing height", () => {
+  const child = { weightKg: 12, heightCm: NaN, factors: NO_FACTORS };
+
+  it("is rejected for a height-based formula", () => {
+    expect(validateIWLInput(child)?.code).toBe("HEIGHT_INVALID");
+    expect(validateIWLInput({ ...child, bsaMethod: "haycock" })?.code).toBe("HEIGHT_INVALID");
+  });
+
+  it("is accepted with the weight-only formula", () => {
+    const result = calculateIWL({ ...child, bsaMethod: "weightOnly" });
+    expect(result.bsa).toBeCloseTo(55 / 102, 9);
+    expect(result.height).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+/** Body surface area formulas. Height in cm, weight in kg, result in m². */
+
+import { formatNumber } from "./units";
+
+export type BSAMethodId = "mosteller" | "haycock" | "duBois" | "gehanGeorge" | "boyd" | "weightOnly";
+
+export interface BSAMethod {
+  id: BSAMethodId;
+  label: string;
+  formula: string;
+  requiresHeight: boolean;
+  citation: string;
+  calculate: (heightCm: number, weightKg: number) => number;
+  // Formula with the patient's values substituted, for the step-by-step panel.
+  describe: (heightCm: number, weightKg: number) => string;
+}
+
+export const DEFAULT_BSA_METHOD: BSAMethodId = "mosteller";
+
+export const BSA_METHODS: Record<BSAMethodId, BSAMethod> = {
+  mosteller: {
+    id: "mosteller",
+    label: "Mosteller",
+    formula: "BSA = √((height × weight) / 3600)",
+    requiresHeight: true,
+    citation: "Mosteller RD. Simplified calculation of body-surface area. N Engl J Med. 1987;317(17):1098.",
+    calculate: (h, w) => Math.sqrt((h * w) / 3600),
+    describe: (h, w) => `BSA = √((${formatNumber(h)} × ${formatNumber(w)}) / 3600)`
+  },
+  haycock: {
+    id: "haycock",
+    label: "Haycock",
+    formula: "BSA = 0.024265 × weight^0.5378 × height^0.3964",
+    requiresHeight: true,
+    citation: "Haycock GB, Schwartz GJ, Wisotsky DH. Geometric method for measuring body surface area. J Pediatr. 1978;93(1):62-66.",
+    calculate: (h, w) => 0.024265 * Math.pow(w, 0.5378) * Math.pow(h, 0.3964),
+    describe: (h, w) => `BSA = 0.024265 × ${formatNumber(w)}^0.5378 × ${formatNumber(h)}^0.3964`
+  },
+  duBois: {
+    id: "duBois",
+    label: "Du Bois",
+    formula: "BSA = 0.007184 × weight^0.425 × height^0.725",
+    requiresHeight: true,
+    citation: "Du Bois D, Du Bois EF. A formula to estimate the approximate surface area if height and weight be known. Arch Intern Med. 1916;17:863-871.",
+    calculate: (h, w) => 0.007184 * Math.pow(w, 0.425) * Math.pow(h, 0.725),
+    describe: (h, w) => `BSA = 0.007184 × ${formatNumber(w)}^0.425 × ${formatNumber(h)}^0.725`
+  },
+  gehanGeorge: {
+    id: "gehanGeorge",
+    label: "Gehan–George",
+    formula: "BSA = 0.0235 × weight^0.51456 × height^0.42246",
+    requiresHeight: true,
+    citation: "Gehan EA, George SL. Estimation of human body surface area from height and weight. Cancer Chemother Rep. 1970;54(4):225-235.",
+    calculate: (h, w) => 0.0235 * Math.pow(w, 0.51456) * Math.pow(h, 0.42246),
+    describe: (h, w) => `BSA = 0.0235 × ${formatNumber(w)}^0.51456 × ${formatNumber(h)}^0.42246`
+  },
+  boyd: {
+    id: "boyd",
+    label: "Boyd",
+    formula: "BSA = 0.0003207 × height^0.3 × weight(g)^(0.7285 − 0.0188 × log₁₀ weight(g))",
+    requiresHeight: true,
+    citation: "Boyd E. The Growth of the Surface Area of the Human Body. University of Minnesota Press; 1935.",
+    calculate: (h, w) => {
+      const grams = w * 1000;
+      return 0.0003207 * Math.pow(h, 0.3) * Math.pow(grams, 0.7285 - 0.0188 * Math.log10(grams));
+    },
+    describe: (h, w) => {
+      const grams = w * 1000;
+      return `BSA = 0.0003207 × ${formatNumber(h)}^0.3 × ${formatNumber(grams)}^(0.7285 − 0.0188 × log₁₀ ${formatNumber(grams)})`;
+    }
+  },
+  weightOnly: {
+    id: "weightOnly",
+    label: "Weight only (Costeff)",
+    formula: "BSA = (4 × weight + 7) / (weight + 90)",
+    requiresHeight: false,
+    citation: "Costeff H. A simple empirical formula for calculating approximate surface area in children. Arch Dis Child. 1966;41(220):681-683.",
+    calculate: (_h, w) => (4 * w + 7) / (w + 90),
+    describe: (_h, w) => `BSA = (4 × ${formatNumber(w)} + 7) / (${formatNumber(w)} + 90)`
+  }
+};
+
+export const BSA_METHOD_IDS = Object.keys(BSA_METHODS) as BSAMethodId[];
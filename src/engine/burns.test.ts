@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { calculateBurnAssessment, getLundBrowderAgeBand, validateBurnAssessment } from "./burns";
+import { NO_FACTORS } from "./factors";
+import { calculateIWL } from "./iwl";
+
+const headAndTrunk = {
+  head: { partialThickness: 50, fullThickness: 0 },
+  anteriorTrunk: { partialThickness: 0, fullThickness: 100 }
+};
+
+describe("getLundBrowderAgeBand", () => {
+  it("picks the chart for the age in months", () => {
+    expect(getLundBrowderAgeBand(6).label).toBe("<1 year");
+    expect(getLundBrowderAgeBand(60).label).toBe("5–9 years");
+    expect(getLundBrowderAgeBand(300).label).toBe("Adult");
+  });
+});
+
+describe("validateBurnAssessment", () => {
+  it("requires at least one burned region", () => {
+    expect(validateBurnAssessment({})?.code).toBe("BURN_REGIONS_MISSING");
+    expect(validateBurnAssessment(headAndTrunk)).toBeNull();
+  });
+
+  it("rejects a region burned beyond 100%", () => {
+    const error = validateBurnAssessment({ neck: { partialThickness: 60, fullThickness: 50 } });
+    expect(error?.code).toBe("BURN_REGION_TOTAL");
+    expect(error?.params).toEqual({ region: "neck" });
+  });
+});
+
+describe("calculateBurnAssessment", () => {
+  it("sizes regions from the age band and splits resuscitation volumes", () => {
+    const burns = calculateBurnAssessment(headAndTrunk, 24, 12, 0.55);
+    // Head is 17% at 1–4 years, half burned; anterior trunk is 13%, fully burned.
+    expect(burns.partialTBSA).toBeCloseTo(8.5, 6);
+    expect(burns.fullTBSA).toBeCloseTo(13, 6);
+    expect(burns.evaporativeLoss).toBeCloseTo(21.5 * 0.55 * 24, 6);
+    expect(burns.parkland.total).toBeCloseTo(4 * 12 * 21.5, 6);
+    expect(burns.parkland.first8h).toBeCloseTo(burns.parkland.total / 2, 6);
+    expect(burns.ageBandAssumed).toBe(false);
+  });
+
+  it("flags the youngest chart as assumed when no age is entered", () => {
+    const burns = calculateBurnAssessment(headAndTrunk, undefined, 12, 0.55);
+    expect(burns.ageBand.label).toBe("<1 year");
+    expect(burns.ageBandAssumed).toBe(true);
+  });
+
+  it("adds the evaporative loss to total IWL", () => {
+    const input = { weightKg: 12, heightCm: 85, ageMonths: 24, factors: NO_FACTORS };
+    const withBurns = calculateIWL({ ...input, factors: { ...NO_FACTORS, burns: true }, burns: headAndTrunk });
+    expect(withBurns.burns?.totalTBSA).toBeCloseTo(21.5, 6);
+    expect(withBurns.baseIWL_low + withBurns.burnAdjustment).toBeCloseTo(Number(withBurns.totalIWL_low), 1);
+    expect(calculateIWL(input).burns).toBeNull();
+  });
+});
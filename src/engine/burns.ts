@@ -0,0 +1,173 @@
+import { EngineMessage, engineMessage } from "./messages";
+
+/**
+ * Burn assessment: Lund–Browder %TBSA estimation, burn-related evaporative loss and reference
+ * resuscitation volumes. Only partial- and full-thickness burns count towards %TBSA.
+ */
+
+export type BurnRegionId =
+  | "head" | "neck" | "anteriorTrunk" | "posteriorTrunk" | "rightButtock" | "leftButtock" | "genitalia"
+  | "rightUpperArm" | "leftUpperArm" | "rightLowerArm" | "leftLowerArm" | "rightHand" | "leftHand"
+  | "rightThigh" | "leftThigh" | "rightLowerLeg" | "leftLowerLeg" | "rightFoot" | "leftFoot";
+
+export type BurnRegionGroup = "Head & Neck" | "Trunk" | "Arms" | "Legs";
+
+export interface LundBrowderAgeBand {
+  label: string;
+  // Upper bound in months, exclusive.
+  maxMonths: number;
+  // Chart letters: A = ½ of head, B = ½ of one thigh, C = ½ of one lower leg (% TBSA).
+  a: number;
+  b: number;
+  c: number;
+}
+
+export interface BurnRegion {
+  id: BurnRegionId;
+  label: string;
+  group: BurnRegionGroup;
+  percent: (band: LundBrowderAgeBand) => number;
+}
+
+/** Percent of the region (0–100) burned at each depth. */
+export interface BurnRegionEntry {
+  partialThickness: number;
+  fullThickness: number;
+}
+
+export type BurnAssessmentInput = Partial<Record<BurnRegionId, BurnRegionEntry>>;
+
+export interface BurnRegionResult {
+  id: BurnRegionId;
+  label: string;
+  regionPercent: number;
+  partialTBSA: number;
+  fullTBSA: number;
+}
+
+export interface ResuscitationVolume {
+  total: number;
+  first8h: number;
+  next16h: number;
+}
+
+export interface BurnAssessment {
+  ageBand: LundBrowderAgeBand;
+  // No age was entered, so the youngest chart was used.
+  ageBandAssumed: boolean;
+  regions: BurnRegionResult[];
+  partialTBSA: number;
+  fullTBSA: number;
+  totalTBSA: number;
+  bsa: number;
+  // mL/h per %TBSA per m² BSA.
+  evaporationRate: number;
+  evaporativeLoss: number;
+  parkland: ResuscitationVolume;
+  galveston: ResuscitationVolume;
+}
+
+export const LUND_BROWDER_AGE_BANDS: LundBrowderAgeBand[] = [
+  { label: "<1 year", maxMonths: 12, a: 9.5, b: 2.75, c: 2.5 },
+  { label: "1–4 years", maxMonths: 60, a: 8.5, b: 3.25, c: 2.5 },
+  { label: "5–9 years", maxMonths: 120, a: 6.5, b: 4, c: 2.75 },
+  { label: "10–14 years", maxMonths: 180, a: 5.5, b: 4.25, c: 3 },
+  { label: "15–17 years", maxMonths: 216, a: 4.5, b: 4.5, c: 3.25 },
+  { label: "Adult", maxMonths: Infinity, a: 3.5, b: 4.75, c: 3.5 }
+];
+
+const fixed = (percent: number) => () => percent;
+
+export const LUND_BROWDER_REGIONS: BurnRegion[] = [
+  { id: "head", label: "Head", group: "Head & Neck", percent: band => band.a * 2 },
+  { id: "neck", label: "Neck", group: "Head & Neck", percent: fixed(2) },
+  { id: "anteriorTrunk", label: "Anterior trunk", group: "Trunk", percent: fixed(13) },
+  { id: "posteriorTrunk", label: "Posterior trunk", group: "Trunk", percent: fixed(13) },
+  { id: "rightButtock", label: "Right buttock", group: "Trunk", percent: fixed(2.5) },
+  { id: "leftButtock", label: "Left buttock", group: "Trunk", percent: fixed(2.5) },
+  { id: "genitalia", label: "Genitalia", group: "Trunk", percent: fixed(1) },
+  { id: "rightUpperArm", label: "Right upper arm", group: "Arms", percent: fixed(4) },
+  { id: "leftUpperArm", label: "Left upper arm", group: "Arms", percent: fixed(4) },
+  { id: "rightLowerArm", label: "Right lower arm", group: "Arms", percent: fixed(3) },
+  { id: "leftLowerArm", label: "Left lower arm", group: "Arms", percent: fixed(3) },
+  { id: "rightHand", label: "Right hand", group: "Arms", percent: fixed(2.5) },
+  { id: "leftHand", label: "Left hand", group: "Arms", percent: fixed(2.5) },
+  { id: "rightThigh", label: "Right thigh", group: "Legs", percent: band => band.b * 2 },
+  { id: "leftThigh", label: "Left thigh", group: "Legs", percent: band => band.b * 2 },
+  { id: "rightLowerLeg", label: "Right lower leg", group: "Legs", percent: band => band.c * 2 },
+  { id: "leftLowerLeg", label: "Left lower leg", group: "Legs", percent: band => band.c * 2 },
+  { id: "rightFoot", label: "Right foot", group: "Legs", percent: fixed(3.5) },
+  { id: "leftFoot", label: "Left foot", group: "Legs", percent: fixed(3.5) }
+];
+
+// Burned skin adds roughly 1 mL/h per %TBSA per m² BSA over intact skin:
+// evaporative loss (mL/h) = (35 + %TBSA) × BSA in children, (25 + %TBSA) × BSA in adults.
+export const BURN_EVAPORATION_ML_PER_TBSA_PER_M2_PER_HOUR = 1;
+
+export const PARKLAND_ML_PER_KG_PER_TBSA = 4;
+export const GALVESTON_ML_PER_M2_BURNED = 5000;
+export const GALVESTON_ML_PER_M2_MAINTENANCE = 2000;
+
+/** The chart for the patient's age; without an age, the youngest chart, which has the largest head. */
+export const getLundBrowderAgeBand = (ageMonths = 0) =>
+  LUND_BROWDER_AGE_BANDS.find(band => ageMonths < band.maxMonths) ?? LUND_BROWDER_AGE_BANDS[LUND_BROWDER_AGE_BANDS.length - 1];
+
+export const validateBurnAssessment = (entries: BurnAssessmentInput = {}): EngineMessage | null => {
+  for (const region of LUND_BROWDER_REGIONS) {
+    const entry = entries[region.id];
+    if (!entry) continue;
+    const { partialThickness, fullThickness } = entry;
+    if (isNaN(partialThickness) || isNaN(fullThickness) || partialThickness < 0 || fullThickness < 0) {
+      return engineMessage("BURN_PERCENT_INVALID", `Please enter valid burn percentages for the ${region.label.toLowerCase()}`, { region: region.id });
+    }
+    if (partialThickness + fullThickness > 100) {
+      return engineMessage("BURN_REGION_TOTAL", `Burned area of the ${region.label.toLowerCase()} cannot exceed 100% of the region`, { region: region.id });
+    }
+  }
+  const burned = LUND_BROWDER_REGIONS.some(region => {
+    const entry = entries[region.id];
+    return entry !== undefined && entry.partialThickness + entry.fullThickness > 0;
+  });
+  return burned ? null : engineMessage("BURN_REGIONS_MISSING", "Please record the burned regions in the burn assessment");
+};
+
+const split = (total: number): ResuscitationVolume => ({ total, first8h: total / 2, next16h: total / 2 });
+
+export const calculateBurnAssessment = (
+  entries: BurnAssessmentInput,
+  ageMonths: number | undefined,
+  weightKg: number,
+  bsa: number,
+  evaporationRate = BURN_EVAPORATION_ML_PER_TBSA_PER_M2_PER_HOUR
+): BurnAssessment => {
+  const ageBand = getLundBrowderAgeBand(ageMonths);
+  const regions = LUND_BROWDER_REGIONS.flatMap(region => {
+    const entry = entries[region.id];
+    if (!entry || entry.partialThickness + entry.fullThickness <= 0) return [];
+    const regionPercent = region.percent(ageBand);
+    return [{
+      id: region.id,
+      label: region.label,
+      regionPercent,
+      partialTBSA: regionPercent * entry.partialThickness / 100,
+      fullTBSA: regionPercent * entry.fullThickness / 100
+    }];
+  });
+  const partialTBSA = regions.reduce((sum, region) => sum + region.partialTBSA, 0);
+  const fullTBSA = regions.reduce((sum, region) => sum + region.fullTBSA, 0);
+  const totalTBSA = partialTBSA + fullTBSA;
+
+  return {
+    ageBand,
+    ageBandAssumed: ageMonths === undefined,
+    regions,
+    partialTBSA,
+    fullTBSA,
+    totalTBSA,
+    bsa,
+    evaporationRate,
+    evaporativeLoss: totalTBSA * bsa * evaporationRate * 24,
+    parkland: split(PARKLAND_ML_PER_KG_PER_TBSA * weightKg * totalTBSA),
+    galveston: split(GALVESTON_ML_PER_M2_BURNED * bsa * totalTBSA / 100 + GALVESTON_ML_PER_M2_MAINTENANCE * bsa)
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { assessEnvironment, getHumidityAdjustment, validateEnvironmentInput } from "./environment";
+import { NO_FACTORS } from "./factors";
+import { DEFAULT_FORM_VALUES, getFormMigrationNotice, IWLFormValues, normalizeFormValues } from "./form";
+
+describe("getHumidityAdjustment", () => {
+  it("is zero at the 50% reference and changes sign around it", () => {
+    expect(getHumidityAdjustment(50, 24, 0.67)).toBeCloseTo(0, 9);
+    expect(getHumidityAdjustment(20, 24, 0.67)).toBeGreaterThan(0);
+    expect(getHumidityAdjustment(80, 33, 0.67)).toBeLessThan(0);
+  });
+
+  it("never removes more than the skin share", () => {
+    expect(getHumidityAdjustment(100, 40, 0.67)).toBeGreaterThanOrEqual(-0.67);
+  });
+});
+
+describe("assessEnvironment", () => {
+  it("applies nothing without a humidity and assumes the setting's air temperature", () => {
+    expect(assessEnvironment({ careSetting: "incubator" }, 0.67)).toBeNull();
+    const incubator = assessEnvironment({ careSetting: "incubator", relativeHumidity: 80 }, 0.67);
+    expect(incubator?.airTemperatureC).toBe(33);
+    expect(incubator?.airTemperatureAssumed).toBe(true);
+  });
+});
+
+describe("validateEnvironmentInput", () => {
+  it("requires the radiant warmer factor in the radiant warmer care setting", () => {
+    const environment = { careSetting: "radiantWarmer" as const };
+    expect(validateEnvironmentInput(environment, NO_FACTORS)?.code).toBe("CARE_SETTING_FACTOR");
+    expect(validateEnvironmentInput(environment, { ...NO_FACTORS, radiantWarmer: true })).toBeNull();
+    // A warmer used for part of the day in an open cot is fine.
+    expect(validateEnvironmentInput({ careSetting: "openCot" }, { ...NO_FACTORS, radiantWarmer: true })).toBeNull();
+  });
+
+  it("checks the humidity and air temperature ranges", () => {
+    expect(validateEnvironmentInput({ careSetting: "openCot", relativeHumidity: 120 })?.code).toBe("RELATIVE_HUMIDITY_RANGE");
+    expect(validateEnvironmentInput({ careSetting: "openCot", airTemperatureC: 45 })?.code).toBe("AIR_TEMPERATURE_RANGE");
+  });
+});
+
+describe("forms saved with the Low Humidity factor", () => {
+  const saved = { ...DEFAULT_FORM_VALUES, factors: { ...NO_FACTORS, lowHumidity: true } } as unknown as IWLFormValues;
+
+  it("explains that the factor is gone instead of dropping it silently", () => {
+    expect(normalizeFormValues(saved).factors).toEqual(NO_FACTORS);
+    expect(getFormMigrationNotice(saved)?.code).toBe("LOW_HUMIDITY_REPLACED");
+    expect(getFormMigrationNotice(DEFAULT_FORM_VALUES)).toBeNull();
+  });
+});
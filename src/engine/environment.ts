@@ -0,0 +1,132 @@
+import type { IWLFactors } from "./factors";
+import { EngineMessage, engineMessage } from "./messages";
+
+/**
+ * Care environment and ambient humidity.
+ *
+ * Transepidermal water loss is driven by the water vapour pressure difference between the skin surface and
+ * the surrounding air (Hammarlund & Sedin). The base IWL figures assume about 50% relative humidity, so the
+ * skin share of base IWL is scaled by
+ *
+ *   (P_skin − RH × P_sat(T_air)) / (P_skin − 50% × P_sat(T_air))
+ *
+ * which is continuous in RH, crosses zero at 50% and turns negative in humidified incubators. Warm incubator
+ * air steepens the curve, because each percent of RH then carries more water vapour.
+ */
+
+export type CareSetting = "openCot" | "radiantWarmer" | "incubator";
+
+export interface EnvironmentInput {
+  // The radiant warmer's own loss is the radiantWarmer factor, which that setting requires.
+  careSetting: CareSetting;
+  // Ambient (open cot, radiant warmer) or incubator relative humidity, in %. No adjustment when omitted.
+  relativeHumidity?: number;
+  // Falls back to the care setting's typical air temperature.
+  airTemperatureC?: number;
+}
+
+export interface HumidityCurvePoint {
+  relativeHumidity: number;
+  adjustment: number;
+}
+
+export interface EnvironmentAssessment {
+  careSetting: CareSetting;
+  relativeHumidity: number;
+  airTemperatureC: number;
+  airTemperatureAssumed: boolean;
+  // Water vapour pressures in kPa.
+  skinVapourPressure: number;
+  ambientVapourPressure: number;
+  referenceVapourPressure: number;
+  skinFraction: number;
+  // Fraction of base IWL; negative when the air is more humid than the reference.
+  adjustment: number;
+}
+
+export const CARE_SETTING_LABELS: Record<CareSetting, string> = {
+  openCot: "Open cot / bed",
+  radiantWarmer: "Radiant warmer",
+  incubator: "Incubator"
+};
+
+export const CARE_SETTINGS = Object.keys(CARE_SETTING_LABELS) as CareSetting[];
+
+// Room air for open care, a thermoneutral incubator otherwise.
+export const DEFAULT_AIR_TEMPERATURE_C: Record<CareSetting, number> = {
+  openCot: 24,
+  radiantWarmer: 24,
+  incubator: 33
+};
+
+export const REFERENCE_RELATIVE_HUMIDITY = 50;
+export const SKIN_TEMPERATURE_C = 36;
+export const AIR_TEMPERATURE_LIMITS_C = { min: 15, max: 40 };
+
+const hasValue = (value?: number): value is number => value !== undefined && !isNaN(value);
+
+/** Saturation vapour pressure over water in kPa (Magnus formula, Alduchov & Eskridge coefficients). */
+export const getSaturationVapourPressure = (temperatureC: number) =>
+  0.61094 * Math.exp((17.625 * temperatureC) / (temperatureC + 243.04));
+
+/** Skin-share-weighted change in evaporative drive relative to 50% RH at the same air temperature. */
+export const getHumidityAdjustment = (relativeHumidity: number, airTemperatureC: number, skinFraction: number) => {
+  const skin = getSaturationVapourPressure(SKIN_TEMPERATURE_C);
+  const air = getSaturationVapourPressure(airTemperatureC);
+  const reference = skin - air * REFERENCE_RELATIVE_HUMIDITY / 100;
+  // Skin loss cannot fall below zero, however humid or warm the air.
+  const gradient = Math.max(skin - air * relativeHumidity / 100, 0);
+  return skinFraction * (gradient / reference - 1);
+};
+
+export const getHumidityCurve = (airTemperatureC: number, skinFraction: number, step = 5): HumidityCurvePoint[] => {
+  const points: HumidityCurvePoint[] = [];
+  for (let relativeHumidity = 0; relativeHumidity <= 100; relativeHumidity += step) {
+    points.push({ relativeHumidity, adjustment: getHumidityAdjustment(relativeHumidity, airTemperatureC, skinFraction) });
+  }
+  return points;
+};
+
+export const validateEnvironmentInput = (environment: EnvironmentInput, factors?: Partial<IWLFactors>): EngineMessage | null => {
+  const { relativeHumidity, airTemperatureC } = environment;
+  if (environment.careSetting === "radiantWarmer" && factors && !factors.radiantWarmer) {
+    return engineMessage(
+      "CARE_SETTING_FACTOR",
+      "The radiant warmer care setting needs the Radiant Warmer factor; tick it or choose another care setting",
+      { factor: "radiantWarmer" }
+    );
+  }
+  if (relativeHumidity !== undefined && (isNaN(relativeHumidity) || relativeHumidity < 0 || relativeHumidity > 100)) {
+    return engineMessage("RELATIVE_HUMIDITY_RANGE", "Relative humidity must be between 0 and 100%");
+  }
+  if (airTemperatureC !== undefined && (
+    isNaN(airTemperatureC) || airTemperatureC < AIR_TEMPERATURE_LIMITS_C.min || airTemperatureC > AIR_TEMPERATURE_LIMITS_C.max
+  )) {
+    return engineMessage(
+      "AIR_TEMPERATURE_RANGE",
+      `Air temperature must be between ${AIR_TEMPERATURE_LIMITS_C.min} and ${AIR_TEMPERATURE_LIMITS_C.max} °C`,
+      { ...AIR_TEMPERATURE_LIMITS_C }
+    );
+  }
+  return null;
+};
+
+/** Returns null when no humidity was entered, in which case the reference conditions apply unchanged. */
+export const assessEnvironment = (environment: EnvironmentInput | undefined, skinFraction: number): EnvironmentAssessment | null => {
+  if (!environment || !hasValue(environment.relativeHumidity)) return null;
+  const { careSetting, relativeHumidity } = environment;
+  const airTemperatureAssumed = !hasValue(environment.airTemperatureC);
+  const airTemperatureC = hasValue(environment.airTemperatureC) ? environment.airTemperatureC : DEFAULT_AIR_TEMPERATURE_C[careSetting];
+  const air = getSaturationVapourPressure(airTemperatureC);
+  return {
+    careSetting,
+    relativeHumidity,
+    airTemperatureC,
+    airTemperatureAssumed,
+    skinVapourPressure: getSaturationVapourPressure(SKIN_TEMPERATURE_C),
+    ambientVapourPressure: air * relativeHumidity / 100,
+    referenceVapourPressure: air * REFERENCE_RELATIVE_HUMIDITY / 100,
+    skinFraction,
+    adjustment: getHumidityAdjustment(relativeHumidity, airTemperatureC, skinFraction)
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeExposure,
+  formatClockTime,
+  getExposureHours,
+  getHourlyExposure,
+  parseClockTime,
+  validateFactorExposure
+} from "./exposure";
+import { NO_FACTORS } from "./factors";
+import { calculateIWL } from "./iwl";
+import { ONE_YEAR_OLD } from "./testInputs";
+
+const overnight = { mode: "window" as const, start: 20, end: 4 };
+
+describe("getExposureHours", () => {
+  it("counts hours per day, across midnight for a window", () => {
+    expect(getExposureHours()).toBe(24);
+    expect(getExposureHours({ mode: "duration", hours: 6 })).toBe(6);
+    expect(getExposureHours(overnight)).toBe(8);
+    expect(getExposureHours({ mode: "window", start: 8.5, end: 10 })).toBe(1.5);
+  });
+});
+
+describe("getHourlyExposure", () => {
+  it("places a window in clock hours and spreads a duration evenly", () => {
+    const hourly = getHourlyExposure(overnight);
+    expect(hourly[20]).toBe(1);
+    expect(hourly[3]).toBe(1);
+    expect(hourly[4]).toBe(0);
+    expect(hourly.reduce((sum, fraction) => sum + fraction, 0)).toBe(8);
+    expect(getHourlyExposure({ mode: "window", start: 8.5, end: 10 })[8]).toBe(0.5);
+    expect(getHourlyExposure({ mode: "duration", hours: 6 }).every(fraction => fraction === 0.25)).toBe(true);
+  });
+});
+
+describe("validateFactorExposure", () => {
+  it("rejects durations and windows that cannot run", () => {
+    expect(validateFactorExposure({ mode: "duration", hours: 0 }, "phototherapy")?.code).toBe("EXPOSURE_HOURS");
+    expect(validateFactorExposure({ mode: "duration", hours: 25 }, "phototherapy")?.code).toBe("EXPOSURE_HOURS");
+    expect(validateFactorExposure({ mode: "window", start: 24, end: 2 }, "cpap")?.code).toBe("EXPOSURE_TIMES");
+    expect(validateFactorExposure({ mode: "window", start: 6, end: 6 }, "cpap")?.params).toEqual({ factor: "cpap" });
+    expect(validateFactorExposure(overnight, "cpap")).toBeNull();
+  });
+});
+
+describe("clock times", () => {
+  it("parses and formats HH:MM", () => {
+    expect(parseClockTime("7:30").value).toBe(7.5);
+    expect(parseClockTime("").error).toBeNull();
+    expect(parseClockTime("24:00").error?.code).toBe("NOT_A_TIME");
+    expect(formatClockTime(20.25)).toBe("20:15");
+    expect(describeExposure(overnight)).toBe("8 h/day, 20:00–04:00");
+  });
+});
+
+describe("timed factors", () => {
+  const child = { ...ONE_YEAR_OLD, factors: { ...NO_FACTORS, phototherapy: true } };
+
+  it("scale the daily adjustment by hours / 24 and keep the hourly profile's average", () => {
+    const fullDay = calculateIWL(child);
+    const halfDay = calculateIWL({ ...child, exposures: { phototherapy: { mode: "duration", hours: 12 } } });
+    const adjustment = (result: typeof fullDay) => result.factorAdjustments.find(entry => entry.key === "phototherapy");
+    expect(adjustment(halfDay)?.low).toBeCloseTo((adjustment(fullDay)?.low ?? 0) / 2, 6);
+
+    const windowed = calculateIWL({ ...child, exposures: { phototherapy: { mode: "window", start: 0, end: 12 } } });
+    const average = windowed.hourlyProfile.reduce((sum, hour) => sum + hour.low, 0) / 24;
+    expect(average.toFixed(1)).toBe(windowed.hourly_low);
+    expect(windowed.hourlyProfile[6].low).toBeGreaterThan(windowed.hourlyProfile[18].low);
+  });
+
+  it("report the highest hour of the profile alongside the average", () => {
+    const windowed = calculateIWL({ ...child, exposures: { phototherapy: { mode: "window", start: 0, end: 12 } } });
+    expect(windowed.peakHourly_high).toBe(windowed.hourlyProfile[6].high.toFixed(1));
+    expect(Number(windowed.peakHourly_high)).toBeGreaterThan(Number(windowed.hourly_high));
+
+    const fullDay = calculateIWL(child);
+    expect(fullDay.peakHourly_low).toBe(fullDay.hourly_low);
+  });
+});
@@ -0,0 +1,90 @@
+import { FACTOR_LABELS, PercentFactorKey } from "./factors";
+import { EngineMessage, engineMessage } from "./messages";
+import { formatNumber, normalizeDigits, ParsedNumber } from "./units";
+
+/**
+ * How long each percentage factor of the catalogue applies during the day.
+ *
+ * A factor adds (or removes) its share only while it is running, so its daily contribution is scaled by
+ * hours / 24. The exposure is either a number of hours, spread evenly over the day because the timing is
+ * not known, or a start and stop clock time; a window whose stop time is earlier than its start time runs
+ * past midnight. Factors without an exposure run all day, as before.
+ */
+
+export type ExposureMode = "fullDay" | "duration" | "window";
+
+export type FactorExposure =
+  | { mode: "fullDay" }
+  | { mode: "duration"; hours: number }
+  // Clock times in decimal hours from midnight, 0 up to but not including 24.
+  | { mode: "window"; start: number; end: number };
+
+export type FactorExposures = Partial<Record<PercentFactorKey, FactorExposure>>;
+
+export const EXPOSURE_MODES: ExposureMode[] = ["fullDay", "duration", "window"];
+
+export const HOURS_PER_DAY = 24;
+
+export const FULL_DAY_EXPOSURE: FactorExposure = { mode: "fullDay" };
+
+const isClockTime = (hours: number) => !isNaN(hours) && hours >= 0 && hours < HOURS_PER_DAY;
+
+export const validateFactorExposure = (exposure: FactorExposure, factor: PercentFactorKey): EngineMessage | null => {
+  const label = FACTOR_LABELS[factor];
+  if (exposure.mode === "duration" && (isNaN(exposure.hours) || exposure.hours <= 0 || exposure.hours > HOURS_PER_DAY)) {
+    return engineMessage("EXPOSURE_HOURS", `${label} exposure must be more than 0 and at most 24 hours`, { factor });
+  }
+  if (exposure.mode === "window") {
+    if (!isClockTime(exposure.start) || !isClockTime(exposure.end)) {
+      return engineMessage("EXPOSURE_TIMES", `${label} start and stop times must be between 00:00 and 23:59`, { factor });
+    }
+    if (exposure.start === exposure.end) return engineMessage("EXPOSURE_WINDOW", `${label} start and stop times must differ`, { factor });
+  }
+  return null;
+};
+
+export const getExposureHours = (exposure: FactorExposure = FULL_DAY_EXPOSURE) => {
+  if (exposure.mode === "duration") return exposure.hours;
+  if (exposure.mode === "window") return (exposure.end - exposure.start + HOURS_PER_DAY) % HOURS_PER_DAY;
+  return HOURS_PER_DAY;
+};
+
+const overlap = (hour: number, from: number, to: number) => Math.max(Math.min(hour + 1, to) - Math.max(hour, from), 0);
+
+/** Fraction of each clock hour, 00:00–01:00 through 23:00–24:00, during which the factor runs. */
+export const getHourlyExposure = (exposure: FactorExposure = FULL_DAY_EXPOSURE): number[] =>
+  Array.from({ length: HOURS_PER_DAY }, (_, hour) => {
+    if (exposure.mode === "duration") return exposure.hours / HOURS_PER_DAY;
+    if (exposure.mode === "window") {
+      const { start, end } = exposure;
+      return start < end
+        ? overlap(hour, start, end)
+        : overlap(hour, start, HOURS_PER_DAY) + overlap(hour, 0, end);
+    }
+    return 1;
+  });
+
+/** "HH:MM" for a clock time in decimal hours. */
+export const formatClockTime = (hours: number) => {
+  const minutes = Math.round(hours * 60) % (HOURS_PER_DAY * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+/** Parses "H:MM" or "HH:MM" (24-hour clock) into decimal hours; blank gives null without an error. */
+export const parseClockTime = (text: string, label = "Time"): ParsedNumber => {
+  const trimmed = normalizeDigits(text.trim());
+  if (trimmed === "") return { value: null, error: null };
+  const match = /^(\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return { value: null, error: engineMessage("NOT_A_TIME", `${label}: "${trimmed}" is not a valid time (HH:MM)`, { field: label, text: trimmed }) };
+  }
+  return { value: Number(match[1]) + Number(match[2]) / 60, error: null };
+};
+
+export const describeExposure = (exposure: FactorExposure = FULL_DAY_EXPOSURE) => {
+  if (exposure.mode === "duration") return `${formatNumber(exposure.hours, 2)} h/day`;
+  if (exposure.mode === "window") {
+    return `${formatNumber(getExposureHours(exposure), 2)} h/day, ${formatClockTime(exposure.start)}–${formatClockTime(exposure.end)}`;
+  }
+  return "24 h/day";
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  FACTOR_CATALOGUE,
+  FACTOR_DEFINITIONS,
+  findFactorConflict,
+  NO_FACTORS,
+  PERCENT_FACTOR_KEYS,
+  selectFactor,
+  validateFactorSelection
+} from "./factors";
+import { calculateIWL } from "./iwl";
+import { ONE_YEAR_OLD } from "./testInputs";
+
+describe("FACTOR_CATALOGUE", () => {
+  it("lists every exclusion on both entries", () => {
+    for (const definition of FACTOR_CATALOGUE) {
+      for (const excluded of definition.excludes) expect(FACTOR_DEFINITIONS[excluded].excludes).toContain(definition.key);
+    }
+  });
+
+  it("never lets two reducing entries act on one component", () => {
+    const reducing = FACTOR_CATALOGUE.filter(definition => (definition.fraction ?? 0) < 0);
+    for (const first of reducing) {
+      for (const second of reducing) {
+        if (first.key !== second.key && first.basis === second.basis) expect(first.excludes).toContain(second.key);
+      }
+    }
+    expect(reducing.every(definition => (definition.fraction as number) >= -1)).toBe(true);
+  });
+
+  it("gives every entry a reference, and every entry but burns a fraction", () => {
+    expect(FACTOR_CATALOGUE.every(definition => definition.references.length > 0)).toBe(true);
+    expect(PERCENT_FACTOR_KEYS).not.toContain("burns");
+    expect(PERCENT_FACTOR_KEYS).toHaveLength(FACTOR_CATALOGUE.length - 1);
+  });
+});
+
+describe("factor selection", () => {
+  it("reports the first conflicting pair", () => {
+    expect(findFactorConflict({ ventilation: true, cpap: true })).toEqual(["ventilation", "cpap"]);
+    expect(validateFactorSelection({ emollient: true, plasticWrap: true })?.params).toEqual({ first: "emollient", second: "plasticWrap" });
+    expect(validateFactorSelection({ phototherapy: true, radiantWarmer: true })).toBeNull();
+  });
+
+  it("unticks excluded factors when one is ticked", () => {
+    const next = selectFactor({ ...NO_FACTORS, cpap: true, phototherapy: true }, "ventilation");
+    expect(next).toEqual({ ...NO_FACTORS, ventilation: true, phototherapy: true });
+  });
+});
+
+describe("factors in the calculation", () => {
+  const plain = calculateIWL(ONE_YEAR_OLD);
+
+  it("adds a fraction of base IWL", () => {
+    const result = calculateIWL({ ...ONE_YEAR_OLD, factors: { ...NO_FACTORS, phototherapy: true } });
+    expect(Number(result.totalIWL_low)).toBeCloseTo(plain.baseIWL_low * 1.2, 1);
+  });
+
+  it("removes the respiratory share under humidified ventilation", () => {
+    const result = calculateIWL({ ...ONE_YEAR_OLD, factors: { ...NO_FACTORS, ventilation: true } });
+    const respiratory = plain.components.find(component => component.key === "respiratory");
+    expect(Number(result.totalIWL_low)).toBeCloseTo(plain.baseIWL_low - (respiratory?.low ?? 0), 1);
+  });
+
+  it("never takes a component below zero", () => {
+    const result = calculateIWL({ ...ONE_YEAR_OLD, factors: { ...NO_FACTORS, ventilation: true, plasticWrap: true } });
+    expect(result.components.every(component => component.low >= 0 && component.high >= 0)).toBe(true);
+  });
+});
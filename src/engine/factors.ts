@@ -0,0 +1,164 @@
+import { EngineMessage, engineMessage } from "./messages";
+import type { ProtocolCoefficientKey } from "./protocol";
+
+/**
+ * The clinical factor catalogue. Every checkbox in the "Additional Adjustments" section is an entry here,
+ * so adding a factor means adding an entry rather than touching the calculation.
+ *
+ * A percentage entry adds a signed fraction of its basis while it runs: of base IWL, or of one component
+ * of the loss — the skin (transepidermal) share after fever, humidity and the base-IWL factors, or the
+ * respiratory share after fever and the respiratory-rate adjustment. Negative fractions reduce loss, down
+ * to −1, which removes the whole component. Entries that would count the same loss twice exclude each other, and the catalogue
+ * never lets two reducing entries act on one component, so no component drops below zero.
+ */
+
+export type FactorKey =
+  | "phototherapy"
+  | "radiantWarmer"
+  | "burns"
+  | "ventilation"
+  | "cpap"
+  | "emollient"
+  | "plasticWrap"
+  | "abdominalWallDefect"
+  | "skinDisease";
+
+// Burns are sized from the Lund–Browder assessment instead of a flat percentage.
+export type PercentFactorKey = Exclude<FactorKey, "burns">;
+
+export type IWLFactors = Record<FactorKey, boolean>;
+
+export type FactorBasis = "base" | "skin" | "respiratory";
+
+export interface FactorDefinition {
+  key: FactorKey;
+  label: string;
+  basis: FactorBasis;
+  // Signed fraction of the basis; null for burns.
+  fraction: number | null;
+  // Protocol coefficient that overrides the fraction, for factors a unit can tune.
+  coefficient?: ProtocolCoefficientKey;
+  // Factors that cannot be checked together with this one; the rule is listed on both entries.
+  excludes: FactorKey[];
+  references: string[];
+}
+
+export const FACTOR_CATALOGUE: FactorDefinition[] = [
+  {
+    key: "phototherapy",
+    label: "Phototherapy",
+    basis: "base",
+    fraction: 0.2,
+    coefficient: "phototherapy",
+    excludes: [],
+    references: ["Oh, W. (1978). Fluid and electrolyte management in low-birth-weight infants. Clinics in Perinatology, 5(1), 173-182."]
+  },
+  {
+    key: "radiantWarmer",
+    label: "Radiant Warmer",
+    basis: "base",
+    fraction: 0.3,
+    coefficient: "radiantWarmer",
+    excludes: [],
+    references: ["Baumgart, S. (1982). Radiant energy and insensible water loss in the premature newborn. Clinical Pediatrics, 21(3), 136-139."]
+  },
+  {
+    key: "burns",
+    label: "Burns",
+    basis: "skin",
+    fraction: null,
+    // Denuded skin from a blistering disease would otherwise be counted as both.
+    excludes: ["skinDisease"],
+    references: ["Lund, C. C., & Browder, N. C. (1944). The estimation of areas of burns. Surgery, Gynecology & Obstetrics, 79, 352-358."]
+  },
+  {
+    key: "ventilation",
+    label: "Mechanical Ventilation (humidified)",
+    basis: "respiratory",
+    fraction: -1,
+    excludes: ["cpap"],
+    references: ["Sosulski, R., Polin, R. A., & Baumgart, S. (1983). Respiratory water loss and heat balance in intubated infants receiving humidified air. Journal of Pediatrics, 103(2), 307-310."]
+  },
+  {
+    key: "cpap",
+    label: "CPAP / High Flow (humidified)",
+    basis: "respiratory",
+    fraction: -0.75,
+    excludes: ["ventilation"],
+    references: [
+      "Sosulski, R., Polin, R. A., & Baumgart, S. (1983). Respiratory water loss and heat balance in intubated infants receiving humidified air. Journal of Pediatrics, 103(2), 307-310.",
+      "Fanaroff, A. A., & Stoll, B. J. (2019). Fanaroff and Martin's Neonatal-Perinatal Medicine (11th ed.), fluid and electrolyte management. Elsevier."
+    ]
+  },
+  {
+    key: "emollient",
+    label: "Occlusive Emollient",
+    basis: "skin",
+    fraction: -0.4,
+    excludes: ["plasticWrap"],
+    references: ["Nopper, A. J., Horii, K. A., Sookdeo-Drost, S., Wang, T. H., Mancini, A. J., & Lane, A. T. (1996). Topical ointment therapy benefits premature infants. Journal of Pediatrics, 128(5), 660-669."]
+  },
+  {
+    key: "plasticWrap",
+    label: "Plastic Wrap or Blanket",
+    basis: "skin",
+    fraction: -0.5,
+    excludes: ["emollient"],
+    references: ["Baumgart, S. (1984). Reduction of oxygen consumption, insensible water loss, and radiant heat demand with use of a plastic blanket for low-birth-weight infants under radiant warmers. Pediatrics, 74(6), 1022-1028."]
+  },
+  {
+    key: "abdominalWallDefect",
+    label: "Open Abdominal Wall Defect",
+    basis: "skin",
+    fraction: 1,
+    excludes: [],
+    references: ["Fanaroff, A. A., & Stoll, B. J. (2019). Fanaroff and Martin's Neonatal-Perinatal Medicine (11th ed.), abdominal wall defects. Elsevier."]
+  },
+  {
+    key: "skinDisease",
+    label: "Extensive Skin Disease (EB, SSSS)",
+    basis: "skin",
+    fraction: 1,
+    excludes: ["burns"],
+    references: ["Kliegman, R. M., et al. (2020). Nelson Textbook of Pediatrics (21st ed.), epidermolysis bullosa and staphylococcal scalded skin syndrome. Elsevier."]
+  }
+];
+
+export const FACTOR_DEFINITIONS = FACTOR_CATALOGUE.reduce(
+  (definitions, definition) => ({ ...definitions, [definition.key]: definition }),
+  {} as Record<FactorKey, FactorDefinition>
+);
+
+export const FACTOR_LABELS = FACTOR_CATALOGUE.reduce(
+  (labels, definition) => ({ ...labels, [definition.key]: definition.label }),
+  {} as Record<FactorKey, string>
+);
+
+export const NO_FACTORS = FACTOR_CATALOGUE.reduce(
+  (factors, definition) => ({ ...factors, [definition.key]: false }),
+  {} as IWLFactors
+);
+
+export const PERCENT_FACTOR_KEYS = FACTOR_CATALOGUE
+  .filter(definition => definition.fraction !== null)
+  .map(definition => definition.key as PercentFactorKey);
+
+/** The first pair of checked factors that exclude each other, or null. */
+export const findFactorConflict = (factors: Partial<IWLFactors>): [FactorKey, FactorKey] | null => {
+  for (const definition of FACTOR_CATALOGUE) {
+    const excluded = factors[definition.key] ? definition.excludes.find(key => factors[key]) : undefined;
+    if (excluded) return [definition.key, excluded];
+  }
+  return null;
+};
+
+export const validateFactorSelection = (factors: Partial<IWLFactors>): EngineMessage | null => {
+  const conflict = findFactorConflict(factors);
+  if (!conflict) return null;
+  const [first, second] = conflict;
+  return engineMessage("FACTOR_CONFLICT", `${FACTOR_LABELS[first]} cannot be combined with ${FACTOR_LABELS[second]}`, { first, second });
+};
+
+/** Checks a factor and unchecks whatever it excludes, as the form does when a box is ticked. */
+export const selectFactor = (factors: IWLFactors, key: FactorKey): IWLFactors =>
+  FACTOR_DEFINITIONS[key].excludes.reduce((next, excluded) => ({ ...next, [excluded]: false }), { ...factors, [key]: true });
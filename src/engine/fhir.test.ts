@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { MOCK_PATIENT_ID, seedMockFhir } from "../../cli/mock-fhir-fixture";
+import {
+  buildFhirPrefill,
+  buildIWLObservation,
+  findLatestVital,
+  getAgeInDaysFromBirthDate,
+  getAgeInMonthsFromBirthDate
+} from "./fhir";
+import { DEFAULT_FORM_VALUES, parseIWLForm } from "./form";
+import { calculateIWL } from "./iwl";
+
+const now = new Date(2024, 5, 15, 12);
+const { patient, observations } = seedMockFhir(now);
+
+describe("birth dates", () => {
+  it("count completed months and whole days, and reject partial or future dates", () => {
+    expect(getAgeInMonthsFromBirthDate(patient.birthDate as string, now)).toBe(41);
+    expect(getAgeInMonthsFromBirthDate("2024-05-16", now)).toBe(0);
+    expect(getAgeInDaysFromBirthDate("2024-05-16", now)).toBe(30);
+    expect(getAgeInDaysFromBirthDate("2024-06-15", now)).toBe(0);
+    expect(getAgeInMonthsFromBirthDate("2024-06", now)).toBeNull();
+    expect(getAgeInDaysFromBirthDate("2024-06-16", now)).toBeNull();
+  });
+});
+
+describe("buildFhirPrefill", () => {
+  it("reads the mock server's latest usable vitals, converting units, and the age", () => {
+    expect(findLatestVital(observations, "weight")?.id).toBe("weight-2");
+    const prefill = buildFhirPrefill(patient, observations, "fr-FR", now);
+    expect(prefill.values).toEqual({
+      weight: "14,2",
+      weightUnit: "kg",
+      weightOunces: "",
+      height: "97,5",
+      heightUnit: "cm",
+      temperature: "101,3",
+      temperatureUnit: "F",
+      respiratoryRate: "34",
+      ageYears: "3",
+      ageMonthsOnly: "5",
+      postnatalDays: ""
+    });
+    expect(prefill.missing).toEqual([]);
+    expect(prefill.errors).toEqual([]);
+    expect(prefill.items.find(item => item.field === "temperature")).toMatchObject({
+      value: "101.3 °F",
+      source: "Bedside monitor 12",
+      reference: "Observation/temperature-1"
+    });
+  });
+
+  it("fills the postnatal day from the birth date for a neonate", () => {
+    const neonate = { ...patient, birthDate: "2024-06-05" };
+    const { values } = buildFhirPrefill(neonate, observations, "en-US", now);
+    expect(values).toMatchObject({ ageYears: "0", ageMonthsOnly: "0", postnatalDays: "10" });
+
+    const { input } = parseIWLForm({ ...DEFAULT_FORM_VALUES, ...values, weight: "1.2", gestationalWeeks: "29" });
+    expect(input.neonatal).toMatchObject({ postnatalAgeDays: 10, postnatalAgeSource: "entered" });
+  });
+
+  it("reports units it cannot convert and birth dates it cannot use", () => {
+    const stones = observations.map(observation =>
+      observation.id === "weight-2" ? { ...observation, valueQuantity: { value: 2, unit: "st", code: "st" } } : observation);
+    const prefill = buildFhirPrefill({ ...patient, birthDate: "2021" }, stones, "en-US", now);
+    expect(prefill.errors.map(error => error.code)).toEqual(["FHIR_UNIT", "FHIR_BIRTH_DATE"]);
+    expect(prefill.values.weight).toBeUndefined();
+    expect(buildFhirPrefill({ resourceType: "Patient" }, [], "en-US", now).missing).toEqual(["weight", "height", "temperature", "respiratoryRate", "age"]);
+  });
+});
+
+describe("buildIWLObservation", () => {
+  const prefill = buildFhirPrefill(patient, observations, "en-US", now);
+  const { input } = parseIWLForm({ ...DEFAULT_FORM_VALUES, ...prefill.values });
+  const result = calculateIWL(input);
+  const derivedFrom = prefill.items.map(item => item.reference).filter(reference => reference.startsWith("Observation/"));
+  const observation = buildIWLObservation(result, { patientId: MOCK_PATIENT_ID, derivedFrom, effectiveDateTime: now.toISOString() });
+
+  it("writes the daily range for the patient the mock server accepts writes for", () => {
+    expect(observation.subject?.reference).toBe(`Patient/${MOCK_PATIENT_ID}`);
+    expect(observation.status).toBe("final");
+    expect(observation.valueRange?.low).toMatchObject({ value: Number(result.totalIWL_low), code: "mL/d" });
+    expect(observation.derivedFrom?.map(reference => reference.reference)).toEqual(derivedFrom);
+  });
+
+  it("carries the hourly ranges, BSA and warnings", () => {
+    const component = (code: string) => observation.component?.find(entry => entry.code.coding?.[0].code === code);
+    expect(component("hourly-iwl")?.valueRange?.high?.value).toBe(Number(result.hourly_high));
+    expect(component("peak-hourly-iwl")?.valueRange?.high?.value).toBe(Number(result.peakHourly_high));
+    expect(component("bsa")?.valueQuantity?.value).toBe(Number((result.bsa as number).toFixed(3)));
+    expect(observation.note?.length ?? 0).toBe(result.warnings.length);
+  });
+});
@@ -0,0 +1,373 @@
+import { IWLFormValues } from "./form";
+import { CalculationResult } from "./iwl";
+import { EngineMessage, engineMessage } from "./messages";
+import { formatProtocolName } from "./protocol";
+import { formatNumber, getDecimalSeparator, HeightUnit, TemperatureUnit, WeightUnit } from "./units";
+
+/**
+ * FHIR R4 mapping for SMART on FHIR launches: the latest vital-sign Observations and the patient's birth
+ * date become form values, and a finished calculation becomes an Observation that can be written back.
+ * Only the resource fields used here are typed. Vitals are matched by LOINC code and converted from UCUM
+ * units; a value whose unit cannot be converted is reported and left for the user to enter.
+ */
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirRange {
+  low?: FhirQuantity;
+  high?: FhirQuantity;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirObservationComponent {
+  code: FhirCodeableConcept;
+  valueQuantity?: FhirQuantity;
+  valueRange?: FhirRange;
+}
+
+export interface FhirObservation {
+  resourceType: "Observation";
+  id?: string;
+  meta?: { source?: string; lastUpdated?: string };
+  status: string;
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  effectiveInstant?: string;
+  effectivePeriod?: { start?: string; end?: string };
+  issued?: string;
+  performer?: FhirReference[];
+  device?: FhirReference;
+  method?: FhirCodeableConcept;
+  valueQuantity?: FhirQuantity;
+  valueRange?: FhirRange;
+  component?: FhirObservationComponent[];
+  derivedFrom?: FhirReference[];
+  note?: { text: string }[];
+}
+
+export interface FhirPatient {
+  resourceType: "Patient";
+  id?: string;
+  birthDate?: string;
+  name?: { text?: string; given?: string[]; family?: string }[];
+}
+
+export interface FhirBundle<T> {
+  resourceType: "Bundle";
+  entry?: { resource?: T }[];
+  link?: { relation: string; url: string }[];
+}
+
+export type FhirVital = "weight" | "height" | "temperature" | "respiratoryRate";
+
+export type FhirPrefillField = FhirVital | "age";
+
+export interface FhirVitalDefinition {
+  // LOINC display name, also used in messages.
+  label: string;
+  // The first code is the vital-signs profile code; the others are accepted when reading.
+  codes: string[];
+}
+
+export const LOINC_SYSTEM = "http://loinc.org";
+export const UCUM_SYSTEM = "http://unitsofmeasure.org";
+
+export const FHIR_VITALS: Record<FhirVital, FhirVitalDefinition> = {
+  weight: { label: "Body weight", codes: ["29463-7", "3141-9"] },
+  height: { label: "Body height", codes: ["8302-2", "8306-3", "8308-9"] },
+  temperature: { label: "Body temperature", codes: ["8310-5", "8331-1", "8332-9", "8333-7", "8328-7"] },
+  respiratoryRate: { label: "Respiratory rate", codes: ["9279-1"] }
+};
+
+export const FHIR_VITAL_IDS = Object.keys(FHIR_VITALS) as FhirVital[];
+
+// Codes for the written-back estimate; LOINC has no code for a calculated insensible water loss.
+export const IWL_CODE_SYSTEM = "urn:pediatric-iwl-calculator";
+
+const USABLE_STATUSES = ["final", "amended", "corrected", "preliminary"];
+
+export interface FhirPrefillItem {
+  field: FhirPrefillField;
+  // As recorded, e.g. "12.4 kg" or a birth date.
+  value: string;
+  // When the value was measured; null when the resource has no time.
+  effective: string | null;
+  // Who or what recorded it (performer, device or meta.source); empty when the resource does not say.
+  source: string;
+  // "Observation/123" or "Patient/abc".
+  reference: string;
+}
+
+export interface FhirPrefill {
+  values: Partial<IWLFormValues>;
+  items: FhirPrefillItem[];
+  // Fields with no usable resource.
+  missing: FhirPrefillField[];
+  // Values that were found but could not be used.
+  errors: EngineMessage[];
+}
+
+export interface IWLObservationOptions {
+  patientId: string;
+  // References of the Observations the calculation was prefilled from.
+  derivedFrom?: string[];
+  effectiveDateTime?: string;
+}
+
+const hasCode = (concept: FhirCodeableConcept, codes: string[]) =>
+  (concept.coding ?? []).some(coding => coding.system === LOINC_SYSTEM && coding.code !== undefined && codes.includes(coding.code));
+
+export const getObservationTime = (observation: FhirObservation) =>
+  observation.effectiveDateTime
+  ?? observation.effectiveInstant
+  ?? observation.effectivePeriod?.end
+  ?? observation.effectivePeriod?.start
+  ?? observation.issued
+  ?? null;
+
+const timeValue = (observation: FhirObservation) => {
+  const time = getObservationTime(observation);
+  const parsed = time ? Date.parse(time) : NaN;
+  return isNaN(parsed) ? -Infinity : parsed;
+};
+
+/** The most recent usable Observation of a vital, by effective time. */
+export const findLatestVital = (observations: FhirObservation[], vital: FhirVital) =>
+  observations
+    .filter(observation =>
+      USABLE_STATUSES.includes(observation.status)
+      && hasCode(observation.code, FHIR_VITALS[vital].codes)
+      && typeof observation.valueQuantity?.value === "number")
+    .reduce<FhirObservation | null>((latest, observation) =>
+      latest === null || timeValue(observation) > timeValue(latest) ? observation : latest, null);
+
+const unitOf = (quantity: FhirQuantity) => (quantity.system === UCUM_SYSTEM && quantity.code ? quantity.code : quantity.unit ?? quantity.code ?? "").trim();
+
+const WEIGHT_UNITS: Record<string, { unit: WeightUnit; scale: number }> = {
+  kg: { unit: "kg", scale: 1 },
+  g: { unit: "g", scale: 1 },
+  "[lb_av]": { unit: "lb", scale: 1 },
+  lb: { unit: "lb", scale: 1 },
+  lbs: { unit: "lb", scale: 1 }
+};
+
+const HEIGHT_UNITS: Record<string, { unit: HeightUnit; scale: number }> = {
+  cm: { unit: "cm", scale: 1 },
+  m: { unit: "cm", scale: 100 },
+  mm: { unit: "cm", scale: 0.1 },
+  "[in_i]": { unit: "in", scale: 1 },
+  in: { unit: "in", scale: 1 }
+};
+
+const TEMPERATURE_UNITS: Record<string, TemperatureUnit> = {
+  Cel: "C",
+  "°C": "C",
+  C: "C",
+  "[degF]": "F",
+  "°F": "F",
+  F: "F"
+};
+
+const RESPIRATORY_RATE_UNITS = ["/min", "{breaths}/min", "{Breaths}/min", "breaths/min"];
+
+/** Form values for one vital, or null when its unit cannot be converted. */
+const toFormValues = (vital: FhirVital, value: number, unit: string, locale: string): Partial<IWLFormValues> | null => {
+  const text = (number: number) => formatNumber(number).replace(".", getDecimalSeparator(locale));
+  switch (vital) {
+    case "weight": {
+      const match = WEIGHT_UNITS[unit];
+      return match ? { weight: text(value * match.scale), weightUnit: match.unit, weightOunces: "" } : null;
+    }
+    case "height": {
+      const match = HEIGHT_UNITS[unit];
+      return match ? { height: text(value * match.scale), heightUnit: match.unit } : null;
+    }
+    case "temperature": {
+      const match = TEMPERATURE_UNITS[unit];
+      return match ? { temperature: text(value), temperatureUnit: match } : null;
+    }
+    case "respiratoryRate":
+      return RESPIRATORY_RATE_UNITS.includes(unit) ? { respiratoryRate: text(value) } : null;
+  }
+};
+
+const parseBirthDate = (birthDate: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(birthDate);
+  return match ? match.slice(1).map(Number) : null;
+};
+
+/** Completed months from a full YYYY-MM-DD birth date to today; null for partial or future dates. */
+export const getAgeInMonthsFromBirthDate = (birthDate: string, today = new Date()) => {
+  const parts = parseBirthDate(birthDate);
+  if (!parts) return null;
+  const [year, month, day] = parts;
+  const months = (today.getFullYear() - year) * 12 + (today.getMonth() + 1 - month) - (today.getDate() < day ? 1 : 0);
+  return months < 0 ? null : months;
+};
+
+/** Whole days from a full YYYY-MM-DD birth date to today (day of birth is day 0); null for partial or future dates. */
+export const getAgeInDaysFromBirthDate = (birthDate: string, today = new Date()) => {
+  const parts = parseBirthDate(birthDate);
+  if (!parts) return null;
+  const [year, month, day] = parts;
+  const days = Math.round((Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()) - Date.UTC(year, month - 1, day)) / 86400000);
+  return days < 0 ? null : days;
+};
+
+const sourceOf = (observation: FhirObservation) =>
+  observation.performer?.find(performer => performer.display)?.display
+  ?? observation.device?.display
+  ?? observation.meta?.source
+  ?? "";
+
+/**
+ * Reads the latest vitals and the birth date into form values written with the locale's decimal separator.
+ * The birth date fills the age fields, and the postnatal day for patients under a month.
+ */
+export const buildFhirPrefill = (
+  patient: FhirPatient,
+  observations: FhirObservation[],
+  locale: string,
+  today = new Date()
+): FhirPrefill => {
+  const prefill: FhirPrefill = { values: {}, items: [], missing: [], errors: [] };
+
+  FHIR_VITAL_IDS.forEach(vital => {
+    const observation = findLatestVital(observations, vital);
+    if (!observation?.valueQuantity) {
+      prefill.missing.push(vital);
+      return;
+    }
+    const reference = `Observation/${observation.id ?? ""}`;
+    const { value } = observation.valueQuantity as { value: number };
+    const unit = unitOf(observation.valueQuantity);
+    const values = toFormValues(vital, value, unit, locale);
+    if (!values) {
+      prefill.errors.push(engineMessage(
+        "FHIR_UNIT",
+        `${FHIR_VITALS[vital].label} in ${reference} has the unit "${unit}", which cannot be converted; enter it by hand`,
+        { vital, observation: reference, unit }
+      ));
+      return;
+    }
+    Object.assign(prefill.values, values);
+    prefill.items.push({
+      field: vital,
+      value: `${formatNumber(value)} ${observation.valueQuantity.unit ?? unit}`.trim(),
+      effective: getObservationTime(observation),
+      source: sourceOf(observation),
+      reference
+    });
+  });
+
+  if (!patient.birthDate) {
+    prefill.missing.push("age");
+  } else {
+    const months = getAgeInMonthsFromBirthDate(patient.birthDate, today);
+    if (months === null) {
+      prefill.errors.push(engineMessage(
+        "FHIR_BIRTH_DATE",
+        `Birth date "${patient.birthDate}" is not a complete past date; enter the age by hand`,
+        { date: patient.birthDate }
+      ));
+    } else {
+      prefill.values.ageYears = String(Math.floor(months / 12));
+      prefill.values.ageMonthsOnly = String(months % 12);
+      // Under a month the age fields read 0, so the gestational-age table takes its postnatal day from the
+      // birth date; an older patient's postnatal day comes from the age fields.
+      prefill.values.postnatalDays = months < 1 ? String(getAgeInDaysFromBirthDate(patient.birthDate, today)) : "";
+      prefill.items.push({ field: "age", value: patient.birthDate, effective: null, source: "", reference: `Patient/${patient.id ?? ""}` });
+    }
+  }
+
+  return prefill;
+};
+
+/** The patient's display name: name.text, or given and family names joined. */
+export const getPatientName = (patient: FhirPatient) => {
+  const name = patient.name?.[0];
+  if (!name) return "";
+  return name.text ?? [...(name.given ?? []), name.family ?? ""].join(" ").trim();
+};
+
+const quantity = (value: number, unit: string, decimals = 1): FhirQuantity => ({
+  value: Number(value.toFixed(decimals)),
+  unit,
+  system: UCUM_SYSTEM,
+  code: unit
+});
+
+const iwlCode = (code: string, display: string): FhirCodeableConcept => ({
+  coding: [{ system: IWL_CODE_SYSTEM, code, display }],
+  text: display
+});
+
+/**
+ * The estimate as an Observation: the daily IWL range as the value, with base IWL, the fever multiplier,
+ * the RR and additional adjustments, the average and highest hourly ranges and BSA as components. Safety
+ * warnings become notes.
+ */
+export const buildIWLObservation = (
+  result: CalculationResult,
+  { patientId, derivedFrom = [], effectiveDateTime = new Date().toISOString() }: IWLObservationOptions
+): FhirObservation => {
+  const components: FhirObservationComponent[] = [
+    {
+      code: iwlCode("base-iwl", "Base insensible water loss"),
+      valueRange: { low: quantity(result.baseIWL_low, "mL/d"), high: quantity(result.baseIWL_high, "mL/d") }
+    },
+    { code: iwlCode("fever-multiplier", "Fever multiplier"), valueQuantity: quantity(result.feverMultiplier, "1", 3) },
+    { code: iwlCode("rr-adjustment", "Respiratory rate adjustment"), valueQuantity: quantity(result.rrAdjustment, "mL/d") },
+    {
+      code: iwlCode("additional-adjustment", "Additional adjustments"),
+      valueRange: { low: quantity(result.additionalAdjustment_low, "mL/d"), high: quantity(result.additionalAdjustment_high, "mL/d") }
+    },
+    {
+      code: iwlCode("hourly-iwl", "Hourly insensible water loss, 24-hour average"),
+      valueRange: { low: quantity(parseFloat(result.hourly_low), "mL/h"), high: quantity(parseFloat(result.hourly_high), "mL/h") }
+    },
+    {
+      code: iwlCode("peak-hourly-iwl", "Hourly insensible water loss, highest hour"),
+      valueRange: { low: quantity(parseFloat(result.peakHourly_low), "mL/h"), high: quantity(parseFloat(result.peakHourly_high), "mL/h") }
+    }
+  ];
+  if (result.bsa !== null) {
+    components.push({ code: iwlCode("bsa", "Body surface area"), valueQuantity: quantity(result.bsa, "m2", 3) });
+  }
+
+  return {
+    resourceType: "Observation",
+    status: "final",
+    code: iwlCode("insensible-water-loss", "Estimated insensible water loss per 24 hours"),
+    subject: { reference: `Patient/${patientId}` },
+    effectiveDateTime,
+    method: {
+      text: `Pediatric IWL Calculator engine v${result.engineVersion}, ${result.method === "neonatal" ? "gestational-age table" : "BSA"} method, protocol ${formatProtocolName(result.protocol)}`
+    },
+    valueRange: { low: quantity(parseFloat(result.totalIWL_low), "mL/d"), high: quantity(parseFloat(result.totalIWL_high), "mL/d") },
+    component: components,
+    ...(derivedFrom.length > 0 && { derivedFrom: derivedFrom.map(reference => ({ reference })) }),
+    ...(result.warnings.length > 0 && { note: result.warnings.map(warning => ({ text: `${warning.severity.toUpperCase()} ${warning.code}: ${warning.message}` })) })
+  };
+};
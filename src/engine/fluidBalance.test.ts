@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { calculateFluidBalance, FluidBalanceInput, MAX_BALANCE_HOURS, validateFluidBalanceInput } from "./fluidBalance";
+
+const chart = (entries: FluidBalanceInput["entries"], overrides: Partial<FluidBalanceInput> = {}): FluidBalanceInput => ({
+  weightKg: 10,
+  iwlHourly_low: 10,
+  iwlHourly_high: 15,
+  entries,
+  negativeThresholdMlPerKg: 10,
+  ...overrides
+});
+
+describe("calculateFluidBalance", () => {
+  it("subtracts measured output and the IWL range from intake each hour", () => {
+    const [hour] = calculateFluidBalance(chart([{ iv: 40, enteral: 20, flush: 2, urine: 30, stool: 5 }])).hours;
+    expect(hour).toMatchObject({ hour: 0, intake: 62, measuredOutput: 35, insensible_low: 10, insensible_high: 15 });
+    // The low end of the balance assumes the high IWL estimate.
+    expect(hour.net).toEqual({ low: 12, high: 17 });
+  });
+
+  it("counts blank fields as zero and still charges the hour its insensible loss", () => {
+    const [hour] = calculateFluidBalance(chart([{}])).hours;
+    expect(hour).toMatchObject({ intake: 0, measuredOutput: 0, net: { low: -15, high: -10 } });
+  });
+
+  it("takes each hour's IWL from the profile and falls back to the hourly range", () => {
+    const balance = calculateFluidBalance(chart([{ iv: 30 }, { iv: 30 }], { iwlProfile: [{ low: 20, high: 25 }] }));
+    expect(balance.hours.map(hour => hour.net)).toEqual([{ low: 5, high: 10 }, { low: 15, high: 20 }]);
+  });
+
+  it("keeps running totals over the last 6, 12 and 24 hours", () => {
+    const entries = Array.from({ length: 13 }, (_, index) => ({ iv: index + 10 }));
+    const balance = calculateFluidBalance(chart(entries, { iwlHourly_low: 0, iwlHourly_high: 0 }));
+    const last = balance.hours[12];
+    expect(last.running[6]).toEqual({ low: 17 + 18 + 19 + 20 + 21 + 22, high: 17 + 18 + 19 + 20 + 21 + 22 });
+    expect(last.running[12].low).toBe(balance.totalIntake - 10);
+    expect(last.running[24].low).toBe(balance.totalIntake);
+    expect(balance.hours[2].running[6].low).toBe(10 + 11 + 12);
+  });
+
+  it("totals intake and output and reports the last hour's 24-hour balance", () => {
+    const balance = calculateFluidBalance(chart([{ iv: 50, urine: 20 }, { enteral: 10, drain: 5, ng: 3 }]));
+    expect(balance).toMatchObject({ totalIntake: 60, totalMeasuredOutput: 28, net: { low: 60 - 28 - 30, high: 60 - 28 - 20 } });
+    expect(calculateFluidBalance(chart([])).net).toEqual({ low: 0, high: 0 });
+  });
+
+  it("flags hours whose worst-case 24-hour balance falls below the threshold", () => {
+    const balance = calculateFluidBalance(chart([{ urine: 40 }, { urine: 40 }, { iv: 200 }]));
+    expect(balance.thresholdMl).toBe(100);
+    expect(balance.hours.map(hour => hour.running[24].low)).toEqual([-55, -110, 75]);
+    expect(balance.flaggedHours).toEqual([1]);
+  });
+
+  it("throws a RangeError for invalid input", () => {
+    expect(() => calculateFluidBalance(chart([{ iv: -1 }]))).toThrow(RangeError);
+  });
+});
+
+describe("validateFluidBalanceInput", () => {
+  it("accepts a valid chart", () => {
+    expect(validateFluidBalanceInput(chart([{ iv: 0, urine: 12.5 }]))).toBeNull();
+  });
+
+  it("rejects negative and non-numeric volumes with the hour and field", () => {
+    expect(validateFluidBalanceInput(chart([{}, { urine: -5 }]))).toMatchObject({
+      code: "BALANCE_VOLUME_INVALID",
+      message: "Hour 2: please enter a valid urine volume (mL)",
+      params: { hour: 2, entry: "urine" }
+    });
+    expect(validateFluidBalanceInput(chart([{ enteral: NaN }]))?.params).toEqual({ hour: 1, entry: "enteral" });
+  });
+
+  it("rejects a missing weight, an invalid threshold and charts longer than a day", () => {
+    expect(validateFluidBalanceInput(chart([], { weightKg: NaN }))?.code).toBe("WEIGHT_INVALID");
+    expect(validateFluidBalanceInput(chart([], { negativeThresholdMlPerKg: -1 }))?.code).toBe("BALANCE_THRESHOLD_INVALID");
+    expect(validateFluidBalanceInput(chart([], { negativeThresholdMlPerKg: NaN }))?.code).toBe("BALANCE_THRESHOLD_INVALID");
+    const entries = Array.from({ length: MAX_BALANCE_HOURS + 1 }, () => ({}));
+    expect(validateFluidBalanceInput(chart(entries))).toMatchObject({ code: "BALANCE_HOURS_LIMIT", params: { max: MAX_BALANCE_HOURS } });
+  });
+});
@@ -0,0 +1,153 @@
+import { EngineMessage, engineMessage } from "./messages";
+
+/**
+ * Hourly fluid balance: charted intake minus measured output minus the insensible loss estimate.
+ *
+ * Each entry is one consecutive hour of the chart. Insensible loss is not measured, so every hour carries
+ * the IWL hourly range and the balance is reported as a range: the low end assumes the high IWL estimate.
+ * When the IWL result has an hourly profile (factors that run for part of the day), each charted hour
+ * takes its clock hour's loss instead of the daily average.
+ */
+
+export type IntakeKey = "iv" | "enteral" | "flush";
+export type OutputKey = "urine" | "stool" | "ng" | "drain";
+export type BalanceFieldKey = IntakeKey | OutputKey;
+
+/** Volumes in mL charted for one hour; blank fields count as zero. */
+export type FluidBalanceEntry = Partial<Record<BalanceFieldKey, number>>;
+
+export interface FluidBalanceInput {
+  weightKg: number;
+  iwlHourly_low: number;
+  iwlHourly_high: number;
+  // IWL for each charted hour, in entry order; hours without one use iwlHourly_low/high.
+  iwlProfile?: BalanceRange[];
+  entries: FluidBalanceEntry[];
+  // Hours whose worst-case running 24-hour balance falls below −threshold × weight are flagged.
+  negativeThresholdMlPerKg: number;
+}
+
+export const BALANCE_WINDOWS = [6, 12, 24] as const;
+export type BalanceWindow = typeof BALANCE_WINDOWS[number];
+
+export interface BalanceRange {
+  low: number;
+  high: number;
+}
+
+export interface FluidBalanceHour {
+  hour: number;
+  intake: number;
+  measuredOutput: number;
+  insensible_low: number;
+  insensible_high: number;
+  net: BalanceRange;
+  running: Record<BalanceWindow, BalanceRange>;
+  flagged: boolean;
+}
+
+export interface FluidBalance {
+  hours: FluidBalanceHour[];
+  thresholdMl: number;
+  totalIntake: number;
+  totalMeasuredOutput: number;
+  net: BalanceRange;
+  flaggedHours: number[];
+}
+
+export const INTAKE_LABELS: Record<IntakeKey, string> = {
+  iv: "IV",
+  enteral: "Enteral",
+  flush: "Flushes"
+};
+
+export const OUTPUT_LABELS: Record<OutputKey, string> = {
+  urine: "Urine",
+  stool: "Stool",
+  ng: "NG",
+  drain: "Drain"
+};
+
+export const INTAKE_KEYS = Object.keys(INTAKE_LABELS) as IntakeKey[];
+export const OUTPUT_KEYS = Object.keys(OUTPUT_LABELS) as OutputKey[];
+export const BALANCE_FIELD_LABELS: Record<BalanceFieldKey, string> = { ...INTAKE_LABELS, ...OUTPUT_LABELS };
+export const BALANCE_FIELD_KEYS: BalanceFieldKey[] = [...INTAKE_KEYS, ...OUTPUT_KEYS];
+
+export const MAX_BALANCE_HOURS = 24;
+export const DEFAULT_NEGATIVE_THRESHOLD_ML_PER_KG = 10;
+
+const sum = (entry: FluidBalanceEntry, keys: BalanceFieldKey[]) => keys.reduce((total, key) => total + (entry[key] ?? 0), 0);
+
+export const validateFluidBalanceInput = (input: FluidBalanceInput): EngineMessage | null => {
+  if (isNaN(input.weightKg) || input.weightKg <= 0) return engineMessage("WEIGHT_INVALID", "Please enter a valid weight (kg)");
+  if (input.entries.length > MAX_BALANCE_HOURS) {
+    return engineMessage("BALANCE_HOURS_LIMIT", `The balance chart holds at most ${MAX_BALANCE_HOURS} hours`, { max: MAX_BALANCE_HOURS });
+  }
+  for (const [index, entry] of input.entries.entries()) {
+    for (const key of BALANCE_FIELD_KEYS) {
+      const value = entry[key];
+      if (value !== undefined && (isNaN(value) || value < 0)) {
+        return engineMessage(
+          "BALANCE_VOLUME_INVALID",
+          `Hour ${index + 1}: please enter a valid ${BALANCE_FIELD_LABELS[key].toLowerCase()} volume (mL)`,
+          { hour: index + 1, entry: key }
+        );
+      }
+    }
+  }
+  if (isNaN(input.negativeThresholdMlPerKg) || input.negativeThresholdMlPerKg < 0) {
+    return engineMessage("BALANCE_THRESHOLD_INVALID", "Please enter a valid negative balance threshold (mL/kg)");
+  }
+  return null;
+};
+
+/** Throws a RangeError for invalid input. */
+export const calculateFluidBalance = (input: FluidBalanceInput): FluidBalance => {
+  const error = validateFluidBalanceInput(input);
+  if (error) throw new RangeError(error.message);
+
+  const thresholdMl = input.negativeThresholdMlPerKg * input.weightKg;
+
+  const nets = input.entries.map((entry, index) => {
+    const intake = sum(entry, INTAKE_KEYS);
+    const measuredOutput = sum(entry, OUTPUT_KEYS);
+    const insensible_low = input.iwlProfile?.[index]?.low ?? input.iwlHourly_low;
+    const insensible_high = input.iwlProfile?.[index]?.high ?? input.iwlHourly_high;
+    return {
+      intake,
+      measuredOutput,
+      insensible_low,
+      insensible_high,
+      net: { low: intake - measuredOutput - insensible_high, high: intake - measuredOutput - insensible_low }
+    };
+  });
+
+  const runningOver = (end: number, window: number): BalanceRange =>
+    nets.slice(Math.max(0, end - window + 1), end + 1).reduce(
+      (total, hour) => ({ low: total.low + hour.net.low, high: total.high + hour.net.high }),
+      { low: 0, high: 0 }
+    );
+
+  const hours = nets.map((hour, index): FluidBalanceHour => {
+    const running = {
+      6: runningOver(index, 6),
+      12: runningOver(index, 12),
+      24: runningOver(index, 24)
+    };
+    return {
+      hour: index,
+      ...hour,
+      running,
+      flagged: running[24].low < -thresholdMl
+    };
+  });
+
+  return {
+    hours,
+    thresholdMl,
+    totalIntake: nets.reduce((total, hour) => total + hour.intake, 0),
+    totalMeasuredOutput: nets.reduce((total, hour) => total + hour.measuredOutput, 0),
+    net: hours.length > 0 ? hours[hours.length - 1].running[24] : { low: 0, high: 0 },
+    flaggedHours: hours.filter(hour => hour.flagged).map(hour => hour.hour)
+  };
+};
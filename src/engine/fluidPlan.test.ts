@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateFluidPlan,
+  calculateHollidaySegar,
+  DEFAULT_MAINTENANCE_BASIS,
+  FluidPlanInput,
+  validateFluidPlanInput
+} from "./fluidPlan";
+
+const plan: FluidPlanInput = { weightKg: 12, iwl_low: 250, iwl_high: 300, basis: "insensiblePlusUrine", urineOutputMlPerKgPerHour: 1 };
+
+describe("calculateHollidaySegar", () => {
+  it("applies 100, 50 and 20 mL/kg/day tiers", () => {
+    expect(calculateHollidaySegar(8)).toBe(800);
+    expect(calculateHollidaySegar(12)).toBe(1100);
+    expect(calculateHollidaySegar(25)).toBe(1600);
+  });
+});
+
+describe("validateFluidPlanInput", () => {
+  it("starts from the basis that uses the IWL estimate", () => {
+    expect(DEFAULT_MAINTENANCE_BASIS).toBe("insensiblePlusUrine");
+  });
+
+  it("requires urine output for insensible + urine replacement", () => {
+    expect(validateFluidPlanInput({ ...plan, urineOutputMlPerKgPerHour: undefined })?.code).toBe("URINE_OUTPUT_REQUIRED");
+    expect(validateFluidPlanInput({ ...plan, basis: "hollidaySegar", urineOutputMlPerKgPerHour: undefined })).toBeNull();
+  });
+
+  it("checks dehydration and the first phase", () => {
+    expect(validateFluidPlanInput({ ...plan, dehydrationPercent: 20 })?.code).toBe("DEHYDRATION_RANGE");
+    expect(validateFluidPlanInput({ ...plan, deficitFirstPhaseFraction: 1.5 })?.code).toBe("DEFICIT_FRACTION_RANGE");
+    expect(validateFluidPlanInput({ ...plan, deficitFirstPhaseHours: 24 })?.code).toBe("FIRST_PHASE_HOURS_RANGE");
+  });
+});
+
+describe("calculateFluidPlan", () => {
+  it("adds urine output to the IWL range", () => {
+    const result = calculateFluidPlan(plan);
+    expect(result.urineOutputMlPerDay).toBe(288);
+    expect(result.maintenance_low).toBe(538);
+    expect(result.maintenance_high).toBe(588);
+    expect(result.phases).toHaveLength(1);
+    expect(result.phases[0].rate_low).toBeCloseTo(538 / 24, 9);
+  });
+
+  it("ignores the IWL range with Holliday–Segar", () => {
+    const result = calculateFluidPlan({ ...plan, basis: "hollidaySegar", iwl_low: 900, iwl_high: 1000 });
+    expect(result.maintenance_low).toBe(1100);
+    expect(result.maintenance_high).toBe(1100);
+  });
+
+  it("front-loads the deficit into the first phase", () => {
+    const result = calculateFluidPlan({ ...plan, dehydrationPercent: 5, ongoingLossesMlPerDay: 120 });
+    expect(result.deficit).toBe(600);
+    expect(result.total_low).toBe(538 + 600 + 120);
+    const [first, second] = result.phases;
+    expect(first).toMatchObject({ startHour: 0, endHour: 8, deficitVolume: 300 });
+    expect(second).toMatchObject({ startHour: 8, endHour: 24, deficitVolume: 300 });
+    expect(first.volume_low + second.volume_low).toBeCloseTo(result.total_low, 9);
+  });
+
+  it("throws a RangeError for invalid input", () => {
+    expect(() => calculateFluidPlan({ ...plan, weightKg: 0 })).toThrow(RangeError);
+  });
+});
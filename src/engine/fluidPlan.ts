@@ -0,0 +1,177 @@
+import { EngineMessage, engineMessage } from "./messages";
+
+/**
+ * 24-hour fluid prescription built on top of the IWL estimate.
+ *
+ * Maintenance is either Holliday–Segar (which already allows for insensible and urinary losses) or
+ * insensible + urine replacement, using the IWL range directly. Deficit replacement (1% dehydration =
+ * 10 mL/kg) and ongoing GI/drain losses are added on top, and the deficit is front-loaded into the first phase.
+ */
+
+export type MaintenanceBasis = "hollidaySegar" | "insensiblePlusUrine";
+
+export interface FluidPlanInput {
+  weightKg: number;
+  iwl_low: number;
+  iwl_high: number;
+  basis: MaintenanceBasis;
+  urineOutputMlPerKgPerHour?: number;
+  dehydrationPercent?: number;
+  ongoingLossesMlPerDay?: number;
+  // Share of the deficit given in the first phase, and that phase's length.
+  deficitFirstPhaseFraction?: number;
+  deficitFirstPhaseHours?: number;
+}
+
+export interface HollidaySegarTier {
+  label: string;
+  kg: number;
+  mlPerKg: number;
+  volume: number;
+}
+
+export interface FluidPhase {
+  label: string;
+  startHour: number;
+  endHour: number;
+  deficitVolume: number;
+  volume_low: number;
+  volume_high: number;
+  rate_low: number;
+  rate_high: number;
+}
+
+export interface FluidPlan {
+  basis: MaintenanceBasis;
+  weightKg: number;
+  hollidaySegar: number;
+  hollidaySegarTiers: HollidaySegarTier[];
+  urineOutputMlPerDay: number;
+  maintenance_low: number;
+  maintenance_high: number;
+  dehydrationPercent: number;
+  deficit: number;
+  ongoingLosses: number;
+  total_low: number;
+  total_high: number;
+  hourly_low: number;
+  hourly_high: number;
+  phases: FluidPhase[];
+}
+
+export const MAINTENANCE_BASIS_LABELS: Record<MaintenanceBasis, string> = {
+  hollidaySegar: "Holliday–Segar maintenance",
+  insensiblePlusUrine: "Insensible loss + urine output"
+};
+
+// Holliday–Segar is weight-only and ignores the IWL estimate, so the planner starts from the basis that uses it.
+export const DEFAULT_MAINTENANCE_BASIS: MaintenanceBasis = "insensiblePlusUrine";
+
+export const DEFICIT_ML_PER_KG_PER_PERCENT = 10;
+export const DEFAULT_DEFICIT_FIRST_PHASE_FRACTION = 0.5;
+export const DEFAULT_DEFICIT_FIRST_PHASE_HOURS = 8;
+export const MAX_DEHYDRATION_PERCENT = 15;
+
+/** 100 mL/kg/day for the first 10 kg, 50 mL/kg/day for the next 10 kg, 20 mL/kg/day thereafter. */
+export const getHollidaySegarTiers = (weightKg: number): HollidaySegarTier[] => {
+  const tiers = [
+    { label: "First 10 kg", kg: Math.min(weightKg, 10), mlPerKg: 100 },
+    { label: "Next 10 kg", kg: Math.min(Math.max(weightKg - 10, 0), 10), mlPerKg: 50 },
+    { label: "Each kg over 20", kg: Math.max(weightKg - 20, 0), mlPerKg: 20 }
+  ];
+  return tiers.filter(tier => tier.kg > 0).map(tier => ({ ...tier, volume: tier.kg * tier.mlPerKg }));
+};
+
+export const calculateHollidaySegar = (weightKg: number) =>
+  getHollidaySegarTiers(weightKg).reduce((sum, tier) => sum + tier.volume, 0);
+
+const isBlankOrNonNegative = (value?: number) => value === undefined || (!isNaN(value) && value >= 0);
+
+export const validateFluidPlanInput = (input: FluidPlanInput): EngineMessage | null => {
+  if (isNaN(input.weightKg) || input.weightKg <= 0) return engineMessage("WEIGHT_INVALID", "Please enter a valid weight (kg)");
+  if (!isBlankOrNonNegative(input.urineOutputMlPerKgPerHour)) {
+    return engineMessage("URINE_OUTPUT_INVALID", "Please enter a valid urine output (mL/kg/hour)");
+  }
+  if (input.basis === "insensiblePlusUrine" && input.urineOutputMlPerKgPerHour === undefined) {
+    return engineMessage("URINE_OUTPUT_REQUIRED", "Urine output is required for insensible + urine replacement");
+  }
+  if (!isBlankOrNonNegative(input.dehydrationPercent) || (input.dehydrationPercent ?? 0) > MAX_DEHYDRATION_PERCENT) {
+    return engineMessage(
+      "DEHYDRATION_RANGE",
+      `Please enter a dehydration percentage between 0 and ${MAX_DEHYDRATION_PERCENT}`,
+      { max: MAX_DEHYDRATION_PERCENT }
+    );
+  }
+  if (!isBlankOrNonNegative(input.ongoingLossesMlPerDay)) {
+    return engineMessage("ONGOING_LOSSES_INVALID", "Please enter valid ongoing losses (mL/day)");
+  }
+  const fraction = input.deficitFirstPhaseFraction ?? DEFAULT_DEFICIT_FIRST_PHASE_FRACTION;
+  const hours = input.deficitFirstPhaseHours ?? DEFAULT_DEFICIT_FIRST_PHASE_HOURS;
+  if (isNaN(fraction) || fraction < 0 || fraction > 1) {
+    return engineMessage("DEFICIT_FRACTION_RANGE", "Deficit fraction for the first phase must be between 0 and 1");
+  }
+  if (isNaN(hours) || hours <= 0 || hours >= 24) return engineMessage("FIRST_PHASE_HOURS_RANGE", "First phase must last less than 24 hours");
+  return null;
+};
+
+/** Builds the daily volume, hourly rate and phased schedule. Throws a RangeError for invalid input. */
+export const calculateFluidPlan = (input: FluidPlanInput): FluidPlan => {
+  const error = validateFluidPlanInput(input);
+  if (error) throw new RangeError(error.message);
+
+  const { weightKg, iwl_low, iwl_high, basis } = input;
+  const dehydrationPercent = input.dehydrationPercent ?? 0;
+  const ongoingLosses = input.ongoingLossesMlPerDay ?? 0;
+  const fraction = input.deficitFirstPhaseFraction ?? DEFAULT_DEFICIT_FIRST_PHASE_FRACTION;
+  const firstPhaseHours = input.deficitFirstPhaseHours ?? DEFAULT_DEFICIT_FIRST_PHASE_HOURS;
+
+  const hollidaySegarTiers = getHollidaySegarTiers(weightKg);
+  const hollidaySegar = calculateHollidaySegar(weightKg);
+  const urineOutputMlPerDay = (input.urineOutputMlPerKgPerHour ?? 0) * weightKg * 24;
+
+  const maintenance_low = basis === "hollidaySegar" ? hollidaySegar : iwl_low + urineOutputMlPerDay;
+  const maintenance_high = basis === "hollidaySegar" ? hollidaySegar : iwl_high + urineOutputMlPerDay;
+  const deficit = dehydrationPercent * weightKg * DEFICIT_ML_PER_KG_PER_PERCENT;
+
+  const total_low = maintenance_low + deficit + ongoingLosses;
+  const total_high = maintenance_high + deficit + ongoingLosses;
+
+  const phase = (label: string, startHour: number, endHour: number, deficitVolume: number): FluidPhase => {
+    const share = (endHour - startHour) / 24;
+    const volume_low = (maintenance_low + ongoingLosses) * share + deficitVolume;
+    const volume_high = (maintenance_high + ongoingLosses) * share + deficitVolume;
+    return {
+      label,
+      startHour,
+      endHour,
+      deficitVolume,
+      volume_low,
+      volume_high,
+      rate_low: volume_low / (endHour - startHour),
+      rate_high: volume_high / (endHour - startHour)
+    };
+  };
+
+  return {
+    basis,
+    weightKg,
+    hollidaySegar,
+    hollidaySegarTiers,
+    urineOutputMlPerDay,
+    maintenance_low,
+    maintenance_high,
+    dehydrationPercent,
+    deficit,
+    ongoingLosses,
+    total_low,
+    total_high,
+    hourly_low: total_low / 24,
+    hourly_high: total_high / 24,
+    phases: deficit > 0
+      ? [
+        phase("Phase 1", 0, firstPhaseHours, deficit * fraction),
+        phase("Phase 2", firstPhaseHours, 24, deficit * (1 - fraction))
+      ]
+      : [phase("Steady rate", 0, 24, 0)]
+  };
+};
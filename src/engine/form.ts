@@ -0,0 +1,336 @@
+import { BSA_METHODS, BSAMethodId, DEFAULT_BSA_METHOD } from "./bsa";
+import { BurnAssessmentInput, BurnRegionId, LUND_BROWDER_REGIONS } from "./burns";
+import { CARE_SETTINGS, CareSetting } from "./environment";
+import { ExposureMode, EXPOSURE_MODES, FactorExposures, parseClockTime } from "./exposure";
+import { FACTOR_LABELS, FactorKey, IWLFactors, NO_FACTORS, PERCENT_FACTOR_KEYS, PercentFactorKey } from "./factors";
+import { Sex } from "./growthReference";
+import { IWLInput, validateIWLInput } from "./iwl";
+import { EngineMessage, engineMessage } from "./messages";
+import { NeonatalInput, resolvePostnatalAge } from "./neonatal";
+import {
+  HEIGHT_UNIT_LABELS,
+  HeightUnit,
+  parseLocaleInteger,
+  parseLocaleNumber,
+  ParsedNumber,
+  TEMPERATURE_UNIT_LABELS,
+  TemperatureUnit,
+  toCelsius,
+  toCentimetres,
+  toKilograms,
+  WEIGHT_UNIT_LABELS,
+  WeightUnit
+} from "./units";
+
+/** Raw text of the calculator form, exactly as typed, with the unit chosen for each measurement. */
+export interface IWLFormValues {
+  weight: string;
+  // Only used with the "lb" weight unit.
+  weightOunces: string;
+  weightUnit: WeightUnit;
+  height: string;
+  heightUnit: HeightUnit;
+  temperature: string;
+  temperatureUnit: TemperatureUnit;
+  respiratoryRate: string;
+  ageYears: string;
+  ageMonthsOnly: string;
+  // "" when not entered.
+  sex: Sex | "";
+  factors: IWLFactors;
+  bsaMethod: BSAMethodId;
+  // Lund–Browder entries as typed: percent of each region burned at partial and full thickness.
+  burnRegions: Partial<Record<BurnRegionId, { partialThickness: string; fullThickness: string }>>;
+  // How long each percentage factor runs: hours per day, or start and stop times as "HH:MM".
+  factorExposures: Partial<Record<PercentFactorKey, FactorExposureForm>>;
+  // Neonatal fields; leaving gestational weeks blank keeps the standard BSA method.
+  gestationalWeeks: string;
+  gestationalDays: string;
+  postnatalDays: string;
+  birthWeightGrams: string;
+  // Environment; air temperature shares the patient temperature unit.
+  careSetting: CareSetting;
+  relativeHumidity: string;
+  airTemperature: string;
+  // Locale used to interpret decimal separators, e.g. "en-US" or "fr-FR".
+  locale: string;
+}
+
+export interface FactorExposureForm {
+  mode: ExposureMode;
+  hours: string;
+  start: string;
+  end: string;
+}
+
+export const DEFAULT_FACTOR_EXPOSURE: FactorExposureForm = { mode: "fullDay", hours: "", start: "", end: "" };
+
+/**
+ * One-field text for shared links and batch files: hours per day as typed ("8") or start and stop times
+ * ("20:00-04:00"); "" for all day.
+ */
+export const formatExposureText = (entry: FactorExposureForm = DEFAULT_FACTOR_EXPOSURE) => {
+  if (entry.mode === "duration") return entry.hours;
+  if (entry.mode === "window") return `${entry.start}-${entry.end}`;
+  return "";
+};
+
+export const parseExposureText = (text: string): FactorExposureForm => {
+  const trimmed = text.trim();
+  const times = /^(.*?)\s*[-–]\s*(.*)$/.exec(trimmed);
+  if (times) return { ...DEFAULT_FACTOR_EXPOSURE, mode: "window", start: times[1], end: times[2] };
+  return trimmed === "" ? DEFAULT_FACTOR_EXPOSURE : { ...DEFAULT_FACTOR_EXPOSURE, mode: "duration", hours: trimmed };
+};
+
+/** Fields holding text as typed, as opposed to a choice from a fixed list. */
+export type FormTextField =
+  | "weight"
+  | "weightOunces"
+  | "height"
+  | "temperature"
+  | "respiratoryRate"
+  | "ageYears"
+  | "ageMonthsOnly"
+  | "gestationalWeeks"
+  | "gestationalDays"
+  | "postnatalDays"
+  | "birthWeightGrams"
+  | "relativeHumidity"
+  | "airTemperature"
+  | "locale";
+
+export type FormChoiceField = "weightUnit" | "heightUnit" | "temperatureUnit" | "sex" | "bsaMethod" | "careSetting";
+
+export const FORM_TEXT_FIELDS: FormTextField[] = [
+  "weight",
+  "weightOunces",
+  "height",
+  "temperature",
+  "respiratoryRate",
+  "ageYears",
+  "ageMonthsOnly",
+  "gestationalWeeks",
+  "gestationalDays",
+  "postnatalDays",
+  "birthWeightGrams",
+  "relativeHumidity",
+  "airTemperature",
+  "locale"
+];
+
+/** Allowed values of each choice field; "" for sex means not entered. */
+export const FORM_CHOICES: Record<FormChoiceField, string[]> = {
+  weightUnit: Object.keys(WEIGHT_UNIT_LABELS),
+  heightUnit: Object.keys(HEIGHT_UNIT_LABELS),
+  temperatureUnit: Object.keys(TEMPERATURE_UNIT_LABELS),
+  sex: ["", "male", "female"],
+  bsaMethod: Object.keys(BSA_METHODS),
+  careSetting: CARE_SETTINGS
+};
+
+/** An entered measurement next to the SI value it was converted to, for the details panel. */
+export interface FormConversion {
+  label: string;
+  entered: string;
+  converted: string;
+}
+
+export interface ParsedIWLForm {
+  input: IWLInput;
+  // First parsing error, in form order.
+  error: EngineMessage | null;
+  conversions: FormConversion[];
+}
+
+/** An empty form in metric units. Also fills fields missing from forms saved by older versions. */
+export const DEFAULT_FORM_VALUES: IWLFormValues = {
+  weight: "",
+  weightOunces: "",
+  weightUnit: "kg",
+  height: "",
+  heightUnit: "cm",
+  temperature: "",
+  temperatureUnit: "C",
+  respiratoryRate: "",
+  ageYears: "",
+  ageMonthsOnly: "",
+  sex: "",
+  factors: NO_FACTORS,
+  bsaMethod: DEFAULT_BSA_METHOD,
+  burnRegions: {},
+  factorExposures: {},
+  gestationalWeeks: "",
+  gestationalDays: "",
+  postnatalDays: "",
+  birthWeightGrams: "",
+  careSetting: "openCot",
+  relativeHumidity: "",
+  airTemperature: "",
+  locale: "en-US"
+};
+
+/**
+ * Completes a partial or older saved form; factors the engine no longer knows are dropped, and
+ * getFormMigrationNotice says when that changes the result.
+ */
+export const normalizeFormValues = (values: Partial<IWLFormValues>): IWLFormValues => ({
+  ...DEFAULT_FORM_VALUES,
+  ...values,
+  factors: (Object.keys(NO_FACTORS) as FactorKey[]).reduce(
+    (factors, key) => ({ ...factors, [key]: values.factors?.[key] === true }),
+    NO_FACTORS
+  ),
+  factorExposures: PERCENT_FACTOR_KEYS.reduce((exposures, key) => {
+    const exposure = values.factorExposures?.[key];
+    return exposure && EXPOSURE_MODES.includes(exposure.mode)
+      ? { ...exposures, [key]: { ...DEFAULT_FACTOR_EXPOSURE, ...exposure } }
+      : exposures;
+  }, {})
+});
+
+/**
+ * What an older saved form loses on the way through normalizeFormValues, or null. The Low Humidity checkbox
+ * was replaced by the humidity model, and a tick gives no relative humidity to carry over.
+ */
+export const getFormMigrationNotice = (values: Partial<IWLFormValues>): EngineMessage | null =>
+  (values.factors as Partial<Record<string, boolean>> | undefined)?.lowHumidity === true
+    ? engineMessage(
+      "LOW_HUMIDITY_REPLACED",
+      "This calculation was saved with the Low Humidity factor, which the humidity model has replaced; enter the relative humidity, or no humidity adjustment is applied"
+    )
+    : null;
+
+const orNaN = (parsed: ParsedNumber) => parsed.value ?? NaN;
+const orUndefined = (parsed: ParsedNumber) => parsed.value ?? undefined;
+
+/** Undefined when both age fields are blank. */
+export const getAgeInMonths = (ageYears: string, ageMonthsOnly: string, locale?: string) =>
+  ageYears.trim() === "" && ageMonthsOnly.trim() === ""
+    ? undefined
+    : ((parseLocaleInteger(ageYears, locale).value ?? 0) * 12) + (parseLocaleInteger(ageMonthsOnly, locale).value ?? 0);
+
+/** Parses every field, converts measurements to kg / cm / °C and records the first parsing error. */
+export const parseIWLForm = (form: IWLFormValues): ParsedIWLForm => {
+  const { locale } = form;
+  const parsed: ParsedNumber[] = [];
+  const track = (value: ParsedNumber) => {
+    parsed.push(value);
+    return value;
+  };
+  const conversions: FormConversion[] = [];
+
+  const weight = track(parseLocaleNumber(form.weight, locale, "Weight"));
+  const ounces = track(form.weightUnit === "lb" ? parseLocaleNumber(form.weightOunces, locale, "Weight (oz)") : { value: null, error: null });
+  const weightKg = weight.value === null ? NaN : toKilograms(weight.value, form.weightUnit, ounces.value ?? 0);
+  if (weight.value !== null && form.weightUnit !== "kg") {
+    conversions.push({
+      label: "Weight",
+      entered: form.weightUnit === "lb" ? `${weight.value} lb ${ounces.value ?? 0} oz` : `${weight.value} g`,
+      converted: `${weightKg.toFixed(3)} kg`
+    });
+  }
+
+  const height = track(parseLocaleNumber(form.height, locale, "Height"));
+  const heightCm = height.value === null ? NaN : toCentimetres(height.value, form.heightUnit);
+  if (height.value !== null && form.heightUnit !== "cm") {
+    conversions.push({ label: "Height", entered: `${height.value} in`, converted: `${heightCm.toFixed(1)} cm` });
+  }
+
+  const temperature = track(parseLocaleNumber(form.temperature, locale, "Temperature"));
+  const temperatureC = temperature.value === null ? undefined : toCelsius(temperature.value, form.temperatureUnit);
+  if (temperatureC !== undefined && form.temperatureUnit !== "C") {
+    conversions.push({
+      label: "Temperature",
+      entered: `${temperature.value} ${TEMPERATURE_UNIT_LABELS[form.temperatureUnit]}`,
+      converted: `${temperatureC.toFixed(1)} °C`
+    });
+  }
+
+  const respiratoryRate = track(parseLocaleNumber(form.respiratoryRate, locale, "Respiratory rate"));
+  const ageYears = track(parseLocaleInteger(form.ageYears, locale, "Age (years)"));
+  const ageMonthsOnly = track(parseLocaleInteger(form.ageMonthsOnly, locale, "Age (months)"));
+  // Left undefined when both age fields are blank so growth checks can tell "not entered" from newborn.
+  const ageMonths = ageYears.value === null && ageMonthsOnly.value === null
+    ? undefined
+    : ((ageYears.value ?? 0) * 12) + (ageMonthsOnly.value ?? 0);
+
+  const relativeHumidity = track(parseLocaleNumber(form.relativeHumidity, locale, "Relative humidity"));
+  const airTemperature = track(parseLocaleNumber(form.airTemperature, locale, "Air temperature"));
+  const airTemperatureC = airTemperature.value === null ? undefined : toCelsius(airTemperature.value, form.temperatureUnit);
+  if (airTemperatureC !== undefined && form.temperatureUnit !== "C") {
+    conversions.push({
+      label: "Air temperature",
+      entered: `${airTemperature.value} ${TEMPERATURE_UNIT_LABELS[form.temperatureUnit]}`,
+      converted: `${airTemperatureC.toFixed(1)} °C`
+    });
+  }
+
+  let neonatal: NeonatalInput | undefined;
+  if (form.gestationalWeeks.trim() !== "") {
+    const birthWeight = track(parseLocaleNumber(form.birthWeightGrams, locale, "Birth weight"));
+    neonatal = {
+      gestationalAgeWeeks: orNaN(track(parseLocaleInteger(form.gestationalWeeks, locale, "Gestational age (weeks)"))),
+      gestationalAgeDays: track(parseLocaleInteger(form.gestationalDays, locale, "Gestational age (days)")).value ?? 0,
+      ...resolvePostnatalAge(track(parseLocaleInteger(form.postnatalDays, locale, "Postnatal age")).value, ageMonths),
+      birthWeightKg: birthWeight.value === null ? undefined : birthWeight.value / 1000
+    };
+  }
+
+  let burns: BurnAssessmentInput | undefined;
+  if (form.factors.burns) {
+    burns = {};
+    for (const region of LUND_BROWDER_REGIONS) {
+      const entry = form.burnRegions[region.id];
+      if (!entry) continue;
+      burns[region.id] = {
+        partialThickness: track(parseLocaleNumber(entry.partialThickness, locale, `${region.label} (partial)`)).value ?? 0,
+        fullThickness: track(parseLocaleNumber(entry.fullThickness, locale, `${region.label} (full)`)).value ?? 0
+      };
+    }
+  }
+
+  const exposures: FactorExposures = {};
+  for (const key of PERCENT_FACTOR_KEYS) {
+    const entry = form.factorExposures[key];
+    if (!form.factors[key] || !entry || entry.mode === "fullDay") continue;
+    const label = FACTOR_LABELS[key];
+    exposures[key] = entry.mode === "duration"
+      ? { mode: "duration", hours: orNaN(track(parseLocaleNumber(entry.hours, locale, `${label} exposure (hours)`))) }
+      : {
+        mode: "window",
+        start: orNaN(track(parseClockTime(entry.start, `${label} start`))),
+        end: orNaN(track(parseClockTime(entry.end, `${label} stop`)))
+      };
+  }
+
+  return {
+    input: {
+      weightKg,
+      heightCm,
+      temperatureC,
+      respiratoryRate: orUndefined(respiratoryRate),
+      ageMonths,
+      sex: form.sex || undefined,
+      factors: form.factors,
+      bsaMethod: form.bsaMethod,
+      burns,
+      neonatal,
+      exposures,
+      environment: {
+        careSetting: form.careSetting,
+        relativeHumidity: orUndefined(relativeHumidity),
+        airTemperatureC
+      }
+    },
+    error: parsed.find(value => value.error !== null)?.error ?? null,
+    conversions
+  };
+};
+
+export const formToIWLInput = (form: IWLFormValues): IWLInput => parseIWLForm(form).input;
+
+/** Parsing errors first, then the engine's own range checks. */
+export const validateIWLForm = (form: IWLFormValues): EngineMessage | null => {
+  const { input, error } = parseIWLForm(form);
+  return error ?? validateIWLInput(input);
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { checkGoldenVectors, GOLDEN_VECTORS } from "./goldenVectors";
+
+describe("golden vectors", () => {
+  it("match the engine", () => {
+    expect(checkGoldenVectors()).toEqual([]);
+  });
+
+  it("report a mismatch with the field and both values", () => {
+    const [vector] = GOLDEN_VECTORS;
+    const failures = checkGoldenVectors([{ ...vector, expected: { ...vector.expected, totalIWL_low: "0.0" } }]);
+    expect(failures).toEqual([{ name: vector.name, field: "totalIWL_low", expected: "0.0", actual: "88.2" }]);
+  });
+});
@@ -0,0 +1,184 @@
+import { NO_FACTORS } from "./factors";
+import { calculateIWL } from "./iwl";
+import { DEFAULT_FORM_VALUES, formToIWLInput, IWLFormValues } from "./form";
+
+export interface GoldenVector {
+  name: string;
+  // "PIWL-V3" vectors were produced by running the legacy implementation in PIWL-V3.txt. Burns and low
+  // humidity are not parity cases: the legacy flat 50% burns factor was replaced by the Lund–Browder
+  // assessment and the flat 25% low-humidity factor by the environment model.
+  source: "PIWL-V3" | "engine";
+  form: IWLFormValues;
+  expected: {
+    // null when BSA could not be computed (neonatal table without a length measurement).
+    bsa: number | null;
+    rrAdjustment: number;
+    feverMultiplier: number;
+    totalIWL_low: string;
+    totalIWL_high: string;
+    hourly_low: string;
+    hourly_high: string;
+  };
+}
+
+export interface GoldenVectorFailure {
+  name: string;
+  field: keyof GoldenVector["expected"];
+  expected: number | string | null;
+  actual: number | string | null;
+}
+
+const form = (values: Partial<IWLFormValues>): IWLFormValues => ({ ...DEFAULT_FORM_VALUES, ...values });
+
+export const GOLDEN_VECTORS: GoldenVector[] = [
+  {
+    name: "term newborn, no adjustments",
+    source: "PIWL-V3",
+    form: form({ weight: "3.5", height: "50" }),
+    expected: { bsa: 0.2205, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "88.2", totalIWL_high: "110.2", hourly_low: "3.7", hourly_high: "4.6" }
+  },
+  {
+    name: "newborn under phototherapy and radiant warmer",
+    source: "PIWL-V3",
+    form: form({
+      weight: "3.2", height: "49", temperature: "37.0", respiratoryRate: "55", ageYears: "0", ageMonthsOnly: "0",
+      factors: { ...NO_FACTORS, phototherapy: true, radiantWarmer: true }
+    }),
+    expected: { bsa: 0.2087, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "125.2", totalIWL_high: "156.5", hourly_low: "5.2", hourly_high: "6.5" }
+  },
+  {
+    name: "febrile infant with tachypnoea",
+    source: "PIWL-V3",
+    form: form({ weight: "7.5", height: "66", temperature: "39.2", respiratoryRate: "60", ageYears: "0", ageMonthsOnly: "7" }),
+    expected: { bsa: 0.3708, rrAdjustment: 375, feverMultiplier: 1.286, totalIWL_low: "565.7", totalIWL_high: "613.4", hourly_low: "23.6", hourly_high: "25.6" }
+  },
+  {
+    name: "toddler, phototherapy + warmer",
+    source: "PIWL-V3",
+    form: form({
+      weight: "12", height: "86", temperature: "38.5", respiratoryRate: "40", ageYears: "2", ageMonthsOnly: "3",
+      factors: { ...NO_FACTORS, phototherapy: true, radiantWarmer: true }
+    }),
+    expected: { bsa: 0.5354, rrAdjustment: 240, feverMultiplier: 1.195, totalIWL_low: "603.0", totalIWL_high: "693.8", hourly_low: "25.1", hourly_high: "28.9" }
+  },
+  {
+    name: "school-age child with 12.5% TBSA burns (Lund–Browder)",
+    source: "engine",
+    form: form({
+      weight: "25", height: "125", temperature: "38", respiratoryRate: "30", ageYears: "8",
+      factors: { ...NO_FACTORS, burns: true },
+      burnRegions: {
+        anteriorTrunk: { partialThickness: "50", fullThickness: "" },
+        rightUpperArm: { partialThickness: "100", fullThickness: "" },
+        leftThigh: { partialThickness: "", fullThickness: "25" }
+      }
+    }),
+    expected: { bsa: 0.9317, rrAdjustment: 250, feverMultiplier: 1.13, totalIWL_low: "950.6", totalIWL_high: "1055.9", hourly_low: "39.6", hourly_high: "44.0" }
+  },
+  {
+    name: "adolescent, sub-febrile",
+    source: "PIWL-V3",
+    form: form({ weight: "50", height: "160", temperature: "36.8", respiratoryRate: "20", ageYears: "14" }),
+    expected: { bsa: 1.4907, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "596.3", totalIWL_high: "745.4", hourly_low: "24.8", hourly_high: "31.1" }
+  },
+  {
+    name: "age left blank uses newborn RR band",
+    source: "PIWL-V3",
+    form: form({ weight: "30", height: "135", respiratoryRate: "45" }),
+    expected: { bsa: 1.0607, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "424.3", totalIWL_high: "530.3", hourly_low: "17.7", hourly_high: "22.1" }
+  },
+  {
+    name: "RR exactly at the 3+ years upper limit adds nothing",
+    source: "engine",
+    form: form({ weight: "14", height: "95", respiratoryRate: "25", ageYears: "3" }),
+    expected: { bsa: 0.6078, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "243.1", totalIWL_high: "303.9", hourly_low: "10.1", hourly_high: "12.7" }
+  },
+  {
+    name: "2-month-old with 1 °C fever and RR above 1–3 month band",
+    source: "engine",
+    form: form({ weight: "5", height: "58", temperature: "38", respiratoryRate: "55", ageMonthsOnly: "2" }),
+    expected: { bsa: 0.2838, rrAdjustment: 50, feverMultiplier: 1.13, totalIWL_low: "178.3", totalIWL_high: "210.4", hourly_low: "7.4", hourly_high: "8.8" }
+  },
+  {
+    name: "toddler, Haycock BSA",
+    source: "engine",
+    form: form({ weight: "12", height: "86", ageYears: "2", ageMonthsOnly: "3", bsaMethod: "haycock" }),
+    expected: { bsa: 0.5398, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "215.9", totalIWL_high: "269.9", hourly_low: "9.0", hourly_high: "11.2" }
+  },
+  {
+    name: "toddler, height unknown, weight-only (Costeff) BSA",
+    source: "engine",
+    form: form({ weight: "12", ageYears: "2", ageMonthsOnly: "3", bsaMethod: "weightOnly" }),
+    expected: { bsa: 0.5392, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "215.7", totalIWL_high: "269.6", hourly_low: "9.0", hourly_high: "11.2" }
+  },
+  {
+    name: "infant entered in lb + oz, inches and °F with a decimal comma",
+    source: "engine",
+    form: form({
+      weight: "16", weightOunces: "8", weightUnit: "lb", height: "30", heightUnit: "in",
+      temperature: "101,3", temperatureUnit: "F", ageMonthsOnly: "9"
+    }),
+    expected: { bsa: 0.398, rrAdjustment: 0, feverMultiplier: 1.195, totalIWL_low: "190.3", totalIWL_high: "237.8", hourly_low: "7.9", hourly_high: "9.9" }
+  },
+  {
+    name: "25+3 week infant on day 5, interpolated between the day-3 and day-7 rows",
+    source: "engine",
+    form: form({ weight: "0.72", gestationalWeeks: "25", gestationalDays: "3", postnatalDays: "5", birthWeightGrams: "750" }),
+    expected: { bsa: null, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "63.8", totalIWL_high: "82.5", hourly_low: "2.7", hourly_high: "3.4" }
+  },
+  {
+    name: "29 week infant on day 2 under phototherapy",
+    source: "engine",
+    form: form({
+      weight: "1.15", height: "38", gestationalWeeks: "29", postnatalDays: "2", birthWeightGrams: "1200",
+      factors: { ...NO_FACTORS, phototherapy: true }
+    }),
+    expected: { bsa: 0.1102, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "68.4", totalIWL_high: "86.4", hourly_low: "2.9", hourly_high: "3.6" }
+  },
+  {
+    name: "preterm infant past the neonatal period falls back to BSA",
+    source: "engine",
+    form: form({ weight: "2.9", height: "48", gestationalWeeks: "36", gestationalDays: "6", postnatalDays: "35" }),
+    expected: { bsa: 0.1966, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "78.7", totalIWL_high: "98.3", hourly_low: "3.3", hourly_high: "4.1" }
+  },
+  {
+    name: "29 week infant on day 2 in a humidified incubator (80% RH, 34 °C)",
+    source: "engine",
+    form: form({
+      weight: "1.15", height: "38", gestationalWeeks: "29", postnatalDays: "2", birthWeightGrams: "1200",
+      careSetting: "incubator", relativeHumidity: "80", airTemperature: "34"
+    }),
+    expected: { bsa: 0.1102, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "38.4", totalIWL_high: "48.6", hourly_low: "1.6", hourly_high: "2.0" }
+  },
+  {
+    name: "infant in an open cot at 20% room humidity",
+    source: "engine",
+    form: form({ weight: "7.5", height: "66", ageMonthsOnly: "7", relativeHumidity: "20" }),
+    expected: { bsa: 0.3708, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "168.3", totalIWL_high: "210.4", hourly_low: "7.0", hourly_high: "8.8" }
+  },
+  {
+    // Skin 0.67 + 0.30 warmer, halved by the wrap; ventilation removes the 0.33 respiratory share: 0.485 × base.
+    name: "29 week infant on day 2, ventilated under a radiant warmer with a plastic wrap",
+    source: "engine",
+    form: form({
+      weight: "1.15", height: "38", gestationalWeeks: "29", postnatalDays: "2", birthWeightGrams: "1200",
+      factors: { ...NO_FACTORS, radiantWarmer: true, plasticWrap: true, ventilation: true }
+    }),
+    expected: { bsa: 0.1102, rrAdjustment: 0, feverMultiplier: 1, totalIWL_low: "27.6", totalIWL_high: "34.9", hourly_low: "1.2", hourly_high: "1.5" }
+  }
+];
+
+// Intermediate values are compared at 4 decimal places; totals are the rounded strings shown to users.
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/** Runs every golden vector through the engine and returns the mismatches (empty when the engine agrees). */
+export const checkGoldenVectors = (vectors: GoldenVector[] = GOLDEN_VECTORS): GoldenVectorFailure[] =>
+  vectors.flatMap(vector => {
+    const result = calculateIWL(formToIWLInput(vector.form));
+    return (Object.keys(vector.expected) as (keyof GoldenVector["expected"])[]).flatMap(field => {
+      const expected = vector.expected[field];
+      const raw = result[field];
+      const actual = typeof raw === "number" ? round4(raw) : raw;
+      return actual === expected ? [] : [{ name: vector.name, field, expected, actual }];
+    });
+  });
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { assessGrowth, getLMS, lmsZScore, WHO_CDC_CUTOFF_MONTHS, zScoreToPercentile } from "./growth";
+import { CDC_WEIGHT_FOR_AGE, Sex, WHO_LENGTH_FOR_AGE, WHO_WEIGHT_FOR_AGE } from "./growthReference";
+
+const zAt = (table: typeof WHO_WEIGHT_FOR_AGE, sex: Sex, x: number, value: number) => {
+  const lms = getLMS(table, sex, x);
+  if (!lms) throw new Error(`No LMS row at ${x}`);
+  return lmsZScore(value, lms);
+};
+
+describe("LMS z-scores", () => {
+  // WHO Child Growth Standards at 12 months, published to 0.1 kg / 0.1 cm.
+  it("put the WHO ±2 SD values at about ±2", () => {
+    expect(Math.abs(zAt(WHO_WEIGHT_FOR_AGE, "male", 12, 7.7) + 2)).toBeLessThan(0.1);
+    expect(Math.abs(zAt(WHO_WEIGHT_FOR_AGE, "male", 12, 12.0) - 2)).toBeLessThan(0.1);
+    expect(Math.abs(zAt(WHO_WEIGHT_FOR_AGE, "female", 12, 7.0) + 2)).toBeLessThan(0.1);
+    expect(Math.abs(zAt(WHO_LENGTH_FOR_AGE, "male", 12, 71.0) + 2)).toBeLessThan(0.01);
+    expect(Math.abs(zAt(WHO_LENGTH_FOR_AGE, "male", 12, 80.5) - 2)).toBeLessThan(0.01);
+  });
+
+  it("put the WHO 3rd and 97th percentile values at those percentiles", () => {
+    expect(zScoreToPercentile(zAt(WHO_WEIGHT_FOR_AGE, "male", 12, 7.8))).toBeCloseTo(3, 0);
+    expect(zScoreToPercentile(zAt(WHO_WEIGHT_FOR_AGE, "male", 12, 11.8))).toBeCloseTo(97, 0);
+  });
+
+  it("use log(value / M) / S when L is 0 and interpolate between rows", () => {
+    expect(lmsZScore(Math.E * 10, [0, 0, 10, 0.5])).toBeCloseTo(2, 9);
+    expect(getLMS(WHO_LENGTH_FOR_AGE, "female", 5)?.[2]).toBeCloseTo((62.0899 + 65.7311) / 2, 9);
+    expect(getLMS(WHO_LENGTH_FOR_AGE, "female", 25)).toBeNull();
+  });
+});
+
+describe("zScoreToPercentile", () => {
+  it("follows the standard normal distribution", () => {
+    expect(zScoreToPercentile(0)).toBeCloseTo(50, 5);
+    expect(zScoreToPercentile(1.96)).toBeCloseTo(97.5, 2);
+    expect(zScoreToPercentile(-1.645)).toBeCloseTo(5, 2);
+    expect(zScoreToPercentile(-3)).toBeCloseTo(0.135, 3);
+  });
+});
+
+describe("assessGrowth", () => {
+  it("uses WHO before 24 months and CDC from 24 months, and WHO weight-for-length throughout", () => {
+    const before = assessGrowth({ weightKg: 12.1, heightCm: 87.8, ageMonths: WHO_CDC_CUTOFF_MONTHS - 1, sex: "male" });
+    const after = assessGrowth({ weightKg: 12.7, heightCm: 88, ageMonths: WHO_CDC_CUTOFF_MONTHS, sex: "male" });
+    expect(before.zScores.map(score => score.reference)).toEqual(["WHO", "WHO", "WHO"]);
+    expect(after.zScores.map(score => score.reference)).toEqual(["CDC", "CDC", "WHO"]);
+    expect(after.zScores[0].median).toBe(CDC_WEIGHT_FOR_AGE.rows.male[0][2]);
+    expect(after.zScores[0].percentile).toBeCloseTo(zScoreToPercentile(after.zScores[0].z), 9);
+  });
+
+  it("uses the less extreme sex when sex is not entered", () => {
+    const [score] = assessGrowth({ weightKg: 9.3, heightCm: NaN, ageMonths: 12 }).zScores;
+    expect(score.sex).toBeNull();
+    expect(Math.abs(score.z)).toBe(Math.min(
+      Math.abs(zAt(WHO_WEIGHT_FOR_AGE, "male", 12, 9.3)),
+      Math.abs(zAt(WHO_WEIGHT_FOR_AGE, "female", 12, 9.3))
+    ));
+  });
+
+  it("warns beyond ±3 and blocks values WHO flags as implausible", () => {
+    const outlier = assessGrowth({ weightKg: 13.5, heightCm: 75, ageMonths: 12, sex: "male" }).alerts;
+    expect(outlier.map(alert => [alert.code, alert.severity, alert.indicator])).toEqual([
+      ["GROWTH_OUTLIER", "warning", "weightForAge"],
+      ["GROWTH_OUTLIER", "warning", "weightForLength"]
+    ]);
+    expect(outlier[0].params).toMatchObject({ z: 3.1, reference: "WHO", limit: 3 });
+
+    const implausible = assessGrowth({ weightKg: 20, heightCm: 75, ageMonths: 12, sex: "male" }).alerts;
+    expect(implausible.every(alert => alert.code === "GROWTH_IMPLAUSIBLE" && alert.severity === "block")).toBe(true);
+  });
+
+  it("blocks values outside the absolute limits and skips z-scores for preterm neonates", () => {
+    expect(assessGrowth({ weightKg: 350, heightCm: 75, ageMonths: 12 }).alerts[0]).toMatchObject({ code: "WEIGHT_LIMITS", severity: "block" });
+    expect(assessGrowth({ weightKg: 3, heightCm: 15 }).alerts[0].code).toBe("HEIGHT_LIMITS");
+    expect(assessGrowth({ weightKg: 1.1, heightCm: 38, ageMonths: 0, preterm: true })).toEqual({ zScores: [], alerts: [] });
+  });
+});
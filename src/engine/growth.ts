@@ -0,0 +1,181 @@
+import {
+  CDC_STATURE_FOR_AGE,
+  CDC_WEIGHT_FOR_AGE,
+  LMSRow,
+  LMSTable,
+  Sex,
+  WHO_LENGTH_FOR_AGE,
+  WHO_WEIGHT_FOR_AGE,
+  WHO_WEIGHT_FOR_LENGTH
+} from "./growthReference";
+import { EngineMessage, engineMessage } from "./messages";
+
+export type GrowthIndicator = "weightForAge" | "lengthForAge" | "weightForLength";
+
+export interface GrowthZScore {
+  indicator: GrowthIndicator;
+  label: string;
+  reference: LMSTable["reference"];
+  value: number;
+  median: number;
+  z: number;
+  // 0–100, from z on the standard normal distribution.
+  percentile: number;
+  // null when sex was not entered and the less extreme of the two sexes was used.
+  sex: Sex | null;
+}
+
+export interface GrowthAlert extends EngineMessage {
+  // "block" stops the calculation; "warning" is shown alongside the result.
+  severity: "warning" | "block";
+  indicator: GrowthIndicator | null;
+}
+
+export interface GrowthAssessment {
+  zScores: GrowthZScore[];
+  alerts: GrowthAlert[];
+}
+
+export interface GrowthInput {
+  weightKg: number;
+  heightCm: number;
+  ageMonths?: number;
+  sex?: Sex;
+  // WHO and CDC references describe term infants; preterm neonates only get the absolute limits.
+  preterm?: boolean;
+}
+
+export const WHO_CDC_CUTOFF_MONTHS = 24;
+export const OUTLIER_Z = 3;
+
+// WHO biologically implausible value flags.
+export const IMPLAUSIBLE_Z: Record<GrowthIndicator, { low: number; high: number }> = {
+  weightForAge: { low: -6, high: 5 },
+  lengthForAge: { low: -6, high: 6 },
+  weightForLength: { low: -5, high: 5 }
+};
+
+export const WEIGHT_LIMITS_KG = { min: 0.3, max: 250 };
+export const HEIGHT_LIMITS_CM = { min: 20, max: 250 };
+
+const INDICATOR_LABELS: Record<GrowthIndicator, string> = {
+  weightForAge: "Weight-for-age",
+  lengthForAge: "Length/height-for-age",
+  weightForLength: "Weight-for-length"
+};
+
+/** L, M and S at x, interpolated between table rows; null outside the table. */
+export const getLMS = (table: LMSTable, sex: Sex, x: number): LMSRow | null => {
+  const rows = table.rows[sex];
+  if (x < rows[0][0] || x > rows[rows.length - 1][0]) return null;
+  const upper = rows.findIndex(row => row[0] >= x);
+  if (rows[upper][0] === x || upper === 0) return rows[upper];
+  const [x0, l0, m0, s0] = rows[upper - 1];
+  const [x1, l1, m1, s1] = rows[upper];
+  const t = (x - x0) / (x1 - x0);
+  return [x, l0 + (l1 - l0) * t, m0 + (m1 - m0) * t, s0 + (s1 - s0) * t];
+};
+
+export const lmsZScore = (value: number, [, l, m, s]: LMSRow) =>
+  l === 0 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+
+/** Percentile of a z-score on the standard normal distribution (Abramowitz and Stegun 26.2.17, error < 10⁻⁵ %). */
+export const zScoreToPercentile = (z: number) => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const polynomial = t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI) * polynomial;
+  return 100 * (z >= 0 ? 1 - tail : tail);
+};
+
+const signed = (z: number) => `${z >= 0 ? "+" : ""}${z.toFixed(1)}`;
+
+const zScore = (indicator: GrowthIndicator, table: LMSTable, x: number, value: number, sex?: Sex): GrowthZScore | null => {
+  const candidates = (sex ? [sex] : (["male", "female"] as Sex[])).flatMap(candidate => {
+    const lms = getLMS(table, candidate, x);
+    return lms ? [{ z: lmsZScore(value, lms), median: lms[2] }] : [];
+  });
+  if (candidates.length === 0) return null;
+  const best = candidates.reduce((a, b) => Math.abs(b.z) < Math.abs(a.z) ? b : a);
+  return {
+    indicator,
+    label: INDICATOR_LABELS[indicator],
+    reference: table.reference,
+    value,
+    median: best.median,
+    z: best.z,
+    percentile: zScoreToPercentile(best.z),
+    sex: sex ?? null
+  };
+};
+
+/**
+ * Screens weight and length against absolute limits and WHO/CDC z-scores. |z| > 3 gives a warning;
+ * values beyond the WHO implausibility flags, or outside the absolute limits, block the calculation.
+ */
+export const assessGrowth = ({ weightKg, heightCm, ageMonths, sex, preterm = false }: GrowthInput): GrowthAssessment => {
+  const alerts: GrowthAlert[] = [];
+  const hasWeight = !isNaN(weightKg) && weightKg > 0;
+  const hasHeight = !isNaN(heightCm) && heightCm > 0;
+
+  if (hasWeight && (weightKg < WEIGHT_LIMITS_KG.min || weightKg > WEIGHT_LIMITS_KG.max)) {
+    alerts.push({
+      severity: "block",
+      indicator: null,
+      ...engineMessage(
+        "WEIGHT_LIMITS",
+        `Weight ${weightKg} kg is outside the possible range (${WEIGHT_LIMITS_KG.min}–${WEIGHT_LIMITS_KG.max} kg). Check the value and units.`,
+        { value: weightKg, ...WEIGHT_LIMITS_KG }
+      )
+    });
+  }
+  if (hasHeight && (heightCm < HEIGHT_LIMITS_CM.min || heightCm > HEIGHT_LIMITS_CM.max)) {
+    alerts.push({
+      severity: "block",
+      indicator: null,
+      ...engineMessage(
+        "HEIGHT_LIMITS",
+        `Height ${heightCm} cm is outside the possible range (${HEIGHT_LIMITS_CM.min}–${HEIGHT_LIMITS_CM.max} cm). Check the value and units.`,
+        { value: heightCm, ...HEIGHT_LIMITS_CM }
+      )
+    });
+  }
+  if (preterm || alerts.length > 0) return { zScores: [], alerts };
+
+  const zScores: GrowthZScore[] = [];
+  if (ageMonths !== undefined) {
+    const who = ageMonths < WHO_CDC_CUTOFF_MONTHS;
+    if (hasWeight) {
+      const result = zScore("weightForAge", who ? WHO_WEIGHT_FOR_AGE : CDC_WEIGHT_FOR_AGE, ageMonths, weightKg, sex);
+      if (result) zScores.push(result);
+    }
+    if (hasHeight) {
+      const result = zScore("lengthForAge", who ? WHO_LENGTH_FOR_AGE : CDC_STATURE_FOR_AGE, ageMonths, heightCm, sex);
+      if (result) zScores.push(result);
+    }
+  }
+  if (hasWeight && hasHeight) {
+    const result = zScore("weightForLength", WHO_WEIGHT_FOR_LENGTH, heightCm, weightKg, sex);
+    if (result) zScores.push(result);
+  }
+
+  for (const score of zScores) {
+    const limits = IMPLAUSIBLE_Z[score.indicator];
+    const description = `${score.label} z = ${signed(score.z)} (${score.reference}${score.sex ? "" : ", sex not entered"})`;
+    const params = { indicator: score.indicator, z: Number(score.z.toFixed(1)), reference: score.reference, sexEntered: score.sex !== null };
+    if (score.z < limits.low || score.z > limits.high) {
+      alerts.push({
+        severity: "block",
+        indicator: score.indicator,
+        ...engineMessage("GROWTH_IMPLAUSIBLE", `${description} is biologically implausible. Check the weight, height, age and units.`, params)
+      });
+    } else if (Math.abs(score.z) > OUTLIER_Z) {
+      alerts.push({
+        severity: "warning",
+        indicator: score.indicator,
+        ...engineMessage("GROWTH_OUTLIER", `${description} is outside ±${OUTLIER_Z}. Please confirm the measurement.`, { ...params, limit: OUTLIER_Z })
+      });
+    }
+  }
+
+  return { zScores, alerts };
+};
@@ -0,0 +1,108 @@
+/**
+ * Abridged LMS growth references: WHO Child Growth Standards (0–24 months) and CDC 2000 growth charts
+ * (2–20 years), plus WHO weight-for-length/height. Rows are [x, L, M, S] where x is age in months or
+ * length in cm; values between rows are interpolated linearly. The abridged tables are intended for
+ * plausibility screening, not for plotting growth.
+ */
+
+export type Sex = "male" | "female";
+
+export type LMSRow = [x: number, l: number, m: number, s: number];
+
+export interface LMSTable {
+  reference: "WHO" | "CDC";
+  rows: Record<Sex, LMSRow[]>;
+}
+
+export const WHO_WEIGHT_FOR_AGE: LMSTable = {
+  reference: "WHO",
+  rows: {
+    male: [
+      [0, 0.3487, 3.3464, 0.14602], [1, 0.2297, 4.4709, 0.13395], [2, 0.197, 5.5675, 0.12385],
+      [3, 0.1738, 6.3762, 0.11727], [4, 0.1553, 7.0023, 0.11316], [6, 0.1257, 7.934, 0.10958],
+      [9, 0.0917, 8.9014, 0.10881], [12, 0.0644, 9.6479, 0.10925], [15, 0.0409, 10.3108, 0.11001],
+      [18, 0.0211, 10.9385, 0.1108], [21, 0.0033, 11.5486, 0.11171], [24, -0.0137, 12.1515, 0.11268]
+    ],
+    female: [
+      [0, 0.3809, 3.2322, 0.14171], [1, 0.1714, 4.1873, 0.13724], [2, 0.0962, 5.1282, 0.13],
+      [3, 0.0402, 5.8458, 0.12619], [4, -0.005, 6.4237, 0.12402], [6, -0.0756, 7.297, 0.12204],
+      [9, -0.1543, 8.2254, 0.12157], [12, -0.2024, 8.9481, 0.12268], [15, -0.236, 9.6008, 0.12444],
+      [18, -0.2637, 10.2315, 0.12632], [21, -0.2873, 10.8534, 0.12819], [24, -0.308, 11.4775, 0.12997]
+    ]
+  }
+};
+
+export const WHO_LENGTH_FOR_AGE: LMSTable = {
+  reference: "WHO",
+  rows: {
+    male: [
+      [0, 1, 49.8842, 0.03795], [1, 1, 54.7244, 0.03557], [2, 1, 58.4249, 0.03424], [3, 1, 61.4292, 0.03328],
+      [4, 1, 63.886, 0.03257], [6, 1, 67.6236, 0.03165], [9, 1, 72.0, 0.0314], [12, 1, 75.7488, 0.03137],
+      [15, 1, 79.1458, 0.03204], [18, 1, 82.2587, 0.03279], [21, 1, 85.1348, 0.03354], [24, 1, 87.8161, 0.03419]
+    ],
+    female: [
+      [0, 1, 49.1477, 0.0379], [1, 1, 53.6872, 0.0364], [2, 1, 57.0673, 0.03568], [3, 1, 59.8029, 0.0352],
+      [4, 1, 62.0899, 0.03486], [6, 1, 65.7311, 0.03448], [9, 1, 70.1435, 0.03444], [12, 1, 74.015, 0.03479],
+      [15, 1, 77.5099, 0.0355], [18, 1, 80.7079, 0.03637], [21, 1, 83.6654, 0.03724], [24, 1, 86.4153, 0.03803]
+    ]
+  }
+};
+
+export const CDC_WEIGHT_FOR_AGE: LMSTable = {
+  reference: "CDC",
+  rows: {
+    male: [
+      [24, -0.216, 12.74, 0.108], [36, -0.55, 14.34, 0.107], [48, -0.85, 16.3, 0.112], [60, -1.05, 18.4, 0.122],
+      [72, -1.15, 20.7, 0.133], [84, -1.15, 23.0, 0.146], [96, -1.05, 25.6, 0.158], [108, -0.9, 28.6, 0.168],
+      [120, -0.75, 31.9, 0.175], [132, -0.6, 35.6, 0.178], [144, -0.45, 39.9, 0.177], [156, -0.35, 45.3, 0.172],
+      [168, -0.3, 50.8, 0.164], [180, -0.3, 56.0, 0.156], [192, -0.35, 60.8, 0.15], [204, -0.45, 64.6, 0.146],
+      [216, -0.55, 67.2, 0.144], [228, -0.7, 68.9, 0.144], [240, -0.9, 70.6, 0.145]
+    ],
+    female: [
+      [24, -0.74, 12.13, 0.114], [36, -0.9, 14.0, 0.117], [48, -1.05, 15.9, 0.122], [60, -1.15, 17.9, 0.131],
+      [72, -1.2, 20.2, 0.142], [84, -1.15, 22.6, 0.154], [96, -1.05, 25.6, 0.165], [108, -0.9, 28.9, 0.174],
+      [120, -0.75, 32.5, 0.179], [132, -0.6, 36.9, 0.18], [144, -0.5, 41.5, 0.177], [156, -0.4, 45.8, 0.171],
+      [168, -0.35, 49.4, 0.165], [180, -0.35, 52.1, 0.16], [192, -0.4, 53.9, 0.157], [204, -0.5, 55.0, 0.156],
+      [216, -0.6, 56.0, 0.156], [228, -0.7, 56.7, 0.157], [240, -0.8, 57.5, 0.158]
+    ]
+  }
+};
+
+export const CDC_STATURE_FOR_AGE: LMSTable = {
+  reference: "CDC",
+  rows: {
+    male: [
+      [24, 1, 86.9, 0.04], [36, 1, 95.3, 0.041], [48, 1, 102.5, 0.041], [60, 1, 109.2, 0.042],
+      [72, 1, 115.5, 0.042], [84, 1, 121.7, 0.043], [96, 1, 127.3, 0.044], [108, 1, 132.6, 0.044],
+      [120, 1, 137.8, 0.045], [132, 1, 143.3, 0.046], [144, 1, 149.1, 0.048], [156, 1, 156.0, 0.049],
+      [168, 1, 163.2, 0.048], [180, 1, 169.0, 0.045], [192, 1, 172.9, 0.042], [204, 1, 175.2, 0.041],
+      [216, 1, 176.1, 0.04], [228, 1, 176.5, 0.04], [240, 1, 176.8, 0.04]
+    ],
+    female: [
+      [24, 1, 85.4, 0.041], [36, 1, 94.2, 0.041], [48, 1, 101.6, 0.042], [60, 1, 108.4, 0.042],
+      [72, 1, 115.0, 0.043], [84, 1, 121.1, 0.043], [96, 1, 127.0, 0.044], [108, 1, 132.5, 0.045],
+      [120, 1, 138.3, 0.046], [132, 1, 144.8, 0.046], [144, 1, 151.4, 0.045], [156, 1, 156.9, 0.042],
+      [168, 1, 160.5, 0.04], [180, 1, 162.4, 0.039], [192, 1, 163.2, 0.039], [204, 1, 163.5, 0.039],
+      [216, 1, 163.7, 0.039], [228, 1, 163.7, 0.039], [240, 1, 163.8, 0.039]
+    ]
+  }
+};
+
+// x is recumbent length (< 2 years) or standing height (≥ 2 years) in cm.
+export const WHO_WEIGHT_FOR_LENGTH: LMSTable = {
+  reference: "WHO",
+  rows: {
+    male: [
+      [45, -0.3521, 2.441, 0.0918], [50, -0.3521, 3.346, 0.0874], [55, -0.3521, 4.555, 0.0846], [60, -0.3521, 5.969, 0.0827],
+      [65, -0.3521, 7.43, 0.0812], [70, -0.3521, 8.65, 0.08], [75, -0.3521, 9.74, 0.0797], [80, -0.3521, 10.8, 0.0797],
+      [85, -0.3521, 11.9, 0.08], [90, -0.3521, 13.0, 0.0803], [95, -0.3521, 14.1, 0.0809], [100, -0.3521, 15.4, 0.0817],
+      [105, -0.3521, 16.8, 0.0834], [110, -0.3521, 18.3, 0.0853], [115, -0.3521, 20.0, 0.0874], [120, -0.3521, 21.9, 0.0897]
+    ],
+    female: [
+      [45, -0.3833, 2.461, 0.0903], [50, -0.3833, 3.396, 0.0886], [55, -0.3833, 4.534, 0.0871], [60, -0.3833, 5.868, 0.0857],
+      [65, -0.3833, 7.15, 0.0845], [70, -0.3833, 8.35, 0.0837], [75, -0.3833, 9.4, 0.0833], [80, -0.3833, 10.45, 0.0832],
+      [85, -0.3833, 11.6, 0.0836], [90, -0.3833, 12.7, 0.0844], [95, -0.3833, 13.9, 0.0856], [100, -0.3833, 15.2, 0.0871],
+      [105, -0.3833, 16.6, 0.089], [110, -0.3833, 18.2, 0.0911], [115, -0.3833, 19.9, 0.0934], [120, -0.3833, 21.8, 0.0958]
+    ]
+  }
+};
@@ -0,0 +1,23 @@
+export * from "./iwl";
+export * from "./factors";
+export * from "./bsa";
+export * from "./neonatal";
+export * from "./burns";
+export * from "./environment";
+export * from "./exposure";
+export * from "./growthReference";
+export * from "./growth";
+export * from "./units";
+export * from "./form";
+export * from "./goldenVectors";
+export * from "./fluidPlan";
+export * from "./fluidBalance";
+export * from "./protocol";
+export * from "./report";
+export * from "./shareLink";
+export * from "./batch";
+export * from "./sensitivity";
+export * from "./warnings";
+export * from "./fhir";
+export * from "./unitBoard";
+export * from "./messages";
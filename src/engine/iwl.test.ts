@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { calculateIWL, getFeverMultiplier, getNormalRRByAge, getRRAdjustment, validateIWLInput } from "./iwl";
+import { ONE_YEAR_OLD } from "./testInputs";
+
+describe("calculateIWL", () => {
+  it("scales base IWL by BSA", () => {
+    const result = calculateIWL(ONE_YEAR_OLD);
+    expect(result.bsa).toBeCloseTo(0.4564, 4);
+    expect(result.baseIWL_low).toBeCloseTo(result.bsa as number * 400, 6);
+    expect(result.baseIWL_high).toBeCloseTo(result.bsa as number * 500, 6);
+    expect(result.totalIWL_low).toBe(result.baseIWL_low.toFixed(1));
+  });
+
+  it("adds 13% per °C above 37 °C", () => {
+    expect(getFeverMultiplier(38.5)).toBeCloseTo(1.195, 6);
+    expect(getFeverMultiplier(36.8)).toBe(1);
+    expect(getFeverMultiplier()).toBe(1);
+  });
+
+  it("adds 2 mL/kg/day for each breath above the age band", () => {
+    const band = getNormalRRByAge(12);
+    expect(band.max).toBe(30);
+    expect(getRRAdjustment(40, band, 10)).toBe(200);
+    expect(getRRAdjustment(25, band, 10)).toBe(0);
+  });
+
+  it("throws a RangeError for input that fails validation", () => {
+    expect(validateIWLInput({ ...ONE_YEAR_OLD, weightKg: 0 })?.message).toBe("Please enter a valid weight (kg)");
+    expect(() => calculateIWL({ ...ONE_YEAR_OLD, weightKg: NaN })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,493 @@
+import { BurnAssessment, BurnAssessmentInput, calculateBurnAssessment, validateBurnAssessment } from "./burns";
+import { BSA_METHOD_IDS, BSA_METHODS, BSAMethodId, DEFAULT_BSA_METHOD } from "./bsa";
+import { assessEnvironment, EnvironmentAssessment, EnvironmentInput, validateEnvironmentInput } from "./environment";
+import {
+  FACTOR_CATALOGUE,
+  FACTOR_DEFINITIONS,
+  FactorBasis,
+  FactorKey,
+  IWLFactors,
+  PERCENT_FACTOR_KEYS,
+  PercentFactorKey,
+  validateFactorSelection
+} from "./factors";
+import { FactorExposures, getExposureHours, getHourlyExposure, HOURS_PER_DAY, validateFactorExposure } from "./exposure";
+import { assessGrowth, GrowthAssessment } from "./growth";
+import { Sex } from "./growthReference";
+import { EngineMessage, engineMessage } from "./messages";
+import { DAYS_PER_MONTH, estimateNeonatalIWL, isPretermNeonate, NeonatalEstimate, NeonatalInput, validateNeonatalInput } from "./neonatal";
+import { BUILTIN_PROTOCOL, getProtocolValue, ProtocolProfile, ProtocolRRBand } from "./protocol";
+import { assessClinicalWarnings, ClinicalWarning } from "./warnings";
+
+export const ENGINE_VERSION = "1.9.0";
+
+export interface RRRange {
+  min: number;
+  max: number;
+  label: string;
+}
+
+// Signed fraction of each percentage factor's basis (see FACTOR_CATALOGUE).
+export type FactorPercentages = Record<PercentFactorKey, number>;
+
+export interface IWLInput {
+  weightKg: number;
+  heightCm: number;
+  temperatureC?: number;
+  respiratoryRate?: number;
+  // Missing age falls back to an entered postnatal age, else to 0 months as the original calculator did.
+  ageMonths?: number;
+  sex?: Sex;
+  factors: IWLFactors;
+  bsaMethod?: BSAMethodId;
+  // Required when factors.burns is set.
+  burns?: BurnAssessmentInput;
+  // Gestational details; preterm neonates are switched to the gestational-age table automatically.
+  neonatal?: NeonatalInput;
+  // Care setting and humidity; replaces the old fixed low-humidity factor.
+  environment?: EnvironmentInput;
+  // Hours each checked percentage factor runs; factors without an entry run all day.
+  exposures?: FactorExposures;
+}
+
+export type IWLMethod = "bsa" | "neonatal";
+
+/** Daily mL a checked percentage factor adds (negative when it reduces loss), after its exposure. */
+export interface FactorAdjustment {
+  key: PercentFactorKey;
+  basis: FactorBasis;
+  // The amount the factor's fraction is taken of, for a full day.
+  basis_low: number;
+  basis_high: number;
+  hours: number;
+  low: number;
+  high: number;
+}
+
+export type IWLComponentKey = "skin" | "respiratory";
+
+export type IWLComponentSource = "base" | "fever" | "respiratoryRate" | "humidity" | "factor";
+
+export interface IWLComponentPart {
+  source: IWLComponentSource;
+  // Set when source is "factor".
+  factor: FactorKey | null;
+  low: number;
+  high: number;
+}
+
+/** One route of loss; the parts of both components add up to the total. */
+export interface IWLComponent {
+  key: IWLComponentKey;
+  parts: IWLComponentPart[];
+  low: number;
+  high: number;
+}
+
+/** Loss during one clock hour, in mL; hour 0 is 00:00–01:00. */
+export interface HourlyIWL {
+  hour: number;
+  low: number;
+  high: number;
+}
+
+export interface CalculationResult {
+  engineVersion: string;
+  method: IWLMethod;
+  totalIWL_low: string;
+  totalIWL_high: string;
+  // 24-hour average: the daily total ÷ 24.
+  hourly_low: string;
+  hourly_high: string;
+  // The clock hour of the profile with the highest loss; the same as the average when no factor is timed.
+  peakHourly_low: string;
+  peakHourly_high: string;
+  rrAdjustment: number;
+  feverAdjustment: number;
+  temperature: number | null;
+  respiratoryRate: number | null;
+  weight: number;
+  height: number | null;
+  factors: IWLFactors;
+  baseIWL_low: number;
+  baseIWL_high: number;
+  factorPercentages: FactorPercentages;
+  // Checked percentage factors, in catalogue order.
+  factorAdjustments: FactorAdjustment[];
+  // Exposures of the checked percentage factors; the others run all day.
+  exposures: FactorExposures;
+  bsa: number | null;
+  bsaMethod: BSAMethodId;
+  neonatal: NeonatalEstimate | null;
+  burns: BurnAssessment | null;
+  burnAdjustment: number;
+  environment: EnvironmentAssessment | null;
+  humidityAdjustment_low: number;
+  humidityAdjustment_high: number;
+  growth: GrowthAssessment;
+  // Safety alerts and assumed defaults, most severe first.
+  warnings: ClinicalWarning[];
+  additionalAdjustment_low: number;
+  additionalAdjustment_high: number;
+  // Skin and respiratory shares of the total; base IWL and fever are split by the skin fraction.
+  components: IWLComponent[];
+  // Clock-hour profile of the daily total; hourly_low/high are its average and peakHourly_low/high its highest hour.
+  hourlyProfile: HourlyIWL[];
+  feverMultiplier: number;
+  rrRange: RRRange;
+  // The profile whose coefficients produced this result.
+  protocol: ProtocolProfile;
+}
+
+const hasValue = (value?: number): value is number => value !== undefined && !isNaN(value);
+
+/** Catalogue fractions, with protocol coefficients in place of the defaults where an entry has one. */
+export const getFactorPercentages = (protocol: ProtocolProfile = BUILTIN_PROTOCOL): FactorPercentages =>
+  FACTOR_CATALOGUE.reduce((percentages, definition) => {
+    if (definition.fraction === null) return percentages;
+    const value = definition.coefficient ? getProtocolValue(protocol, definition.coefficient) : definition.fraction;
+    return { ...percentages, [definition.key]: value };
+  }, {} as FactorPercentages);
+
+export const getNormalRRByAge = (months: number, bands: ProtocolRRBand[] = BUILTIN_PROTOCOL.rrBands): RRRange => {
+  const band = bands.find(band => band.maxAgeMonths === null || months < band.maxAgeMonths) ?? bands[bands.length - 1];
+  return { min: band.min, max: band.max, label: band.label };
+};
+
+export const calculateBSA = (heightCm: number, weightKg: number, method: BSAMethodId = DEFAULT_BSA_METHOD) =>
+  BSA_METHODS[method].calculate(heightCm, weightKg);
+
+export const getFeverAdjustment = (temperatureC?: number, protocol: ProtocolProfile = BUILTIN_PROTOCOL) => {
+  const threshold = getProtocolValue(protocol, "feverThresholdC");
+  return hasValue(temperatureC) && temperatureC > threshold
+    ? (temperatureC - threshold) * getProtocolValue(protocol, "feverCoefficient")
+    : 0;
+};
+
+export const getFeverMultiplier = (temperatureC?: number, protocol: ProtocolProfile = BUILTIN_PROTOCOL) =>
+  1 + getFeverAdjustment(temperatureC, protocol);
+
+// Extra mL/kg/day for every breath per minute above the age band's upper limit.
+export const getRRAdjustment = (
+  respiratoryRate: number | undefined,
+  rrRange: RRRange,
+  weightKg: number,
+  mlPerKgPerBreath = getProtocolValue(BUILTIN_PROTOCOL, "rrMlPerKgPerBreath")
+) =>
+  hasValue(respiratoryRate) && respiratoryRate > rrRange.max
+    ? (respiratoryRate - rrRange.max) * mlPerKgPerBreath * weightKg
+    : 0;
+
+/**
+ * Daily mL from each checked percentage factor: its fraction of its basis, scaled by the share of the day
+ * it runs. Bases are given before any factor. Factors of base IWL act through the skin, so they are
+ * applied first and skin factors are taken of the skin loss including them.
+ */
+export const getFactorAdjustments = (
+  bases: Record<FactorBasis, { low: number; high: number }>,
+  factors: IWLFactors,
+  percentages: FactorPercentages = getFactorPercentages(),
+  exposures: FactorExposures = {}
+): FactorAdjustment[] => {
+  const adjust = (key: PercentFactorKey, basisAmount: { low: number; high: number }): FactorAdjustment => {
+    const hours = getExposureHours(exposures[key]);
+    const share = percentages[key] * hours / HOURS_PER_DAY;
+    return {
+      key,
+      basis: FACTOR_DEFINITIONS[key].basis,
+      basis_low: basisAmount.low,
+      basis_high: basisAmount.high,
+      hours,
+      low: basisAmount.low * share,
+      high: basisAmount.high * share
+    };
+  };
+  const checked = PERCENT_FACTOR_KEYS.filter(key => factors[key]);
+  const baseAdjustments = checked.filter(key => FACTOR_DEFINITIONS[key].basis === "base").map(key => adjust(key, bases.base));
+  const skin = baseAdjustments.reduce(
+    (total, adjustment) => ({ low: total.low + adjustment.low, high: total.high + adjustment.high }),
+    bases.skin
+  );
+  return checked.map(key => {
+    const { basis } = FACTOR_DEFINITIONS[key];
+    if (basis === "base") return baseAdjustments.find(adjustment => adjustment.key === key) as FactorAdjustment;
+    return adjust(key, basis === "skin" ? skin : bases.respiratory);
+  });
+};
+
+/**
+ * Spreads a daily total over the clock hours: everything but the percentage factors is lost evenly, and
+ * each factor adds (or removes) its adjustment only in the hours it runs. The hours sum to the daily total.
+ */
+export const getHourlyProfile = (
+  daily: { low: number; high: number },
+  adjustments: FactorAdjustment[],
+  exposures: FactorExposures = {}
+): HourlyIWL[] => {
+  const coverage = adjustments.map(adjustment => getHourlyExposure(exposures[adjustment.key]));
+  const evenLow = (daily.low - adjustments.reduce((sum, adjustment) => sum + adjustment.low, 0)) / HOURS_PER_DAY;
+  const evenHigh = (daily.high - adjustments.reduce((sum, adjustment) => sum + adjustment.high, 0)) / HOURS_PER_DAY;
+  return Array.from({ length: HOURS_PER_DAY }, (_, hour) => adjustments.reduce(
+    (total, adjustment, index) => ({
+      hour,
+      low: total.low + adjustment.low * coverage[index][hour] / adjustment.hours,
+      high: total.high + adjustment.high * coverage[index][hour] / adjustment.hours
+    }),
+    { hour, low: evenLow, high: evenHigh }
+  ));
+};
+
+const part = (source: IWLComponentSource, low: number, high: number, factor: FactorKey | null = null): IWLComponentPart =>
+  ({ source, factor, low, high });
+
+const component = (key: IWLComponentKey, parts: IWLComponentPart[]): IWLComponent => ({
+  key,
+  parts,
+  low: parts.reduce((sum, item) => sum + item.low, 0),
+  high: parts.reduce((sum, item) => sum + item.high, 0)
+});
+
+/**
+ * Splits the total into its skin and respiratory routes. Base IWL and the fever increase follow the
+ * protocol's skin fraction. Factors taken of base IWL (phototherapy, radiant warmer) act through the skin,
+ * as do humidity and burns; the respiratory-rate adjustment is respiratory. Parts that are zero are left out.
+ */
+export const getIWLComponents = (values: {
+  baseIWL_low: number;
+  baseIWL_high: number;
+  skinFraction: number;
+  feverAdjustment: number;
+  rrAdjustment: number;
+  humidityAdjustment_low: number;
+  humidityAdjustment_high: number;
+  burnAdjustment: number;
+  factorAdjustments: FactorAdjustment[];
+}): IWLComponent[] => {
+  const shares: Record<IWLComponentKey, number> = { skin: values.skinFraction, respiratory: 1 - values.skinFraction };
+  return (["skin", "respiratory"] as IWLComponentKey[]).map(key => {
+    const share = shares[key];
+    const parts = [
+      part("base", values.baseIWL_low * share, values.baseIWL_high * share),
+      part("fever", values.baseIWL_low * share * values.feverAdjustment, values.baseIWL_high * share * values.feverAdjustment),
+      key === "skin"
+        ? part("humidity", values.humidityAdjustment_low, values.humidityAdjustment_high)
+        : part("respiratoryRate", values.rrAdjustment, values.rrAdjustment),
+      ...values.factorAdjustments
+        .filter(adjustment => (adjustment.basis === "base" ? "skin" : adjustment.basis) === key)
+        .map(adjustment => part("factor", adjustment.low, adjustment.high, adjustment.key)),
+      key === "skin" ? part("factor", values.burnAdjustment, values.burnAdjustment, "burns") : null
+    ];
+    return component(key, parts.filter((item): item is IWLComponentPart => item !== null && (item.low !== 0 || item.high !== 0)));
+  });
+};
+
+export const getIWLMethod = (input: Pick<IWLInput, "neonatal">): IWLMethod =>
+  isPretermNeonate(input.neonatal) ? "neonatal" : "bsa";
+
+/**
+ * Age in months for the RR band and burn chart: as entered, else from a postnatal age typed on the neonatal
+ * fields, so a 40-day-old entered only by days gets the 1–3 month band. Undefined when neither is known.
+ */
+export const getEffectiveAgeMonths = (input: Pick<IWLInput, "ageMonths" | "neonatal">) =>
+  input.ageMonths ?? (input.neonatal && (input.neonatal.postnatalAgeSource ?? "entered") === "entered"
+    ? input.neonatal.postnatalAgeDays / DAYS_PER_MONTH
+    : undefined);
+
+export const getGrowthAssessment = (input: Pick<IWLInput, "weightKg" | "heightCm" | "ageMonths" | "sex" | "neonatal">) =>
+  assessGrowth({
+    weightKg: input.weightKg,
+    heightCm: input.heightCm,
+    ageMonths: input.ageMonths,
+    sex: input.sex,
+    preterm: isPretermNeonate(input.neonatal)
+  });
+
+/** Returns a user-facing message for the first invalid field, or null when the input can be calculated. */
+export const validateIWLInput = (
+  input: Pick<IWLInput, "weightKg" | "heightCm" | "neonatal" | "bsaMethod" | "burns" | "ageMonths" | "sex" | "environment" | "exposures"> & {
+    factors?: IWLFactors;
+  }
+): EngineMessage | null => {
+  if (isNaN(input.weightKg) || input.weightKg <= 0) return engineMessage("WEIGHT_INVALID", "Please enter a valid weight (kg)");
+  if (input.neonatal) {
+    const neonatalError = validateNeonatalInput(input.neonatal, input.ageMonths);
+    if (neonatalError) return neonatalError;
+  }
+  if (input.factors) {
+    const factorError = validateFactorSelection(input.factors);
+    if (factorError) return factorError;
+  }
+  if (input.factors?.burns) {
+    const burnError = validateBurnAssessment(input.burns);
+    if (burnError) return burnError;
+  }
+  for (const key of PERCENT_FACTOR_KEYS) {
+    const exposure = input.exposures?.[key];
+    const exposureError = exposure && input.factors?.[key] ? validateFactorExposure(exposure, key) : null;
+    if (exposureError) return exposureError;
+  }
+  if (input.environment) {
+    const environmentError = validateEnvironmentInput(input.environment, input.factors);
+    if (environmentError) return environmentError;
+  }
+  // Height is only needed for height-based BSA; the neonatal table and Costeff formula are weight based.
+  const heightNeeded = getIWLMethod(input) === "bsa" && BSA_METHODS[input.bsaMethod ?? DEFAULT_BSA_METHOD].requiresHeight;
+  if ((heightNeeded || hasValue(input.heightCm)) && !(input.heightCm > 0)) {
+    return engineMessage("HEIGHT_INVALID", "Please enter a valid height (cm)");
+  }
+  return getGrowthAssessment(input).alerts.find(alert => alert.severity === "block") ?? null;
+};
+
+/**
+ * Pure IWL calculation. Total IWL = (Base IWL × Fever Multiplier) + RR Adjustment + Additional Adjustments,
+ * with Base IWL = 400–500 mL/m²/day × BSA, or the gestational-age table × weight for preterm neonates.
+ * Coefficients and RR bands come from the protocol profile; the figures above are the built-in defaults.
+ * Catalogue factors, which may reduce loss, count for the hours they run; the hourly profile places them in time.
+ * Throws a RangeError for input that fails validateIWLInput.
+ */
+export const calculateIWL = (input: IWLInput, protocol: ProtocolProfile = BUILTIN_PROTOCOL): CalculationResult => {
+  const error = validateIWLInput(input);
+  if (error) throw new RangeError(error.message);
+
+  const { weightKg, heightCm, temperatureC, respiratoryRate, factors, bsaMethod = DEFAULT_BSA_METHOD } = input;
+  const ageMonths = getEffectiveAgeMonths(input);
+  const method = getIWLMethod(input);
+
+  const bsa = hasValue(heightCm) || !BSA_METHODS[bsaMethod].requiresHeight ? calculateBSA(heightCm, weightKg, bsaMethod) : null;
+  const neonatal = method === "neonatal" ? estimateNeonatalIWL(input.neonatal as NeonatalInput, weightKg) : null;
+  const baseIWL_low = neonatal ? neonatal.perKg_low * neonatal.dosingWeightKg : (bsa as number) * getProtocolValue(protocol, "baseIWLPerM2Low");
+  const baseIWL_high = neonatal ? neonatal.perKg_high * neonatal.dosingWeightKg : (bsa as number) * getProtocolValue(protocol, "baseIWLPerM2High");
+  const feverAdjustment = getFeverAdjustment(temperatureC, protocol);
+  const feverMultiplier = 1 + feverAdjustment;
+
+  const rrRange = getNormalRRByAge(ageMonths ?? 0, protocol.rrBands);
+  const rrAdjustment = getRRAdjustment(respiratoryRate, rrRange, weightKg, getProtocolValue(protocol, "rrMlPerKgPerBreath"));
+
+  const factorPercentages = getFactorPercentages(protocol);
+  const exposures = PERCENT_FACTOR_KEYS.reduce<FactorExposures>(
+    (checked, key) => factors[key] && input.exposures?.[key] ? { ...checked, [key]: input.exposures[key] } : checked,
+    {}
+  );
+  // Burn calculations need a BSA even when the neonatal table was used without a length measurement.
+  const burns = factors.burns
+    ? calculateBurnAssessment(
+      input.burns ?? {},
+      ageMonths,
+      weightKg,
+      bsa ?? calculateBSA(heightCm, weightKg, "weightOnly"),
+      getProtocolValue(protocol, "burnEvaporation")
+    )
+    : null;
+  const burnAdjustment = burns ? burns.evaporativeLoss : 0;
+  const skinFraction = getProtocolValue(protocol, "skinFraction");
+  const environment = assessEnvironment(input.environment, skinFraction);
+  const humidityAdjustment_low = environment ? baseIWL_low * environment.adjustment : 0;
+  const humidityAdjustment_high = environment ? baseIWL_high * environment.adjustment : 0;
+  const factorAdjustments = getFactorAdjustments(
+    {
+      base: { low: baseIWL_low, high: baseIWL_high },
+      skin: {
+        low: baseIWL_low * skinFraction * feverMultiplier + humidityAdjustment_low,
+        high: baseIWL_high * skinFraction * feverMultiplier + humidityAdjustment_high
+      },
+      respiratory: {
+        low: baseIWL_low * (1 - skinFraction) * feverMultiplier + rrAdjustment,
+        high: baseIWL_high * (1 - skinFraction) * feverMultiplier + rrAdjustment
+      }
+    },
+    factors,
+    factorPercentages,
+    exposures
+  );
+  const factorAdjustment_low = factorAdjustments.reduce((sum, adjustment) => sum + adjustment.low, 0);
+  const factorAdjustment_high = factorAdjustments.reduce((sum, adjustment) => sum + adjustment.high, 0);
+  const additionalAdjustment_low = factorAdjustment_low + burnAdjustment + humidityAdjustment_low;
+  const additionalAdjustment_high = factorAdjustment_high + burnAdjustment + humidityAdjustment_high;
+
+  const totalIWL_low = (baseIWL_low * feverMultiplier) + rrAdjustment + additionalAdjustment_low;
+  const totalIWL_high = (baseIWL_high * feverMultiplier) + rrAdjustment + additionalAdjustment_high;
+  const hourlyProfile = getHourlyProfile({ low: totalIWL_low, high: totalIWL_high }, factorAdjustments, exposures);
+  const peakHour = hourlyProfile.reduce((peak, hour) => hour.high > peak.high ? hour : peak, hourlyProfile[0]);
+
+  return {
+    engineVersion: ENGINE_VERSION,
+    method,
+    totalIWL_low: totalIWL_low.toFixed(1),
+    totalIWL_high: totalIWL_high.toFixed(1),
+    hourly_low: (totalIWL_low / 24).toFixed(1),
+    hourly_high: (totalIWL_high / 24).toFixed(1),
+    peakHourly_low: peakHour.low.toFixed(1),
+    peakHourly_high: peakHour.high.toFixed(1),
+    rrAdjustment,
+    feverAdjustment,
+    temperature: hasValue(temperatureC) ? temperatureC : null,
+    respiratoryRate: hasValue(respiratoryRate) ? respiratoryRate : null,
+    weight: weightKg,
+    height: hasValue(heightCm) ? heightCm : null,
+    factors: { ...factors },
+    baseIWL_low,
+    baseIWL_high,
+    factorPercentages,
+    factorAdjustments,
+    exposures,
+    bsa,
+    bsaMethod,
+    neonatal,
+    burns,
+    burnAdjustment,
+    environment,
+    humidityAdjustment_low,
+    humidityAdjustment_high,
+    growth: getGrowthAssessment(input),
+    warnings: assessClinicalWarnings({
+      weightKg,
+      ageMonths,
+      temperatureC,
+      respiratoryRate,
+      neonatal,
+      burns,
+      normalRRMax: rrRange.max,
+      rrAdjustment,
+      totalIWL_high,
+      environment
+    }),
+    additionalAdjustment_low,
+    additionalAdjustment_high,
+    components: getIWLComponents({
+      baseIWL_low,
+      baseIWL_high,
+      skinFraction,
+      feverAdjustment,
+      rrAdjustment,
+      humidityAdjustment_low,
+      humidityAdjustment_high,
+      burnAdjustment,
+      factorAdjustments
+    }),
+    hourlyProfile,
+    feverMultiplier,
+    rrRange,
+    protocol
+  };
+};
+
+export interface BSAComparisonRow {
+  bsaMethod: BSAMethodId;
+  bsa: number;
+  totalIWL_low: string;
+  totalIWL_high: string;
+}
+
+/** Recalculates the same input under every BSA formula that the available measurements allow. */
+export const compareBSAMethods = (input: IWLInput, protocol: ProtocolProfile = BUILTIN_PROTOCOL): BSAComparisonRow[] =>
+  BSA_METHOD_IDS
+    .filter(bsaMethod => validateIWLInput({ ...input, bsaMethod }) === null)
+    .map(bsaMethod => {
+      const result = calculateIWL({ ...input, bsaMethod }, protocol);
+      return {
+        bsaMethod,
+        bsa: result.bsa as number,
+        totalIWL_low: result.totalIWL_low,
+        totalIWL_high: result.totalIWL_high
+      };
+    });
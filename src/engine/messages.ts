@@ -0,0 +1,116 @@
+/**
+ * Problems the engine reports: validation errors, parsing errors and the text of growth alerts and safety
+ * warnings. Each one carries a stable code and the values it was built from, so the UI can render it from
+ * its own catalog, and the English sentence that exports, the CLI and saved sessions show as is.
+ *
+ * Parameters hold identifiers rather than display text where the UI has its own names for them: factor
+ * keys, burn region ids, FHIR vital ids, growth indicators and fluid balance fields. Numbers are rounded
+ * to the precision the English sentence shows.
+ */
+
+export type EngineMessageCode =
+  // Number and time parsing
+  | "NOT_A_NUMBER"
+  | "AMBIGUOUS_NUMBER"
+  | "NOT_A_WHOLE_NUMBER"
+  | "NOT_A_TIME"
+  // Calculator input
+  | "WEIGHT_INVALID"
+  | "HEIGHT_INVALID"
+  | "GESTATIONAL_AGE_RANGE"
+  | "GESTATIONAL_DAYS_RANGE"
+  | "POSTNATAL_AGE_INVALID"
+  | "POSTNATAL_AGE_MISMATCH"
+  | "BIRTH_WEIGHT_INVALID"
+  | "FACTOR_CONFLICT"
+  | "BURN_PERCENT_INVALID"
+  | "BURN_REGION_TOTAL"
+  | "BURN_REGIONS_MISSING"
+  | "EXPOSURE_HOURS"
+  | "EXPOSURE_TIMES"
+  | "EXPOSURE_WINDOW"
+  | "RELATIVE_HUMIDITY_RANGE"
+  | "AIR_TEMPERATURE_RANGE"
+  | "CARE_SETTING_FACTOR"
+  | "LOW_HUMIDITY_REPLACED"
+  // Growth alerts
+  | "WEIGHT_LIMITS"
+  | "HEIGHT_LIMITS"
+  | "GROWTH_IMPLAUSIBLE"
+  | "GROWTH_OUTLIER"
+  // Safety warnings
+  | "AGE_NOT_ENTERED"
+  | "TEMPERATURE_NOT_ENTERED"
+  | "RR_NOT_ENTERED"
+  | "AIR_TEMPERATURE_ASSUMED"
+  | "POSTNATAL_AGE_ASSUMED"
+  | "BURN_AGE_BAND_ASSUMED"
+  | "HYPOTHERMIA"
+  | "RR_EXTRAPOLATED"
+  | "IWL_CEILING"
+  // Fluid plan and balance
+  | "URINE_OUTPUT_INVALID"
+  | "URINE_OUTPUT_REQUIRED"
+  | "DEHYDRATION_RANGE"
+  | "ONGOING_LOSSES_INVALID"
+  | "DEFICIT_FRACTION_RANGE"
+  | "FIRST_PHASE_HOURS_RANGE"
+  | "BALANCE_HOURS_LIMIT"
+  | "BALANCE_VOLUME_INVALID"
+  | "BALANCE_THRESHOLD_INVALID"
+  // Protocol profiles
+  | "PROTOCOL_NOT_JSON"
+  | "PROTOCOL_NOT_OBJECT"
+  | "PROTOCOL_SCHEMA"
+  | "PROTOCOL_FIELD_REQUIRED"
+  | "PROTOCOL_DESCRIPTION"
+  | "PROTOCOL_COEFFICIENTS_MISSING"
+  | "PROTOCOL_COEFFICIENT_VALUE"
+  | "PROTOCOL_COEFFICIENT_RANGE"
+  | "PROTOCOL_COEFFICIENT_CITATION"
+  | "PROTOCOL_BASE_IWL_ORDER"
+  | "PROTOCOL_RR_BANDS_MISSING"
+  | "PROTOCOL_RR_BAND_INVALID"
+  | "PROTOCOL_RR_BAND_LABEL"
+  | "PROTOCOL_RR_BAND_RANGE"
+  | "PROTOCOL_RR_BAND_OPEN"
+  | "PROTOCOL_RR_BAND_ORDER"
+  | "PROTOCOL_ID_RESERVED"
+  // Sensitivity analysis
+  | "SENSITIVITY_RANGE"
+  | "MONTE_CARLO_ITERATIONS"
+  // Shared links
+  | "SHARE_LINK_VERSION"
+  | "SHARE_LINK_VALUE"
+  | "SHARE_LINK_REGION"
+  | "SHARE_LINK_PROTOCOL"
+  // Batch files
+  | "CSV_UNCLOSED_QUOTE"
+  | "CSV_EMPTY"
+  | "CSV_DUPLICATE_COLUMN"
+  | "CSV_EMPTY_COLUMN"
+  | "CSV_FIELD_COUNT"
+  | "JSON_INVALID"
+  | "JSON_NOT_ARRAY"
+  | "JSON_ROW_NOT_OBJECT"
+  | "JSON_ROW_VALUE"
+  | "UNKNOWN_CHOICE"
+  | "UNKNOWN_FACTOR"
+  // SMART on FHIR prefill
+  | "FHIR_UNIT"
+  | "FHIR_BIRTH_DATE";
+
+export type EngineMessageParams = Record<string, string | number | boolean>;
+
+export interface EngineMessage {
+  code: EngineMessageCode;
+  params: EngineMessageParams;
+  // English text.
+  message: string;
+}
+
+export const engineMessage = (code: EngineMessageCode, message: string, params: EngineMessageParams = {}): EngineMessage => ({
+  code,
+  params,
+  message
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FORM_VALUES, formToIWLInput, validateIWLForm } from "./form";
+import { calculateIWL } from "./iwl";
+import { estimateNeonatalIWL, NEONATAL_IWL_TABLE, resolvePostnatalAge, validateNeonatalInput } from "./neonatal";
+
+const preterm = { gestationalAgeWeeks: 28, gestationalAgeDays: 0, postnatalAgeDays: 3 };
+
+describe("resolvePostnatalAge", () => {
+  it("keeps an entered postnatal age", () => {
+    expect(resolvePostnatalAge(5, 24)).toEqual({ postnatalAgeDays: 5, postnatalAgeSource: "entered" });
+  });
+
+  it("works the postnatal age out from the age fields", () => {
+    expect(resolvePostnatalAge(null, 60)).toEqual({ postnatalAgeDays: 1826, postnatalAgeSource: "age" });
+  });
+
+  it("assumes day 0 when no age of a month or more is entered", () => {
+    expect(resolvePostnatalAge(null)).toEqual({ postnatalAgeDays: 0, postnatalAgeSource: "assumed" });
+    expect(resolvePostnatalAge(null, 0)).toEqual({ postnatalAgeDays: 0, postnatalAgeSource: "assumed" });
+  });
+});
+
+describe("validateNeonatalInput", () => {
+  it("rejects a postnatal age that contradicts the entered age", () => {
+    expect(validateNeonatalInput({ ...preterm, postnatalAgeDays: 3 }, 60)?.code).toBe("POSTNATAL_AGE_MISMATCH");
+    expect(validateNeonatalInput({ ...preterm, postnatalAgeDays: 200 }, 0)?.code).toBe("POSTNATAL_AGE_MISMATCH");
+  });
+
+  it("accepts a postnatal age within the entered month", () => {
+    expect(validateNeonatalInput({ ...preterm, postnatalAgeDays: 20 }, 0)).toBeNull();
+    expect(validateNeonatalInput({ ...preterm, postnatalAgeDays: 45 }, 1)).toBeNull();
+    expect(validateNeonatalInput(preterm)).toBeNull();
+  });
+
+  it("does not compare a postnatal age worked out from the age fields", () => {
+    expect(validateNeonatalInput({ ...preterm, postnatalAgeDays: 1826, postnatalAgeSource: "age" }, 60)).toBeNull();
+  });
+});
+
+describe("estimateNeonatalIWL", () => {
+  it("interpolates between postnatal days and reports where the day came from", () => {
+    const estimate = estimateNeonatalIWL({ ...preterm, postnatalAgeDays: 5, postnatalAgeSource: "age" }, 1.1);
+    expect(estimate.lowerPoint.day).toBe(3);
+    expect(estimate.upperPoint.day).toBe(7);
+    expect(estimate.perKg_low).toBeCloseTo(40, 6);
+    expect(estimate.postnatalAgeSource).toBe("age");
+  });
+
+  it("cites a source for every table row", () => {
+    for (const band of NEONATAL_IWL_TABLE) {
+      for (const point of band.points) expect(point.citation).not.toBe("");
+    }
+  });
+});
+
+describe("neonatal form", () => {
+  const form = { ...DEFAULT_FORM_VALUES, weight: "18", height: "110", gestationalWeeks: "30" };
+
+  it("uses BSA for a child past the neonatal period when only the gestational age is typed", () => {
+    const input = formToIWLInput({ ...form, ageYears: "5" });
+    expect(input.neonatal?.postnatalAgeSource).toBe("age");
+    expect(calculateIWL(input).method).not.toBe("neonatal");
+  });
+
+  it("rejects a postnatal age that contradicts the age fields", () => {
+    expect(validateIWLForm({ ...form, ageYears: "5", postnatalDays: "3" })?.code).toBe("POSTNATAL_AGE_MISMATCH");
+  });
+
+  it("flags day 0 as assumed when neither age is entered", () => {
+    const input = formToIWLInput({ ...form, weight: "1.2", height: "" });
+    expect(input.neonatal?.postnatalAgeSource).toBe("assumed");
+    expect(calculateIWL(input).method).toBe("neonatal");
+  });
+});
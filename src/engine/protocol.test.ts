@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUILTIN_PROTOCOL,
+  parseProtocolProfile,
+  PROTOCOL_SCHEMA,
+  ProtocolProfile,
+  upgradeProtocolProfile,
+  validateProtocolProfile
+} from "./protocol";
+
+const { skinFraction, ...sharedCoefficients } = BUILTIN_PROTOCOL.coefficients;
+
+// A unit profile as written for the first schema, with the fixed low-humidity percentage.
+const versionOne = {
+  ...BUILTIN_PROTOCOL,
+  schema: "piwl-protocol/1",
+  id: "unit-a",
+  description: "Ward A coefficients.",
+  coefficients: { ...sharedCoefficients, lowHumidity: { value: 0.25, citation: "Hammarlund & Sedin (1979)" } }
+};
+
+describe("validateProtocolProfile", () => {
+  it("accepts the built-in profile", () => {
+    expect(validateProtocolProfile(BUILTIN_PROTOCOL)).toBeNull();
+  });
+
+  it("reports the first problem by code", () => {
+    expect(validateProtocolProfile({ ...BUILTIN_PROTOCOL, schema: "other" })?.code).toBe("PROTOCOL_SCHEMA");
+    expect(validateProtocolProfile({ ...BUILTIN_PROTOCOL, name: " " })?.params).toEqual({ property: "name" });
+    const coefficients = { ...BUILTIN_PROTOCOL.coefficients, skinFraction: { value: 1.5, citation: "x" } };
+    expect(validateProtocolProfile({ ...BUILTIN_PROTOCOL, coefficients })?.code).toBe("PROTOCOL_COEFFICIENT_RANGE");
+  });
+});
+
+describe("upgradeProtocolProfile", () => {
+  it("replaces the low-humidity factor with the built-in transepidermal share and says so", () => {
+    const upgraded = upgradeProtocolProfile(versionOne) as ProtocolProfile;
+    expect(validateProtocolProfile(upgraded)).toBeNull();
+    expect(upgraded.schema).toBe(PROTOCOL_SCHEMA);
+    expect(upgraded.coefficients.skinFraction).toEqual(skinFraction);
+    expect("lowHumidity" in upgraded.coefficients).toBe(false);
+    expect(upgraded.description).toBe(
+      "Ward A coefficients. Upgraded from piwl-protocol/1: its low-humidity factor (0.25) was dropped for the humidity model, and the built-in transepidermal share was added."
+    );
+  });
+
+  it("leaves current and unreadable profiles alone", () => {
+    expect(upgradeProtocolProfile(BUILTIN_PROTOCOL)).toBe(BUILTIN_PROTOCOL);
+    expect(upgradeProtocolProfile("text")).toBe("text");
+  });
+
+  it("upgrades a version 1 file on import", () => {
+    const { profile, error } = parseProtocolProfile(JSON.stringify(versionOne));
+    expect(error).toBeNull();
+    expect(profile?.schema).toBe(PROTOCOL_SCHEMA);
+  });
+});
+
+describe("parseProtocolProfile", () => {
+  it("rejects invalid JSON and the built-in id", () => {
+    expect(parseProtocolProfile("{").error?.code).toBe("PROTOCOL_NOT_JSON");
+    expect(parseProtocolProfile(JSON.stringify(BUILTIN_PROTOCOL)).error?.code).toBe("PROTOCOL_ID_RESERVED");
+  });
+});
@@ -0,0 +1,212 @@
+import { BURN_EVAPORATION_ML_PER_TBSA_PER_M2_PER_HOUR } from "./burns";
+import { EngineMessage, engineMessage } from "./messages";
+
+/**
+ * Institutional protocol profiles: every coefficient the IWL formula uses, the age bands for normal
+ * respiratory rate, and a citation for each value. Profiles are plain JSON so a unit can maintain its
+ * own file; the built-in profile reproduces the calculator's published defaults.
+ */
+
+// Version 2 replaced the fixed low-humidity percentage with the transepidermal share used by the humidity model.
+export const PROTOCOL_SCHEMA = "piwl-protocol/2";
+const PROTOCOL_SCHEMA_V1 = "piwl-protocol/1";
+
+export interface ProtocolValue {
+  value: number;
+  citation: string;
+}
+
+export type ProtocolCoefficientKey =
+  | "baseIWLPerM2Low"
+  | "baseIWLPerM2High"
+  | "feverThresholdC"
+  | "feverCoefficient"
+  | "rrMlPerKgPerBreath"
+  | "phototherapy"
+  | "radiantWarmer"
+  | "skinFraction"
+  | "burnEvaporation";
+
+export interface ProtocolRRBand {
+  // Upper bound in months, exclusive; null for the last, open-ended band.
+  maxAgeMonths: number | null;
+  min: number;
+  max: number;
+  label: string;
+  citation: string;
+}
+
+export interface ProtocolProfile {
+  schema: typeof PROTOCOL_SCHEMA;
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  coefficients: Record<ProtocolCoefficientKey, ProtocolValue>;
+  rrBands: ProtocolRRBand[];
+}
+
+export interface ProtocolCoefficientSpec {
+  label: string;
+  unit: string;
+  // Accepted range when a profile is loaded.
+  min: number;
+  max: number;
+}
+
+export const PROTOCOL_COEFFICIENTS: Record<ProtocolCoefficientKey, ProtocolCoefficientSpec> = {
+  baseIWLPerM2Low: { label: "Base IWL (low)", unit: "mL/m²/day", min: 100, max: 2000 },
+  baseIWLPerM2High: { label: "Base IWL (high)", unit: "mL/m²/day", min: 100, max: 2000 },
+  feverThresholdC: { label: "Fever threshold", unit: "°C", min: 36, max: 39 },
+  feverCoefficient: { label: "Fever increase per °C", unit: "fraction/°C", min: 0, max: 0.5 },
+  rrMlPerKgPerBreath: { label: "Tachypnoea loss per breath above normal", unit: "mL/kg/day", min: 0, max: 10 },
+  phototherapy: { label: "Phototherapy", unit: "fraction of base IWL", min: -1, max: 5 },
+  radiantWarmer: { label: "Radiant warmer", unit: "fraction of base IWL", min: -1, max: 5 },
+  skinFraction: { label: "Transepidermal share of IWL (humidity-sensitive)", unit: "fraction of base IWL", min: 0, max: 1 },
+  burnEvaporation: { label: "Burn evaporative loss", unit: "mL/h per %TBSA per m²", min: 0, max: 10 }
+};
+
+export const PROTOCOL_COEFFICIENT_KEYS = Object.keys(PROTOCOL_COEFFICIENTS) as ProtocolCoefficientKey[];
+
+const NELSON = "Kliegman et al. (2020), Nelson Textbook of Pediatrics, 21st ed.";
+
+export const BUILTIN_PROTOCOL: ProtocolProfile = {
+  schema: PROTOCOL_SCHEMA,
+  id: "builtin",
+  name: "Built-in default",
+  version: "1.1.0",
+  description: "Coefficients of the original calculator (PIWL-V3), with a continuous humidity model in place of its fixed low-humidity factor.",
+  coefficients: {
+    baseIWLPerM2Low: { value: 400, citation: NELSON },
+    baseIWLPerM2High: { value: 500, citation: NELSON },
+    feverThresholdC: { value: 37, citation: NELSON },
+    feverCoefficient: { value: 0.13, citation: `${NELSON}; ~12–13% per °C above 37 °C` },
+    rrMlPerKgPerBreath: { value: 2, citation: "PIWL-V3 convention" },
+    phototherapy: { value: 0.2, citation: "Oh (1978), Clin Perinatol 5(1):173–182" },
+    radiantWarmer: { value: 0.3, citation: "Baumgart (1982), Clin Pediatr 21(3):136–139" },
+    skinFraction: { value: 0.67, citation: `${NELSON}; about two thirds of IWL is through the skin, one third respiratory` },
+    burnEvaporation: { value: BURN_EVAPORATION_ML_PER_TBSA_PER_M2_PER_HOUR, citation: "Evaporative loss ≈ (35 + %TBSA) × BSA mL/h in children" }
+  },
+  rrBands: [
+    { maxAgeMonths: 1, min: 30, max: 60, label: "Newborn (<1 month)", citation: NELSON },
+    { maxAgeMonths: 3, min: 30, max: 50, label: "1–3 months", citation: NELSON },
+    { maxAgeMonths: 6, min: 25, max: 40, label: "3–6 months", citation: NELSON },
+    { maxAgeMonths: 12, min: 20, max: 35, label: "6–12 months", citation: NELSON },
+    { maxAgeMonths: 36, min: 20, max: 30, label: "1–3 years", citation: NELSON },
+    { maxAgeMonths: null, min: 15, max: 25, label: "3+ years", citation: NELSON }
+  ]
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && isFinite(value);
+
+/** Returns a user-facing message for the first problem in a loaded profile, or null when it can be used. */
+export const validateProtocolProfile = (profile: unknown): EngineMessage | null => {
+  if (!isRecord(profile)) return engineMessage("PROTOCOL_NOT_OBJECT", "Protocol file must contain a JSON object");
+  if (profile.schema !== PROTOCOL_SCHEMA) {
+    return engineMessage("PROTOCOL_SCHEMA", `Protocol schema must be "${PROTOCOL_SCHEMA}"`, { schema: PROTOCOL_SCHEMA });
+  }
+  for (const field of ["id", "name", "version"]) {
+    if (!isText(profile[field])) return engineMessage("PROTOCOL_FIELD_REQUIRED", `Protocol ${field} is required`, { property: field });
+  }
+  if (profile.description !== undefined && typeof profile.description !== "string") {
+    return engineMessage("PROTOCOL_DESCRIPTION", "Protocol description must be text");
+  }
+
+  const { coefficients, rrBands } = profile;
+  if (!isRecord(coefficients)) return engineMessage("PROTOCOL_COEFFICIENTS_MISSING", "Protocol coefficients are missing");
+  for (const key of PROTOCOL_COEFFICIENT_KEYS) {
+    const spec = PROTOCOL_COEFFICIENTS[key];
+    const entry = coefficients[key];
+    // Coefficient names are shown in English, as in the profile table.
+    const coefficient = spec.label;
+    if (!isRecord(entry) || !isNumber(entry.value)) {
+      return engineMessage("PROTOCOL_COEFFICIENT_VALUE", `${spec.label}: a numeric value is required`, { coefficient });
+    }
+    if (entry.value < spec.min || entry.value > spec.max) {
+      return engineMessage(
+        "PROTOCOL_COEFFICIENT_RANGE",
+        `${spec.label} must be between ${spec.min} and ${spec.max} ${spec.unit}`,
+        { coefficient, min: spec.min, max: spec.max, unit: spec.unit }
+      );
+    }
+    if (!isText(entry.citation)) {
+      return engineMessage("PROTOCOL_COEFFICIENT_CITATION", `${spec.label}: a citation is required`, { coefficient });
+    }
+  }
+  const low = coefficients.baseIWLPerM2Low as ProtocolValue;
+  const high = coefficients.baseIWLPerM2High as ProtocolValue;
+  if (low.value > high.value) return engineMessage("PROTOCOL_BASE_IWL_ORDER", "Base IWL (low) cannot exceed base IWL (high)");
+
+  if (!Array.isArray(rrBands) || rrBands.length === 0) {
+    return engineMessage("PROTOCOL_RR_BANDS_MISSING", "Protocol needs at least one respiratory rate band");
+  }
+  let previousMax = 0;
+  for (const [index, band] of rrBands.entries()) {
+    const name = `Respiratory rate band ${index + 1}`;
+    const params = { band: index + 1 };
+    if (!isRecord(band)) return engineMessage("PROTOCOL_RR_BAND_INVALID", `${name} is invalid`, params);
+    if (!isText(band.label) || !isText(band.citation)) {
+      return engineMessage("PROTOCOL_RR_BAND_LABEL", `${name} needs a label and a citation`, params);
+    }
+    if (!isNumber(band.min) || !isNumber(band.max) || band.min <= 0 || band.min > band.max) {
+      return engineMessage("PROTOCOL_RR_BAND_RANGE", `${name} needs a normal range with 0 < min ≤ max`, params);
+    }
+    if (index === rrBands.length - 1) {
+      if (band.maxAgeMonths !== null) {
+        return engineMessage("PROTOCOL_RR_BAND_OPEN", "The last respiratory rate band must be open-ended (maxAgeMonths: null)");
+      }
+    } else {
+      if (!isNumber(band.maxAgeMonths) || band.maxAgeMonths <= previousMax) {
+        return engineMessage("PROTOCOL_RR_BAND_ORDER", `${name} must end at an age after the previous band`, params);
+      }
+      previousMax = band.maxAgeMonths;
+    }
+  }
+  return null;
+};
+
+/**
+ * Brings a profile written for an older schema up to date; anything else is returned unchanged for
+ * validation. Version 1 had a fixed low-humidity percentage, which the humidity model replaces: it is
+ * dropped, the built-in transepidermal share takes its place, and the description records both.
+ */
+export const upgradeProtocolProfile = (profile: unknown): unknown => {
+  if (!isRecord(profile) || profile.schema !== PROTOCOL_SCHEMA_V1 || !isRecord(profile.coefficients)) return profile;
+  const { lowHumidity, ...coefficients } = profile.coefficients;
+  const dropped = isRecord(lowHumidity) && isNumber(lowHumidity.value) ? ` (${lowHumidity.value})` : "";
+  const note = `Upgraded from ${PROTOCOL_SCHEMA_V1}: its low-humidity factor${dropped} was dropped for the humidity model, and the built-in transepidermal share was added.`;
+  return {
+    ...profile,
+    schema: PROTOCOL_SCHEMA,
+    description: isText(profile.description) ? `${profile.description} ${note}` : note,
+    coefficients: { skinFraction: BUILTIN_PROTOCOL.coefficients.skinFraction, ...coefficients }
+  };
+};
+
+export const parseProtocolProfile = (text: string): { profile: ProtocolProfile | null; error: EngineMessage | null } => {
+  let parsed: unknown;
+  try {
+    parsed = upgradeProtocolProfile(JSON.parse(text));
+  } catch {
+    return { profile: null, error: engineMessage("PROTOCOL_NOT_JSON", "Protocol file is not valid JSON") };
+  }
+  const error = validateProtocolProfile(parsed);
+  if (error) return { profile: null, error };
+  const profile = parsed as ProtocolProfile;
+  if (profile.id === BUILTIN_PROTOCOL.id) {
+    return {
+      profile: null,
+      error: engineMessage("PROTOCOL_ID_RESERVED", `Protocol id "${BUILTIN_PROTOCOL.id}" is reserved`, { id: BUILTIN_PROTOCOL.id })
+    };
+  }
+  return { profile, error: null };
+};
+
+export const getProtocolValue = (protocol: ProtocolProfile, key: ProtocolCoefficientKey) => protocol.coefficients[key].value;
+
+export const formatProtocolName = (protocol: Pick<ProtocolProfile, "name" | "version">) => `${protocol.name} v${protocol.version}`;
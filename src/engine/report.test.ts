@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { NO_FACTORS } from "./factors";
+import { calculateIWL } from "./iwl";
+import { BUILTIN_PROTOCOL } from "./protocol";
+import {
+  buildCalculationExport,
+  buildClinicalNote,
+  buildCSVHeader,
+  buildCSVRow,
+  CSV_COLUMNS,
+  escapeCSV,
+  getActiveFactors,
+  getDerivationSteps
+} from "./report";
+import { TODDLER } from "./testInputs";
+
+const csvRecord = (input = TODDLER) => {
+  const headers = buildCSVHeader().split(",");
+  const values = buildCSVRow(calculateIWL(input), input).split(",");
+  return Object.fromEntries(headers.map((header, index) => [header, values[index]]));
+};
+
+describe("CSV factor columns", () => {
+  it("has an on/off column for every catalogue factor and an hours column for each percentage factor", () => {
+    const headers = buildCSVHeader().split(",");
+    for (const key of Object.keys(NO_FACTORS)) {
+      expect(headers).toContain(key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`));
+    }
+    expect(headers).toContain("skin_disease_hours");
+    expect(headers).not.toContain("burns_hours");
+    expect(new Set(headers).size).toBe(headers.length);
+  });
+
+  it("reports each factor's exposure hours, and none for factors that are off", () => {
+    const record = csvRecord({
+      ...TODDLER,
+      factors: { ...NO_FACTORS, cpap: true, emollient: true },
+      exposures: { cpap: { mode: "duration", hours: 8 } }
+    });
+    expect(record).toMatchObject({ cpap: "true", cpap_hours: "8", emollient: "true", emollient_hours: "24", ventilation: "false", ventilation_hours: "" });
+    expect(record.active_factors).toBe("cpap;emollient");
+  });
+});
+
+describe("CSV escaping", () => {
+  it("quotes fields with commas, quotes or line breaks and doubles embedded quotes", () => {
+    expect(escapeCSV("Ward 4, night")).toBe('"Ward 4, night"');
+    expect(escapeCSV('Unit "A"')).toBe('"Unit ""A"""');
+    expect(escapeCSV("line one\nline two")).toBe('"line one\nline two"');
+    expect(escapeCSV("line one\r\nline two")).toBe('"line one\r\nline two"');
+  });
+
+  it("writes plain values as they are and blanks for missing ones", () => {
+    expect(escapeCSV("mosteller")).toBe("mosteller");
+    expect(escapeCSV(12.5)).toBe("12.5");
+    expect(escapeCSV(false)).toBe("false");
+    expect(escapeCSV(null)).toBe("");
+    expect(escapeCSV(undefined)).toBe("");
+  });
+
+  it("writes one header and one value per column", () => {
+    const headers = buildCSVHeader().split(",");
+    expect(headers).toEqual(CSV_COLUMNS.map(column => column.header));
+    expect(headers[0]).toBe("engine_version");
+    expect(buildCSVRow(calculateIWL(TODDLER), TODDLER).split(",")).toHaveLength(headers.length);
+  });
+
+  it("escapes a protocol name that would otherwise break the row", () => {
+    const protocol = { ...BUILTIN_PROTOCOL, name: 'Ward "4", night\nshift' };
+    const row = buildCSVRow(calculateIWL(TODDLER, protocol), TODDLER);
+    expect(row).toContain(',"Ward ""4"", night\nshift",');
+    expect(row.replace(/"(?:[^"]|"")*"/g, "").split(",")).toHaveLength(CSV_COLUMNS.length);
+  });
+});
+
+describe("printable report", () => {
+  const result = calculateIWL(TODDLER);
+
+  it("walks through each step of the calculation", () => {
+    const steps = getDerivationSteps(result);
+    expect(steps.map(step => step.title)).toEqual([
+      "Step 1: Body Surface Area — Mosteller",
+      "Step 2: Base IWL",
+      "Fever Adjustment",
+      "Respiratory Rate Adjustment",
+      "Additional Factor Adjustments",
+      "Skin and Respiratory Components",
+      "Final Calculation"
+    ]);
+    expect(steps[0].lines).toEqual([
+      "Formula: BSA = √((height × weight) / 3600)",
+      "Calculation: BSA = √((86 × 12) / 3600)",
+      "BSA = 0.535 m²"
+    ]);
+    expect(steps[2].lines[1]).toBe("Fever Multiplier = 1.195 (+19.5%)");
+    expect(steps[3].lines[1]).toBe("RR Adjustment = (40 - 30) × 2 × 12 = +240.0 mL/day");
+    expect(steps[6].lines.slice(1)).toEqual([
+      "Low: (214.2 × 1.195) + 240.0 + 107.1 = 603.0 mL/day",
+      "High: (267.7 × 1.195) + 240.0 + 133.9 = 693.8 mL/day",
+      "Hourly IWL = 25.1 – 28.9 mL/hour"
+    ]);
+  });
+
+  it("starts with the unit conversions when any were made", () => {
+    const conversions = [{ label: "Weight", entered: "26.5 lb", converted: "12.02 kg" }];
+    const [first] = getDerivationSteps(result, conversions);
+    expect(first).toEqual({ title: "Entered Values Converted to SI", lines: ["Weight: 26.5 lb → 12.02 kg"] });
+  });
+
+  it("lists each active factor with its share of base IWL", () => {
+    expect(getActiveFactors(result).map(({ key, detail, exposure }) => ({ key, detail, exposure }))).toEqual([
+      { key: "phototherapy", detail: "+20.0% of Base IWL", exposure: null },
+      { key: "radiantWarmer", detail: "+30.0% of Base IWL", exposure: null }
+    ]);
+  });
+
+  it("summarizes the result, adjustments and protocol in the clinical note", () => {
+    const note = buildClinicalNote(result);
+    expect(note).toMatch(/^Estimated insensible water loss 603\.0–693\.8 mL\/day \(25\.1–28\.9 mL\/hour\) for weight 12 kg\./);
+    expect(note).toContain("fever 38.5 °C (×1.195); RR 40/min above age maximum 30 (+240.0 mL/day)");
+    expect(note).toContain(`Protocol ${BUILTIN_PROTOCOL.name} v${BUILTIN_PROTOCOL.version}; Pediatric IWL Calculator engine v${result.engineVersion}`);
+  });
+
+  it("gives the highest hour and the 24-hour average when a factor runs part of the day", () => {
+    const note = buildClinicalNote(calculateIWL({ ...TODDLER, exposures: { phototherapy: { mode: "window", start: 20, end: 4 } } }));
+    expect(note).toContain("(25.1–28.9 mL/hour in the highest hour, 23.9–27.4 mL/hour averaged over 24 hours)");
+    expect(note).toContain("phototherapy (+20.0% of Base IWL, 8 h/day, 20:00–04:00)");
+  });
+
+  it("exports the input, result and protocol together", () => {
+    expect(buildCalculationExport(result, TODDLER, [], "2024-06-15T12:00:00.000Z")).toEqual({
+      engineVersion: result.engineVersion,
+      protocol: { id: BUILTIN_PROTOCOL.id, name: BUILTIN_PROTOCOL.name, version: BUILTIN_PROTOCOL.version },
+      exportedAt: "2024-06-15T12:00:00.000Z",
+      input: TODDLER,
+      conversions: [],
+      result
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { BSA_METHODS } from "./bsa";
+import { CARE_SETTING_LABELS } from "./environment";
+import { describeExposure, FactorExposure, formatClockTime, getExposureHours } from "./exposure";
+import { FACTOR_CATALOGUE, FACTOR_LABELS, FactorBasis, FactorKey, PERCENT_FACTOR_KEYS } from "./factors";
+import { FormConversion } from "./form";
+import { CalculationResult, IWLComponent, IWLComponentKey, IWLComponentPart, IWLInput } from "./iwl";
+import { formatProtocolName, getProtocolValue } from "./protocol";
+import { formatNumber } from "./units";
+
+/**
+ * Plain-text renderings of a calculation for the chart: a clinical note paragraph, the step-by-step
+ * derivation, a JSON document and a CSV row. These mirror the "How it's calculated" panel.
+ */
+
+export interface ReportStep {
+  title: string;
+  lines: string[];
+}
+
+export interface ReportFactor {
+  key: FactorKey;
+  label: string;
+  basis: FactorBasis;
+  // Signed fraction of the basis, or null for burns, which scale with %TBSA instead.
+  percentage: number | null;
+  // Null when the factor runs all day.
+  exposure: FactorExposure | null;
+  detail: string;
+  adjustment_low: number;
+  adjustment_high: number;
+}
+
+export interface CalculationExport {
+  engineVersion: string;
+  protocol: { id: string; name: string; version: string };
+  exportedAt: string;
+  input: IWLInput;
+  conversions: FormConversion[];
+  result: CalculationResult;
+}
+
+const range = (low: number, high: number) => `${low.toFixed(1)} – ${high.toFixed(1)}`;
+
+const signed = (value: number, decimals = 1) => `${value < 0 ? "−" : "+"}${Math.abs(value).toFixed(decimals)}`;
+
+const signedRange = (low: number, high: number) => `${signed(low)} – ${signed(high)}`;
+
+const BASIS_LABELS: Record<FactorBasis, string> = {
+  base: "Base IWL",
+  skin: "skin loss",
+  respiratory: "respiratory loss"
+};
+
+const COMPONENT_LABELS: Record<IWLComponentKey, string> = {
+  skin: "Skin (transepidermal)",
+  respiratory: "Respiratory"
+};
+
+const baseRate = (result: CalculationResult) =>
+  `${getProtocolValue(result.protocol, "baseIWLPerM2Low")}–${getProtocolValue(result.protocol, "baseIWLPerM2High")} mL/m²/day`;
+
+// Hourly losses closer than this are the same for display; it also absorbs rounding noise in a flat profile.
+const PROFILE_TOLERANCE = 0.05;
+
+/**
+ * The highest and lowest hourly loss and how many clock hours run at each, or null when every hour
+ * loses the same.
+ */
+export const getProfileExtremes = (result: CalculationResult) => {
+  const profile = result.hourlyProfile;
+  const peak = profile.reduce((best, hour) => hour.high > best.high ? hour : best, profile[0]);
+  const trough = profile.reduce((best, hour) => hour.high < best.high ? hour : best, profile[0]);
+  if (peak.high - trough.high <= PROFILE_TOLERANCE) return null;
+  const hoursAt = (value: number) => profile.filter(hour => Math.abs(hour.high - value) <= PROFILE_TOLERANCE).length;
+  return { peak, trough, peakHours: hoursAt(peak.high), troughHours: hoursAt(trough.high) };
+};
+
+export const getActiveFactors = (result: CalculationResult): ReportFactor[] =>
+  FACTOR_CATALOGUE
+    .filter(definition => result.factors[definition.key])
+    .map(({ key, label, basis }) => {
+      const adjustment = result.factorAdjustments.find(candidate => candidate.key === key);
+      if (!adjustment) {
+        const tbsa = result.burns ? result.burns.totalTBSA : 0;
+        return {
+          key,
+          label,
+          basis,
+          percentage: null,
+          exposure: null,
+          detail: `${tbsa.toFixed(1)}% TBSA (Lund–Browder${result.burns?.ageBandAssumed ? `, ${result.burns.ageBand.label} chart assumed without an age` : ""}) × BSA × ${formatNumber(getProtocolValue(result.protocol, "burnEvaporation"))} × 24`,
+          adjustment_low: result.burnAdjustment,
+          adjustment_high: result.burnAdjustment
+        };
+      }
+      const percentage = result.factorPercentages[adjustment.key];
+      const exposure = result.exposures[adjustment.key] ?? null;
+      const basisAmount = basis === "base" ? "" : ` (${range(adjustment.basis_low, adjustment.basis_high)} mL/day)`;
+      return {
+        key,
+        label,
+        basis,
+        percentage,
+        exposure,
+        detail: `${signed(percentage * 100)}% of ${BASIS_LABELS[basis]}${basisAmount}${exposure ? ` × ${formatNumber(adjustment.hours, 2)}/24 h` : ""}${
+          exposure?.mode === "window" ? ` (${formatClockTime(exposure.start)}–${formatClockTime(exposure.end)})` : ""
+        }`,
+        adjustment_low: adjustment.low,
+        adjustment_high: adjustment.high
+      };
+    });
+
+/** The skin share of base IWL under the result's protocol, or its respiratory remainder. */
+export const getComponentShare = (result: CalculationResult, key: IWLComponentKey) => {
+  const skinFraction = getProtocolValue(result.protocol, "skinFraction");
+  return key === "skin" ? skinFraction : 1 - skinFraction;
+};
+
+export const getComponent = (result: CalculationResult, key: IWLComponentKey) =>
+  result.components.find(component => component.key === key) as IWLComponent;
+
+const PART_LABELS: Record<Exclude<IWLComponentPart["source"], "base" | "factor">, string> = {
+  fever: "Fever increase",
+  respiratoryRate: "Respiratory rate adjustment",
+  humidity: "Humidity adjustment"
+};
+
+const describePart = (part: IWLComponentPart, component: IWLComponent, result: CalculationResult) => {
+  if (part.source === "factor") return FACTOR_LABELS[part.factor as FactorKey];
+  if (part.source === "base") return `Share of Base IWL (${formatNumber(getComponentShare(result, component.key) * 100, 1)}%)`;
+  return PART_LABELS[part.source];
+};
+
+export const getDerivationSteps = (result: CalculationResult, conversions: FormConversion[] = []): ReportStep[] => {
+  const steps: ReportStep[] = [];
+  const extremes = getProfileExtremes(result);
+
+  if (conversions.length > 0) {
+    steps.push({
+      title: "Entered Values Converted to SI",
+      lines: conversions.map(conversion => `${conversion.label}: ${conversion.entered} → ${conversion.converted}`)
+    });
+  }
+
+  if (result.neonatal) {
+    const { neonatal } = result;
+    const daySource = { entered: "", age: " (from the entered age)", assumed: " (assumed)" }[neonatal.postnatalAgeSource];
+    steps.push({
+      title: "Steps 1–2: Neonatal Base IWL",
+      lines: [
+        `Gestational age ${neonatal.gestationalAgeWeeks}+${neonatal.gestationalAgeDays} weeks, postnatal day ${neonatal.postnatalAgeDays}${daySource} (${neonatal.band.label} table)`,
+        `Table sources: ${[...new Set([neonatal.lowerPoint.citation, neonatal.upperPoint.citation])].join("; ")}`,
+        `IWL = ${range(neonatal.perKg_low, neonatal.perKg_high)} mL/kg/day × ${neonatal.dosingWeightKg.toFixed(3)} kg (${neonatal.dosingWeightSource} weight)`,
+        `Base IWL = ${range(result.baseIWL_low, result.baseIWL_high)} mL/day`
+      ]
+    });
+  } else {
+    const bsaMethod = BSA_METHODS[result.bsaMethod];
+    const bsa = (result.bsa ?? 0).toFixed(3);
+    steps.push({
+      title: `Step 1: Body Surface Area — ${bsaMethod.label}`,
+      lines: [
+        `Formula: ${bsaMethod.formula}`,
+        `Calculation: ${bsaMethod.describe(result.height ?? 0, result.weight)}`,
+        `BSA = ${bsa} m²`
+      ]
+    });
+    steps.push({
+      title: "Step 2: Base IWL",
+      lines: [
+        `Base IWL = ${baseRate(result)} × ${bsa} m²`,
+        `Base IWL = ${range(result.baseIWL_low, result.baseIWL_high)} mL/day`
+      ]
+    });
+  }
+
+  if (result.feverAdjustment > 0) {
+    const threshold = getProtocolValue(result.protocol, "feverThresholdC");
+    steps.push({
+      title: "Fever Adjustment",
+      lines: [
+        `Fever Multiplier = 1 + (${formatNumber(result.temperature ?? threshold, 2)} - ${threshold}) × ${getProtocolValue(result.protocol, "feverCoefficient")}`,
+        `Fever Multiplier = ${result.feverMultiplier.toFixed(3)} (+${(result.feverAdjustment * 100).toFixed(1)}%)`
+      ]
+    });
+  }
+
+  if (result.rrAdjustment > 0) {
+    steps.push({
+      title: "Respiratory Rate Adjustment",
+      lines: [
+        `Normal range for age: ${result.rrRange.min}–${result.rrRange.max} breaths/min (${result.rrRange.label})`,
+        `RR Adjustment = (${result.respiratoryRate} - ${result.rrRange.max}) × ${getProtocolValue(result.protocol, "rrMlPerKgPerBreath")} × ${formatNumber(result.weight)} = +${result.rrAdjustment.toFixed(1)} mL/day`
+      ]
+    });
+  }
+
+  if (result.environment) {
+    const { environment } = result;
+    steps.push({
+      title: "Humidity Adjustment",
+      lines: [
+        `${CARE_SETTING_LABELS[environment.careSetting]}, ${formatNumber(environment.relativeHumidity, 1)}% RH at ${formatNumber(environment.airTemperatureC, 1)} °C${environment.airTemperatureAssumed ? " (assumed)" : ""}`,
+        `Adjustment = ${formatNumber(environment.skinFraction)} × ((${environment.skinVapourPressure.toFixed(2)} - ${environment.ambientVapourPressure.toFixed(2)}) / (${environment.skinVapourPressure.toFixed(2)} - ${environment.referenceVapourPressure.toFixed(2)}) - 1) = ${signed(environment.adjustment * 100)}% of Base IWL`,
+        `Humidity Adjustment = ${signed(result.humidityAdjustment_low)} – ${signed(result.humidityAdjustment_high)} mL/day`
+      ]
+    });
+  }
+
+  const factors = getActiveFactors(result);
+  if (factors.length > 0) {
+    steps.push({
+      title: "Additional Factor Adjustments",
+      lines: factors.map(factor => `${factor.label}: ${factor.detail} = ${signedRange(factor.adjustment_low, factor.adjustment_high)} mL/day`)
+    });
+  }
+
+  steps.push({
+    title: "Skin and Respiratory Components",
+    lines: result.components.flatMap(component => [
+      `${COMPONENT_LABELS[component.key]}: ${range(component.low, component.high)} mL/day`,
+      ...component.parts.map(part => `  ${describePart(part, component, result)}: ${signedRange(part.low, part.high)} mL/day`)
+    ])
+  });
+
+  steps.push({
+    title: "Final Calculation",
+    lines: [
+      "Total IWL = (Base IWL × Fever Multiplier) + RR Adjustment + Additional Adjustments",
+      `Low: (${result.baseIWL_low.toFixed(1)} × ${result.feverMultiplier.toFixed(3)}) + ${result.rrAdjustment.toFixed(1)} + ${result.additionalAdjustment_low.toFixed(1)} = ${result.totalIWL_low} mL/day`,
+      `High: (${result.baseIWL_high.toFixed(1)} × ${result.feverMultiplier.toFixed(3)}) + ${result.rrAdjustment.toFixed(1)} + ${result.additionalAdjustment_high.toFixed(1)} = ${result.totalIWL_high} mL/day`,
+      `Hourly IWL = ${result.hourly_low} – ${result.hourly_high} mL/hour${extremes ? " (24-hour average)" : ""}`
+    ]
+  });
+
+  if (extremes) {
+    steps.push({
+      title: "Hourly Profile",
+      lines: [
+        "Timed factors add or remove their adjustment only in the hours they run; the rest is lost evenly",
+        `Highest: ${range(extremes.peak.low, extremes.peak.high)} mL/hour for ${extremes.peakHours} h of the day`,
+        `Lowest: ${range(extremes.trough.low, extremes.trough.high)} mL/hour for ${extremes.troughHours} h of the day`
+      ]
+    });
+  }
+
+  return steps;
+};
+
+/** A single paragraph suitable for pasting into a progress note. */
+export const buildClinicalNote = (result: CalculationResult) => {
+  const base = result.neonatal
+    ? `gestational-age table (${result.neonatal.band.label}, postnatal day ${result.neonatal.postnatalAgeDays}) at ${range(result.neonatal.perKg_low, result.neonatal.perKg_high)} mL/kg/day`
+    : `BSA ${(result.bsa ?? 0).toFixed(3)} m² (${BSA_METHODS[result.bsaMethod].label}) × ${baseRate(result)}`;
+  const adjustments = [
+    result.feverAdjustment > 0 && `fever ${formatNumber(result.temperature ?? 0, 2)} °C (×${result.feverMultiplier.toFixed(3)})`,
+    result.rrAdjustment > 0 && `RR ${result.respiratoryRate}/min above age maximum ${result.rrRange.max} (+${result.rrAdjustment.toFixed(1)} mL/day)`,
+    ...getActiveFactors(result).map(factor =>
+      factor.percentage === null
+        ? `burns ${(result.burns?.totalTBSA ?? 0).toFixed(1)}% TBSA (+${factor.adjustment_low.toFixed(1)} mL/day)`
+        : `${factor.label.toLowerCase()} (${signed(factor.percentage * 100)}% of ${BASIS_LABELS[factor.basis]}${factor.exposure ? `, ${describeExposure(factor.exposure)}` : ""})`
+    ),
+    result.environment && `${formatNumber(result.environment.relativeHumidity, 1)}% RH, ${CARE_SETTING_LABELS[result.environment.careSetting].toLowerCase()} (${signed(result.environment.adjustment * 100)}%)`
+  ].filter(Boolean);
+
+  const hourly = getProfileExtremes(result)
+    ? `${result.peakHourly_low}–${result.peakHourly_high} mL/hour in the highest hour, ${result.hourly_low}–${result.hourly_high} mL/hour averaged over 24 hours`
+    : `${result.hourly_low}–${result.hourly_high} mL/hour`;
+
+  return [
+    `Estimated insensible water loss ${result.totalIWL_low}–${result.totalIWL_high} mL/day (${hourly}) for weight ${formatNumber(result.weight)} kg.`,
+    `Base IWL ${range(result.baseIWL_low, result.baseIWL_high)} mL/day from ${base}.`,
+    adjustments.length > 0 ? `Adjustments: ${adjustments.join("; ")}.` : "No fever, respiratory rate or environmental adjustments applied.",
+    result.warnings.length > 0 && `Alerts: ${result.warnings.map(warning => `${warning.severity.toUpperCase()} ${warning.message}.`).join(" ")}`,
+    `Protocol ${formatProtocolName(result.protocol)}; Pediatric IWL Calculator engine v${result.engineVersion}; verify against clinical assessment.`
+  ].filter(Boolean).join(" ");
+};
+
+export const buildCalculationExport = (
+  result: CalculationResult,
+  input: IWLInput,
+  conversions: FormConversion[] = [],
+  exportedAt = new Date().toISOString()
+): CalculationExport => ({
+  engineVersion: result.engineVersion,
+  protocol: { id: result.protocol.id, name: result.protocol.name, version: result.protocol.version },
+  exportedAt,
+  input,
+  conversions,
+  result
+});
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+interface CSVColumn {
+  header: string;
+  value: (result: CalculationResult, input: IWLInput) => CSVValue;
+}
+
+// One on/off column per catalogue factor, in catalogue order, and the hours per day each percentage factor ran.
+const FACTOR_COLUMNS: CSVColumn[] = FACTOR_CATALOGUE.flatMap(({ key }) => {
+  const header = key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+  const columns: CSVColumn[] = [{ header, value: result => result.factors[key] }];
+  const percentKey = PERCENT_FACTOR_KEYS.find(candidate => candidate === key);
+  if (percentKey) {
+    columns.push({ header: `${header}_hours`, value: result => result.factors[percentKey] ? getExposureHours(result.exposures[percentKey]) : null });
+  }
+  return columns;
+});
+
+export const CSV_COLUMNS: CSVColumn[] = [
+  { header: "engine_version", value: result => result.engineVersion },
+  { header: "protocol", value: result => result.protocol.name },
+  { header: "protocol_version", value: result => result.protocol.version },
+  { header: "method", value: result => result.method },
+  { header: "weight_kg", value: result => result.weight },
+  { header: "height_cm", value: result => result.height },
+  { header: "age_months", value: (_, input) => input.ageMonths },
+  { header: "sex", value: (_, input) => input.sex },
+  { header: "temperature_c", value: result => result.temperature },
+  { header: "respiratory_rate", value: result => result.respiratoryRate },
+  { header: "bsa_method", value: result => result.method === "bsa" ? result.bsaMethod : null },
+  { header: "bsa_m2", value: result => result.bsa?.toFixed(3) },
+  ...FACTOR_COLUMNS,
+  { header: "care_setting", value: (_, input) => input.environment?.careSetting },
+  { header: "relative_humidity", value: result => result.environment?.relativeHumidity },
+  { header: "air_temperature_c", value: result => result.environment?.airTemperatureC },
+  { header: "humidity_adjustment", value: result => result.environment?.adjustment.toFixed(4) },
+  { header: "burn_tbsa_percent", value: result => result.burns?.totalTBSA.toFixed(1) },
+  { header: "active_factors", value: result => FACTOR_CATALOGUE.filter(definition => result.factors[definition.key]).map(definition => definition.key).join(";") },
+  { header: "base_iwl_low", value: result => result.baseIWL_low.toFixed(1) },
+  { header: "base_iwl_high", value: result => result.baseIWL_high.toFixed(1) },
+  { header: "fever_multiplier", value: result => result.feverMultiplier.toFixed(3) },
+  { header: "rr_adjustment", value: result => result.rrAdjustment.toFixed(1) },
+  { header: "additional_adjustment_low", value: result => result.additionalAdjustment_low.toFixed(1) },
+  { header: "additional_adjustment_high", value: result => result.additionalAdjustment_high.toFixed(1) },
+  { header: "skin_iwl_low", value: result => getComponent(result, "skin").low.toFixed(1) },
+  { header: "skin_iwl_high", value: result => getComponent(result, "skin").high.toFixed(1) },
+  { header: "respiratory_iwl_low", value: result => getComponent(result, "respiratory").low.toFixed(1) },
+  { header: "respiratory_iwl_high", value: result => getComponent(result, "respiratory").high.toFixed(1) },
+  { header: "total_iwl_low", value: result => result.totalIWL_low },
+  { header: "total_iwl_high", value: result => result.totalIWL_high },
+  { header: "hourly_peak_low", value: result => result.peakHourly_low },
+  { header: "hourly_peak_high", value: result => result.peakHourly_high },
+  { header: "hourly_average_low", value: result => result.hourly_low },
+  { header: "hourly_average_high", value: result => result.hourly_high },
+  { header: "warnings", value: result => result.warnings.map(warning => `${warning.severity}:${warning.code}`).join(";") }
+];
+
+export const escapeCSV = (value: CSVValue) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildCSVHeader = () => CSV_COLUMNS.map(column => column.header).join(",");
+
+export const buildCSVRow = (result: CalculationResult, input: IWLInput) =>
+  CSV_COLUMNS.map(column => escapeCSV(column.value(result, input))).join(",");
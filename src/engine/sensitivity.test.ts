@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { calculateIWL, IWLInput } from "./iwl";
+import {
+  analyzeSensitivity,
+  DEFAULT_SENSITIVITY_RANGES,
+  runMonteCarlo,
+  validateMonteCarloIterations,
+  validateSensitivityRanges
+} from "./sensitivity";
+import { TODDLER } from "./testInputs";
+
+const noRanges = { weight: 0, height: 0, temperature: 0, respiratoryRate: 0 };
+
+const totals = (input: IWLInput) => {
+  const result = calculateIWL(input);
+  return { totalIWL_low: parseFloat(result.totalIWL_low), totalIWL_high: parseFloat(result.totalIWL_high) };
+};
+
+describe("analyzeSensitivity", () => {
+  const analysis = analyzeSensitivity(TODDLER);
+
+  it("moves each entered input to both ends of its range", () => {
+    const weight = analysis.bars.find(bar => bar.id === "weight");
+    expect(weight?.decrease?.value).toBeCloseTo(10.8, 9);
+    expect(weight?.increase?.value).toBeCloseTo(13.2, 9);
+    expect(weight?.increase).toMatchObject(totals({ ...TODDLER, weightKg: 13.2 }));
+
+    const temperature = analysis.bars.find(bar => bar.id === "temperature");
+    expect([temperature?.decrease?.value, temperature?.increase?.value]).toEqual([38, 39]);
+  });
+
+  it("measures the swing as the largest change of either total and sorts by it", () => {
+    const baseline = totals(TODDLER);
+    expect(analysis.baseline).toEqual(baseline);
+    const rr = analysis.bars.find(bar => bar.id === "respiratoryRate");
+    const changes = [rr?.decrease, rr?.increase].flatMap(entry => entry
+      ? [Math.abs(entry.totalIWL_low - baseline.totalIWL_low), Math.abs(entry.totalIWL_high - baseline.totalIWL_high)]
+      : []);
+    expect(rr?.swing).toBe(Math.max(...changes));
+    expect(analysis.bars.map(bar => bar.swing)).toEqual([...analysis.bars.map(bar => bar.swing)].sort((a, b) => b - a));
+  });
+
+  it("switches factors off and on, replacing the factors they exclude", () => {
+    const phototherapy = analysis.bars.find(bar => bar.id === "phototherapy");
+    expect(phototherapy?.type).toBe("factor");
+    expect(phototherapy?.increase).toMatchObject(analysis.baseline);
+    expect(phototherapy?.decrease).toMatchObject(totals({ ...TODDLER, factors: { ...TODDLER.factors, phototherapy: false } }));
+  });
+
+  it("lists blank inputs without a reason and factors that cannot be switched with one", () => {
+    const skipped = analyzeSensitivity({
+      ...TODDLER,
+      temperatureC: undefined,
+      environment: { careSetting: "radiantWarmer" }
+    }).skipped;
+    expect(skipped.map(skip => [skip.id, skip.reason?.code ?? null])).toEqual([
+      ["temperature", null],
+      ["radiantWarmer", "CARE_SETTING_FACTOR"],
+      ["burns", "BURN_REGIONS_MISSING"]
+    ]);
+  });
+
+  it("throws a RangeError for ranges that fail validation", () => {
+    expect(() => analyzeSensitivity(TODDLER, { ...DEFAULT_SENSITIVITY_RANGES, weight: 80 })).toThrow(RangeError);
+  });
+});
+
+describe("runMonteCarlo", () => {
+  it("gives the same band for the same seed, and a different one for another", () => {
+    const first = runMonteCarlo(TODDLER, DEFAULT_SENSITIVITY_RANGES, undefined, 500, 7);
+    expect(runMonteCarlo(TODDLER, DEFAULT_SENSITIVITY_RANGES, undefined, 500, 7)).toEqual(first);
+    expect(runMonteCarlo(TODDLER, DEFAULT_SENSITIVITY_RANGES, undefined, 500, 8).totalIWL_low).not.toEqual(first.totalIWL_low);
+    expect(first.samples).toBe(500);
+  });
+
+  it("orders the percentiles around the baseline", () => {
+    const { totalIWL_low, totalIWL_high } = runMonteCarlo(TODDLER, DEFAULT_SENSITIVITY_RANGES, undefined, 1000, 3);
+    const baseline = totals(TODDLER);
+    expect(totalIWL_low?.p5).toBeLessThan(baseline.totalIWL_low);
+    expect(totalIWL_low?.p95).toBeGreaterThan(baseline.totalIWL_low);
+    expect(totalIWL_low?.median).toBeCloseTo(baseline.totalIWL_low, -1);
+    expect(totalIWL_high && totalIWL_high.p5 <= totalIWL_high.median && totalIWL_high.median <= totalIWL_high.p95).toBe(true);
+  });
+
+  it("collapses to the baseline when every range is zero", () => {
+    const { totalIWL_high } = runMonteCarlo(TODDLER, noRanges, undefined, 50);
+    const { totalIWL_high: baseline } = totals(TODDLER);
+    expect(totalIWL_high).toEqual({ p5: baseline, median: baseline, p95: baseline });
+  });
+});
+
+describe("validation", () => {
+  it("checks each range against 0 and its maximum", () => {
+    expect(validateSensitivityRanges(DEFAULT_SENSITIVITY_RANGES)).toBeNull();
+    expect(validateSensitivityRanges(noRanges)).toBeNull();
+    expect(validateSensitivityRanges({ ...noRanges, weight: 51 })?.params).toEqual({ field: "Weight", max: 50, unit: "%" });
+    expect(validateSensitivityRanges({ ...noRanges, temperature: -1 })?.code).toBe("SENSITIVITY_RANGE");
+    expect(validateSensitivityRanges({ ...noRanges, respiratoryRate: NaN })?.params?.field).toBe("Respiratory rate");
+  });
+
+  it("accepts whole iteration counts up to the maximum", () => {
+    expect(validateMonteCarloIterations(1000)).toBeNull();
+    expect(validateMonteCarloIterations(0)?.code).toBe("MONTE_CARLO_ITERATIONS");
+    expect(validateMonteCarloIterations(2.5)?.code).toBe("MONTE_CARLO_ITERATIONS");
+    expect(validateMonteCarloIterations(20001)?.code).toBe("MONTE_CARLO_ITERATIONS");
+  });
+});
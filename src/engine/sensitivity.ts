@@ -0,0 +1,250 @@
+import { FactorKey, NO_FACTORS, selectFactor } from "./factors";
+import { calculateIWL, IWLInput, validateIWLInput } from "./iwl";
+import { EngineMessage, engineMessage } from "./messages";
+import { BUILTIN_PROTOCOL, ProtocolProfile } from "./protocol";
+
+/**
+ * Sensitivity of the IWL estimate to uncertain inputs. The one-at-a-time analysis recalculates with each
+ * entered measurement moved to either end of its ± range, and with each factor switched off and on, for a
+ * tornado chart of the change in the daily totals. The Monte Carlo run draws every entered measurement
+ * uniformly from its range at once and reports the median and 5th–95th percentile band of each total.
+ *
+ * Weight and height ranges are relative (%), temperature and respiratory rate ranges absolute. Inputs that
+ * were left blank are not perturbed, and perturbed inputs that fail validation are left out.
+ */
+
+export type SensitivityInput = "weight" | "height" | "temperature" | "respiratoryRate";
+
+export type SensitivityRanges = Record<SensitivityInput, number>;
+
+export interface SensitivityInputDefinition {
+  // Matches the form field label used in engine messages.
+  label: string;
+  unit: string;
+  // Ranges are a percentage of the entered value rather than a fixed amount.
+  relative: boolean;
+  defaultRange: number;
+  maxRange: number;
+}
+
+export const SENSITIVITY_INPUTS: Record<SensitivityInput, SensitivityInputDefinition> = {
+  weight: { label: "Weight", unit: "%", relative: true, defaultRange: 10, maxRange: 50 },
+  height: { label: "Height", unit: "%", relative: true, defaultRange: 5, maxRange: 50 },
+  temperature: { label: "Temperature", unit: "°C", relative: false, defaultRange: 0.5, maxRange: 3 },
+  respiratoryRate: { label: "Respiratory rate", unit: "breaths/min", relative: false, defaultRange: 5, maxRange: 40 }
+};
+
+export const SENSITIVITY_INPUT_IDS = Object.keys(SENSITIVITY_INPUTS) as SensitivityInput[];
+
+export const DEFAULT_SENSITIVITY_RANGES = Object.fromEntries(
+  SENSITIVITY_INPUT_IDS.map(id => [id, SENSITIVITY_INPUTS[id].defaultRange])
+) as SensitivityRanges;
+
+export const MONTE_CARLO_ITERATIONS = [500, 1000, 5000];
+export const DEFAULT_MONTE_CARLO_ITERATIONS = 1000;
+export const MAX_MONTE_CARLO_ITERATIONS = 20000;
+
+export interface SensitivityTotals {
+  totalIWL_low: number;
+  totalIWL_high: number;
+}
+
+export interface SensitivityCase extends SensitivityTotals {
+  // The perturbed value in kg, cm, °C or breaths/min; null for a factor case.
+  value: number | null;
+}
+
+export interface SensitivityBar {
+  id: SensitivityInput | FactorKey;
+  type: "input" | "factor";
+  // The lower end of the range, or the factor switched off; null when that case fails validation.
+  decrease: SensitivityCase | null;
+  // The upper end of the range, or the factor switched on.
+  increase: SensitivityCase | null;
+  // Largest change of either total from the baseline, in mL/day.
+  swing: number;
+}
+
+export interface SensitivitySkip {
+  id: SensitivityInput | FactorKey;
+  // Null for an input left blank; for a factor, the validation message of switching it off or on.
+  reason: EngineMessage | null;
+}
+
+export interface SensitivityAnalysis {
+  baseline: SensitivityTotals;
+  ranges: SensitivityRanges;
+  // Sorted by swing, largest first.
+  bars: SensitivityBar[];
+  // Blank inputs, and factors that cannot be switched (burns without a burn assessment, the radiant warmer
+  // in the radiant warmer care setting), in input and catalogue order.
+  skipped: SensitivitySkip[];
+}
+
+export interface PercentileBand {
+  p5: number;
+  median: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  // Draws that passed validation; the bands are null when none did.
+  samples: number;
+  seed: number;
+  totalIWL_low: PercentileBand | null;
+  totalIWL_high: PercentileBand | null;
+}
+
+const hasValue = (value?: number): value is number => value !== undefined && !isNaN(value);
+
+const INPUT_FIELDS: Record<SensitivityInput, "weightKg" | "heightCm" | "temperatureC" | "respiratoryRate"> = {
+  weight: "weightKg",
+  height: "heightCm",
+  temperature: "temperatureC",
+  respiratoryRate: "respiratoryRate"
+};
+
+export const validateSensitivityRanges = (ranges: SensitivityRanges): EngineMessage | null => {
+  for (const id of SENSITIVITY_INPUT_IDS) {
+    const { label, unit, maxRange } = SENSITIVITY_INPUTS[id];
+    if (isNaN(ranges[id]) || ranges[id] < 0 || ranges[id] > maxRange) {
+      return engineMessage("SENSITIVITY_RANGE", `${label} range must be between 0 and ${maxRange} ${unit}`, { field: label, max: maxRange, unit });
+    }
+  }
+  return null;
+};
+
+export const validateMonteCarloIterations = (iterations: number): EngineMessage | null =>
+  Number.isInteger(iterations) && iterations > 0 && iterations <= MAX_MONTE_CARLO_ITERATIONS
+    ? null
+    : engineMessage(
+      "MONTE_CARLO_ITERATIONS",
+      `Monte Carlo iterations must be a whole number between 1 and ${MAX_MONTE_CARLO_ITERATIONS}`,
+      { max: MAX_MONTE_CARLO_ITERATIONS }
+    );
+
+/** The input value at a fraction of its range: -1 is the lower end, 0 the entered value, 1 the upper end. */
+const perturb = (id: SensitivityInput, value: number, range: number, position: number) => {
+  const shifted = SENSITIVITY_INPUTS[id].relative ? value * (1 + position * range / 100) : value + position * range;
+  // A respiratory rate cannot fall below zero; the other inputs stay positive within their limits.
+  return Math.max(shifted, 0);
+};
+
+const totalsOf = (input: IWLInput, protocol: ProtocolProfile): SensitivityTotals | null => {
+  if (validateIWLInput(input)) return null;
+  const result = calculateIWL(input, protocol);
+  return { totalIWL_low: parseFloat(result.totalIWL_low), totalIWL_high: parseFloat(result.totalIWL_high) };
+};
+
+const swingOf = (baseline: SensitivityTotals, cases: (SensitivityCase | null)[]) =>
+  Math.max(0, ...cases.flatMap(entry => entry
+    ? [Math.abs(entry.totalIWL_low - baseline.totalIWL_low), Math.abs(entry.totalIWL_high - baseline.totalIWL_high)]
+    : []));
+
+/**
+ * One-at-a-time sensitivity of the daily totals. Throws a RangeError when the input or the ranges fail
+ * validation.
+ */
+export const analyzeSensitivity = (
+  input: IWLInput,
+  ranges: SensitivityRanges = DEFAULT_SENSITIVITY_RANGES,
+  protocol: ProtocolProfile = BUILTIN_PROTOCOL
+): SensitivityAnalysis => {
+  const error = validateIWLInput(input) ?? validateSensitivityRanges(ranges);
+  if (error) throw new RangeError(error.message);
+  const baseline = totalsOf(input, protocol) as SensitivityTotals;
+  const bars: SensitivityBar[] = [];
+  const skipped: SensitivityAnalysis["skipped"] = [];
+
+  SENSITIVITY_INPUT_IDS.forEach(id => {
+    const field = INPUT_FIELDS[id];
+    const value = input[field];
+    if (!hasValue(value)) {
+      skipped.push({ id, reason: null });
+      return;
+    }
+    const [decrease, increase] = [-1, 1].map(position => {
+      const perturbed = perturb(id, value, ranges[id], position);
+      const totals = totalsOf({ ...input, [field]: perturbed }, protocol);
+      return totals ? { value: perturbed, ...totals } : null;
+    });
+    bars.push({ id, type: "input", decrease, increase, swing: swingOf(baseline, [decrease, increase]) });
+  });
+
+  (Object.keys(NO_FACTORS) as FactorKey[]).forEach(key => {
+    // Switching a factor on replaces any it excludes, as ticking it on the form does.
+    const cases = [false, true].map(enabled => ({
+      ...input,
+      factors: enabled ? selectFactor(input.factors, key) : { ...input.factors, [key]: false }
+    }));
+    const reason = cases.map(validateIWLInput).find((message): message is EngineMessage => message !== null);
+    if (reason) {
+      skipped.push({ id: key, reason });
+      return;
+    }
+    const [decrease, increase] = cases.map(factorCase => ({ value: null, ...totalsOf(factorCase, protocol) as SensitivityTotals }));
+    bars.push({ id: key, type: "factor", decrease, increase, swing: swingOf(baseline, [decrease, increase]) });
+  });
+
+  return { baseline, ranges, bars: bars.sort((a, b) => b.swing - a.swing), skipped };
+};
+
+/** Small seeded generator (mulberry32) so the same input and seed always give the same band. */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let mixed = Math.imul(state ^ (state >>> 15), 1 | state);
+    mixed = (mixed + Math.imul(mixed ^ (mixed >>> 7), 61 | mixed)) ^ mixed;
+    return ((mixed ^ (mixed >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Linear interpolation between the closest ranks of sorted values. */
+const percentile = (sorted: number[], fraction: number) => {
+  const rank = (sorted.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const bandOf = (values: number[]): PercentileBand | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p5: percentile(sorted, 0.05), median: percentile(sorted, 0.5), p95: percentile(sorted, 0.95) };
+};
+
+/**
+ * Monte Carlo propagation of the input ranges: every entered measurement is drawn uniformly and
+ * independently from its range, factors stay as entered. Throws a RangeError for invalid input, ranges
+ * or iteration counts.
+ */
+export const runMonteCarlo = (
+  input: IWLInput,
+  ranges: SensitivityRanges = DEFAULT_SENSITIVITY_RANGES,
+  protocol: ProtocolProfile = BUILTIN_PROTOCOL,
+  iterations = DEFAULT_MONTE_CARLO_ITERATIONS,
+  seed = 1
+): MonteCarloResult => {
+  const error = validateIWLInput(input) ?? validateSensitivityRanges(ranges) ?? validateMonteCarloIterations(iterations);
+  if (error) throw new RangeError(error.message);
+  const random = createRandom(seed);
+  const entered = SENSITIVITY_INPUT_IDS.filter(id => hasValue(input[INPUT_FIELDS[id]]));
+  const low: number[] = [];
+  const high: number[] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sample = { ...input };
+    entered.forEach(id => {
+      const field = INPUT_FIELDS[id];
+      sample[field] = perturb(id, input[field] as number, ranges[id], random() * 2 - 1);
+    });
+    const totals = totalsOf(sample, protocol);
+    if (!totals) continue;
+    low.push(totals.totalIWL_low);
+    high.push(totals.totalIWL_high);
+  }
+
+  return { iterations, samples: low.length, seed, totalIWL_low: bandOf(low), totalIWL_high: bandOf(high) };
+};
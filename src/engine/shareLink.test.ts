@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { NO_FACTORS } from "./factors";
+import { DEFAULT_FORM_VALUES, IWLFormValues } from "./form";
+import { BUILTIN_PROTOCOL, ProtocolProfile } from "./protocol";
+import { decodeShareLink, encodeShareLink, isShareLink } from "./shareLink";
+
+const form: IWLFormValues = {
+  ...DEFAULT_FORM_VALUES,
+  weight: "12,5",
+  height: "86",
+  temperature: "38.5",
+  ageYears: "2",
+  locale: "fr-FR",
+  factors: { ...NO_FACTORS, phototherapy: true, burns: true },
+  burnRegions: { head: { partialThickness: "50", fullThickness: "" } }
+};
+
+const unitProfile = { ...BUILTIN_PROTOCOL, id: "unit-a" } as ProtocolProfile;
+
+describe("encodeShareLink", () => {
+  it("writes only the fields that differ from an empty form, as typed", () => {
+    const params = new URLSearchParams(encodeShareLink(form, BUILTIN_PROTOCOL));
+    expect(params.get("v")).toBe("1");
+    expect(params.get("w")).toBe("12,5");
+    expect(params.get("f")).toBe("phototherapy,burns");
+    expect(params.get("bp.head")).toBe("50");
+    expect(params.has("bf.head")).toBe(false);
+    expect(params.has("rr")).toBe(false);
+    expect(params.has("pr")).toBe(false);
+  });
+
+  it("uses the oldest version that can read the link", () => {
+    const timed = { ...form, factorExposures: { phototherapy: { mode: "window" as const, hours: "", start: "20:00", end: "04:00" } } };
+    expect(new URLSearchParams(encodeShareLink(timed, BUILTIN_PROTOCOL)).get("v")).toBe("2");
+    const extended = { ...form, factors: { ...NO_FACTORS, emollient: true } };
+    expect(new URLSearchParams(encodeShareLink(extended, BUILTIN_PROTOCOL)).get("v")).toBe("3");
+  });
+});
+
+describe("decodeShareLink", () => {
+  it("restores the form it was given", () => {
+    const fragment = `#${encodeShareLink(form, unitProfile)}`;
+    expect(isShareLink(fragment)).toBe(true);
+    const { shared, error } = decodeShareLink(fragment, [unitProfile]);
+    expect(error).toBeNull();
+    expect(shared?.form).toEqual(form);
+    expect(shared?.protocol?.id).toBe("unit-a");
+  });
+
+  it("keeps the form but reports a protocol profile that is not loaded", () => {
+    const { shared, error } = decodeShareLink(encodeShareLink(form, unitProfile));
+    expect(shared?.form.weight).toBe("12,5");
+    expect(shared?.protocol).toBeNull();
+    expect(error?.code).toBe("SHARE_LINK_PROTOCOL");
+  });
+
+  it("rejects unknown versions, choices and burn regions", () => {
+    expect(decodeShareLink("v=9").error?.code).toBe("SHARE_LINK_VERSION");
+    expect(decodeShareLink("v=1&wu=stone").error?.code).toBe("SHARE_LINK_VALUE");
+    expect(decodeShareLink("v=1&bp.tail=10").error?.code).toBe("SHARE_LINK_REGION");
+  });
+
+  it("ignores factors and parameters it does not know", () => {
+    const { shared, error } = decodeShareLink("v=1&w=3&f=phototherapy,unknown&zz=1");
+    expect(error).toBeNull();
+    expect(shared?.form.factors).toEqual({ ...NO_FACTORS, phototherapy: true });
+  });
+});
@@ -0,0 +1,175 @@
+import { BurnRegionId, LUND_BROWDER_REGIONS } from "./burns";
+import {
+  DEFAULT_FORM_VALUES,
+  FORM_CHOICES,
+  FormChoiceField,
+  formatExposureText,
+  FormTextField,
+  IWLFormValues,
+  normalizeFormValues,
+  parseExposureText
+} from "./form";
+import { FactorKey, NO_FACTORS, PERCENT_FACTOR_KEYS } from "./factors";
+import { EngineMessage, engineMessage } from "./messages";
+import { BUILTIN_PROTOCOL, ProtocolProfile } from "./protocol";
+
+/**
+ * Shareable calculation links. The form is written into the URL fragment, which browsers do not send to
+ * the server, as short query-style parameters; only fields that differ from an empty form are included,
+ * and each field keeps the exact text typed so the recipient sees the same parsing. The form holds no
+ * patient identifiers: session names and saved history never leave the device.
+ *
+ * Version 1: v=1, then w, oz, h, t, rr, y, m, ga, gd, pn, bw, rh, at and l for the typed text fields,
+ * wu, hu, tu, sex, bsa and cs for choices, f for the ticked factors (comma-separated), bp.<region> and
+ * bf.<region> for partial and full thickness burns, and pr for a protocol profile other than the built-in.
+ *
+ * Version 2 adds x.<factor> for a factor that runs only part of the day: hours ("8") or start and stop
+ * times ("20:00-04:00"). Links without one are still written as version 1, so older calculators open them.
+ *
+ * Version 3 adds the factors of the extended catalogue to f. Older calculators would drop them silently,
+ * and some reduce loss, so only links that tick one are written as version 3.
+ */
+
+export const SHARE_LINK_VERSION = 3;
+
+// Factors a version 2 reader knows.
+const VERSION_2_FACTORS: FactorKey[] = ["phototherapy", "radiantWarmer", "burns"];
+
+const TEXT_PARAMS: Record<FormTextField, string> = {
+  weight: "w",
+  weightOunces: "oz",
+  height: "h",
+  temperature: "t",
+  respiratoryRate: "rr",
+  ageYears: "y",
+  ageMonthsOnly: "m",
+  gestationalWeeks: "ga",
+  gestationalDays: "gd",
+  postnatalDays: "pn",
+  birthWeightGrams: "bw",
+  relativeHumidity: "rh",
+  airTemperature: "at",
+  locale: "l"
+};
+
+const CHOICE_PARAMS: Record<FormChoiceField, string> = {
+  weightUnit: "wu",
+  heightUnit: "hu",
+  temperatureUnit: "tu",
+  sex: "sex",
+  bsaMethod: "bsa",
+  careSetting: "cs"
+};
+
+const FACTORS_PARAM = "f";
+const PROTOCOL_PARAM = "pr";
+const PARTIAL_PREFIX = "bp.";
+const FULL_PREFIX = "bf.";
+const EXPOSURE_PREFIX = "x.";
+
+export interface SharedCalculation {
+  form: IWLFormValues;
+  // null when the link names a protocol profile that is not loaded here; the form is still restored.
+  protocol: ProtocolProfile | null;
+}
+
+/** Encodes a form, and the protocol it was calculated with, as the fragment of a shareable link. */
+export const encodeShareLink = (form: IWLFormValues, protocol: Pick<ProtocolProfile, "id">): string => {
+  const exposures = PERCENT_FACTOR_KEYS
+    .map(key => ({ key, text: form.factors[key] ? formatExposureText(form.factorExposures[key]) : "" }))
+    .filter(exposure => exposure.text !== "");
+  const factors = (Object.keys(NO_FACTORS) as FactorKey[]).filter(key => form.factors[key]);
+  const version = factors.some(key => !VERSION_2_FACTORS.includes(key)) ? SHARE_LINK_VERSION : exposures.length > 0 ? 2 : 1;
+  const params = new URLSearchParams({ v: String(version) });
+  (Object.keys(TEXT_PARAMS) as FormTextField[]).forEach(field => {
+    if (form[field] !== DEFAULT_FORM_VALUES[field]) params.set(TEXT_PARAMS[field], form[field]);
+  });
+  (Object.keys(CHOICE_PARAMS) as FormChoiceField[]).forEach(field => {
+    if (form[field] !== DEFAULT_FORM_VALUES[field]) params.set(CHOICE_PARAMS[field], form[field]);
+  });
+  if (factors.length > 0) params.set(FACTORS_PARAM, factors.join(","));
+  LUND_BROWDER_REGIONS.forEach(region => {
+    const entry = form.burnRegions[region.id];
+    if (entry?.partialThickness) params.set(PARTIAL_PREFIX + region.id, entry.partialThickness);
+    if (entry?.fullThickness) params.set(FULL_PREFIX + region.id, entry.fullThickness);
+  });
+  exposures.forEach(exposure => params.set(EXPOSURE_PREFIX + exposure.key, exposure.text));
+  if (protocol.id !== BUILTIN_PROTOCOL.id) params.set(PROTOCOL_PARAM, protocol.id);
+  return params.toString();
+};
+
+/** Whether a URL fragment carries a shared calculation at all, valid or not. */
+export const isShareLink = (fragment: string) => new URLSearchParams(fragment.replace(/^#/, "")).has("v");
+
+/**
+ * Decodes a link fragment; protocols are the profiles loaded on this device besides the built-in one.
+ * Parameters this version does not know are ignored, as are factors the engine no longer has. A link
+ * naming a profile that is not loaded returns the form together with an error.
+ */
+export const decodeShareLink = (
+  fragment: string,
+  protocols: ProtocolProfile[] = []
+): { shared: SharedCalculation | null; error: EngineMessage | null } => {
+  const params = new URLSearchParams(fragment.replace(/^#/, ""));
+  const version = params.get("v") ?? "";
+  if (!/^\d+$/.test(version) || Number(version) < 1 || Number(version) > SHARE_LINK_VERSION) {
+    return {
+      shared: null,
+      error: engineMessage(
+        "SHARE_LINK_VERSION",
+        `Shared link version "${version}" is not supported; update the calculator and open the link again`,
+        { version }
+      )
+    };
+  }
+
+  const values: Partial<IWLFormValues> = {};
+  (Object.keys(TEXT_PARAMS) as FormTextField[]).forEach(field => {
+    const value = params.get(TEXT_PARAMS[field]);
+    if (value !== null) values[field] = value;
+  });
+  for (const field of Object.keys(CHOICE_PARAMS) as FormChoiceField[]) {
+    const param = CHOICE_PARAMS[field];
+    const value = params.get(param);
+    if (value === null) continue;
+    if (!FORM_CHOICES[field].includes(value)) {
+      return { shared: null, error: engineMessage("SHARE_LINK_VALUE", `Shared link has an unknown ${param} value "${value}"`, { param, value }) };
+    }
+    Object.assign(values, { [field]: value });
+  }
+
+  const ticked = (params.get(FACTORS_PARAM) ?? "").split(",");
+  values.factors = (Object.keys(NO_FACTORS) as FactorKey[]).reduce(
+    (factors, key) => ({ ...factors, [key]: ticked.includes(key) }),
+    NO_FACTORS
+  );
+
+  const burnRegions: IWLFormValues["burnRegions"] = {};
+  for (const [param, value] of params) {
+    const prefix = [PARTIAL_PREFIX, FULL_PREFIX].find(candidate => param.startsWith(candidate));
+    if (!prefix) continue;
+    const id = param.slice(prefix.length) as BurnRegionId;
+    if (!LUND_BROWDER_REGIONS.some(region => region.id === id)) {
+      return { shared: null, error: engineMessage("SHARE_LINK_REGION", `Shared link has an unknown burn region "${id}"`, { region: id }) };
+    }
+    const entry = burnRegions[id] ?? { partialThickness: "", fullThickness: "" };
+    burnRegions[id] = prefix === PARTIAL_PREFIX ? { ...entry, partialThickness: value } : { ...entry, fullThickness: value };
+  }
+  values.burnRegions = burnRegions;
+
+  values.factorExposures = PERCENT_FACTOR_KEYS.reduce((exposures, key) => {
+    const text = params.get(EXPOSURE_PREFIX + key);
+    return text === null ? exposures : { ...exposures, [key]: parseExposureText(text) };
+  }, {});
+
+  const protocolId = params.get(PROTOCOL_PARAM) ?? BUILTIN_PROTOCOL.id;
+  const protocol = [BUILTIN_PROTOCOL, ...protocols].find(profile => profile.id === protocolId) ?? null;
+  return {
+    shared: { form: normalizeFormValues(values), protocol },
+    error: protocol ? null : engineMessage(
+      "SHARE_LINK_PROTOCOL",
+      `Shared link was calculated with protocol profile "${protocolId}", which is not loaded on this device`,
+      { protocol: protocolId }
+    )
+  };
+};
@@ -0,0 +1,19 @@
+import { NO_FACTORS } from "./factors";
+import { formToIWLInput } from "./form";
+import { GOLDEN_VECTORS } from "./goldenVectors";
+import { IWLInput } from "./iwl";
+
+/** Inputs shared by the engine tests. */
+
+/** A 12-month-old, 10 kg and 75 cm, with no fever, no RR entered and no factors. */
+export const ONE_YEAR_OLD: IWLInput = { weightKg: 10, heightCm: 75, ageMonths: 12, factors: NO_FACTORS };
+
+/** The engine input for a golden vector's form. Throws when no vector has that name. */
+export const getGoldenInput = (name: string): IWLInput => {
+  const vector = GOLDEN_VECTORS.find(candidate => candidate.name === name);
+  if (!vector) throw new Error(`No golden vector named "${name}"`);
+  return formToIWLInput(vector.form);
+};
+
+/** 12 kg, 86 cm, 2 years 3 months, 38.5 °C, RR 40, under phototherapy and a radiant warmer. */
+export const TODDLER = getGoldenInput("toddler, phototherapy + warmer");
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { NO_FACTORS } from "./factors";
+import { DEFAULT_FORM_VALUES, IWLFormValues, parseIWLForm } from "./form";
+import { calculateIWL } from "./iwl";
+import { BUILTIN_PROTOCOL } from "./protocol";
+import {
+  compareBeds,
+  filterUnitBoard,
+  getHighestSeverity,
+  recalculateWithFactor,
+  sortUnitBoard,
+  UnitBoardCalculation,
+  UnitBoardPatient
+} from "./unitBoard";
+
+const saved = (values: Partial<IWLFormValues>): UnitBoardCalculation => {
+  const form = { ...DEFAULT_FORM_VALUES, weight: "12", height: "86", ageYears: "2", temperature: "37", respiratoryRate: "25", ...values };
+  const { input } = parseIWLForm(form);
+  return { timestamp: "2024-01-01T08:00:00.000Z", form, input, result: calculateIWL(input) };
+};
+
+const patients: UnitBoardPatient[] = [
+  { id: "s1", bed: "Bed 10", latest: saved({ factors: { ...NO_FACTORS, phototherapy: true, cpap: true } }) },
+  { id: "s2", bed: "Bed 2", latest: saved({ weight: "20", height: "110", ageYears: "5", temperature: "31" }) },
+  { id: "s3", bed: "", latest: saved({ factors: { ...NO_FACTORS, phototherapy: true } }) },
+  { id: "s4", bed: "Bed 3", latest: null }
+];
+
+const ids = (sorted: UnitBoardPatient[]) => sorted.map(patient => patient.id);
+
+describe("sortUnitBoard", () => {
+  it("sorts beds naturally, with patients without a bed last", () => {
+    expect(compareBeds("Bed 2", "Bed 10")).toBeLessThan(0);
+    expect(ids(sortUnitBoard(patients, "bed"))).toEqual(["s2", "s4", "s1", "s3"]);
+  });
+
+  it("puts the most factors, highest IWL and most severe warning first", () => {
+    expect(ids(sortUnitBoard(patients, "factors"))).toEqual(["s1", "s3", "s2", "s4"]);
+    expect(ids(sortUnitBoard(patients, "iwl"))[0]).toBe("s2");
+    expect(ids(sortUnitBoard(patients, "iwl"))[3]).toBe("s4");
+    expect(getHighestSeverity((patients[1].latest as UnitBoardCalculation).result)).toBe("critical");
+    // Patients without warnings tie with uncalculated ones and fall back to bed order.
+    expect(ids(sortUnitBoard(patients, "warnings"))).toEqual(["s2", "s4", "s1", "s3"]);
+  });
+
+  it("filters by bed or identifier and by factor", () => {
+    expect(ids(filterUnitBoard(patients, { bed: "bed 1", factor: "" }))).toEqual(["s1"]);
+    expect(ids(filterUnitBoard(patients, { bed: "S3", factor: "" }))).toEqual(["s3"]);
+    expect(ids(filterUnitBoard(patients, { bed: "", factor: "phototherapy" }))).toEqual(["s1", "s3"]);
+  });
+});
+
+describe("recalculateWithFactor", () => {
+  const calculation = saved({});
+
+  it("recalculates the saved form with one factor switched", () => {
+    const { calculation: next, error } = recalculateWithFactor(calculation, "phototherapy", true, "2024-01-01T09:00:00.000Z");
+    expect(error).toBeNull();
+    expect(next?.form).toEqual({ ...calculation.form, factors: { ...NO_FACTORS, phototherapy: true } });
+    expect(next?.timestamp).toBe("2024-01-01T09:00:00.000Z");
+    expect(next?.result).toEqual(calculateIWL(next?.input ?? calculation.input));
+    expect(Number(next?.result.totalIWL_low)).toBeGreaterThan(Number(calculation.result.totalIWL_low));
+  });
+
+  it("unticks excluded factors and keeps the saved protocol profile", () => {
+    const unit = { ...BUILTIN_PROTOCOL, id: "unit-a" };
+    const withCpap = saved({ factors: { ...NO_FACTORS, cpap: true } });
+    const { calculation: next } = recalculateWithFactor({ ...withCpap, result: calculateIWL(withCpap.input, unit) }, "ventilation", true);
+    expect(next?.form.factors).toEqual({ ...NO_FACTORS, ventilation: true });
+    expect(next?.result.protocol.id).toBe("unit-a");
+  });
+
+  it("returns the validation message when the change is not valid on its own", () => {
+    const { calculation: next, error } = recalculateWithFactor(calculation, "burns", true);
+    expect(next).toBeNull();
+    expect(error).not.toBeNull();
+  });
+
+  it("refuses forms saved with the Low Humidity factor", () => {
+    const old = { ...calculation, form: { ...calculation.form, factors: { ...NO_FACTORS, lowHumidity: true } } as unknown as IWLFormValues };
+    const { calculation: next, error } = recalculateWithFactor(old, "phototherapy", true);
+    expect(next).toBeNull();
+    expect(error?.code).toBe("LOW_HUMIDITY_REPLACED");
+  });
+});
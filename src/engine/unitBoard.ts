@@ -0,0 +1,106 @@
+import { getFormMigrationNotice, IWLFormValues, normalizeFormValues, parseIWLForm } from "./form";
+import { FactorKey, IWLFactors, NO_FACTORS, selectFactor } from "./factors";
+import { calculateIWL, CalculationResult, IWLInput, validateIWLInput } from "./iwl";
+import { EngineMessage } from "./messages";
+import { ClinicalWarning, SEVERITY_ORDER, WarningSeverity } from "./warnings";
+
+/**
+ * Unit board for rounds: one row per patient with their latest saved calculation, filtered and sorted by
+ * bed or active factor. Switching a factor on the board recalculates the row from its saved form with the
+ * protocol profile the saved result was calculated with, so the rest of the inputs are unchanged.
+ */
+
+export interface UnitBoardCalculation {
+  timestamp: string;
+  form: IWLFormValues;
+  input: IWLInput;
+  result: CalculationResult;
+}
+
+export interface UnitBoardPatient {
+  // The session identifier.
+  id: string;
+  bed: string;
+  // Null until a calculation has been saved for the patient.
+  latest: UnitBoardCalculation | null;
+}
+
+export type UnitBoardSort = "bed" | "factors" | "iwl" | "warnings";
+
+export const UNIT_BOARD_SORTS: UnitBoardSort[] = ["bed", "factors", "iwl", "warnings"];
+
+export interface UnitBoardFilter {
+  // Case-insensitive match on the bed or identifier.
+  bed: string;
+  // Only patients with this factor on; "" for all.
+  factor: FactorKey | "";
+}
+
+export const FACTOR_KEYS = Object.keys(NO_FACTORS) as FactorKey[];
+
+export const getEnabledFactors = (factors: IWLFactors) => FACTOR_KEYS.filter(factor => factors[factor]);
+
+// Calculations saved before safety warnings were added have none.
+export const getSavedWarnings = (result: CalculationResult): ClinicalWarning[] => result.warnings ?? [];
+
+export const getHighestSeverity = (result: CalculationResult): WarningSeverity | null =>
+  SEVERITY_ORDER.find(severity => getSavedWarnings(result).some(warning => warning.severity === severity)) ?? null;
+
+/** Natural order ("Bed 2" before "Bed 10"); patients without a bed come last. */
+export const compareBeds = (a: string, b: string) => {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+};
+
+export const filterUnitBoard = (patients: UnitBoardPatient[], filter: UnitBoardFilter) => {
+  const query = filter.bed.trim().toLowerCase();
+  return patients.filter(patient =>
+    (!query || patient.bed.toLowerCase().includes(query) || patient.id.toLowerCase().includes(query))
+    && (!filter.factor || patient.latest?.form.factors[filter.factor] === true));
+};
+
+const severityRank = (patient: UnitBoardPatient) => {
+  const severity = patient.latest && getHighestSeverity(patient.latest.result);
+  return severity ? SEVERITY_ORDER.indexOf(severity) : SEVERITY_ORDER.length;
+};
+
+/**
+ * Bed order, or most active factors, highest daily IWL or most severe warning first. Ties and patients
+ * without a calculation fall back to bed order.
+ */
+export const sortUnitBoard = (patients: UnitBoardPatient[], sort: UnitBoardSort) => {
+  const byBed = (a: UnitBoardPatient, b: UnitBoardPatient) => compareBeds(a.bed, b.bed) || a.id.localeCompare(b.id);
+  const key: Record<UnitBoardSort, (patient: UnitBoardPatient) => number> = {
+    bed: () => 0,
+    factors: patient => -(patient.latest ? getEnabledFactors(patient.latest.form.factors).length : -1),
+    iwl: patient => -(patient.latest ? parseFloat(patient.latest.result.totalIWL_high) : -1),
+    warnings: severityRank
+  };
+  return [...patients].sort((a, b) => key[sort](a) - key[sort](b) || byBed(a, b));
+};
+
+/**
+ * The saved calculation with one factor switched, recalculated, or the validation message when the change
+ * is not valid on its own (burns without a burn assessment).
+ */
+export const recalculateWithFactor = (
+  calculation: UnitBoardCalculation,
+  factor: FactorKey,
+  enabled: boolean,
+  timestamp = new Date().toISOString()
+): { calculation: UnitBoardCalculation | null; error: EngineMessage | null } => {
+  // Forms saved by older versions are completed first, unless that would silently drop a factor.
+  const notice = getFormMigrationNotice(calculation.form);
+  if (notice) return { calculation: null, error: notice };
+  const saved = normalizeFormValues(calculation.form);
+  // Ticking a factor unticks the ones it excludes, as on the form.
+  const factors = enabled ? selectFactor(saved.factors, factor) : { ...saved.factors, [factor]: false };
+  const form: IWLFormValues = { ...saved, factors };
+  const parsed = parseIWLForm(form);
+  const error = parsed.error ?? validateIWLInput(parsed.input);
+  if (error) return { calculation: null, error };
+  return {
+    calculation: { timestamp, form, input: parsed.input, result: calculateIWL(parsed.input, calculation.result.protocol) },
+    error: null
+  };
+};
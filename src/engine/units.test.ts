@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatNumber,
+  getDecimalSeparator,
+  normalizeDigits,
+  parseLocaleInteger,
+  parseLocaleNumber,
+  toCelsius,
+  toCentimetres,
+  toKilograms
+} from "./units";
+
+describe("parseLocaleNumber", () => {
+  it("accepts either decimal separator", () => {
+    expect(parseLocaleNumber("3.5", "en-US").value).toBe(3.5);
+    expect(parseLocaleNumber("3,5", "fr-FR").value).toBe(3.5);
+    expect(parseLocaleNumber("3,5", "en-US").value).toBe(3.5);
+    expect(parseLocaleNumber(".5", "en-US").value).toBe(0.5);
+  });
+
+  it("treats a blank field as not entered", () => {
+    expect(parseLocaleNumber("  ", "en-US")).toEqual({ value: null, error: null });
+  });
+
+  it("rejects text that is not a plain number instead of truncating it", () => {
+    for (const text of ["12kg", "-3", "1.2.3", "."]) {
+      expect(parseLocaleNumber(text, "en-US", "Weight").error?.code).toBe("NOT_A_NUMBER");
+    }
+  });
+
+  it("rejects a foreign separator that could be a thousands separator", () => {
+    const { value, error } = parseLocaleNumber("1,000", "en-US", "Weight");
+    expect(value).toBeNull();
+    expect(error?.code).toBe("AMBIGUOUS_NUMBER");
+    expect(error?.params).toMatchObject({ field: "Weight", whole: "1000", decimal: "1.000" });
+    expect(parseLocaleNumber("1,000", "fr-FR").value).toBe(1);
+  });
+
+  it("reads Arabic-Indic digits and the Arabic decimal mark", () => {
+    expect(normalizeDigits("١٢٫٥", "en-US")).toBe("12.5");
+    expect(parseLocaleNumber("٣٫٢٥", "ar-EG").value).toBe(3.25);
+    expect(parseLocaleNumber("۴۲", "en-US").value).toBe(42);
+  });
+});
+
+describe("parseLocaleInteger", () => {
+  it("requires a whole number", () => {
+    expect(parseLocaleInteger("4", "en-US").value).toBe(4);
+    expect(parseLocaleInteger("4.5", "en-US", "Age").error?.code).toBe("NOT_A_WHOLE_NUMBER");
+  });
+});
+
+describe("getDecimalSeparator", () => {
+  it("follows the locale", () => {
+    expect(getDecimalSeparator("en-US")).toBe(".");
+    expect(getDecimalSeparator("fr-FR")).toBe(",");
+    expect(getDecimalSeparator("not a locale")).toBe(".");
+  });
+});
+
+describe("conversions", () => {
+  it("converts to kg, cm and °C", () => {
+    expect(toKilograms(1200, "g")).toBeCloseTo(1.2, 9);
+    expect(toKilograms(16, "lb", 8)).toBeCloseTo(16.5 * 0.45359237, 9);
+    expect(toCentimetres(20, "in")).toBeCloseTo(50.8, 9);
+    expect(toCelsius(101.3, "F")).toBeCloseTo(38.5, 9);
+    expect(toCelsius(38.5, "C")).toBe(38.5);
+  });
+
+  it("formats without floating-point noise", () => {
+    expect(formatNumber(7.484272)).toBe("7.484");
+    expect(formatNumber(50.8)).toBe("50.8");
+  });
+});
@@ -0,0 +1,98 @@
+import { EngineMessage, engineMessage } from "./messages";
+
+/**
+ * Unit conversion and locale-aware number parsing. Everything typed into the form is normalised to SI
+ * (kg, cm, °C) before it reaches the calculation.
+ */
+
+export type WeightUnit = "kg" | "g" | "lb";
+export type HeightUnit = "cm" | "in";
+export type TemperatureUnit = "C" | "F";
+
+export interface ParsedNumber {
+  // null when the field was left blank or could not be parsed.
+  value: number | null;
+  error: EngineMessage | null;
+}
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = { kg: "kg", g: "g", lb: "lb + oz" };
+export const HEIGHT_UNIT_LABELS: Record<HeightUnit, string> = { cm: "cm", in: "in" };
+export const TEMPERATURE_UNIT_LABELS: Record<TemperatureUnit, string> = { C: "°C", F: "°F" };
+
+export const KG_PER_LB = 0.45359237;
+export const OZ_PER_LB = 16;
+export const CM_PER_IN = 2.54;
+
+/** The decimal separator the locale writes, "." or ",". Falls back to "." for unknown locales. */
+export const getDecimalSeparator = (locale?: string) => {
+  try {
+    const part = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === "decimal");
+    return part?.value === "," ? "," : ".";
+  } catch {
+    return ".";
+  }
+};
+
+/**
+ * Rewrites Arabic-Indic (٠–٩) and Persian (۰–۹) digits as ASCII and the Arabic decimal mark (٫) as the
+ * locale's separator, so numbers typed on an Arabic keyboard parse like any other.
+ */
+export const normalizeDigits = (text: string, locale?: string) =>
+  text
+    .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+    .replace(/\u066B/g, getDecimalSeparator(locale));
+
+/**
+ * Parses a plain decimal typed with either "." or "," as the separator. Input that is not a plain number
+ * (units, signs, several separators) is rejected rather than truncated, and so is a single foreign
+ * separator followed by exactly three digits ("1,000" in an English locale), which could be a
+ * thousands separator.
+ */
+export const parseLocaleNumber = (text: string, locale?: string, label = "Value"): ParsedNumber => {
+  const trimmed = normalizeDigits(text.trim(), locale);
+  if (trimmed === "") return { value: null, error: null };
+  const match = /^(\d*)([.,])?(\d*)$/.exec(trimmed);
+  if (!match || (match[1] === "" && match[3] === "")) {
+    return { value: null, error: engineMessage("NOT_A_NUMBER", `${label}: "${trimmed}" is not a valid number`, { field: label, text: trimmed }) };
+  }
+  const [, whole, separator, fraction] = match;
+  if (separator && separator !== getDecimalSeparator(locale) && whole !== "" && fraction.length === 3) {
+    const thousands = `${whole}${fraction}`;
+    const decimal = `${whole}${getDecimalSeparator(locale)}${fraction}`;
+    return {
+      value: null,
+      error: engineMessage(
+        "AMBIGUOUS_NUMBER",
+        `${label}: "${trimmed}" is ambiguous — enter ${thousands} or ${decimal}`,
+        { field: label, text: trimmed, whole: thousands, decimal }
+      )
+    };
+  }
+  return { value: parseFloat(`${whole || "0"}.${fraction || "0"}`), error: null };
+};
+
+/** As parseLocaleNumber, but whole numbers only. */
+export const parseLocaleInteger = (text: string, locale?: string, label = "Value"): ParsedNumber => {
+  const parsed = parseLocaleNumber(text, locale, label);
+  if (parsed.value !== null && !Number.isInteger(parsed.value)) {
+    return {
+      value: null,
+      error: engineMessage("NOT_A_WHOLE_NUMBER", `${label}: "${text.trim()}" must be a whole number`, { field: label, text: text.trim() })
+    };
+  }
+  return parsed;
+};
+
+export const toKilograms = (value: number, unit: WeightUnit, ounces = 0) => {
+  if (unit === "g") return value / 1000;
+  if (unit === "lb") return (value + ounces / OZ_PER_LB) * KG_PER_LB;
+  return value;
+};
+
+export const toCentimetres = (value: number, unit: HeightUnit) => unit === "in" ? value * CM_PER_IN : value;
+
+export const toCelsius = (value: number, unit: TemperatureUnit) => unit === "F" ? (value - 32) * 5 / 9 : value;
+
+/** Trims floating-point noise from converted values for display: 7.48427 → "7.484", 50.8 → "50.8". */
+export const formatNumber = (value: number, maxDecimals = 3) => String(Number(value.toFixed(maxDecimals)));
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { NO_FACTORS } from "./factors";
+import { calculateIWL } from "./iwl";
+import { assessClinicalWarnings, SafetyCheckInput } from "./warnings";
+
+const checked: SafetyCheckInput = {
+  weightKg: 10,
+  ageMonths: 12,
+  temperatureC: 37,
+  respiratoryRate: 25,
+  neonatal: null,
+  burns: null,
+  normalRRMax: 30,
+  rrAdjustment: 0,
+  totalIWL_high: 250,
+  environment: null
+};
+
+const codes = (input: SafetyCheckInput) => assessClinicalWarnings(input).map(warning => warning.code);
+
+describe("assessClinicalWarnings", () => {
+  it("returns nothing for complete, in-range input", () => {
+    expect(assessClinicalWarnings(checked)).toEqual([]);
+  });
+
+  it("notes missing inputs as info", () => {
+    const warnings = assessClinicalWarnings({ ...checked, ageMonths: undefined, temperatureC: undefined, respiratoryRate: undefined });
+    expect(warnings.map(warning => warning.code)).toEqual(["AGE_NOT_ENTERED", "TEMPERATURE_NOT_ENTERED", "RR_NOT_ENTERED"]);
+    expect(warnings.every(warning => warning.severity === "info")).toBe(true);
+  });
+
+  it("grades hypothermia, extrapolated RR and the IWL ceiling", () => {
+    expect(assessClinicalWarnings({ ...checked, temperatureC: 35 })[0]).toMatchObject({ code: "HYPOTHERMIA", severity: "warning" });
+    expect(assessClinicalWarnings({ ...checked, temperatureC: 31 })[0]).toMatchObject({ code: "HYPOTHERMIA", severity: "critical" });
+    expect(assessClinicalWarnings({ ...checked, respiratoryRate: 70 })[0]).toMatchObject({ code: "RR_EXTRAPOLATED", severity: "critical" });
+    expect(assessClinicalWarnings({ ...checked, totalIWL_high: 1500 })[0]).toMatchObject({ code: "IWL_CEILING", severity: "warning" });
+  });
+
+  it("sorts the most severe first", () => {
+    expect(codes({ ...checked, temperatureC: 31, respiratoryRate: undefined })).toEqual(["HYPOTHERMIA", "RR_NOT_ENTERED"]);
+  });
+});
+
+describe("calculation warnings", () => {
+  // No length measurement: the table needs none.
+  const preterm = { weightKg: 1.1, heightCm: NaN, factors: NO_FACTORS, temperatureC: 37, respiratoryRate: 45 };
+
+  it("takes the RR band from the postnatal age when no age is entered", () => {
+    const neonate = calculateIWL({ ...preterm, neonatal: { gestationalAgeWeeks: 28, gestationalAgeDays: 0, postnatalAgeDays: 3 } });
+    expect(neonate.method).toBe("neonatal");
+    expect(neonate.warnings.map(warning => warning.code)).not.toContain("AGE_NOT_ENTERED");
+
+    // Past the table at 40 days: the 1–3 month band (up to 50 breaths/min), not the newborn one (up to 60).
+    const pastTable = calculateIWL({
+      ...preterm,
+      weightKg: 3.4,
+      heightCm: 51,
+      respiratoryRate: 55,
+      neonatal: { gestationalAgeWeeks: 28, gestationalAgeDays: 0, postnatalAgeDays: 40 }
+    });
+    expect(pastTable.method).not.toBe("neonatal");
+    expect(pastTable.rrAdjustment).toBeCloseTo(5 * 2 * 3.4, 6);
+    expect(pastTable.warnings.map(warning => warning.code)).not.toContain("AGE_NOT_ENTERED");
+    expect(calculateIWL({ ...preterm, weightKg: 3.4, heightCm: 51 }).warnings.map(warning => warning.code)).toContain("AGE_NOT_ENTERED");
+  });
+
+  it("checks RR extrapolation against the band for the postnatal age", () => {
+    const neonatal = { gestationalAgeWeeks: 28, gestationalAgeDays: 0, postnatalAgeDays: 40 };
+    const result = calculateIWL({ ...preterm, weightKg: 3.4, heightCm: 51, respiratoryRate: 80, neonatal });
+    expect(result.warnings.find(warning => warning.code === "RR_EXTRAPOLATED")?.params).toMatchObject({ max: 50 });
+  });
+
+  it("warns when day 0 was assumed for the gestational-age table", () => {
+    const result = calculateIWL({
+      ...preterm,
+      neonatal: { gestationalAgeWeeks: 28, gestationalAgeDays: 0, postnatalAgeDays: 0, postnatalAgeSource: "assumed" }
+    });
+    expect(result.warnings.find(warning => warning.code === "POSTNATAL_AGE_ASSUMED")?.severity).toBe("warning");
+  });
+
+  it("names the Lund–Browder chart assumed without an age", () => {
+    const result = calculateIWL({
+      weightKg: 20,
+      heightCm: 115,
+      temperatureC: 37,
+      respiratoryRate: 20,
+      factors: { ...NO_FACTORS, burns: true },
+      burns: { head: { partialThickness: 50, fullThickness: 0 } }
+    });
+    expect(result.warnings.find(warning => warning.code === "BURN_AGE_BAND_ASSUMED")?.params).toEqual({ ageBand: "<1 year" });
+  });
+});
@@ -0,0 +1,151 @@
+import { BurnAssessment } from "./burns";
+import { EnvironmentAssessment } from "./environment";
+import { EngineMessage, engineMessage } from "./messages";
+import { NeonatalEstimate } from "./neonatal";
+import { formatNumber } from "./units";
+
+/**
+ * Rule-based safety checks on a finished calculation. Unlike validation errors and blocking growth
+ * alerts they never stop the calculation: they call out assumed defaults (info), inputs outside the range
+ * the model was built for (warning) and results that should not be used without review (critical).
+ */
+
+export type WarningSeverity = "info" | "warning" | "critical";
+
+export type WarningCode =
+  | "AGE_NOT_ENTERED"
+  | "TEMPERATURE_NOT_ENTERED"
+  | "RR_NOT_ENTERED"
+  | "AIR_TEMPERATURE_ASSUMED"
+  | "POSTNATAL_AGE_ASSUMED"
+  | "BURN_AGE_BAND_ASSUMED"
+  | "HYPOTHERMIA"
+  | "RR_EXTRAPOLATED"
+  | "IWL_CEILING";
+
+export interface ClinicalWarning extends EngineMessage {
+  code: WarningCode;
+  severity: WarningSeverity;
+}
+
+export interface SafetyCheckInput {
+  weightKg: number;
+  ageMonths?: number;
+  temperatureC?: number;
+  respiratoryRate?: number;
+  // The gestational-age table was used, so the newborn RR band applies without an age.
+  neonatal: NeonatalEstimate | null;
+  burns: BurnAssessment | null;
+  // Upper limit of the RR band that was applied, and the adjustment it produced.
+  normalRRMax: number;
+  rrAdjustment: number;
+  totalIWL_high: number;
+  environment: EnvironmentAssessment | null;
+}
+
+export const SEVERITY_ORDER: WarningSeverity[] = ["critical", "warning", "info"];
+
+// WHO thermal protection thresholds: below 36.5 °C is hypothermia, below 32 °C severe.
+export const HYPOTHERMIA_C = { warning: 36.5, critical: 32 };
+
+// Multiples of the upper normal RR for age beyond which the linear RR adjustment is an extrapolation.
+export const RR_EXTRAPOLATION_RATIO = { warning: 1.5, critical: 2 };
+
+// Daily IWL per kg. Extremely preterm infants under radiant warmers approach 150 mL/kg/day; more than
+// 200 is not physiological.
+export const IWL_CEILING_ML_PER_KG = { warning: 100, critical: 200 };
+
+const hasValue = (value?: number): value is number => value !== undefined && !isNaN(value);
+
+const warning = (code: WarningCode, severity: WarningSeverity, message: string, params?: EngineMessage["params"]): ClinicalWarning =>
+  ({ ...engineMessage(code, message, params), code, severity });
+
+/** Graded threshold check: the most severe level whose limit is crossed, or null. */
+const grade = (limits: { warning: number; critical: number }, crossed: (limit: number) => boolean) =>
+  crossed(limits.critical) ? "critical" as const : crossed(limits.warning) ? "warning" as const : null;
+
+export const assessClinicalWarnings = (input: SafetyCheckInput): ClinicalWarning[] => {
+  const warnings: ClinicalWarning[] = [];
+  const { temperatureC, respiratoryRate, normalRRMax } = input;
+
+  if (!input.neonatal && !hasValue(input.ageMonths)) {
+    warnings.push(warning(
+      "AGE_NOT_ENTERED",
+      // Only affects the result when there is a respiratory rate to compare with the band.
+      hasValue(respiratoryRate) ? "warning" : "info",
+      `Age not entered — the newborn respiratory rate range (up to ${normalRRMax} breaths/min) was applied`,
+      { max: normalRRMax }
+    ));
+  }
+  if (!hasValue(temperatureC)) {
+    warnings.push(warning("TEMPERATURE_NOT_ENTERED", "info", "Temperature not entered — no fever adjustment was applied"));
+  }
+  if (!hasValue(respiratoryRate)) {
+    warnings.push(warning("RR_NOT_ENTERED", "info", "Respiratory rate not entered — no respiratory rate adjustment was applied"));
+  }
+  if (input.neonatal?.postnatalAgeSource === "assumed") {
+    warnings.push(warning(
+      "POSTNATAL_AGE_ASSUMED",
+      // Day 0 reads the first-day row, the highest loss in the table.
+      "warning",
+      "Postnatal age not entered — day 0 was assumed, which reads the highest-loss row of the gestational-age table"
+    ));
+  }
+  if (input.burns?.ageBandAssumed) {
+    warnings.push(warning(
+      "BURN_AGE_BAND_ASSUMED",
+      "warning",
+      `Age not entered — the Lund–Browder chart for ${input.burns.ageBand.label} was assumed for the burned area`,
+      { ageBand: input.burns.ageBand.label }
+    ));
+  }
+  if (input.environment?.airTemperatureAssumed) {
+    const airTemperature = formatNumber(input.environment.airTemperatureC, 1);
+    warnings.push(warning(
+      "AIR_TEMPERATURE_ASSUMED",
+      "info",
+      `Air temperature not entered — ${airTemperature} °C, typical for the care setting, was assumed`,
+      { temperature: Number(airTemperature) }
+    ));
+  }
+
+  if (hasValue(temperatureC)) {
+    const severity = grade(HYPOTHERMIA_C, limit => temperatureC < limit);
+    if (severity) {
+      const temperature = formatNumber(temperatureC, 2);
+      warnings.push(warning(
+        "HYPOTHERMIA",
+        severity,
+        `Temperature ${temperature} °C is below ${HYPOTHERMIA_C[severity]} °C (hypothermia); IWL is not adjusted for low body temperature`,
+        { temperature: Number(temperature), limit: HYPOTHERMIA_C[severity] }
+      ));
+    }
+  }
+
+  if (hasValue(respiratoryRate)) {
+    const severity = grade(RR_EXTRAPOLATION_RATIO, ratio => respiratoryRate > normalRRMax * ratio);
+    if (severity) {
+      const rate = formatNumber(respiratoryRate, 1);
+      const adjustment = input.rrAdjustment.toFixed(1);
+      warnings.push(warning(
+        "RR_EXTRAPOLATED",
+        severity,
+        `Respiratory rate ${rate} breaths/min is more than ${RR_EXTRAPOLATION_RATIO[severity]}× the upper normal limit for age (${normalRRMax}); the RR adjustment of ${adjustment} mL/day is extrapolated without a cap`,
+        { rate: Number(rate), ratio: RR_EXTRAPOLATION_RATIO[severity], max: normalRRMax, adjustment: Number(adjustment) }
+      ));
+    }
+  }
+
+  const perKg = input.totalIWL_high / input.weightKg;
+  const ceiling = grade(IWL_CEILING_ML_PER_KG, limit => perKg > limit);
+  if (ceiling) {
+    warnings.push(warning(
+      "IWL_CEILING",
+      ceiling,
+      `Total IWL of up to ${perKg.toFixed(1)} mL/kg/day exceeds ${IWL_CEILING_ML_PER_KG[ceiling]} mL/kg/day; review the inputs before using this estimate`,
+      { perKg: Number(perKg.toFixed(1)), limit: IWL_CEILING_ML_PER_KG[ceiling] }
+    ));
+  }
+
+  return warnings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
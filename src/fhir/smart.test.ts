@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { getCodeChallenge } from "../../cli/mock-fhir-fixture";
+import { codeChallenge, randomToken } from "./smart";
+
+describe("PKCE", () => {
+  it("derives the S256 challenge of RFC 7636, appendix B", async () => {
+    expect(await codeChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk")).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+  });
+
+  it("makes verifiers the mock server's token endpoint accepts", async () => {
+    const verifier = randomToken();
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(randomToken()).not.toBe(verifier);
+    expect(await codeChallenge(verifier)).toBe(getCodeChallenge(verifier));
+  });
+});
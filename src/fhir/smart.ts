@@ -0,0 +1,251 @@
+import { FHIR_VITAL_IDS, FHIR_VITALS, FhirBundle, FhirObservation, FhirPatient, LOINC_SYSTEM } from "../engine";
+
+/**
+ * SMART App Launch (public client, authorization code with PKCE). An EHR opens the app with ?iss=&launch=,
+ * a standalone launch with ?iss= only; both redirect to the EHR's authorize endpoint and come back with
+ * ?code=&state= (or ?error=&state=). The code is exchanged for a token and the patient in context. The
+ * token lives in sessionStorage so it ends with the tab and survives a reload, and it is never written to
+ * the form, saved sessions or shared links.
+ */
+
+export type SmartLaunchMode = "authorize" | "callback" | "session";
+
+export interface SmartSession {
+  serverUrl: string;
+  accessToken: string;
+  patientId: string;
+  // Epoch ms; the session is dropped after this.
+  expiresAt: number;
+}
+
+export interface SmartPatientData {
+  session: SmartSession;
+  patient: FhirPatient;
+  observations: FhirObservation[];
+}
+
+interface PendingAuthorization {
+  state: string;
+  verifier: string;
+  serverUrl: string;
+  tokenEndpoint: string;
+  redirectUri: string;
+}
+
+interface SmartConfiguration {
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+const PENDING_KEY = "pediatric-iwl-smart-pending";
+const SESSION_KEY = "pediatric-iwl-smart-session";
+const CLIENT_ID: string = import.meta.env.VITE_SMART_CLIENT_ID ?? "pediatric-iwl-calculator";
+const SCOPES = ["openid", "fhirUser", "patient/Patient.read", "patient/Observation.read", "patient/Observation.write"];
+// Tokens without expires_in are treated as valid for an hour.
+const DEFAULT_TOKEN_LIFETIME_S = 3600;
+const OBSERVATION_PAGE_SIZE = 200;
+
+const readSession = (key: string) => {
+  try {
+    return sessionStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeSession = (key: string, value: string | null) => {
+  try {
+    if (value === null) sessionStorage.removeItem(key);
+    else sessionStorage.setItem(key, value);
+  } catch {
+    // Without sessionStorage the launch cannot survive the redirect and reports the missing state.
+  }
+};
+
+const base64url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/** 32 random bytes, base64url encoded: the 43-character state and PKCE code verifier. */
+export const randomToken = () => base64url(crypto.getRandomValues(new Uint8Array(32)));
+
+/** The PKCE S256 code challenge (RFC 7636) sent with the authorization request. */
+export const codeChallenge = async (verifier: string) =>
+  base64url(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier))));
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+const redirectURI = () => `${window.location.origin}${window.location.pathname}`;
+
+const launchParams = () => new URLSearchParams(window.location.search);
+
+/** Reads the error sent as an OAuth error or a FHIR OperationOutcome, falling back to the HTTP status. */
+const responseError = async (response: Response, what: string) => {
+  let detail = `HTTP ${response.status}`;
+  try {
+    const body = await response.json();
+    detail = body.error_description ?? body.error ?? body.issue?.[0]?.diagnostics ?? detail;
+  } catch {
+    // Not JSON; keep the status.
+  }
+  return new Error(`${what}: ${detail}`);
+};
+
+export const readSmartSession = (): SmartSession | null => {
+  const stored = readSession(SESSION_KEY);
+  if (!stored) return null;
+  try {
+    const session = JSON.parse(stored) as SmartSession;
+    return session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+/** How the page was opened: by the EHR or a standalone launch, back from authorization, or after a reload. */
+export const getSmartLaunchMode = (): SmartLaunchMode | null => {
+  const params = launchParams();
+  if ((params.has("code") || params.has("error")) && params.has("state")) return "callback";
+  if (params.has("iss")) return "authorize";
+  return readSmartSession() ? "session" : null;
+};
+
+const discover = async (serverUrl: string): Promise<SmartConfiguration> => {
+  const response = await fetch(`${serverUrl}/.well-known/smart-configuration`, { headers: { Accept: "application/json" } });
+  if (!response.ok) throw await responseError(response, "SMART configuration");
+  const configuration = await response.json();
+  if (!configuration.authorization_endpoint || !configuration.token_endpoint) {
+    throw new Error(`${serverUrl} does not advertise SMART authorization endpoints`);
+  }
+  return configuration;
+};
+
+/** Redirects to the EHR's authorize endpoint; the page unloads and returns with a code. */
+const authorize = async () => {
+  const params = launchParams();
+  const serverUrl = trimSlash(params.get("iss") ?? "");
+  const launch = params.get("launch");
+  const { authorization_endpoint, token_endpoint } = await discover(serverUrl);
+
+  const pending: PendingAuthorization = {
+    state: randomToken(),
+    verifier: randomToken(),
+    serverUrl,
+    tokenEndpoint: token_endpoint,
+    redirectUri: redirectURI()
+  };
+  writeSession(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: CLIENT_ID,
+    redirect_uri: pending.redirectUri,
+    // An EHR launch already has a patient; a standalone launch asks the EHR to pick one.
+    scope: [launch ? "launch" : "launch/patient", ...SCOPES].join(" "),
+    state: pending.state,
+    aud: serverUrl,
+    code_challenge: await codeChallenge(pending.verifier),
+    code_challenge_method: "S256",
+    ...(launch ? { launch } : {})
+  }).toString();
+  window.location.assign(url.toString());
+};
+
+/** Exchanges the authorization code for a token and stores the session. */
+const exchangeCode = async (): Promise<SmartSession> => {
+  const params = launchParams();
+  const stored = readSession(PENDING_KEY);
+  writeSession(PENDING_KEY, null);
+  // The code is single-use; drop it from the address bar so a reload does not replay it.
+  window.history.replaceState(null, "", redirectURI() + window.location.hash);
+
+  const pending = stored ? JSON.parse(stored) as PendingAuthorization : null;
+  if (!pending || pending.state !== params.get("state")) {
+    throw new Error("The authorization response does not match a launch started in this tab");
+  }
+  const denied = params.get("error");
+  if (denied) throw new Error(`Authorization: ${params.get("error_description") ?? denied}`);
+
+  const response = await fetch(pending.tokenEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.get("code") ?? "",
+      redirect_uri: pending.redirectUri,
+      client_id: CLIENT_ID,
+      code_verifier: pending.verifier
+    })
+  });
+  if (!response.ok) throw await responseError(response, "Token request");
+  const token = await response.json();
+  if (!token.patient) throw new Error("The EHR did not provide a patient for this launch");
+
+  const session: SmartSession = {
+    serverUrl: pending.serverUrl,
+    accessToken: token.access_token,
+    patientId: token.patient,
+    expiresAt: Date.now() + (token.expires_in ?? DEFAULT_TOKEN_LIFETIME_S) * 1000
+  };
+  writeSession(SESSION_KEY, JSON.stringify(session));
+  return session;
+};
+
+const fetchFhir = async <T>(session: SmartSession, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${session.serverUrl}/${path}`, {
+    ...init,
+    headers: {
+      Accept: "application/fhir+json",
+      Authorization: `Bearer ${session.accessToken}`,
+      ...(init.body ? { "Content-Type": "application/fhir+json" } : {})
+    }
+  });
+  if (!response.ok) throw await responseError(response, path.split("?")[0]);
+  return response.json();
+};
+
+/** The patient and their vital-sign Observations for the codes in FHIR_VITALS, newest first. */
+export const loadSmartPatientData = async (session: SmartSession): Promise<SmartPatientData> => {
+  const codes = FHIR_VITAL_IDS.flatMap(vital => FHIR_VITALS[vital].codes.map(code => `${LOINC_SYSTEM}|${code}`));
+  const query = new URLSearchParams({
+    patient: session.patientId,
+    code: codes.join(","),
+    _sort: "-date",
+    _count: String(OBSERVATION_PAGE_SIZE)
+  });
+  const [patient, bundle] = await Promise.all([
+    fetchFhir<FhirPatient>(session, `Patient/${encodeURIComponent(session.patientId)}`),
+    fetchFhir<FhirBundle<FhirObservation>>(session, `Observation?${query}`)
+  ]);
+  const observations = (bundle.entry ?? [])
+    .map(entry => entry.resource)
+    .filter((resource): resource is FhirObservation => resource?.resourceType === "Observation");
+  return { session, patient, observations };
+};
+
+/** Creates the Observation on the EHR and returns its reference, e.g. "Observation/42". */
+export const writeSmartObservation = async (session: SmartSession, observation: FhirObservation) => {
+  const created = await fetchFhir<FhirObservation>(session, "Observation", { method: "POST", body: JSON.stringify(observation) });
+  return `Observation/${created.id ?? ""}`;
+};
+
+let launchInProgress: Promise<SmartPatientData | null> | null = null;
+
+/**
+ * Runs the step of the launch the current URL calls for. Resolves to the patient data, or to null while
+ * the page is redirecting to authorize. Later calls share the first one's promise, so effects that run
+ * twice do not consume the single-use code twice.
+ */
+export const startSmartLaunch = (): Promise<SmartPatientData | null> | null => {
+  if (launchInProgress) return launchInProgress;
+  const mode = getSmartLaunchMode();
+  if (!mode) return null;
+
+  const session = readSmartSession();
+  launchInProgress = mode === "authorize"
+    ? authorize().then(() => null)
+    : mode === "callback" || !session
+      ? exchangeCode().then(loadSmartPatientData)
+      : loadSmartPatientData(session);
+  return launchInProgress;
+};
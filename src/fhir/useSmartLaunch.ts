@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from "react";
+import { getSmartLaunchMode, SmartPatientData, startSmartLaunch } from "./smart";
+
+export type SmartLaunchStatus = "inactive" | "authorizing" | "loading" | "ready" | "error";
+
+export interface SmartLaunchState {
+  status: SmartLaunchStatus;
+  data: SmartPatientData | null;
+  error: string | null;
+}
+
+const initialState = (): SmartLaunchState => {
+  const mode = getSmartLaunchMode();
+  return { status: !mode ? "inactive" : mode === "authorize" ? "authorizing" : "loading", data: null, error: null };
+};
+
+/** Runs a SMART launch when the page was opened for one, and calls onLoad once with the patient data. */
+export const useSmartLaunch = (onLoad: (data: SmartPatientData) => void): SmartLaunchState => {
+  const [state, setState] = useState(initialState);
+  // The latest callback, so the launch runs once however often the caller re-renders.
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  useEffect(() => {
+    const launch = startSmartLaunch();
+    if (!launch) return;
+    let active = true;
+    launch
+      .then(data => {
+        if (!active || !data) return;
+        setState({ status: "ready", data, error: null });
+        onLoadRef.current(data);
+      })
+      .catch((error: Error) => {
+        if (active) setState({ status: "error", data: null, error: error.message });
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return state;
+};
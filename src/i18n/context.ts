@@ -0,0 +1,6 @@
+import { createContext, useContext } from "react";
+import { createI18n, I18n } from "./i18n";
+
+export const I18nContext = createContext<I18n>(createI18n("en", "latn"));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,197 @@
+import {
+  BalanceFieldKey,
+  EngineMessage,
+  EngineMessageCode,
+  EngineMessageParams,
+  FACTOR_LABELS,
+  FactorKey,
+  FHIR_VITAL_IDS,
+  FhirVital,
+  GrowthIndicator,
+  LUND_BROWDER_AGE_BANDS,
+  LUND_BROWDER_REGIONS
+} from "../engine";
+import type { I18n, MessageParams } from "./i18n";
+import { getBurnAgeBandLabel } from "./labels";
+import { en, MessageKey } from "./messages/en";
+
+/**
+ * The engine reports problems with a code and the values they were built from. The UI renders each one
+ * from the catalog entry for its code, translating the parameters that name something the catalog has
+ * its own words for.
+ */
+
+const MESSAGE_KEYS: Record<EngineMessageCode, MessageKey> = {
+  NOT_A_NUMBER: "error.notANumber",
+  AMBIGUOUS_NUMBER: "error.ambiguous",
+  NOT_A_WHOLE_NUMBER: "error.wholeNumber",
+  NOT_A_TIME: "error.notATime",
+  WEIGHT_INVALID: "error.weight",
+  HEIGHT_INVALID: "error.height",
+  GESTATIONAL_AGE_RANGE: "error.gestationalAge",
+  GESTATIONAL_DAYS_RANGE: "error.gestationalDays",
+  POSTNATAL_AGE_INVALID: "error.postnatalAge",
+  POSTNATAL_AGE_MISMATCH: "error.postnatalAgeMismatch",
+  BIRTH_WEIGHT_INVALID: "error.birthWeight",
+  FACTOR_CONFLICT: "error.factorConflict",
+  BURN_PERCENT_INVALID: "error.burnPercent",
+  BURN_REGION_TOTAL: "error.burnRegionTotal",
+  BURN_REGIONS_MISSING: "error.burnRegionsMissing",
+  EXPOSURE_HOURS: "error.exposureHours",
+  EXPOSURE_TIMES: "error.exposureTime",
+  EXPOSURE_WINDOW: "error.exposureWindow",
+  RELATIVE_HUMIDITY_RANGE: "error.relativeHumidity",
+  AIR_TEMPERATURE_RANGE: "error.airTemperature",
+  CARE_SETTING_FACTOR: "error.careSettingFactor",
+  LOW_HUMIDITY_REPLACED: "error.lowHumidityReplaced",
+  WEIGHT_LIMITS: "growth.weightRange",
+  HEIGHT_LIMITS: "growth.heightRange",
+  GROWTH_IMPLAUSIBLE: "growth.implausible",
+  GROWTH_OUTLIER: "growth.outlier",
+  AGE_NOT_ENTERED: "warning.ageNotEntered",
+  TEMPERATURE_NOT_ENTERED: "warning.temperatureNotEntered",
+  RR_NOT_ENTERED: "warning.rrNotEntered",
+  AIR_TEMPERATURE_ASSUMED: "warning.airTemperatureAssumed",
+  POSTNATAL_AGE_ASSUMED: "warning.postnatalAgeAssumed",
+  BURN_AGE_BAND_ASSUMED: "warning.burnAgeBandAssumed",
+  HYPOTHERMIA: "warning.hypothermia",
+  RR_EXTRAPOLATED: "warning.rrExtrapolated",
+  IWL_CEILING: "warning.iwlCeiling",
+  URINE_OUTPUT_INVALID: "error.urineOutput",
+  URINE_OUTPUT_REQUIRED: "error.urineOutputRequired",
+  DEHYDRATION_RANGE: "error.dehydration",
+  ONGOING_LOSSES_INVALID: "error.ongoingLosses",
+  DEFICIT_FRACTION_RANGE: "error.deficitFraction",
+  FIRST_PHASE_HOURS_RANGE: "error.firstPhaseHours",
+  BALANCE_HOURS_LIMIT: "error.balanceHours",
+  BALANCE_VOLUME_INVALID: "error.balanceVolume",
+  BALANCE_THRESHOLD_INVALID: "error.balanceThreshold",
+  PROTOCOL_NOT_JSON: "error.protocolJson",
+  PROTOCOL_NOT_OBJECT: "error.protocolObject",
+  PROTOCOL_SCHEMA: "error.protocolSchema",
+  PROTOCOL_FIELD_REQUIRED: "error.protocolField",
+  PROTOCOL_DESCRIPTION: "error.protocolDescription",
+  PROTOCOL_COEFFICIENTS_MISSING: "error.protocolCoefficients",
+  PROTOCOL_COEFFICIENT_VALUE: "error.protocolCoefficientValue",
+  PROTOCOL_COEFFICIENT_RANGE: "error.protocolCoefficientRange",
+  PROTOCOL_COEFFICIENT_CITATION: "error.protocolCoefficientCitation",
+  PROTOCOL_BASE_IWL_ORDER: "error.protocolBaseOrder",
+  PROTOCOL_RR_BANDS_MISSING: "error.protocolBands",
+  PROTOCOL_RR_BAND_INVALID: "error.protocolBandInvalid",
+  PROTOCOL_RR_BAND_LABEL: "error.protocolBandLabel",
+  PROTOCOL_RR_BAND_RANGE: "error.protocolBandRange",
+  PROTOCOL_RR_BAND_OPEN: "error.protocolBandOpen",
+  PROTOCOL_RR_BAND_ORDER: "error.protocolBandOrder",
+  PROTOCOL_ID_RESERVED: "error.protocolReserved",
+  SENSITIVITY_RANGE: "error.sensitivityRange",
+  MONTE_CARLO_ITERATIONS: "error.monteCarloIterations",
+  SHARE_LINK_VERSION: "error.shareLinkVersion",
+  SHARE_LINK_VALUE: "error.shareLinkValue",
+  SHARE_LINK_REGION: "error.shareLinkRegion",
+  SHARE_LINK_PROTOCOL: "error.shareLinkProtocol",
+  CSV_UNCLOSED_QUOTE: "error.csvQuote",
+  CSV_EMPTY: "error.csvEmpty",
+  CSV_DUPLICATE_COLUMN: "error.csvDuplicateColumn",
+  CSV_EMPTY_COLUMN: "error.csvEmptyColumn",
+  CSV_FIELD_COUNT: "error.csvFieldCount",
+  JSON_INVALID: "error.jsonInvalid",
+  JSON_NOT_ARRAY: "error.jsonNotArray",
+  JSON_ROW_NOT_OBJECT: "error.jsonRowObject",
+  JSON_ROW_VALUE: "error.jsonRowValue",
+  UNKNOWN_CHOICE: "error.unknownChoice",
+  UNKNOWN_FACTOR: "error.unknownFactor",
+  FHIR_UNIT: "error.fhirUnit",
+  FHIR_BIRTH_DATE: "error.fhirBirthDate"
+};
+
+const FIELD_KEYS: MessageKey[] = [
+  "field.weight",
+  "field.weightOunces",
+  "field.height",
+  "field.temperature",
+  "field.respiratoryRate",
+  "field.ageYears",
+  "field.ageMonths",
+  "field.relativeHumidity",
+  "field.airTemperature",
+  "field.birthWeight",
+  "field.gestationalWeeks",
+  "field.gestationalDays",
+  "field.postnatalAge"
+];
+
+const isFactor = (value: string): value is FactorKey => value in FACTOR_LABELS;
+
+// The engine uses region and chart field names mid-sentence; English keeps the catalog's capitalisation
+// only where a name starts one.
+const midSentence = (name: string, i18n: I18n) => i18n.language === "en" ? name.toLowerCase() : name;
+
+const regionName = (id: string, i18n: I18n) =>
+  LUND_BROWDER_REGIONS.some(region => region.id === id) ? midSentence(i18n.t(`burns.region.${id}` as MessageKey), i18n) : id;
+
+const factorName = (key: string, i18n: I18n) => isFactor(key) ? i18n.t(`factor.${key}`) : key;
+
+/** Translates a form field label used in parsing messages and unit conversions, e.g. "Weight (oz)". */
+export const translateFieldLabel = (label: string, i18n: I18n) => {
+  const key = FIELD_KEYS.find(candidate => en[candidate] === label);
+  if (key) return i18n.t(key);
+  const burn = /^(.+) \((partial|full)\)$/.exec(label);
+  const region = burn && LUND_BROWDER_REGIONS.find(candidate => candidate.label === burn[1]);
+  if (burn && region) {
+    return i18n.t(burn[2] === "partial" ? "field.burnPartial" : "field.burnFull", { region: regionName(region.id, i18n) });
+  }
+  const exposure = /^(.+) (exposure \(hours\)|start|stop)$/.exec(label);
+  const factor = exposure && (Object.keys(FACTOR_LABELS) as FactorKey[]).find(candidate => FACTOR_LABELS[candidate] === exposure[1]);
+  if (exposure && factor) {
+    const key = exposure[2] === "start" ? "field.exposureStart" : exposure[2] === "stop" ? "field.exposureStop" : "field.exposureHours";
+    return i18n.t(key, { factor: factorName(factor, i18n) });
+  }
+  return label;
+};
+
+const translateParam = (name: string, value: string | number | boolean, i18n: I18n): string | number => {
+  if (typeof value !== "string") return typeof value === "number" ? value : String(value);
+  switch (name) {
+    case "field":
+      return translateFieldLabel(value, i18n);
+    case "factor":
+    case "first":
+    case "second":
+      return factorName(value, i18n);
+    case "region":
+      return regionName(value, i18n);
+    case "ageBand": {
+      const band = LUND_BROWDER_AGE_BANDS.find(candidate => candidate.label === value);
+      return band ? getBurnAgeBandLabel(band, i18n) : value;
+    }
+    case "vital":
+      return FHIR_VITAL_IDS.includes(value as FhirVital) ? i18n.t(`fhir.vital.${value as FhirVital}`) : value;
+    case "entry":
+      return midSentence(i18n.t(`balance.field.${value as BalanceFieldKey}`), i18n);
+    case "unit":
+      return value === en["protocol.breathsPerMinute"] ? i18n.t("protocol.breathsPerMinute") : value;
+    default:
+      // Text echoed from the input, such as a typed value, a column name or a profile id.
+      return value;
+  }
+};
+
+const growthDescription = ({ indicator, z, reference, sexEntered }: EngineMessageParams, i18n: I18n) =>
+  i18n.t("growth.description", {
+    indicator: i18n.t(`growth.indicator.${indicator as GrowthIndicator}`),
+    z: `${Number(z) >= 0 ? "+" : ""}${i18n.fixed(Number(z), 1)}`,
+    reference: sexEntered ? String(reference) : i18n.t("growth.referenceNoSex", { reference: String(reference) })
+  });
+
+export const translateEngineMessage = (message: EngineMessage, i18n: I18n): string => {
+  const key = MESSAGE_KEYS[message.code];
+  // Growth alerts and warnings saved before messages carried their code and values are shown as saved.
+  if (!key || !message.params) return message.message;
+  const params: MessageParams = Object.fromEntries(
+    Object.entries(message.params).map(([name, value]) => [name, translateParam(name, value, i18n)])
+  );
+  if (message.code === "GROWTH_IMPLAUSIBLE" || message.code === "GROWTH_OUTLIER") {
+    params.description = growthDescription(message.params, i18n);
+  }
+  return i18n.t(key, params);
+};
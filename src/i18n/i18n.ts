@@ -0,0 +1,100 @@
+import type { EngineMessage } from "../engine";
+import { translateEngineMessage } from "./engineMessages";
+import { ar } from "./messages/ar";
+import { en, MessageKey, Messages } from "./messages/en";
+import { fr } from "./messages/fr";
+
+/**
+ * Message catalogs and locale-aware number display. Language and digit style are chosen separately:
+ * Arabic is read with Western digits in much of the Maghreb and with Eastern Arabic digits elsewhere.
+ */
+
+export type Language = "en" | "fr" | "ar";
+export type NumeralSystem = "latn" | "arab";
+export type MessageParams = Record<string, string | number>;
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: "English",
+  fr: "Français",
+  ar: "العربية"
+};
+
+export const LANGUAGES = Object.keys(LANGUAGE_LABELS) as Language[];
+
+export const NUMERAL_SYSTEMS: NumeralSystem[] = ["latn", "arab"];
+
+const CATALOGS: Record<Language, Messages> = { en, fr, ar };
+
+const RTL_LANGUAGES: Language[] = ["ar"];
+
+export interface I18n {
+  language: Language;
+  numerals: NumeralSystem;
+  dir: "ltr" | "rtl";
+  // Numeric parameters are formatted with num(); digits written into the catalog text follow the digit style.
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // A fixed number of decimals, like toFixed.
+  fixed: (value: number, decimals: number) => string;
+  // Up to maxDecimals with trailing zeros dropped, like the engine's formatNumber.
+  num: (value: number, maxDecimals?: number) => string;
+  // Re-renders the numbers inside text the engine has already formatted, such as "603.0" or a BSA formula.
+  digits: (text: string) => string;
+  // Renders an engine validation error, growth alert or safety warning from its code.
+  message: (message: EngineMessage) => string;
+}
+
+export const isLanguage = (value: unknown): value is Language => typeof value === "string" && value in LANGUAGE_LABELS;
+
+export const isNumeralSystem = (value: unknown): value is NumeralSystem =>
+  typeof value === "string" && NUMERAL_SYSTEMS.includes(value as NumeralSystem);
+
+/** The catalog language matching a BCP 47 tag such as "fr-CA", or English. */
+export const getLanguageForLocale = (locale: string): Language => {
+  const base = locale.split("-")[0].toLowerCase();
+  return isLanguage(base) ? base : "en";
+};
+
+export const createI18n = (language: Language, numerals: NumeralSystem): I18n => {
+  const tag = `${language}-u-nu-${numerals}`;
+  const formatters = new Map<string, Intl.NumberFormat>();
+  const format = (value: number, minDecimals: number, maxDecimals: number) => {
+    const key = `${minDecimals}-${maxDecimals}`;
+    let formatter = formatters.get(key);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(tag, {
+        useGrouping: false,
+        minimumFractionDigits: minDecimals,
+        maximumFractionDigits: maxDecimals
+      });
+      formatters.set(key, formatter);
+    }
+    return formatter.format(value);
+  };
+
+  const fixed = (value: number, decimals: number) => format(value, decimals, decimals);
+  const num = (value: number, maxDecimals = 3) => format(value, 0, maxDecimals);
+  const decimalSeparator = new Intl.NumberFormat(tag).formatToParts(1.5).find(part => part.type === "decimal")?.value ?? ".";
+  const toNumerals = (text: string) => numerals === "latn" ? text : text.replace(/[0-9]/g, digit => format(Number(digit), 0, 0));
+  // Digit by digit, so leading zeros and the number of decimals survive.
+  const digits = (text: string) =>
+    text.replace(/\d+(?:\.\d+)?/g, match => toNumerals(match).replace(".", decimalSeparator));
+
+  const t = (key: MessageKey, params: MessageParams = {}) =>
+    toNumerals(CATALOGS[language][key]).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === "number" ? num(value) : value;
+    });
+
+  const i18n: I18n = {
+    language,
+    numerals,
+    dir: RTL_LANGUAGES.includes(language) ? "rtl" : "ltr",
+    t,
+    fixed,
+    num,
+    digits,
+    message: message => translateEngineMessage(message, i18n)
+  };
+  return i18n;
+};
@@ -0,0 +1,5 @@
+export * from "./i18n";
+export * from "./engineMessages";
+export * from "./labels";
+export * from "./context";
+export type { MessageKey, Messages } from "./messages/en";
@@ -0,0 +1,26 @@
+import {
+  LUND_BROWDER_AGE_BANDS,
+  LundBrowderAgeBand,
+  MIN_GESTATIONAL_AGE_WEEKS,
+  NEONATAL_IWL_TABLE,
+  NeonatalBand
+} from "../engine";
+import type { I18n } from "./i18n";
+import { MessageKey } from "./messages/en";
+
+/**
+ * Engine bands carry English labels. Bands are matched by label rather than identity because results
+ * restored from saved sessions hold copies.
+ */
+
+export const getNeonatalBandLabel = (band: NeonatalBand, { t, digits }: I18n) => {
+  const index = NEONATAL_IWL_TABLE.findIndex(candidate => candidate.label === band.label);
+  if (index === -1) return digits(band.label);
+  const min = index === 0 ? MIN_GESTATIONAL_AGE_WEEKS : NEONATAL_IWL_TABLE[index - 1].maxWeeks;
+  return t("neonatal.band", { min, max: band.maxWeeks - 1 });
+};
+
+export const getBurnAgeBandLabel = (band: LundBrowderAgeBand, { t, digits }: I18n) => {
+  const index = LUND_BROWDER_AGE_BANDS.findIndex(candidate => candidate.label === band.label);
+  return index === -1 ? digits(band.label) : t(`burns.ageBand.${index}` as MessageKey);
+};
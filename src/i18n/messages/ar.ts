@@ -0,0 +1,562 @@
+import { Messages } from "./en";
+
+export const ar: Messages = {
+  "app.title": "حاسبة فقد الماء غير المحسوس للأطفال",
+  "app.subtitle": "حاسبة مبنية على الأدلة لفقد الماء غير المحسوس لدى مرضى الأطفال",
+  "language.label": "اللغة",
+  "language.numerals": "الأرقام",
+  "language.numerals.latn": "غربية ({digits})",
+  "language.numerals.arab": "عربية مشرقية ({digits})",
+
+  "pwa.offline": "غير متصل — تبقى الحسابات والجلسات المحفوظة والإعدادات متاحة على هذا الجهاز.",
+  "pwa.updateAvailable": "يتوفر إصدار جديد من الحاسبة.",
+  "pwa.reload": "إعادة التحميل للتحديث",
+
+  "unit.ml": "مل",
+  "unit.mlPerDay": "مل/يوم",
+  "unit.mlPerHour": "مل/ساعة",
+  "unit.mlPerKgPerDay": "مل/كغ/يوم",
+  "unit.mlPerM2PerDay": "مل/م²/يوم",
+
+  "form.title": "بيانات المريض",
+  "form.decimalSeparator": "الفاصلة العشرية",
+  "form.decimalSeparator.device": "إعداد الجهاز ({locale})",
+  "form.decimalSeparator.point": "نقطة ({example})",
+  "form.decimalSeparator.comma": "فاصلة ({example})",
+  "form.weight": "الوزن ({unit})",
+  "form.weight.placeholder": "أدخل الوزن",
+  "form.height": "الطول ({unit})",
+  "form.height.placeholder": "أدخل الطول",
+  "form.optional": "(اختياري)",
+  "form.bsaFormula": "معادلة مساحة سطح الجسم",
+  "form.optionalParameters": "معطيات اختيارية",
+  "form.temperature": "الحرارة ({unit})",
+  "form.respiratoryRate": "معدل التنفس",
+  "form.respiratoryRate.placeholder": "أدخل معدل التنفس",
+  "form.age": "عمر المريض",
+  "form.age.years": "سنوات",
+  "form.age.months": "أشهر",
+  "form.age.hint": "مثال: لمريض عمره سنتان و8 أشهر، أدخل «2» في السنوات و«8» في الأشهر",
+  "form.sex": "الجنس",
+  "form.sex.none": "غير محدد",
+  "form.sex.male": "ذكر",
+  "form.sex.female": "أنثى",
+  "form.sex.hint": "يُستخدم مع العمر لمقارنة الوزن والطول بمرجعيات النمو لمنظمة الصحة العالمية ومراكز CDC",
+  "form.example": "مثلًا {value}",
+  "form.neonatal": "بيانات حديثي الولادة (الخدج)",
+  "form.neonatal.gaWeeks": "عمر الحمل (أسابيع)",
+  "form.neonatal.gaDays": "عمر الحمل (أيام)",
+  "form.neonatal.postnatalDays": "العمر بعد الولادة (أيام)",
+  "form.neonatal.birthWeight": "وزن الولادة (غ)",
+  "form.neonatal.active": "وليد خديج: سيُقدَّر الفقد غير المحسوس من جدول عمر الحمل (مل/كغ/يوم) بدلًا من مساحة سطح الجسم",
+  "form.neonatal.hint": "اتركه فارغًا للرضع المكتملين والأطفال. يُستخدم جدول عمر الحمل للرضع دون 37 أسبوعًا خلال 28 يومًا من الولادة؛ ويؤخذ العمر بعد الولادة من حقول العمر إذا تُرك فارغًا",
+  "form.environment": "بيئة الرعاية",
+  "form.careSetting": "نوع الرعاية",
+  "form.humidity.incubator": "رطوبة الحاضنة (% رطوبة نسبية)",
+  "form.humidity.ambient": "الرطوبة المحيطة (% رطوبة نسبية)",
+  "form.airTemperature": "حرارة الهواء ({unit})",
+  "form.airTemperature.placeholder": "{value} °م إذا تُرك فارغًا",
+  "form.environment.hint": "الرطوبة دون 50% تزيد الفقد الجلدي بالتبخر وفوق 50% تنقصه؛ اتركه فارغًا لعدم التعديل",
+  "form.adjustments": "تعديلات إضافية",
+  "form.calculate": "احسب الفقد غير المحسوس",
+
+  "factor.phototherapy": "العلاج الضوئي",
+  "factor.radiantWarmer": "المدفأة الإشعاعية",
+  "factor.burns": "الحروق",
+  "factor.phototherapy.explanation": "يزيد العلاج الضوئي بالضوء الأزرق لعلاج اليرقان الفقدَ غير المحسوس بنسبة {percent} بسبب زيادة التروية الجلدية وإنتاج الحرارة.",
+  "factor.radiantWarmer.explanation": "تزيد المدافئ الإشعاعية الفقدَ غير المحسوس بنسبة {percent} بسبب ارتفاع الحرارة المحيطة وتأثير الحرارة الإشعاعية المباشر على حرارة الجلد.",
+  "factor.burns.explanation": "تزيد الحروق الفقدَ غير المحسوس بما يتناسب مع المساحة المحروقة بسبب فقدان وظيفة الحاجز الجلدي. سجّل المناطق المحروقة على مخطط لوند وبراودر لتقدير النسبة من مساحة سطح الجسم.",
+  "factor.ventilation": "التهوية الآلية (غاز مرطَّب)",
+  "factor.cpap": "الضغط الإيجابي المستمر / التدفق العالي (غاز مرطَّب)",
+  "factor.emollient": "مرهم عازل",
+  "factor.plasticWrap": "غلاف أو غطاء بلاستيكي",
+  "factor.abdominalWallDefect": "عيب مفتوح في جدار البطن",
+  "factor.skinDisease": "مرض جلدي واسع (انحلال البشرة الفقاعي، متلازمة الجلد المسموط)",
+  "factor.ventilation.explanation": "لا تترك التهوية عبر أنبوب رغامي بغاز مدفأ ومشبع بالرطوبة حتى حرارة الجسم تدرجًا يُذكر للتبخر من المجاري التنفسية، فينخفض الفقد التنفسي بنسبة {percent}.",
+  "factor.cpap.explanation": "يزيل الضغط الإيجابي المستمر أو التدفق الأنفي العالي المدفأ والمرطَّب معظم الفقد التنفسي، لكن التسرب من الفم يسمح بمرور جزء منه، فينخفض الفقد التنفسي بنسبة {percent}.",
+  "factor.emollient.explanation": "يقلل مرهم عازل مثل الفازلين الفقدَ عبر البشرة بنسبة {percent} ما دام على الجلد. اجعل عدد الساعات مدة بقائه.",
+  "factor.plasticWrap.explanation": "يحفظ الغلاف أو الكيس أو الغطاء البلاستيكي هواءً رطبًا ملاصقًا للجلد فيقلل الفقدَ عبر البشرة بنسبة {percent}.",
+  "factor.abdominalWallDefect.explanation": "تتبخر الأمعاء المكشوفة في انشقاق البطن أو أي عيب مفتوح آخر في جدار البطن بحرية حتى تُغطّى، فيزداد الفقد الجلدي بنسبة {percent}. ألغِ التحديد بعد وضع العيب في كيس أو إغلاقه.",
+  "factor.skinDisease.explanation": "يؤدي فقدان البشرة الواسع، كما في انحلال البشرة الفقاعي أو متلازمة الجلد المسموط بالمكورات العنقودية، إلى كسر الحاجز الجلدي فيزداد الفقد الجلدي بنسبة {percent}. استخدم مخطط الحروق بدلًا منه عند تحديد المساحة المكشوفة.",
+  "factor.excludes": "لا يُجمع مع {factors}؛ تحديده يلغي تحديدها.",
+  "factor.references": "المراجع:",
+  "exposure.label": "مدة التطبيق",
+  "exposure.mode.fullDay": "اليوم كله (24 ساعة)",
+  "exposure.mode.duration": "عدد من الساعات في اليوم",
+  "exposure.mode.window": "من وقت بدء إلى وقت توقف",
+  "exposure.hours": "ساعات في اليوم",
+  "exposure.start": "البدء",
+  "exposure.end": "التوقف",
+  "exposure.overnight": "وقت التوقف الأبكر من وقت البدء يمتد إلى ما بعد منتصف الليل.",
+
+  "careSetting.openCot": "مهد / سرير مفتوح",
+  "careSetting.radiantWarmer": "مدفأة إشعاعية",
+  "careSetting.incubator": "حاضنة",
+
+  "results.title": "النتائج",
+  "results.protocol": "البروتوكول: {protocol} · المحرك v{version}",
+  "results.neonatalMode": "وضع الخدج: {band}، اليوم {day} بعد الولادة",
+  "results.daily": "الفقد غير المحسوس اليومي",
+  "results.hourly": "الفقد غير المحسوس بالساعة",
+  "results.hourlyPeak": "الفقد غير المحسوس بالساعة، أعلى ساعة",
+  "results.hourlyAverage": "متوسط 24 ساعة: {low} – {high} مل/ساعة",
+  "results.howCalculated": "طريقة الحساب",
+
+  "warning.severity.critical": "حرج",
+  "warning.severity.warning": "تحذير",
+  "warning.severity.info": "افتراض",
+  "warning.ageNotEntered": "لم يُدخل العمر — طُبّق نطاق معدل التنفس لحديثي الولادة (حتى {max} نفس/دقيقة)",
+  "warning.temperatureNotEntered": "لم تُدخل الحرارة — لم يُطبّق تعديل الحمى",
+  "warning.rrNotEntered": "لم يُدخل معدل التنفس — لم يُطبّق تعديل معدل التنفس",
+  "warning.airTemperatureAssumed": "لم تُدخل حرارة الهواء — افتُرضت {temperature} °C، وهي المعتادة لبيئة الرعاية هذه",
+  "warning.postnatalAgeAssumed": "لم يُدخل العمر بعد الولادة — افتُرض اليوم 0، وهو يقرأ صف أعلى فقد في جدول عمر الحمل",
+  "warning.burnAgeBandAssumed": "لم يُدخل العمر — افتُرض جدول Lund–Browder «{ageBand}» للمساحة المحروقة",
+  "warning.hypothermia": "الحرارة {temperature} °C أقل من {limit} °C (انخفاض حرارة الجسم)؛ لا يُعدَّل الفقد غير المحسوس لانخفاض حرارة الجسم",
+  "warning.rrExtrapolated": "معدل التنفس {rate} نفس/دقيقة يتجاوز {ratio}× الحد الأعلى الطبيعي للعمر ({max})؛ تعديل معدل التنفس البالغ {adjustment} مل/يوم مُستقرأ دون حد أقصى",
+  "warning.iwlCeiling": "الفقد غير المحسوس الكلي حتى {perKg} مل/كغ/يوم يتجاوز {limit} مل/كغ/يوم؛ راجع المدخلات قبل استخدام هذا التقدير",
+
+  "steps.title": "الحساب خطوة بخطوة",
+  "steps.formula": "المعادلة:",
+  "steps.calculation": "الحساب:",
+  "steps.result": "النتيجة:",
+  "steps.method": "الطريقة:",
+  "steps.conversions": "القيم المُدخلة بعد تحويلها إلى الوحدات الدولية",
+  "steps.neonatalBase": "الخطوتان 1–2: الفقد الأساسي لحديثي الولادة",
+  "steps.neonatalMethod": "جدول عمر الحمل ({band}، اليوم {day}) — انظر حساب حديثي الولادة خطوة بخطوة",
+  "steps.bsa": "الخطوة 1: حساب مساحة سطح الجسم — {method}",
+  "steps.base": "الخطوة 2: حساب الفقد الأساسي",
+  "steps.fever": "الخطوة {step}: تطبيق تعديل الحمى",
+  "steps.rr": "الخطوة {step}: تطبيق تعديل معدل التنفس",
+  "steps.factors": "تعديلات العوامل الإضافية",
+  "steps.factorPercent": "{sign}{percent}% من الفقد الأساسي",
+  "steps.factorPercentSkin": "{sign}{percent}% من الفقد الجلدي ({low} – {high} مل/يوم)",
+  "steps.factorPercentRespiratory": "{sign}{percent}% من الفقد التنفسي ({low} – {high} مل/يوم)",
+  "steps.factorExposure": "× {hours} ساعة / 24 ساعة",
+  "steps.factorExposureWindow": "× {hours} ساعة / 24 ساعة ({start}–{end})",
+  "steps.compareBSA": "مقارنة معادلات مساحة سطح الجسم",
+  "steps.final": "الحساب النهائي",
+  "steps.low": "الحد الأدنى:",
+  "steps.high": "الحد الأعلى:",
+  "steps.hourly": "الفقد غير المحسوس بالساعة: {low} – {high} مل/ساعة",
+  "steps.hourlyNote": "(إجمالي الفقد اليومي ÷ 24 ساعة)",
+  "steps.hourlyNoteProfile": "(إجمالي الفقد اليومي ÷ 24 ساعة، كمتوسط على مدار اليوم؛ يبيّن المخطط الساعي كيف يتغير الفقد خلال اليوم)",
+
+  "formula.bsa": "مساحة سطح الجسم",
+  "formula.baseIWL": "الفقد الأساسي",
+  "formula.feverMultiplier": "معامل الحمى",
+  "formula.temperature": "الحرارة",
+  "formula.rrAdjustment": "تعديل التنفس",
+  "formula.rr": "معدل التنفس",
+  "formula.normalMaxRR": "الحد الأعلى الطبيعي للتنفس",
+  "formula.weight": "الوزن",
+  "formula.totalIWL": "إجمالي الفقد",
+  "formula.rate": "المعدل",
+  "formula.additionalAdjustments": "التعديلات الإضافية",
+  "formula.skinShare": "الحصة الجلدية",
+  "formula.adjustment": "التعديل",
+  "formula.perKg": "الفقد (مل/كغ/يوم)",
+  "formula.birthWeight": "وزن الولادة",
+  "formula.currentWeight": "الوزن الحالي",
+
+  "neonatal.title": "حساب حديثي الولادة خطوة بخطوة",
+  "neonatal.band": "{min}–{max} أسبوعًا",
+  "neonatal.step1": "الخطوة 1: فئة عمر الحمل",
+  "neonatal.gestationalAge": "عمر الحمل:",
+  "neonatal.gestationalAgeValue": "{weeks}+{days} أسبوعًا",
+  "neonatal.postnatalAge": "العمر بعد الولادة:",
+  "neonatal.day": "اليوم {day}",
+  "neonatal.dayFromAge": "(محسوب من العمر المُدخل)",
+  "neonatal.dayAssumed": "(مفترض: لم يُدخل العمر بعد الولادة)",
+  "neonatal.bandResult": "جدول {band} (خديج، دون 37 أسبوعًا، خلال 28 يومًا من الولادة)",
+  "neonatal.step2": "الخطوة 2: الاستيفاء حسب اليوم بعد الولادة",
+  "neonatal.tableRows": "صفوف الجدول:",
+  "neonatal.sources": "المصادر:",
+  "neonatal.tableRow": "اليوم {day}: {low}–{high} مل/كغ/يوم",
+  "neonatal.low": "الأدنى:",
+  "neonatal.high": "الأعلى:",
+  "neonatal.step3": "الخطوة 3: الضرب في الوزن",
+  "neonatal.note": "تفترض قيم الجدول رطوبة نسبية نحو 50% دون علاج ضوئي أو مدفأة إشعاعية (Hammarlund و Sedin؛ Bell و Oh). تُطبَّق الحمى ومعدل التنفس والعوامل الإضافية على هذا الأساس في الحساب الرئيسي.",
+
+  "humidity.title": "تعديل الرطوبة",
+  "humidity.environment": "البيئة:",
+  "humidity.environmentValue": "{setting}، رطوبة نسبية {humidity}%، حرارة الهواء {temperature} °م",
+  "humidity.assumed": " (القيمة المعتادة لهذا النوع من الرعاية؛ لم تُدخل)",
+  "humidity.axis": "الرطوبة النسبية",
+  "humidity.chart": "منحنى تعديل الرطوبة",
+  "humidity.note": "المنحنى لهواء بحرارة {air} °م وجلد بحرارة {skin} °م؛ ضغوط البخار بالكيلوباسكال. يفترض الفقد الأساسي رطوبة نسبية {reference}%. تخفض الحاضنات المرطّبة الفقد بالتبخر دون المرجع (Hammarlund و Sedin).",
+
+  "profile.title": "المخطط الساعي للفقد",
+  "profile.summary": "الأعلى {peakLow} – {peakHigh} مل/ساعة لمدة {peakHours} ساعة من اليوم؛ الأدنى {lowestLow} – {lowestHigh} مل/ساعة لمدة {lowestHours} ساعة.",
+  "profile.chart": "الفقد غير المحسوس للماء حسب ساعة اليوم",
+  "profile.low": "التقدير الأدنى",
+  "profile.high": "التقدير الأعلى",
+  "profile.average": "المتوسط اليومي (الأعلى)",
+  "profile.note": "لا تضيف العوامل المحددة بساعات تعديلها أو تطرحه إلا في الساعات التي تعمل فيها؛ ويوزَّع باقي الفقد بالتساوي على اليوم. وتوزَّع بالتساوي أيضًا الساعات المُدخلة دون وقتي بدء وتوقف.",
+  "components.title": "المكونان الجلدي والتنفسي",
+  "components.skin": "جلدي (عبر البشرة)",
+  "components.respiratory": "تنفسي",
+  "components.base": "حصة من الفقد الأساسي ({percent}%)",
+  "components.fever": "زيادة الحمى",
+  "components.respiratoryRate": "تعديل معدل التنفس",
+  "components.humidity": "تعديل الرطوبة",
+  "components.subtotal": "المجموع الفرعي",
+  "components.note": "يُقسم الفقد الأساسي وزيادة الحمى بين المسارين وفق النسبة الجلدية في البروتوكول، ويؤثر العلاج الضوئي والمدفأة الإشعاعية عبر الجلد. وتُحسب العوامل الجلدية من الفقد الجلدي بعد الحمى والرطوبة والعلاج الضوئي والمدفأة الإشعاعية، والعوامل التنفسية من الفقد التنفسي بعد الحمى ومعدل التنفس.",
+
+  "burns.title": "تقييم الحروق (لوند وبراودر، {band})",
+  "burns.hint": "أدخل النسبة المحروقة من كل منطقة بسماكة جزئية وكاملة. لا تُحتسب الحروق السطحية (البشروية).",
+  "burns.ageBandAssumed": "لم يُدخل العمر: يُفترض جدول «{band}». أدخل العمر لتتوافق نسب الرأس والساقين مع المريض.",
+  "burns.region": "المنطقة",
+  "burns.regionPercent": "المنطقة % من المساحة",
+  "burns.regionColumn": "المنطقة (% من المساحة)",
+  "burns.partial": "جزئي",
+  "burns.full": "كامل",
+  "burns.partialPercent": "جزئي %",
+  "burns.fullPercent": "كامل %",
+  "burns.partialLabel": "{region}، سماكة جزئية",
+  "burns.fullLabel": "{region}، سماكة كاملة",
+  "burns.total": "الإجمالي {tbsa}% من مساحة سطح الجسم",
+  "burns.tbsa": "{tbsa}% من المساحة",
+  "burns.factor": "{tbsa}% من المساحة (لوند وبراودر) × مساحة سطح الجسم × {rate} × 24",
+  "burns.evaporativeLoss": "الفقد بالتبخر:",
+  "burns.rateNote": "المعدل: {rate} مل/ساعة لكل 1% من المساحة لكل م². افتراضيًا يضيف الجلد المحروق نحو 1 مل/ساعة لكل 1% لكل م² مقارنة بالجلد السليم: (35 + النسبة المحروقة) × مساحة سطح الجسم مل/ساعة لدى الأطفال.",
+  "burns.resuscitation": "حجوم الإنعاش (للاسترشاد فقط، أول 24 ساعة)",
+  "burns.parkland": "باركلاند:",
+  "burns.galveston": "غالفستون:",
+  "burns.phases": "({first} مل في أول 8 ساعات، {next} مل خلال الـ16 ساعة التالية)",
+  "burns.galvestonFormula": "5000 مل/م² محروق + 2000 مل/م² من مساحة سطح الجسم",
+  "burns.resuscitationNote": "حجوم الإنعاش غير مشمولة في إجمالي الفقد غير المحسوس.",
+  "burns.group.head": "الرأس والعنق",
+  "burns.group.trunk": "الجذع",
+  "burns.group.arms": "الطرفان العلويان",
+  "burns.group.legs": "الطرفان السفليان",
+  "burns.ageBand.0": "أقل من سنة",
+  "burns.ageBand.1": "1–4 سنوات",
+  "burns.ageBand.2": "5–9 سنوات",
+  "burns.ageBand.3": "10–14 سنة",
+  "burns.ageBand.4": "15–17 سنة",
+  "burns.ageBand.5": "بالغ",
+  "burns.region.head": "الرأس",
+  "burns.region.neck": "العنق",
+  "burns.region.anteriorTrunk": "الجذع الأمامي",
+  "burns.region.posteriorTrunk": "الجذع الخلفي",
+  "burns.region.rightButtock": "الألية اليمنى",
+  "burns.region.leftButtock": "الألية اليسرى",
+  "burns.region.genitalia": "الأعضاء التناسلية",
+  "burns.region.rightUpperArm": "العضد الأيمن",
+  "burns.region.leftUpperArm": "العضد الأيسر",
+  "burns.region.rightLowerArm": "الساعد الأيمن",
+  "burns.region.leftLowerArm": "الساعد الأيسر",
+  "burns.region.rightHand": "اليد اليمنى",
+  "burns.region.leftHand": "اليد اليسرى",
+  "burns.region.rightThigh": "الفخذ الأيمن",
+  "burns.region.leftThigh": "الفخذ الأيسر",
+  "burns.region.rightLowerLeg": "الساق اليمنى",
+  "burns.region.leftLowerLeg": "الساق اليسرى",
+  "burns.region.rightFoot": "القدم اليمنى",
+  "burns.region.leftFoot": "القدم اليسرى",
+
+  "growth.title": "معقولية النمو (منظمة الصحة العالمية 0–2 سنة، CDC 2–20 سنة)",
+  "growth.none": "لم تُحسب أي درجات معيارية. يلزم العمر والجنس للمرجعيات المعتمدة على العمر، وهي لا تنطبق على الخدج.",
+  "growth.indicator": "المؤشر",
+  "growth.reference": "المرجع",
+  "growth.median": "الوسيط",
+  "growth.zScore": "الدرجة المعيارية",
+  "growth.percentile": "المئين",
+  "growth.sex.male": "ذكر",
+  "growth.sex.female": "أنثى",
+  "growth.sexNotEntered": "الجنس غير مُدخل",
+  "growth.referenceNoSex": "{reference}، الجنس غير مُدخل",
+  "growth.indicator.weightForAge": "الوزن مقابل العمر",
+  "growth.indicator.lengthForAge": "الطول مقابل العمر",
+  "growth.indicator.weightForLength": "الوزن مقابل الطول",
+  "growth.description": "{indicator} z = {z} ({reference})",
+  "growth.weightRange": "الوزن {value} كغ خارج المدى الممكن ({min}–{max} كغ). تحقق من القيمة والوحدات.",
+  "growth.heightRange": "الطول {value} سم خارج المدى الممكن ({min}–{max} سم). تحقق من القيمة والوحدات.",
+  "growth.implausible": "{description} غير معقول بيولوجيًا. تحقق من الوزن والطول والعمر والوحدات.",
+  "growth.outlier": "{description} خارج ±{limit}. يرجى تأكيد القياس.",
+
+  "bsa.formula": "المعادلة",
+  "bsa.bsa": "مساحة سطح الجسم (م²)",
+  "bsa.daily": "الفقد اليومي (مل/يوم)",
+  "bsa.delta": "Δ الأدنى مقابل المختار",
+
+  "export.copyNote": "نسخ الملاحظة",
+  "export.print": "طباعة التقرير",
+  "export.copied": "نُسخت الملاحظة السريرية إلى الحافظة",
+  "export.copyBlocked": "تم حظر الوصول إلى الحافظة؛ استخدم تصدير JSON أو الطباعة بدلًا من ذلك",
+
+  "share.title": "مشاركة هذا الحساب",
+  "share.hint": "امسح الرمز على جهاز آخر أو انسخ الرابط. يحتوي على القيم المدخلة فقط، دون أي معرّفات للمريض.",
+  "share.copy": "نسخ الرابط",
+  "share.copied": "تم نسخ الرابط إلى الحافظة",
+  "share.copyBlocked": "تم حظر الوصول إلى الحافظة؛ انسخ الرابط من شريط العنوان بعد فتحه",
+  "share.qr": "رمز QR يفتح هذا الحساب",
+
+  "sensitivity.title": "تحليل الحساسية",
+  "sensitivity.hint": "تُنقل كل قيمة مُدخلة إلى طرفي مداها، ويُوقف كل عامل ثم يُشغّل، كلٌّ على حدة. تُظهر الأشرطة التغير في الفقد اليومي غير المحسوس.",
+  "sensitivity.range": "{field} ± ({unit})",
+  "sensitivity.baseline": "القيمة المرجعية: {low} – {high} مل/يوم",
+  "sensitivity.chart": "مخطط إعصاري للتغير في الفقد اليومي لكل مُدخل",
+  "sensitivity.axis": "التغير في الفقد اليومي (مل/يوم)",
+  "sensitivity.decrease": "قيمة أدنى / العامل متوقف",
+  "sensitivity.increase": "قيمة أعلى / العامل مُشغّل",
+  "sensitivity.lowEstimate": "التقدير الأدنى",
+  "sensitivity.highEstimate": "التقدير الأعلى",
+  "sensitivity.input": "المُدخل",
+  "sensitivity.tested": "القيم المختبرة",
+  "sensitivity.offOn": "متوقف / مُشغّل",
+  "sensitivity.notCalculable": "غير قابل للحساب",
+  "sensitivity.skipped": "لم تُغيَّر (غير مُدخلة): {inputs}",
+  "sensitivity.factorSkipped": "لم يُبدَّل {factor}: {reason}",
+  "sensitivity.monteCarlo": "مونت كارلو",
+  "sensitivity.monteCarloHint": "تُسحب كل القيم المُدخلة عشوائيًا من مداها في آن واحد؛ وتبقى العوامل كما أُدخلت.",
+  "sensitivity.iterations": "عدد المحاولات",
+  "sensitivity.run": "تشغيل مونت كارلو",
+  "sensitivity.median": "التقدير المركزي (الوسيط)",
+  "sensitivity.band": "المئين 5–95",
+  "sensitivity.samples": "حُسبت {samples} من {iterations} محاولة",
+  "sensitivity.noSamples": "تعذّر حساب أي محاولة؛ ضيّق المدى.",
+
+  "plan.title": "مخطط السوائل لمدة 24 ساعة",
+  "plan.basis": "أساس سوائل الصيانة",
+  "plan.basis.hollidaySegar": "صيانة هوليداي–سيغار",
+  "plan.basis.insensiblePlusUrine": "الفقد غير المحسوس + إدرار البول",
+  "plan.urineOutput": "إدرار البول (مل/كغ/ساعة)",
+  "plan.dehydration": "الجفاف (%)",
+  "plan.ongoingLosses": "الفقد المستمر الهضمي/من المفجر (مل/يوم)",
+  "plan.firstPhaseHours": "مدة المرحلة 1 لتعويض العجز (ساعات)",
+  "plan.firstPhasePercent": "العجز المعطى في المرحلة 1 (%)",
+  "plan.total": "الحجم اليومي الكلي",
+  "plan.hourly": "المعدل الساعي الوسطي",
+  "plan.maintenance": "الخطوة 1: الصيانة ({basis})",
+  "plan.hollidaySegarFormula": "100 مل/كغ (أول 10 كغ) + 50 مل/كغ (الـ10 كغ التالية) + 20 مل/كغ (لكل كغ فوق 20)",
+  "plan.hollidaySegarResult": "الصيانة = {volume} مل/يوم (تشمل الفقد غير المحسوس والبولي)",
+  "plan.hollidaySegarIgnoresIWL": "يعتمد هوليداي–سيغار على الوزن فقط: تقدير الفقد غير المحسوس البالغ {range} مل/يوم والعوامل المؤثرة فيه لا تغيّر هذه الخطة",
+  "plan.insensibleFormula": "الصيانة = الفقد غير المحسوس + إدرار البول × الوزن × 24",
+  "plan.maintenanceResult": "الصيانة = {low} – {high} مل/يوم",
+  "plan.hollidaySegarReference": "هوليداي–سيغار للمقارنة: {volume} مل/يوم",
+  "plan.deficitStep": "الخطوة 2: العجز والفقد المستمر",
+  "plan.deficit": "العجز:",
+  "plan.deficitFormula": "{percent}% × {weight} كغ × 10 مل = {volume} مل",
+  "plan.ongoing": "الفقد المستمر:",
+  "plan.totalStep": "الخطوة 3: الإجمالي والمعدل الساعي",
+  "plan.totalFormula": "الإجمالي = الصيانة + العجز + الفقد المستمر",
+  "plan.totalResult": "{low} – {high} مل/يوم ÷ 24 = {hourlyLow} – {hourlyHigh} مل/ساعة",
+  "plan.schedule": "الجدول المقترح",
+  "plan.phase": "المرحلة {phase} (الساعة {start}–{end}):",
+  "plan.steadyRate": "معدل ثابت (الساعة {start}–{end}):",
+  "plan.phaseDeficit": "(تشمل {volume} مل من العجز)",
+
+  "balance.title": "ميزان السوائل الساعي",
+  "balance.startHour": "يبدأ الجدول عند",
+  "balance.threshold": "التنبيه عند تجاوز العجز التراكمي (مل/كغ)",
+  "balance.thresholdField": "حد العجز",
+  "balance.cell": "{hour} {entry}",
+  "balance.hour": "الساعة",
+  "balance.iwl": "الفقد غير المحسوس",
+  "balance.net": "الصافي",
+  "balance.running24": "تراكمي 24 ساعة",
+  "balance.range": "{low} إلى {high}",
+  "balance.addHour": "إضافة ساعة",
+  "balance.removeHour": "حذف الساعة الأخيرة",
+  "balance.flagged": "الميزان المقدّر أقل من −{threshold} مل عند {hours}",
+  "balance.runningNet": "الصافي التراكمي لـ{hours} ساعة",
+  "balance.overTime": "الميزان عبر الزمن",
+  "balance.chart": "مخطط ميزان السوائل (مل)",
+  "balance.legend.hourly": "الصافي الساعي (الفقد المرتفع)",
+  "balance.legend.runningHigh": "تراكمي 24 ساعة، الفقد المرتفع",
+  "balance.legend.runningLow": "تراكمي 24 ساعة، الفقد المنخفض",
+  "balance.legend.threshold": "حد التنبيه",
+  "balance.note": "الصافي = الوارد − الصادر المقاس − الفقد غير المحسوس (نتيجة الفقد لكل ساعة؛ {low}–{high} مل/ساعة في المتوسط). المجاميع حتى الآن: الوارد {intake} مل، الصادر المقاس {output} مل.",
+  "balance.field.iv": "وريدي",
+  "balance.field.enteral": "معوي",
+  "balance.field.flush": "غسلات",
+  "balance.field.urine": "بول",
+  "balance.field.stool": "براز",
+  "balance.field.ng": "أنفي معدي",
+  "balance.field.drain": "مفجر",
+
+  "session.title": "جلسات المرضى",
+  "session.identifier": "معرّف جديد أو موجود",
+  "session.identifierExample": "مثلًا سرير 4",
+  "session.identifierRequired": "يرجى إدخال معرّف المريض",
+  "session.open": "فتح",
+  "session.saved": "الجلسات المحفوظة",
+  "session.none": "لم تُحدَّد جلسة",
+  "session.save": "حفظ النتيجة الحالية في «{session}»",
+  "session.delete": "حذف الجلسة",
+  "session.confirmDelete": "حذف الجلسة «{session}» وكل حساباتها؟",
+  "session.trend": "اتجاه الفقد غير المحسوس",
+  "session.scale.daily": "يومي (مل/يوم)",
+  "session.scale.hourly": "ساعي (مل/ساعة)",
+  "session.time": "الوقت",
+  "session.factors": "العوامل",
+  "session.load": "تحميل في الحاسبة",
+  "session.deleteCalculation": "حذف",
+  "session.empty": "لا توجد حسابات محفوظة بعد.",
+  "session.chart": "اتجاه الفقد غير المحسوس ({unit})",
+  "session.low": "منخفض",
+  "session.high": "مرتفع",
+  "session.factorChange": "عامل شُغّل (+) أو أُوقف (−)",
+
+  "print.title": "تقرير فقد الماء غير المحسوس",
+  "print.generated": "أُنشئ في {time} · البروتوكول {protocol} · المحرك v{version}",
+  "print.activeFactors": "العوامل النشطة",
+  "print.noFactors": "لا يوجد",
+  "print.chartText": "تُطبع الملاحظة السريرية والحساب خطوة بخطوة باللغة الإنجليزية كما تُنسخ إلى الملف الطبي.",
+
+  "view.calculator": "الحاسبة",
+  "view.board": "لوحة الوحدة",
+
+  "board.title": "لوحة الوحدة",
+  "board.hint": "كل جلسة مريض محفوظة مع آخر حساب محفوظ لها. تغيير أحد العوامل يعيد حساب الصف ويحفظه في جلسة المريض.",
+  "board.filterBed": "السرير أو المعرّف",
+  "board.filterFactor": "العامل النشط",
+  "board.allFactors": "جميع المرضى",
+  "board.sort": "الترتيب حسب",
+  "board.sort.bed": "السرير",
+  "board.sort.factors": "الأكثر عوامل نشطة",
+  "board.sort.iwl": "أعلى فقد غير محسوس يومي",
+  "board.sort.warnings": "أخطر تنبيه",
+  "board.bed": "السرير",
+  "board.patient": "المريض",
+  "board.weight": "الوزن (كغ)",
+  "board.factors": "العوامل",
+  "board.warnings": "التنبيهات",
+  "board.noWarnings": "لا يوجد",
+  "board.saved": "حُفظ {time}",
+  "board.noCalculation": "لم يُحفظ أي حساب بعد",
+  "board.open": "فتح في الحاسبة",
+  "board.empty": "لا توجد جلسات مرضى بعد. احفظ حسابًا في جلسة من الحاسبة لإضافة مريض.",
+  "board.noMatch": "لا يوجد مرضى مطابقون لعوامل التصفية.",
+  "board.storageError": "التخزين المحلي غير متاح في هذا المتصفح",
+
+  "fhir.title": "بيانات السجل الصحي (SMART on FHIR)",
+  "fhir.authorizing": "جارٍ الاتصال بالسجل الصحي…",
+  "fhir.loading": "جارٍ تحميل بيانات المريض من السجل الصحي…",
+  "fhir.failed": "فشل تشغيل SMART: {error}",
+  "fhir.patient": "المريض: {name}",
+  "fhir.hint": "مُلئ النموذج من أحدث سجلات السجل الصحي. تحقق من كل قيمة قبل الحساب؛ تعديل الحقل لا يغيّر السجل.",
+  "fhir.field": "القياس",
+  "fhir.value": "القيمة",
+  "fhir.measuredAt": "وقت القياس",
+  "fhir.source": "المصدر",
+  "fhir.record": "السجل",
+  "fhir.birthDate": "تاريخ الميلاد",
+  "fhir.notRecorded": "غير مسجّل",
+  "fhir.missing": "غير موجود في السجل الصحي: {fields}",
+  "fhir.vital.weight": "وزن الجسم",
+  "fhir.vital.height": "طول الجسم",
+  "fhir.vital.temperature": "درجة حرارة الجسم",
+  "fhir.vital.respiratoryRate": "معدل التنفس",
+  "fhir.write": "حفظ تقدير الفقد غير المحسوس في السجل الصحي",
+  "fhir.writeHint": "يحفظ مدى الفقد غير المحسوس اليومي ومكوّناته كـ Observation مرتبطة بالسجلات أعلاه.",
+  "fhir.writing": "جارٍ الحفظ…",
+  "fhir.written": "حُفظ باسم {reference}",
+  "fhir.writeFailed": "تعذّر الحفظ في السجل الصحي: {error}",
+
+  "protocol.title": "ملف البروتوكول",
+  "protocol.load": "تحميل JSON",
+  "protocol.download": "تنزيل هذا الملف بصيغة JSON",
+  "protocol.remove": "إزالة هذا الملف",
+  "protocol.values": "المعاملات والمراجع",
+  "protocol.coefficient": "المعامل",
+  "protocol.value": "القيمة",
+  "protocol.citation": "المرجع",
+  "protocol.normalRR": "معدل التنفس الطبيعي، {band}",
+  "protocol.breathsPerMinute": "نفس/دقيقة",
+
+  "references.title": "المراجع العلمية",
+  "disclaimer.title": "إخلاء المسؤولية الطبية",
+  "disclaimer.important": "هام: ",
+  "disclaimer.0": "هذه الحاسبة لأغراض تعليمية وإعلامية فقط. قد لا تكون المعلومات المقدمة دقيقة ولا ينبغي اعتبارها نصيحة طبية. استشر دائمًا أخصائي رعاية صحية مؤهلًا أو طبيب حديثي ولادة قبل اتخاذ أي قرار سريري.",
+  "disclaimer.1": "لا تحل هذه الأداة محل الحكم الطبي المهني أو التقييم السريري أو البروتوكولات المعتمدة. يجب على مقدمي الرعاية الصحية التحقق من جميع الحسابات ومراعاة عوامل المريض الفردية وإرشادات المؤسسة والممارسات الحالية المبنية على الأدلة.",
+  "disclaimer.2": "استخدام هذه الحاسبة على مسؤوليتك الخاصة. لا يتحمل المطورون أي مسؤولية عن القرارات السريرية المتخذة بناءً على هذه الأداة.",
+
+  "field.weight": "الوزن",
+  "field.weightOunces": "الوزن (أونصة)",
+  "field.height": "الطول",
+  "field.temperature": "الحرارة",
+  "field.respiratoryRate": "معدل التنفس",
+  "field.ageYears": "العمر (سنوات)",
+  "field.ageMonths": "العمر (أشهر)",
+  "field.relativeHumidity": "الرطوبة النسبية",
+  "field.airTemperature": "حرارة الهواء",
+  "field.birthWeight": "وزن الولادة",
+  "field.gestationalWeeks": "عمر الحمل (أسابيع)",
+  "field.gestationalDays": "عمر الحمل (أيام)",
+  "field.postnatalAge": "العمر بعد الولادة",
+  "field.burnPartial": "{region} (جزئي)",
+  "field.burnFull": "{region} (كامل)",
+  "field.exposureHours": "{factor} – المدة (ساعات)",
+  "field.exposureStart": "{factor} – البدء",
+  "field.exposureStop": "{factor} – التوقف",
+
+  "error.notANumber": "{field}: «{text}» ليس رقمًا صالحًا",
+  "error.ambiguous": "{field}: «{text}» ملتبس — أدخل {whole} أو {decimal}",
+  "error.wholeNumber": "{field}: «{text}» يجب أن يكون عددًا صحيحًا",
+  "error.weight": "يرجى إدخال وزن صالح (كغ)",
+  "error.height": "يرجى إدخال طول صالح (سم)",
+  "error.gestationalAge": "يرجى إدخال عمر حمل بين {min} و{max} أسبوعًا",
+  "error.gestationalDays": "يرجى إدخال أيام عمر الحمل بين 0 و6",
+  "error.postnatalAge": "يرجى إدخال عمر صالح بعد الولادة (أيام)",
+  "error.postnatalAgeMismatch": "العمر بعد الولادة البالغ {days} يومًا لا يطابق العمر المُدخل البالغ {months} شهرًا؛ صحّح أحدهما أو امسح العمر",
+  "error.birthWeight": "يرجى إدخال وزن ولادة صالح (غ)",
+  "error.burnPercent": "يرجى إدخال نسب حروق صالحة لمنطقة {region}",
+  "error.burnRegionTotal": "لا يمكن أن تتجاوز المساحة المحروقة من منطقة {region} نسبة 100% من المنطقة",
+  "error.relativeHumidity": "يجب أن تكون الرطوبة النسبية بين 0 و100%",
+  "error.airTemperature": "يجب أن تكون حرارة الهواء بين {min} و{max} °م",
+  "error.careSettingFactor": "تتطلب بيئة الرعاية بالمدفأة الإشعاعية العامل «{factor}»؛ حدّده أو اختر بيئة رعاية أخرى",
+  "error.lowHumidityReplaced": "حُفظ هذا الحساب مع عامل الرطوبة المنخفضة الذي استُبدل بنموذج الرطوبة؛ أدخل الرطوبة النسبية وإلا فلن يُطبَّق أي تعديل للرطوبة",
+  "error.notATime": "{field}: «{text}» ليس وقتًا صالحًا (HH:MM)",
+  "error.exposureHours": "{factor}: يجب أن تكون المدة أكثر من 0 وألا تتجاوز 24 ساعة",
+  "error.exposureTime": "{factor}: يجب أن يكون وقتا البدء والتوقف بين 00:00 و23:59",
+  "error.exposureWindow": "{factor}: يجب أن يختلف وقتا البدء والتوقف",
+  "error.factorConflict": "لا يمكن الجمع بين {first} و{second}",
+  "error.shareLinkVersion": "إصدار الرابط المشترك «{version}» غير مدعوم؛ حدّث الحاسبة وافتح الرابط مرة أخرى",
+  "error.shareLinkValue": "يحتوي الرابط المشترك على قيمة {param} غير معروفة «{value}»",
+  "error.shareLinkRegion": "يحتوي الرابط المشترك على منطقة حرق غير معروفة «{region}»",
+  "error.shareLinkProtocol": "حُسب الرابط المشترك باستخدام ملف البروتوكول «{protocol}» غير المحمّل على هذا الجهاز",
+  "error.sensitivityRange": "يجب أن يكون مدى {field} بين 0 و{max} {unit}",
+  "error.fhirUnit": "{vital} في {observation} بوحدة «{unit}» لا يمكن تحويلها؛ أدخلها يدويًا",
+  "error.fhirBirthDate": "تاريخ الميلاد «{date}» ليس تاريخًا سابقًا كاملًا؛ أدخل العمر يدويًا",
+  "error.burnRegionsMissing": "يرجى تسجيل المناطق المحروقة في تقييم الحروق",
+  "error.urineOutput": "يرجى إدخال إدرار بول صالح (مل/كغ/ساعة)",
+  "error.urineOutputRequired": "إدرار البول مطلوب لتعويض الفقد غير المحسوس + البول",
+  "error.dehydration": "يرجى إدخال نسبة جفاف بين 0 و{max}",
+  "error.ongoingLosses": "يرجى إدخال فقد مستمر صالح (مل/يوم)",
+  "error.deficitFraction": "يجب أن يكون جزء العجز في المرحلة الأولى بين 0 و1",
+  "error.firstPhaseHours": "يجب أن تستمر المرحلة الأولى أقل من 24 ساعة",
+  "error.balanceHours": "يتسع جدول الميزان لـ{max} ساعة على الأكثر",
+  "error.balanceVolume": "الساعة {hour}: يرجى إدخال حجم {entry} صالح (مل)",
+  "error.balanceThreshold": "يرجى إدخال حد صالح للميزان السلبي (مل/كغ)",
+  "error.protocolJson": "ملف البروتوكول ليس JSON صالحًا",
+  "error.protocolObject": "يجب أن يحتوي ملف البروتوكول على كائن JSON",
+  "error.protocolSchema": "يجب أن يكون مخطط البروتوكول «{schema}»",
+  "error.protocolField": "الحقل «{property}» في البروتوكول مطلوب",
+  "error.protocolDescription": "يجب أن يكون وصف البروتوكول نصًا",
+  "error.protocolCoefficients": "معاملات البروتوكول مفقودة",
+  "error.protocolCoefficientValue": "{coefficient}: القيمة الرقمية مطلوبة",
+  "error.protocolCoefficientRange": "يجب أن يكون {coefficient} بين {min} و{max} {unit}",
+  "error.protocolCoefficientCitation": "{coefficient}: المرجع مطلوب",
+  "error.protocolBaseOrder": "لا يمكن أن يتجاوز الفقد الأساسي (المنخفض) الفقد الأساسي (المرتفع)",
+  "error.protocolBands": "يحتاج البروتوكول إلى فئة واحدة على الأقل لمعدل التنفس",
+  "error.protocolBandInvalid": "فئة معدل التنفس {band} غير صالحة",
+  "error.protocolBandLabel": "تحتاج فئة معدل التنفس {band} إلى تسمية ومرجع",
+  "error.protocolBandRange": "تحتاج فئة معدل التنفس {band} إلى مدى طبيعي يحقق 0 < min ≤ max",
+  "error.protocolBandOpen": "يجب أن تكون آخر فئة لمعدل التنفس مفتوحة النهاية (maxAgeMonths: null)",
+  "error.protocolBandOrder": "يجب أن تنتهي فئة معدل التنفس {band} عند عمر بعد الفئة السابقة",
+  "error.protocolReserved": "معرّف البروتوكول «{id}» محجوز",
+  "error.monteCarloIterations": "يجب أن يكون عدد تكرارات مونت كارلو عددًا صحيحًا بين 1 و{max}",
+  "error.csvQuote": "سطر CSV رقم {line}: حقل بين علامتي اقتباس لم يُغلق",
+  "error.csvEmpty": "مدخل CSV فارغ",
+  "error.csvDuplicateColumn": "تحتوي ترويسة CSV على العمود «{column}» أكثر من مرة",
+  "error.csvEmptyColumn": "تحتوي ترويسة CSV على اسم عمود فارغ",
+  "error.csvFieldCount": "يحتوي سطر CSV رقم {line} على {fields} حقول؛ والترويسة على {columns}",
+  "error.jsonInvalid": "مدخل JSON ليس JSON صالحًا",
+  "error.jsonNotArray": "يجب أن يكون مدخل JSON مصفوفة من الصفوف",
+  "error.jsonRowObject": "صف JSON رقم {row} ليس كائنًا",
+  "error.jsonRowValue": "صف JSON رقم {row}: يجب أن يكون «{column}» نصًا أو رقمًا أو قيمة منطقية أو null",
+  "error.unknownChoice": "قيمة {column} غير معروفة «{value}»؛ القيم المتوقعة: {expected}",
+  "error.unknownFactor": "عامل غير معروف «{value}»؛ القيم المتوقعة: {expected}"
+};
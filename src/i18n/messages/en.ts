@@ -0,0 +1,569 @@
+/**
+ * English source catalog. Every other language must provide each key; {name} marks a placeholder.
+ * Engine messages (validation errors, growth alerts, safety warnings) are rendered from the entry for
+ * their code in engineMessages.ts; the "field.*" labels must keep the engine's English wording, as parsing
+ * messages name the field by its label.
+ */
+export const en = {
+  "app.title": "Pediatric IWL Calculator",
+  "app.subtitle": "Evidence-based Insensible Water Loss Calculator for Pediatric Patients",
+  "language.label": "Language",
+  "language.numerals": "Digits",
+  "language.numerals.latn": "Western ({digits})",
+  "language.numerals.arab": "Eastern Arabic ({digits})",
+
+  "pwa.offline": "Offline — calculations, saved sessions and settings keep working on this device.",
+  "pwa.updateAvailable": "A new version of the calculator is ready.",
+  "pwa.reload": "Reload to update",
+
+  "unit.ml": "mL",
+  "unit.mlPerDay": "mL/day",
+  "unit.mlPerHour": "mL/hour",
+  "unit.mlPerKgPerDay": "mL/kg/day",
+  "unit.mlPerM2PerDay": "mL/m²/day",
+
+  "form.title": "Patient Information",
+  "form.decimalSeparator": "Decimal separator",
+  "form.decimalSeparator.device": "Device default ({locale})",
+  "form.decimalSeparator.point": "Point ({example})",
+  "form.decimalSeparator.comma": "Comma ({example})",
+  "form.weight": "Weight ({unit})",
+  "form.weight.placeholder": "Enter weight",
+  "form.height": "Height ({unit})",
+  "form.height.placeholder": "Enter height",
+  "form.optional": "(optional)",
+  "form.bsaFormula": "BSA Formula",
+  "form.optionalParameters": "Optional Parameters",
+  "form.temperature": "Temperature ({unit})",
+  "form.respiratoryRate": "Respiratory Rate",
+  "form.respiratoryRate.placeholder": "Enter RR",
+  "form.age": "Patient Age",
+  "form.age.years": "Years",
+  "form.age.months": "Months",
+  "form.age.hint": "Example: For a 2 years 8 months old patient, enter \"2\" years and \"8\" months",
+  "form.sex": "Sex",
+  "form.sex.none": "Not specified",
+  "form.sex.male": "Male",
+  "form.sex.female": "Female",
+  "form.sex.hint": "Used with age to check weight and height against WHO/CDC growth references",
+  "form.example": "e.g. {value}",
+  "form.neonatal": "Neonatal Details (Preterm)",
+  "form.neonatal.gaWeeks": "GA Weeks",
+  "form.neonatal.gaDays": "GA Days",
+  "form.neonatal.postnatalDays": "Postnatal Age (days)",
+  "form.neonatal.birthWeight": "Birth Weight (g)",
+  "form.neonatal.active": "Preterm neonate: IWL will be estimated from the gestational-age table (mL/kg/day) instead of BSA",
+  "form.neonatal.hint": "Leave blank for term infants and children. Infants <37 weeks within 28 days of birth use the gestational-age table; a blank postnatal age is taken from the age fields",
+  "form.environment": "Care Environment",
+  "form.careSetting": "Care Setting",
+  "form.humidity.incubator": "Incubator Humidity (% RH)",
+  "form.humidity.ambient": "Ambient Humidity (% RH)",
+  "form.airTemperature": "Air Temperature ({unit})",
+  "form.airTemperature.placeholder": "{value} °C if blank",
+  "form.environment.hint": "Humidity below 50% RH increases and above 50% RH reduces evaporative skin loss; leave blank for no adjustment",
+  "form.adjustments": "Additional Adjustments",
+  "form.calculate": "Calculate IWL",
+
+  "factor.phototherapy": "Phototherapy",
+  "factor.radiantWarmer": "Radiant Warmer",
+  "factor.burns": "Burns",
+  "factor.phototherapy.explanation": "Phototherapy using blue light to treat jaundice increases IWL by {percent} due to increased skin blood flow and heat production.",
+  "factor.radiantWarmer.explanation": "Radiant warmers increase IWL by {percent} due to increased ambient temperature and direct radiant heat affecting skin temperature.",
+  "factor.burns.explanation": "Burns increase IWL in proportion to the burned surface area due to loss of skin barrier function. Record the burned regions on the Lund–Browder chart to estimate %TBSA.",
+  "factor.ventilation": "Mechanical Ventilation (humidified)",
+  "factor.cpap": "CPAP / High Flow (humidified)",
+  "factor.emollient": "Occlusive Emollient",
+  "factor.plasticWrap": "Plastic Wrap or Blanket",
+  "factor.abdominalWallDefect": "Open Abdominal Wall Defect",
+  "factor.skinDisease": "Extensive Skin Disease (EB, SSSS)",
+  "factor.ventilation.explanation": "Ventilation through an endotracheal tube with gas heated and fully humidified to body temperature leaves almost no gradient for evaporation from the airways, so respiratory loss falls by {percent}.",
+  "factor.cpap.explanation": "Heated humidified CPAP or high-flow nasal cannula removes most respiratory loss; leak through the mouth lets some through, so respiratory loss falls by {percent}.",
+  "factor.emollient.explanation": "An occlusive ointment such as petrolatum reduces transepidermal water loss by {percent} while it stays on the skin. Set the hours to the time it is in place.",
+  "factor.plasticWrap.explanation": "A plastic wrap, bag or heat-shield blanket keeps humid air against the skin and reduces transepidermal water loss by {percent}.",
+  "factor.abdominalWallDefect.explanation": "Exposed bowel in gastroschisis or another open abdominal wall defect evaporates freely until it is covered, raising skin loss by {percent}. Untick once the defect is in a silo or closed.",
+  "factor.skinDisease.explanation": "Widespread loss of epidermis, as in epidermolysis bullosa or staphylococcal scalded skin syndrome, breaks the skin barrier and raises skin loss by {percent}. Use the burns chart instead when the denuded area has been mapped.",
+  "factor.excludes": "Not combined with {factors}; ticking it unticks them.",
+  "factor.references": "References:",
+  "exposure.label": "Runs for",
+  "exposure.mode.fullDay": "The whole day (24 h)",
+  "exposure.mode.duration": "A number of hours per day",
+  "exposure.mode.window": "From a start to a stop time",
+  "exposure.hours": "Hours per day",
+  "exposure.start": "Start",
+  "exposure.end": "Stop",
+  "exposure.overnight": "A stop time earlier than the start runs past midnight.",
+
+  "careSetting.openCot": "Open cot / bed",
+  "careSetting.radiantWarmer": "Radiant warmer",
+  "careSetting.incubator": "Incubator",
+
+  "results.title": "Results",
+  "results.protocol": "Protocol: {protocol} · Engine v{version}",
+  "results.neonatalMode": "Preterm neonatal mode: {band}, postnatal day {day}",
+  "results.daily": "Daily IWL",
+  "results.hourly": "Hourly IWL",
+  "results.hourlyPeak": "Hourly IWL, highest hour",
+  "results.hourlyAverage": "24-hour average: {low} – {high} mL/hour",
+  "results.howCalculated": "How it's calculated",
+
+  "warning.severity.critical": "Critical",
+  "warning.severity.warning": "Warning",
+  "warning.severity.info": "Assumed",
+  "warning.ageNotEntered": "Age not entered — the newborn respiratory rate range (up to {max} breaths/min) was applied",
+  "warning.temperatureNotEntered": "Temperature not entered — no fever adjustment was applied",
+  "warning.rrNotEntered": "Respiratory rate not entered — no respiratory rate adjustment was applied",
+  "warning.airTemperatureAssumed": "Air temperature not entered — {temperature} °C, typical for the care setting, was assumed",
+  "warning.postnatalAgeAssumed": "Postnatal age not entered — day 0 was assumed, which reads the highest-loss row of the gestational-age table",
+  "warning.burnAgeBandAssumed": "Age not entered — the Lund–Browder chart for {ageBand} was assumed for the burned area",
+  "warning.hypothermia": "Temperature {temperature} °C is below {limit} °C (hypothermia); IWL is not adjusted for low body temperature",
+  "warning.rrExtrapolated": "Respiratory rate {rate} breaths/min is more than {ratio}× the upper normal limit for age ({max}); the RR adjustment of {adjustment} mL/day is extrapolated without a cap",
+  "warning.iwlCeiling": "Total IWL of up to {perKg} mL/kg/day exceeds {limit} mL/kg/day; review the inputs before using this estimate",
+
+  "steps.title": "Step-by-Step Calculation",
+  "steps.formula": "Formula:",
+  "steps.calculation": "Calculation:",
+  "steps.result": "Result:",
+  "steps.method": "Method:",
+  "steps.conversions": "Entered Values Converted to SI",
+  "steps.neonatalBase": "Steps 1–2: Neonatal Base IWL",
+  "steps.neonatalMethod": "Gestational-age table ({band}, day {day}) — see Neonatal Step-by-Step Calculation",
+  "steps.bsa": "Step 1: Calculate Body Surface Area (BSA) — {method}",
+  "steps.base": "Step 2: Calculate Base IWL",
+  "steps.fever": "Step {step}: Apply Fever Adjustment",
+  "steps.rr": "Step {step}: Apply Respiratory Rate Adjustment",
+  "steps.factors": "Additional Factor Adjustments",
+  "steps.factorPercent": "{sign}{percent}% of Base IWL",
+  "steps.factorPercentSkin": "{sign}{percent}% of skin loss ({low} – {high} mL/day)",
+  "steps.factorPercentRespiratory": "{sign}{percent}% of respiratory loss ({low} – {high} mL/day)",
+  "steps.factorExposure": "× {hours} h / 24 h",
+  "steps.factorExposureWindow": "× {hours} h / 24 h ({start}–{end})",
+  "steps.compareBSA": "Compare BSA Formulas",
+  "steps.final": "Final Calculation",
+  "steps.low": "Low Range:",
+  "steps.high": "High Range:",
+  "steps.hourly": "Hourly IWL: {low} – {high} mL/hour",
+  "steps.hourlyNote": "(Total Daily IWL ÷ 24 hours)",
+  "steps.hourlyNoteProfile": "(Total Daily IWL ÷ 24 hours, averaged over the day; the hourly profile shows how the loss changes through the day)",
+
+  "formula.bsa": "BSA",
+  "formula.baseIWL": "Base IWL",
+  "formula.feverMultiplier": "Fever Multiplier",
+  "formula.temperature": "Temperature",
+  "formula.rrAdjustment": "RR Adjustment",
+  "formula.rr": "RR",
+  "formula.normalMaxRR": "Normal Max RR",
+  "formula.weight": "Weight",
+  "formula.totalIWL": "Total IWL",
+  "formula.rate": "Rate",
+  "formula.additionalAdjustments": "Additional Adjustments",
+  "formula.skinShare": "Skin Share",
+  "formula.adjustment": "Adjustment",
+  "formula.perKg": "IWL (mL/kg/day)",
+  "formula.birthWeight": "Birth Weight",
+  "formula.currentWeight": "Current Weight",
+
+  "neonatal.title": "Neonatal Step-by-Step Calculation",
+  "neonatal.band": "{min}–{max} weeks",
+  "neonatal.step1": "Step 1: Gestational Age Band",
+  "neonatal.gestationalAge": "Gestational Age:",
+  "neonatal.gestationalAgeValue": "{weeks}+{days} weeks",
+  "neonatal.postnatalAge": "Postnatal Age:",
+  "neonatal.day": "day {day}",
+  "neonatal.dayFromAge": "(from the entered age)",
+  "neonatal.dayAssumed": "(assumed: no postnatal age was entered)",
+  "neonatal.bandResult": "{band} table (preterm, <37 weeks, within 28 days of birth)",
+  "neonatal.step2": "Step 2: Interpolate by Postnatal Day",
+  "neonatal.tableRows": "Table Rows:",
+  "neonatal.sources": "Sources:",
+  "neonatal.tableRow": "Day {day}: {low}–{high} mL/kg/day",
+  "neonatal.low": "Low:",
+  "neonatal.high": "High:",
+  "neonatal.step3": "Step 3: Scale by Weight",
+  "neonatal.note": "Table values assume ~50% relative humidity without phototherapy or a radiant warmer (Hammarlund & Sedin; Bell & Oh). Fever, respiratory rate and additional factors are applied to this base in the main calculation.",
+
+  "humidity.title": "Humidity Adjustment",
+  "humidity.environment": "Environment:",
+  "humidity.environmentValue": "{setting}, {humidity}% RH, air {temperature} °C",
+  "humidity.assumed": " (typical for this setting; not entered)",
+  "humidity.axis": "Relative humidity",
+  "humidity.chart": "Humidity adjustment curve",
+  "humidity.note": "Curve for air at {air} °C and skin at {skin} °C; vapour pressures in kPa. Base IWL assumes {reference}% RH. Humidified incubators lower evaporative loss below the reference (Hammarlund & Sedin).",
+
+  "profile.title": "Hourly Loss Profile",
+  "profile.summary": "Highest {peakLow} – {peakHigh} mL/hour for {peakHours} h of the day; lowest {lowestLow} – {lowestHigh} mL/hour for {lowestHours} h.",
+  "profile.chart": "Insensible water loss by clock hour",
+  "profile.low": "Low estimate",
+  "profile.high": "High estimate",
+  "profile.average": "Daily average (high)",
+  "profile.note": "Timed factors add or remove their adjustment only in the hours they run; the rest of the loss is spread evenly over the day. Hours given without start and stop times are spread evenly too.",
+  "components.title": "Skin and Respiratory Components",
+  "components.skin": "Skin (transepidermal)",
+  "components.respiratory": "Respiratory",
+  "components.base": "Share of Base IWL ({percent}%)",
+  "components.fever": "Fever increase",
+  "components.respiratoryRate": "Respiratory rate adjustment",
+  "components.humidity": "Humidity adjustment",
+  "components.subtotal": "Subtotal",
+  "components.note": "Base IWL and the fever increase are split between the two routes by the protocol’s skin fraction; phototherapy and radiant warmer act through the skin. Skin factors are taken of the skin loss after fever, humidity, phototherapy and radiant warmer, respiratory factors of the respiratory loss after fever and respiratory rate.",
+
+  "burns.title": "Burn Assessment (Lund–Browder, {band})",
+  "burns.hint": "Enter the percentage of each region burned at partial and full thickness. Superficial (epidermal) burns are not counted.",
+  "burns.ageBandAssumed": "No age entered: the {band} chart is assumed. Enter the age so the head and leg percentages match the patient.",
+  "burns.region": "Region",
+  "burns.regionPercent": "Region % TBSA",
+  "burns.regionColumn": "Region (% TBSA)",
+  "burns.partial": "Partial",
+  "burns.full": "Full",
+  "burns.partialPercent": "Partial %",
+  "burns.fullPercent": "Full %",
+  "burns.partialLabel": "{region} partial thickness",
+  "burns.fullLabel": "{region} full thickness",
+  "burns.total": "Total {tbsa}% TBSA",
+  "burns.tbsa": "{tbsa}% TBSA",
+  "burns.factor": "{tbsa}% TBSA (Lund–Browder) × BSA × {rate} × 24",
+  "burns.evaporativeLoss": "Evaporative Loss:",
+  "burns.rateNote": "Rate: {rate} mL/h per %TBSA per m². By default burned skin adds ~1 mL/h per %TBSA per m² over intact skin: (35 + %TBSA) × BSA mL/h in children.",
+  "burns.resuscitation": "Resuscitation Volumes (reference only, first 24 h)",
+  "burns.parkland": "Parkland:",
+  "burns.galveston": "Galveston:",
+  "burns.phases": "({first} mL in first 8 h, {next} mL over next 16 h)",
+  "burns.galvestonFormula": "5000 mL/m² burned + 2000 mL/m² BSA",
+  "burns.resuscitationNote": "Resuscitation volumes are not included in the IWL total.",
+  "burns.group.head": "Head & Neck",
+  "burns.group.trunk": "Trunk",
+  "burns.group.arms": "Arms",
+  "burns.group.legs": "Legs",
+  "burns.ageBand.0": "<1 year",
+  "burns.ageBand.1": "1–4 years",
+  "burns.ageBand.2": "5–9 years",
+  "burns.ageBand.3": "10–14 years",
+  "burns.ageBand.4": "15–17 years",
+  "burns.ageBand.5": "Adult",
+  "burns.region.head": "Head",
+  "burns.region.neck": "Neck",
+  "burns.region.anteriorTrunk": "Anterior trunk",
+  "burns.region.posteriorTrunk": "Posterior trunk",
+  "burns.region.rightButtock": "Right buttock",
+  "burns.region.leftButtock": "Left buttock",
+  "burns.region.genitalia": "Genitalia",
+  "burns.region.rightUpperArm": "Right upper arm",
+  "burns.region.leftUpperArm": "Left upper arm",
+  "burns.region.rightLowerArm": "Right lower arm",
+  "burns.region.leftLowerArm": "Left lower arm",
+  "burns.region.rightHand": "Right hand",
+  "burns.region.leftHand": "Left hand",
+  "burns.region.rightThigh": "Right thigh",
+  "burns.region.leftThigh": "Left thigh",
+  "burns.region.rightLowerLeg": "Right lower leg",
+  "burns.region.leftLowerLeg": "Left lower leg",
+  "burns.region.rightFoot": "Right foot",
+  "burns.region.leftFoot": "Left foot",
+
+  "growth.title": "Growth Plausibility (WHO 0–2 y, CDC 2–20 y)",
+  "growth.none": "No z-scores calculated. Age and sex are needed for age-based references, which do not apply to preterm neonates.",
+  "growth.indicator": "Indicator",
+  "growth.reference": "Reference",
+  "growth.median": "Median",
+  "growth.zScore": "z-score",
+  "growth.percentile": "Percentile",
+  "growth.sex.male": "male",
+  "growth.sex.female": "female",
+  "growth.sexNotEntered": "sex not entered",
+  "growth.referenceNoSex": "{reference}, sex not entered",
+  "growth.indicator.weightForAge": "Weight-for-age",
+  "growth.indicator.lengthForAge": "Length/height-for-age",
+  "growth.indicator.weightForLength": "Weight-for-length",
+  "growth.description": "{indicator} z = {z} ({reference})",
+  "growth.weightRange": "Weight {value} kg is outside the possible range ({min}–{max} kg). Check the value and units.",
+  "growth.heightRange": "Height {value} cm is outside the possible range ({min}–{max} cm). Check the value and units.",
+  "growth.implausible": "{description} is biologically implausible. Check the weight, height, age and units.",
+  "growth.outlier": "{description} is outside ±{limit}. Please confirm the measurement.",
+
+  "bsa.formula": "Formula",
+  "bsa.bsa": "BSA (m²)",
+  "bsa.daily": "Daily IWL (mL/day)",
+  "bsa.delta": "Δ Low vs Selected",
+
+  "export.copyNote": "Copy Note",
+  "export.print": "Print Report",
+  "export.copied": "Clinical note copied to clipboard",
+  "export.copyBlocked": "Clipboard access was blocked; use the JSON or print export instead",
+
+  "share.title": "Share This Calculation",
+  "share.hint": "Scan on another device, or copy the link. It holds the entered values only, no patient identifiers.",
+  "share.copy": "Copy Link",
+  "share.copied": "Link copied to clipboard",
+  "share.copyBlocked": "Clipboard access was blocked; copy the link from the address bar after opening it",
+  "share.qr": "QR code linking to this calculation",
+
+  "sensitivity.title": "Sensitivity Analysis",
+  "sensitivity.hint": "Each entered measurement is moved to both ends of its range, and each factor switched off and on, one at a time. Bars show the change in daily IWL.",
+  "sensitivity.range": "{field} ± ({unit})",
+  "sensitivity.baseline": "Baseline: {low} – {high} mL/day",
+  "sensitivity.chart": "Tornado chart of the change in daily IWL for each input",
+  "sensitivity.axis": "Change in daily IWL (mL/day)",
+  "sensitivity.decrease": "Lower value / factor off",
+  "sensitivity.increase": "Higher value / factor on",
+  "sensitivity.lowEstimate": "Low estimate",
+  "sensitivity.highEstimate": "High estimate",
+  "sensitivity.input": "Input",
+  "sensitivity.tested": "Values tested",
+  "sensitivity.offOn": "off / on",
+  "sensitivity.notCalculable": "not calculable",
+  "sensitivity.skipped": "Not varied (not entered): {inputs}",
+  "sensitivity.factorSkipped": "{factor} not switched: {reason}",
+  "sensitivity.monteCarlo": "Monte Carlo",
+  "sensitivity.monteCarloHint": "Draws every entered measurement at random from its range at the same time; factors stay as entered.",
+  "sensitivity.iterations": "Runs",
+  "sensitivity.run": "Run Monte Carlo",
+  "sensitivity.median": "Central estimate (median)",
+  "sensitivity.band": "5th–95th percentile",
+  "sensitivity.samples": "{samples} of {iterations} runs could be calculated",
+  "sensitivity.noSamples": "None of the runs could be calculated; narrow the ranges.",
+
+  "plan.title": "24-Hour Fluid Planner",
+  "plan.basis": "Maintenance Basis",
+  "plan.basis.hollidaySegar": "Holliday–Segar maintenance",
+  "plan.basis.insensiblePlusUrine": "Insensible loss + urine output",
+  "plan.urineOutput": "Urine Output (mL/kg/hour)",
+  "plan.dehydration": "Dehydration (%)",
+  "plan.ongoingLosses": "Ongoing GI/Drain Losses (mL/day)",
+  "plan.firstPhaseHours": "Deficit Phase 1 Length (hours)",
+  "plan.firstPhasePercent": "Deficit Given in Phase 1 (%)",
+  "plan.total": "Total Daily Volume",
+  "plan.hourly": "Average Hourly Rate",
+  "plan.maintenance": "Step 1: Maintenance ({basis})",
+  "plan.hollidaySegarFormula": "100 mL/kg (first 10 kg) + 50 mL/kg (next 10 kg) + 20 mL/kg (each kg over 20)",
+  "plan.hollidaySegarResult": "Maintenance = {volume} mL/day (includes insensible and urinary losses)",
+  "plan.hollidaySegarIgnoresIWL": "Holliday–Segar uses weight only: the IWL estimate of {range} mL/day, and the factors behind it, do not change this plan",
+  "plan.insensibleFormula": "Maintenance = IWL + Urine Output × Weight × 24",
+  "plan.maintenanceResult": "Maintenance = {low} – {high} mL/day",
+  "plan.hollidaySegarReference": "Holliday–Segar for reference: {volume} mL/day",
+  "plan.deficitStep": "Step 2: Deficit and Ongoing Losses",
+  "plan.deficit": "Deficit:",
+  "plan.deficitFormula": "{percent}% × {weight} kg × 10 mL = {volume} mL",
+  "plan.ongoing": "Ongoing Losses:",
+  "plan.totalStep": "Step 3: Total and Hourly Rate",
+  "plan.totalFormula": "Total = Maintenance + Deficit + Ongoing Losses",
+  "plan.totalResult": "{low} – {high} mL/day ÷ 24 = {hourlyLow} – {hourlyHigh} mL/hour",
+  "plan.schedule": "Suggested Schedule",
+  "plan.phase": "Phase {phase} (hour {start}–{end}):",
+  "plan.steadyRate": "Steady rate (hour {start}–{end}):",
+  "plan.phaseDeficit": "(includes {volume} mL of deficit)",
+
+  "balance.title": "Hourly Fluid Balance",
+  "balance.startHour": "Chart Starts At",
+  "balance.threshold": "Flag Running Deficit Beyond (mL/kg)",
+  "balance.thresholdField": "Deficit threshold",
+  "balance.cell": "{hour} {entry}",
+  "balance.hour": "Hour",
+  "balance.iwl": "IWL",
+  "balance.net": "Net",
+  "balance.running24": "Running 24 h",
+  "balance.range": "{low} to {high}",
+  "balance.addHour": "Add Hour",
+  "balance.removeHour": "Remove Last Hour",
+  "balance.flagged": "Estimated balance below −{threshold} mL at {hours}",
+  "balance.runningNet": "Running {hours} h Net",
+  "balance.overTime": "Balance Over Time",
+  "balance.chart": "Fluid balance chart (mL)",
+  "balance.legend.hourly": "Hourly net (high IWL)",
+  "balance.legend.runningHigh": "Running 24 h, high IWL",
+  "balance.legend.runningLow": "Running 24 h, low IWL",
+  "balance.legend.threshold": "Flag threshold",
+  "balance.note": "Net = intake − measured output − insensible loss (the IWL result for each clock hour; {low}–{high} mL/hour on average). Totals so far: intake {intake} mL, measured output {output} mL.",
+  "balance.field.iv": "IV",
+  "balance.field.enteral": "Enteral",
+  "balance.field.flush": "Flushes",
+  "balance.field.urine": "Urine",
+  "balance.field.stool": "Stool",
+  "balance.field.ng": "NG",
+  "balance.field.drain": "Drain",
+
+  "session.title": "Patient Sessions",
+  "session.identifier": "New or Existing Identifier",
+  "session.identifierExample": "e.g. Bed 4",
+  "session.identifierRequired": "Please enter a patient identifier",
+  "session.open": "Open",
+  "session.saved": "Saved Sessions",
+  "session.none": "No session selected",
+  "session.save": "Save Current Result to \"{session}\"",
+  "session.delete": "Delete Session",
+  "session.confirmDelete": "Delete session \"{session}\" and all of its calculations?",
+  "session.trend": "IWL Trend",
+  "session.scale.daily": "Daily (mL/day)",
+  "session.scale.hourly": "Hourly (mL/hour)",
+  "session.time": "Time",
+  "session.factors": "Factors",
+  "session.load": "Load into calculator",
+  "session.deleteCalculation": "Delete",
+  "session.empty": "No saved calculations yet.",
+  "session.chart": "IWL trend ({unit})",
+  "session.low": "Low",
+  "session.high": "High",
+  "session.factorChange": "Factor switched on (+) or off (−)",
+
+  "print.title": "Insensible Water Loss Report",
+  "print.generated": "Generated {time} · Protocol {protocol} · Engine v{version}",
+  "print.activeFactors": "Active Factors",
+  "print.noFactors": "None",
+  "print.chartText": "The clinical note and the step-by-step calculation are printed in English, as they are copied into the chart.",
+
+  "view.calculator": "Calculator",
+  "view.board": "Unit Board",
+
+  "board.title": "Unit Board",
+  "board.hint": "Every saved patient session with its latest saved calculation. Switching a factor recalculates that row and saves it to the patient's session.",
+  "board.filterBed": "Bed or identifier",
+  "board.filterFactor": "Active factor",
+  "board.allFactors": "All patients",
+  "board.sort": "Sort by",
+  "board.sort.bed": "Bed",
+  "board.sort.factors": "Most active factors",
+  "board.sort.iwl": "Highest daily IWL",
+  "board.sort.warnings": "Most severe warning",
+  "board.bed": "Bed",
+  "board.patient": "Patient",
+  "board.weight": "Weight (kg)",
+  "board.factors": "Factors",
+  "board.warnings": "Warnings",
+  "board.noWarnings": "None",
+  "board.saved": "Saved {time}",
+  "board.noCalculation": "No calculation saved yet",
+  "board.open": "Open in calculator",
+  "board.empty": "No patient sessions yet. Save a calculation to a session in the calculator to add a patient.",
+  "board.noMatch": "No patients match the filters.",
+  "board.storageError": "Local storage is not available in this browser",
+
+  "fhir.title": "EHR Data (SMART on FHIR)",
+  "fhir.authorizing": "Connecting to the EHR…",
+  "fhir.loading": "Loading patient data from the EHR…",
+  "fhir.failed": "SMART launch failed: {error}",
+  "fhir.patient": "Patient: {name}",
+  "fhir.hint": "The form was filled in from the latest EHR records. Check each value before calculating; editing a field does not change the record.",
+  "fhir.field": "Measurement",
+  "fhir.value": "Value",
+  "fhir.measuredAt": "Measured",
+  "fhir.source": "Source",
+  "fhir.record": "Record",
+  "fhir.birthDate": "Birth date",
+  "fhir.notRecorded": "not recorded",
+  "fhir.missing": "Not found in the EHR: {fields}",
+  "fhir.vital.weight": "Body weight",
+  "fhir.vital.height": "Body height",
+  "fhir.vital.temperature": "Body temperature",
+  "fhir.vital.respiratoryRate": "Respiratory rate",
+  "fhir.write": "Save IWL Estimate to EHR",
+  "fhir.writeHint": "Writes the daily IWL range and its components as an Observation that references the records above.",
+  "fhir.writing": "Saving…",
+  "fhir.written": "Saved as {reference}",
+  "fhir.writeFailed": "Could not save to the EHR: {error}",
+
+  "protocol.title": "Protocol Profile",
+  "protocol.load": "Load JSON",
+  "protocol.download": "Download this profile as JSON",
+  "protocol.remove": "Remove this profile",
+  "protocol.values": "Coefficients and Citations",
+  "protocol.coefficient": "Coefficient",
+  "protocol.value": "Value",
+  "protocol.citation": "Citation",
+  "protocol.normalRR": "Normal RR, {band}",
+  "protocol.breathsPerMinute": "breaths/min",
+
+  "references.title": "Scientific References",
+  "disclaimer.title": "Medical Disclaimer",
+  "disclaimer.important": "Important: ",
+  "disclaimer.0": "This calculator is for educational and informational purposes only. The information provided may not be accurate and should not be considered as medical advice. Always consult with a qualified healthcare professional or neonatologist before making any clinical decisions.",
+  "disclaimer.1": "This tool does not replace professional medical judgment, clinical assessment, or established protocols. Healthcare providers must verify all calculations and consider individual patient factors, institutional guidelines, and current evidence-based practices.",
+  "disclaimer.2": "Use of this calculator is at your own risk. The developers assume no responsibility for any clinical decisions made based on this tool.",
+
+  "field.weight": "Weight",
+  "field.weightOunces": "Weight (oz)",
+  "field.height": "Height",
+  "field.temperature": "Temperature",
+  "field.respiratoryRate": "Respiratory rate",
+  "field.ageYears": "Age (years)",
+  "field.ageMonths": "Age (months)",
+  "field.relativeHumidity": "Relative humidity",
+  "field.airTemperature": "Air temperature",
+  "field.birthWeight": "Birth weight",
+  "field.gestationalWeeks": "Gestational age (weeks)",
+  "field.gestationalDays": "Gestational age (days)",
+  "field.postnatalAge": "Postnatal age",
+  "field.burnPartial": "{region} (partial)",
+  "field.burnFull": "{region} (full)",
+  "field.exposureHours": "{factor} exposure (hours)",
+  "field.exposureStart": "{factor} start",
+  "field.exposureStop": "{factor} stop",
+
+  "error.notANumber": "{field}: \"{text}\" is not a valid number",
+  "error.ambiguous": "{field}: \"{text}\" is ambiguous — enter {whole} or {decimal}",
+  "error.wholeNumber": "{field}: \"{text}\" must be a whole number",
+  "error.weight": "Please enter a valid weight (kg)",
+  "error.height": "Please enter a valid height (cm)",
+  "error.gestationalAge": "Please enter a gestational age between {min} and {max} weeks",
+  "error.gestationalDays": "Please enter gestational age days between 0 and 6",
+  "error.postnatalAge": "Please enter a valid postnatal age (days)",
+  "error.postnatalAgeMismatch": "A postnatal age of {days} days does not match the entered age of {months} months; correct one of them or clear the age",
+  "error.birthWeight": "Please enter a valid birth weight (g)",
+  "error.burnPercent": "Please enter valid burn percentages for the {region}",
+  "error.burnRegionTotal": "Burned area of the {region} cannot exceed 100% of the region",
+  "error.relativeHumidity": "Relative humidity must be between 0 and 100%",
+  "error.airTemperature": "Air temperature must be between {min} and {max} °C",
+  "error.careSettingFactor": "The radiant warmer care setting needs the {factor} factor; tick it or choose another care setting",
+  "error.lowHumidityReplaced": "This calculation was saved with the Low Humidity factor, which the humidity model has replaced; enter the relative humidity, or no humidity adjustment is applied",
+  "error.notATime": "{field}: \"{text}\" is not a valid time (HH:MM)",
+  "error.exposureHours": "{factor} exposure must be more than 0 and at most 24 hours",
+  "error.exposureTime": "{factor} start and stop times must be between 00:00 and 23:59",
+  "error.exposureWindow": "{factor} start and stop times must differ",
+  "error.factorConflict": "{first} cannot be combined with {second}",
+  "error.shareLinkVersion": "Shared link version \"{version}\" is not supported; update the calculator and open the link again",
+  "error.shareLinkValue": "Shared link has an unknown {param} value \"{value}\"",
+  "error.shareLinkRegion": "Shared link has an unknown burn region \"{region}\"",
+  "error.shareLinkProtocol": "Shared link was calculated with protocol profile \"{protocol}\", which is not loaded on this device",
+  "error.sensitivityRange": "{field} range must be between 0 and {max} {unit}",
+  "error.fhirUnit": "{vital} in {observation} has the unit \"{unit}\", which cannot be converted; enter it by hand",
+  "error.fhirBirthDate": "Birth date \"{date}\" is not a complete past date; enter the age by hand",
+  "error.burnRegionsMissing": "Please record the burned regions in the burn assessment",
+  "error.urineOutput": "Please enter a valid urine output (mL/kg/hour)",
+  "error.urineOutputRequired": "Urine output is required for insensible + urine replacement",
+  "error.dehydration": "Please enter a dehydration percentage between 0 and {max}",
+  "error.ongoingLosses": "Please enter valid ongoing losses (mL/day)",
+  "error.deficitFraction": "Deficit fraction for the first phase must be between 0 and 1",
+  "error.firstPhaseHours": "First phase must last less than 24 hours",
+  "error.balanceHours": "The balance chart holds at most {max} hours",
+  "error.balanceVolume": "Hour {hour}: please enter a valid {entry} volume (mL)",
+  "error.balanceThreshold": "Please enter a valid negative balance threshold (mL/kg)",
+  "error.protocolJson": "Protocol file is not valid JSON",
+  "error.protocolObject": "Protocol file must contain a JSON object",
+  "error.protocolSchema": "Protocol schema must be \"{schema}\"",
+  "error.protocolField": "Protocol {property} is required",
+  "error.protocolDescription": "Protocol description must be text",
+  "error.protocolCoefficients": "Protocol coefficients are missing",
+  "error.protocolCoefficientValue": "{coefficient}: a numeric value is required",
+  "error.protocolCoefficientRange": "{coefficient} must be between {min} and {max} {unit}",
+  "error.protocolCoefficientCitation": "{coefficient}: a citation is required",
+  "error.protocolBaseOrder": "Base IWL (low) cannot exceed base IWL (high)",
+  "error.protocolBands": "Protocol needs at least one respiratory rate band",
+  "error.protocolBandInvalid": "Respiratory rate band {band} is invalid",
+  "error.protocolBandLabel": "Respiratory rate band {band} needs a label and a citation",
+  "error.protocolBandRange": "Respiratory rate band {band} needs a normal range with 0 < min ≤ max",
+  "error.protocolBandOpen": "The last respiratory rate band must be open-ended (maxAgeMonths: null)",
+  "error.protocolBandOrder": "Respiratory rate band {band} must end at an age after the previous band",
+  "error.protocolReserved": "Protocol id \"{id}\" is reserved",
+  "error.monteCarloIterations": "Monte Carlo iterations must be a whole number between 1 and {max}",
+  "error.csvQuote": "CSV line {line}: a quoted field is never closed",
+  "error.csvEmpty": "CSV input is empty",
+  "error.csvDuplicateColumn": "CSV header has the column \"{column}\" more than once",
+  "error.csvEmptyColumn": "CSV header has an empty column name",
+  "error.csvFieldCount": "CSV line {line} has {fields} fields; the header has {columns}",
+  "error.jsonInvalid": "JSON input is not valid JSON",
+  "error.jsonNotArray": "JSON input must be an array of rows",
+  "error.jsonRowObject": "JSON row {row} is not an object",
+  "error.jsonRowValue": "JSON row {row}: \"{column}\" must be a string, number, boolean or null",
+  "error.unknownChoice": "Unknown {column} \"{value}\"; expected one of {expected}",
+  "error.unknownFactor": "Unknown factor \"{value}\"; expected one of {expected}"
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
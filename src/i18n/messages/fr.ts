@@ -0,0 +1,562 @@
+import { Messages } from "./en";
+
+export const fr: Messages = {
+  "app.title": "Calculateur de PIE pédiatrique",
+  "app.subtitle": "Calcul des pertes insensibles en eau fondé sur les données probantes, pour les patients pédiatriques",
+  "language.label": "Langue",
+  "language.numerals": "Chiffres",
+  "language.numerals.latn": "Occidentaux ({digits})",
+  "language.numerals.arab": "Arabes orientaux ({digits})",
+
+  "pwa.offline": "Hors ligne — les calculs, les sessions enregistrées et les réglages restent disponibles sur cet appareil.",
+  "pwa.updateAvailable": "Une nouvelle version du calculateur est prête.",
+  "pwa.reload": "Recharger pour mettre à jour",
+
+  "unit.ml": "mL",
+  "unit.mlPerDay": "mL/jour",
+  "unit.mlPerHour": "mL/heure",
+  "unit.mlPerKgPerDay": "mL/kg/jour",
+  "unit.mlPerM2PerDay": "mL/m²/jour",
+
+  "form.title": "Informations patient",
+  "form.decimalSeparator": "Séparateur décimal",
+  "form.decimalSeparator.device": "Réglage de l’appareil ({locale})",
+  "form.decimalSeparator.point": "Point ({example})",
+  "form.decimalSeparator.comma": "Virgule ({example})",
+  "form.weight": "Poids ({unit})",
+  "form.weight.placeholder": "Saisir le poids",
+  "form.height": "Taille ({unit})",
+  "form.height.placeholder": "Saisir la taille",
+  "form.optional": "(facultatif)",
+  "form.bsaFormula": "Formule de SC",
+  "form.optionalParameters": "Paramètres facultatifs",
+  "form.temperature": "Température ({unit})",
+  "form.respiratoryRate": "Fréquence respiratoire",
+  "form.respiratoryRate.placeholder": "Saisir la FR",
+  "form.age": "Âge du patient",
+  "form.age.years": "Ans",
+  "form.age.months": "Mois",
+  "form.age.hint": "Exemple : pour un patient de 2 ans et 8 mois, saisir « 2 » ans et « 8 » mois",
+  "form.sex": "Sexe",
+  "form.sex.none": "Non précisé",
+  "form.sex.male": "Masculin",
+  "form.sex.female": "Féminin",
+  "form.sex.hint": "Utilisé avec l’âge pour comparer le poids et la taille aux références de croissance OMS/CDC",
+  "form.example": "ex. {value}",
+  "form.neonatal": "Données néonatales (prématuré)",
+  "form.neonatal.gaWeeks": "AG semaines",
+  "form.neonatal.gaDays": "AG jours",
+  "form.neonatal.postnatalDays": "Âge postnatal (jours)",
+  "form.neonatal.birthWeight": "Poids de naissance (g)",
+  "form.neonatal.active": "Nouveau-né prématuré : les PIE seront estimées à partir de la table par âge gestationnel (mL/kg/jour) et non de la SC",
+  "form.neonatal.hint": "Laisser vide pour les nouveau-nés à terme et les enfants. Les nourrissons de <37 semaines dans les 28 jours suivant la naissance utilisent la table par âge gestationnel ; un âge postnatal laissé vide est déduit des champs d’âge",
+  "form.environment": "Environnement de soins",
+  "form.careSetting": "Type de soins",
+  "form.humidity.incubator": "Humidité de l’incubateur (% HR)",
+  "form.humidity.ambient": "Humidité ambiante (% HR)",
+  "form.airTemperature": "Température de l’air ({unit})",
+  "form.airTemperature.placeholder": "{value} °C si vide",
+  "form.environment.hint": "Une humidité inférieure à 50 % HR augmente la perte cutanée par évaporation, une humidité supérieure la réduit ; laisser vide pour ne pas ajuster",
+  "form.adjustments": "Ajustements supplémentaires",
+  "form.calculate": "Calculer les PIE",
+
+  "factor.phototherapy": "Photothérapie",
+  "factor.radiantWarmer": "Table radiante",
+  "factor.burns": "Brûlures",
+  "factor.phototherapy.explanation": "La photothérapie par lumière bleue utilisée pour traiter l’ictère augmente les PIE de {percent} par augmentation du débit sanguin cutané et de la production de chaleur.",
+  "factor.radiantWarmer.explanation": "Les tables radiantes augmentent les PIE de {percent} par élévation de la température ambiante et action directe de la chaleur radiante sur la peau.",
+  "factor.burns.explanation": "Les brûlures augmentent les PIE proportionnellement à la surface brûlée, par perte de la fonction de barrière cutanée. Reporter les régions brûlées sur le schéma de Lund et Browder pour estimer le %SCT.",
+  "factor.ventilation": "Ventilation mécanique (gaz humidifiés)",
+  "factor.cpap": "PPC / haut débit (gaz humidifiés)",
+  "factor.emollient": "Émollient occlusif",
+  "factor.plasticWrap": "Enveloppe ou couverture plastique",
+  "factor.abdominalWallDefect": "Défect ouvert de la paroi abdominale",
+  "factor.skinDisease": "Dermatose étendue (EB, SSSS)",
+  "factor.ventilation.explanation": "La ventilation par sonde d’intubation avec des gaz chauffés et saturés en eau à la température corporelle ne laisse presque aucun gradient d’évaporation dans les voies aériennes : les pertes respiratoires diminuent de {percent}.",
+  "factor.cpap.explanation": "La PPC ou l’oxygénothérapie nasale à haut débit chauffée et humidifiée supprime la plupart des pertes respiratoires ; les fuites par la bouche en laissent passer une partie, d’où une baisse des pertes respiratoires de {percent}.",
+  "factor.emollient.explanation": "Une pommade occlusive comme la vaseline réduit les pertes transépidermiques de {percent} tant qu’elle reste sur la peau. Indiquer comme durée le temps pendant lequel elle est en place.",
+  "factor.plasticWrap.explanation": "Une enveloppe, un sac ou une couverture plastique garde un air humide contre la peau et réduit les pertes transépidermiques de {percent}.",
+  "factor.abdominalWallDefect.explanation": "L’intestin exposé d’un laparoschisis ou d’un autre défect ouvert de la paroi abdominale s’évapore librement jusqu’à sa couverture, ce qui augmente les pertes cutanées de {percent}. Décocher une fois le défect en silo ou fermé.",
+  "factor.skinDisease.explanation": "Une perte étendue de l’épiderme, comme dans l’épidermolyse bulleuse ou l’épidermolyse staphylococcique aiguë, rompt la barrière cutanée et augmente les pertes cutanées de {percent}. Utiliser plutôt le schéma des brûlures lorsque la surface dénudée a été cartographiée.",
+  "factor.excludes": "Non cumulable avec {factors} ; le cocher les décoche.",
+  "factor.references": "Références :",
+  "exposure.label": "Durée d’application",
+  "exposure.mode.fullDay": "Toute la journée (24 h)",
+  "exposure.mode.duration": "Un nombre d’heures par jour",
+  "exposure.mode.window": "D’une heure de début à une heure de fin",
+  "exposure.hours": "Heures par jour",
+  "exposure.start": "Début",
+  "exposure.end": "Fin",
+  "exposure.overnight": "Une heure de fin antérieure au début se prolonge après minuit.",
+
+  "careSetting.openCot": "Berceau / lit ouvert",
+  "careSetting.radiantWarmer": "Table radiante",
+  "careSetting.incubator": "Incubateur",
+
+  "results.title": "Résultats",
+  "results.protocol": "Protocole : {protocol} · Moteur v{version}",
+  "results.neonatalMode": "Mode néonatal prématuré : {band}, jour postnatal {day}",
+  "results.daily": "PIE journalières",
+  "results.hourly": "PIE horaires",
+  "results.hourlyPeak": "PIE horaires, heure la plus élevée",
+  "results.hourlyAverage": "Moyenne sur 24 heures : {low} – {high} mL/heure",
+  "results.howCalculated": "Détail du calcul",
+
+  "warning.severity.critical": "Critique",
+  "warning.severity.warning": "Avertissement",
+  "warning.severity.info": "Hypothèse",
+  "warning.ageNotEntered": "Âge non saisi — la plage de fréquence respiratoire du nouveau-né (jusqu’à {max} cycles/min) a été appliquée",
+  "warning.temperatureNotEntered": "Température non saisie — aucun ajustement pour la fièvre n’a été appliqué",
+  "warning.rrNotEntered": "Fréquence respiratoire non saisie — aucun ajustement respiratoire n’a été appliqué",
+  "warning.airTemperatureAssumed": "Température de l’air non saisie — {temperature} °C, valeur habituelle pour ce mode de soins, a été supposée",
+  "warning.postnatalAgeAssumed": "Âge postnatal non saisi — le jour 0 a été supposé, ce qui lit la ligne de perte la plus élevée de la table d’âge gestationnel",
+  "warning.burnAgeBandAssumed": "Âge non saisi — la table de Lund–Browder « {ageBand} » a été supposée pour la surface brûlée",
+  "warning.hypothermia": "Température de {temperature} °C inférieure à {limit} °C (hypothermie) ; la PIE n’est pas ajustée pour une température corporelle basse",
+  "warning.rrExtrapolated": "Fréquence respiratoire de {rate} cycles/min supérieure à {ratio} × la limite normale pour l’âge ({max}) ; l’ajustement respiratoire de {adjustment} mL/jour est extrapolé sans plafond",
+  "warning.iwlCeiling": "PIE totale jusqu’à {perKg} mL/kg/jour, au-delà de {limit} mL/kg/jour ; vérifier les données avant d’utiliser cette estimation",
+
+  "steps.title": "Calcul étape par étape",
+  "steps.formula": "Formule :",
+  "steps.calculation": "Calcul :",
+  "steps.result": "Résultat :",
+  "steps.method": "Méthode :",
+  "steps.conversions": "Valeurs saisies converties en unités SI",
+  "steps.neonatalBase": "Étapes 1–2 : PIE de base néonatales",
+  "steps.neonatalMethod": "Table par âge gestationnel ({band}, jour {day}) — voir le calcul néonatal étape par étape",
+  "steps.bsa": "Étape 1 : calculer la surface corporelle (SC) — {method}",
+  "steps.base": "Étape 2 : calculer les PIE de base",
+  "steps.fever": "Étape {step} : appliquer l’ajustement pour fièvre",
+  "steps.rr": "Étape {step} : appliquer l’ajustement pour fréquence respiratoire",
+  "steps.factors": "Ajustements pour facteurs supplémentaires",
+  "steps.factorPercent": "{sign}{percent} % des PIE de base",
+  "steps.factorPercentSkin": "{sign}{percent} % des pertes cutanées ({low} – {high} mL/jour)",
+  "steps.factorPercentRespiratory": "{sign}{percent} % des pertes respiratoires ({low} – {high} mL/jour)",
+  "steps.factorExposure": "× {hours} h / 24 h",
+  "steps.factorExposureWindow": "× {hours} h / 24 h ({start}–{end})",
+  "steps.compareBSA": "Comparer les formules de SC",
+  "steps.final": "Calcul final",
+  "steps.low": "Fourchette basse :",
+  "steps.high": "Fourchette haute :",
+  "steps.hourly": "PIE horaires : {low} – {high} mL/heure",
+  "steps.hourlyNote": "(PIE journalières totales ÷ 24 heures)",
+  "steps.hourlyNoteProfile": "(PIE journalières totales ÷ 24 heures, en moyenne sur la journée ; le profil horaire montre comment les pertes varient au cours de la journée)",
+
+  "formula.bsa": "SC",
+  "formula.baseIWL": "PIE de base",
+  "formula.feverMultiplier": "Multiplicateur fièvre",
+  "formula.temperature": "Température",
+  "formula.rrAdjustment": "Ajustement FR",
+  "formula.rr": "FR",
+  "formula.normalMaxRR": "FR max. normale",
+  "formula.weight": "Poids",
+  "formula.totalIWL": "PIE totales",
+  "formula.rate": "Débit",
+  "formula.additionalAdjustments": "Ajustements supplémentaires",
+  "formula.skinShare": "Part cutanée",
+  "formula.adjustment": "Ajustement",
+  "formula.perKg": "PIE (mL/kg/jour)",
+  "formula.birthWeight": "Poids de naissance",
+  "formula.currentWeight": "Poids actuel",
+
+  "neonatal.title": "Calcul néonatal étape par étape",
+  "neonatal.band": "{min}–{max} semaines",
+  "neonatal.step1": "Étape 1 : tranche d’âge gestationnel",
+  "neonatal.gestationalAge": "Âge gestationnel :",
+  "neonatal.gestationalAgeValue": "{weeks}+{days} semaines",
+  "neonatal.postnatalAge": "Âge postnatal :",
+  "neonatal.day": "jour {day}",
+  "neonatal.dayFromAge": "(d’après l’âge saisi)",
+  "neonatal.dayAssumed": "(supposé : aucun âge postnatal saisi)",
+  "neonatal.bandResult": "Table {band} (prématuré, <37 semaines, dans les 28 jours suivant la naissance)",
+  "neonatal.step2": "Étape 2 : interpoler selon le jour postnatal",
+  "neonatal.tableRows": "Lignes de la table :",
+  "neonatal.sources": "Sources :",
+  "neonatal.tableRow": "Jour {day} : {low}–{high} mL/kg/jour",
+  "neonatal.low": "Basse :",
+  "neonatal.high": "Haute :",
+  "neonatal.step3": "Étape 3 : rapporter au poids",
+  "neonatal.note": "Les valeurs de la table supposent une humidité relative d’environ 50 %, sans photothérapie ni table radiante (Hammarlund et Sedin ; Bell et Oh). La fièvre, la fréquence respiratoire et les facteurs supplémentaires sont appliqués à cette base dans le calcul principal.",
+
+  "humidity.title": "Ajustement pour l’humidité",
+  "humidity.environment": "Environnement :",
+  "humidity.environmentValue": "{setting}, {humidity} % HR, air {temperature} °C",
+  "humidity.assumed": " (valeur habituelle pour ce type de soins ; non saisie)",
+  "humidity.axis": "Humidité relative",
+  "humidity.chart": "Courbe d’ajustement pour l’humidité",
+  "humidity.note": "Courbe pour un air à {air} °C et une peau à {skin} °C ; pressions de vapeur en kPa. Les PIE de base supposent {reference} % HR. Les incubateurs humidifiés réduisent la perte par évaporation sous la référence (Hammarlund et Sedin).",
+
+  "profile.title": "Profil horaire des pertes",
+  "profile.summary": "Maximum {peakLow} – {peakHigh} mL/heure pendant {peakHours} h de la journée ; minimum {lowestLow} – {lowestHigh} mL/heure pendant {lowestHours} h.",
+  "profile.chart": "Pertes insensibles en eau par heure",
+  "profile.low": "Estimation basse",
+  "profile.high": "Estimation haute",
+  "profile.average": "Moyenne journalière (haute)",
+  "profile.note": "Les facteurs horaires n’ajoutent ou ne retirent leur ajustement que pendant les heures où ils s’appliquent ; le reste des pertes est réparti uniformément sur la journée. Les heures saisies sans heure de début ni de fin sont aussi réparties uniformément.",
+  "components.title": "Composantes cutanée et respiratoire",
+  "components.skin": "Cutanée (transépidermique)",
+  "components.respiratory": "Respiratoire",
+  "components.base": "Part des PIE de base ({percent} %)",
+  "components.fever": "Majoration pour fièvre",
+  "components.respiratoryRate": "Ajustement pour fréquence respiratoire",
+  "components.humidity": "Ajustement pour humidité",
+  "components.subtotal": "Sous-total",
+  "components.note": "Les PIE de base et la majoration pour fièvre sont réparties entre les deux voies selon la fraction cutanée du protocole ; la photothérapie et la table radiante agissent par la peau. Les facteurs cutanés s’appliquent aux pertes cutanées après fièvre, humidité, photothérapie et table radiante, les facteurs respiratoires aux pertes respiratoires après fièvre et fréquence respiratoire.",
+
+  "burns.title": "Évaluation des brûlures (Lund et Browder, {band})",
+  "burns.hint": "Saisir le pourcentage de chaque région brûlé en épaisseur partielle et totale. Les brûlures superficielles (épidermiques) ne sont pas comptées.",
+  "burns.ageBandAssumed": "Aucun âge saisi : la table « {band} » est supposée. Veuillez saisir l’âge pour que les pourcentages de la tête et des jambes correspondent au patient.",
+  "burns.region": "Région",
+  "burns.regionPercent": "Région % SCT",
+  "burns.regionColumn": "Région (% SCT)",
+  "burns.partial": "Partielle",
+  "burns.full": "Totale",
+  "burns.partialPercent": "Partielle %",
+  "burns.fullPercent": "Totale %",
+  "burns.partialLabel": "{region}, épaisseur partielle",
+  "burns.fullLabel": "{region}, épaisseur totale",
+  "burns.total": "Total {tbsa} % SCT",
+  "burns.tbsa": "{tbsa} % SCT",
+  "burns.factor": "{tbsa} % SCT (Lund et Browder) × SC × {rate} × 24",
+  "burns.evaporativeLoss": "Perte par évaporation :",
+  "burns.rateNote": "Débit : {rate} mL/h par % SCT par m². Par défaut, la peau brûlée ajoute ~1 mL/h par % SCT par m² à la peau intacte : (35 + % SCT) × SC mL/h chez l’enfant.",
+  "burns.resuscitation": "Volumes de réanimation (à titre indicatif, premières 24 h)",
+  "burns.parkland": "Parkland :",
+  "burns.galveston": "Galveston :",
+  "burns.phases": "({first} mL dans les 8 premières heures, {next} mL sur les 16 heures suivantes)",
+  "burns.galvestonFormula": "5000 mL/m² brûlé + 2000 mL/m² de SC",
+  "burns.resuscitationNote": "Les volumes de réanimation ne sont pas inclus dans le total des PIE.",
+  "burns.group.head": "Tête et cou",
+  "burns.group.trunk": "Tronc",
+  "burns.group.arms": "Membres supérieurs",
+  "burns.group.legs": "Membres inférieurs",
+  "burns.ageBand.0": "<1 an",
+  "burns.ageBand.1": "1–4 ans",
+  "burns.ageBand.2": "5–9 ans",
+  "burns.ageBand.3": "10–14 ans",
+  "burns.ageBand.4": "15–17 ans",
+  "burns.ageBand.5": "Adulte",
+  "burns.region.head": "Tête",
+  "burns.region.neck": "Cou",
+  "burns.region.anteriorTrunk": "Tronc antérieur",
+  "burns.region.posteriorTrunk": "Tronc postérieur",
+  "burns.region.rightButtock": "Fesse droite",
+  "burns.region.leftButtock": "Fesse gauche",
+  "burns.region.genitalia": "Organes génitaux",
+  "burns.region.rightUpperArm": "Bras droit",
+  "burns.region.leftUpperArm": "Bras gauche",
+  "burns.region.rightLowerArm": "Avant-bras droit",
+  "burns.region.leftLowerArm": "Avant-bras gauche",
+  "burns.region.rightHand": "Main droite",
+  "burns.region.leftHand": "Main gauche",
+  "burns.region.rightThigh": "Cuisse droite",
+  "burns.region.leftThigh": "Cuisse gauche",
+  "burns.region.rightLowerLeg": "Jambe droite",
+  "burns.region.leftLowerLeg": "Jambe gauche",
+  "burns.region.rightFoot": "Pied droit",
+  "burns.region.leftFoot": "Pied gauche",
+
+  "growth.title": "Plausibilité de la croissance (OMS 0–2 ans, CDC 2–20 ans)",
+  "growth.none": "Aucun z-score calculé. L’âge et le sexe sont nécessaires pour les références selon l’âge, qui ne s’appliquent pas aux nouveau-nés prématurés.",
+  "growth.indicator": "Indicateur",
+  "growth.reference": "Référence",
+  "growth.median": "Médiane",
+  "growth.zScore": "z-score",
+  "growth.percentile": "Percentile",
+  "growth.sex.male": "masculin",
+  "growth.sex.female": "féminin",
+  "growth.sexNotEntered": "sexe non saisi",
+  "growth.referenceNoSex": "{reference}, sexe non saisi",
+  "growth.indicator.weightForAge": "Poids pour l’âge",
+  "growth.indicator.lengthForAge": "Taille pour l’âge",
+  "growth.indicator.weightForLength": "Poids pour la taille",
+  "growth.description": "{indicator} z = {z} ({reference})",
+  "growth.weightRange": "Le poids de {value} kg est hors de l’intervalle possible ({min}–{max} kg). Vérifier la valeur et les unités.",
+  "growth.heightRange": "La taille de {value} cm est hors de l’intervalle possible ({min}–{max} cm). Vérifier la valeur et les unités.",
+  "growth.implausible": "{description} est biologiquement invraisemblable. Vérifier le poids, la taille, l’âge et les unités.",
+  "growth.outlier": "{description} est en dehors de ±{limit}. Veuillez confirmer la mesure.",
+
+  "bsa.formula": "Formule",
+  "bsa.bsa": "SC (m²)",
+  "bsa.daily": "PIE journalières (mL/jour)",
+  "bsa.delta": "Δ basse vs sélection",
+
+  "export.copyNote": "Copier la note",
+  "export.print": "Imprimer le rapport",
+  "export.copied": "Note clinique copiée dans le presse-papiers",
+  "export.copyBlocked": "L’accès au presse-papiers a été bloqué ; utiliser plutôt l’export JSON ou l’impression",
+
+  "share.title": "Partager ce calcul",
+  "share.hint": "Scanner sur un autre appareil ou copier le lien. Il ne contient que les valeurs saisies, aucun identifiant de patient.",
+  "share.copy": "Copier le lien",
+  "share.copied": "Lien copié dans le presse-papiers",
+  "share.copyBlocked": "L’accès au presse-papiers a été bloqué ; copier le lien depuis la barre d’adresse après l’avoir ouvert",
+  "share.qr": "Code QR menant à ce calcul",
+
+  "sensitivity.title": "Analyse de sensibilité",
+  "sensitivity.hint": "Chaque mesure saisie est portée aux deux bornes de sa plage, et chaque facteur désactivé puis activé, un à la fois. Les barres montrent la variation de la PIE quotidienne.",
+  "sensitivity.range": "{field} ± ({unit})",
+  "sensitivity.baseline": "Référence : {low} – {high} mL/jour",
+  "sensitivity.chart": "Diagramme en tornade de la variation de la PIE quotidienne pour chaque paramètre",
+  "sensitivity.axis": "Variation de la PIE quotidienne (mL/jour)",
+  "sensitivity.decrease": "Valeur basse / facteur désactivé",
+  "sensitivity.increase": "Valeur haute / facteur activé",
+  "sensitivity.lowEstimate": "Estimation basse",
+  "sensitivity.highEstimate": "Estimation haute",
+  "sensitivity.input": "Paramètre",
+  "sensitivity.tested": "Valeurs testées",
+  "sensitivity.offOn": "désactivé / activé",
+  "sensitivity.notCalculable": "non calculable",
+  "sensitivity.skipped": "Non variés (non saisis) : {inputs}",
+  "sensitivity.factorSkipped": "{factor} non basculé : {reason}",
+  "sensitivity.monteCarlo": "Monte-Carlo",
+  "sensitivity.monteCarloHint": "Tire au hasard toutes les mesures saisies dans leur plage en même temps ; les facteurs restent tels que saisis.",
+  "sensitivity.iterations": "Tirages",
+  "sensitivity.run": "Lancer Monte-Carlo",
+  "sensitivity.median": "Estimation centrale (médiane)",
+  "sensitivity.band": "5e–95e percentile",
+  "sensitivity.samples": "{samples} tirages calculés sur {iterations}",
+  "sensitivity.noSamples": "Aucun tirage n’a pu être calculé ; réduire les plages.",
+
+  "plan.title": "Plan hydrique sur 24 heures",
+  "plan.basis": "Base d’entretien",
+  "plan.basis.hollidaySegar": "Entretien de Holliday–Segar",
+  "plan.basis.insensiblePlusUrine": "Pertes insensibles + diurèse",
+  "plan.urineOutput": "Diurèse (mL/kg/heure)",
+  "plan.dehydration": "Déshydratation (%)",
+  "plan.ongoingLosses": "Pertes digestives/drains en cours (mL/jour)",
+  "plan.firstPhaseHours": "Durée de la phase 1 du déficit (heures)",
+  "plan.firstPhasePercent": "Déficit donné en phase 1 (%)",
+  "plan.total": "Volume quotidien total",
+  "plan.hourly": "Débit horaire moyen",
+  "plan.maintenance": "Étape 1 : entretien ({basis})",
+  "plan.hollidaySegarFormula": "100 mL/kg (10 premiers kg) + 50 mL/kg (10 kg suivants) + 20 mL/kg (par kg au-delà de 20)",
+  "plan.hollidaySegarResult": "Entretien = {volume} mL/jour (inclut les pertes insensibles et urinaires)",
+  "plan.hollidaySegarIgnoresIWL": "Holliday–Segar n’utilise que le poids : l’estimation des PIE de {range} mL/jour et les facteurs qui la modifient ne changent pas ce plan",
+  "plan.insensibleFormula": "Entretien = PIE + diurèse × poids × 24",
+  "plan.maintenanceResult": "Entretien = {low} – {high} mL/jour",
+  "plan.hollidaySegarReference": "Holliday–Segar pour référence : {volume} mL/jour",
+  "plan.deficitStep": "Étape 2 : déficit et pertes en cours",
+  "plan.deficit": "Déficit :",
+  "plan.deficitFormula": "{percent} % × {weight} kg × 10 mL = {volume} mL",
+  "plan.ongoing": "Pertes en cours :",
+  "plan.totalStep": "Étape 3 : total et débit horaire",
+  "plan.totalFormula": "Total = entretien + déficit + pertes en cours",
+  "plan.totalResult": "{low} – {high} mL/jour ÷ 24 = {hourlyLow} – {hourlyHigh} mL/heure",
+  "plan.schedule": "Schéma proposé",
+  "plan.phase": "Phase {phase} (heure {start}–{end}) :",
+  "plan.steadyRate": "Débit constant (heure {start}–{end}) :",
+  "plan.phaseDeficit": "(dont {volume} mL de déficit)",
+
+  "balance.title": "Bilan hydrique horaire",
+  "balance.startHour": "Début du tableau",
+  "balance.threshold": "Signaler un déficit cumulé au-delà de (mL/kg)",
+  "balance.thresholdField": "Seuil de déficit",
+  "balance.cell": "{hour} {entry}",
+  "balance.hour": "Heure",
+  "balance.iwl": "PIE",
+  "balance.net": "Net",
+  "balance.running24": "Cumul 24 h",
+  "balance.range": "{low} à {high}",
+  "balance.addHour": "Ajouter une heure",
+  "balance.removeHour": "Retirer la dernière heure",
+  "balance.flagged": "Bilan estimé inférieur à −{threshold} mL à {hours}",
+  "balance.runningNet": "Net cumulé sur {hours} h",
+  "balance.overTime": "Évolution du bilan",
+  "balance.chart": "Graphique du bilan hydrique (mL)",
+  "balance.legend.hourly": "Net horaire (PIE haute)",
+  "balance.legend.runningHigh": "Cumul 24 h, PIE haute",
+  "balance.legend.runningLow": "Cumul 24 h, PIE basse",
+  "balance.legend.threshold": "Seuil d’alerte",
+  "balance.note": "Net = apports − sorties mesurées − pertes insensibles (la PIE calculée pour chaque heure ; {low}–{high} mL/heure en moyenne). Totaux à ce stade : apports {intake} mL, sorties mesurées {output} mL.",
+  "balance.field.iv": "IV",
+  "balance.field.enteral": "Entéral",
+  "balance.field.flush": "Rinçages",
+  "balance.field.urine": "Urine",
+  "balance.field.stool": "Selles",
+  "balance.field.ng": "SNG",
+  "balance.field.drain": "Drain",
+
+  "session.title": "Sessions patient",
+  "session.identifier": "Identifiant nouveau ou existant",
+  "session.identifierExample": "ex. Lit 4",
+  "session.identifierRequired": "Veuillez saisir un identifiant patient",
+  "session.open": "Ouvrir",
+  "session.saved": "Sessions enregistrées",
+  "session.none": "Aucune session sélectionnée",
+  "session.save": "Enregistrer le résultat actuel dans « {session} »",
+  "session.delete": "Supprimer la session",
+  "session.confirmDelete": "Supprimer la session « {session} » et tous ses calculs ?",
+  "session.trend": "Évolution des PIE",
+  "session.scale.daily": "Journalier (mL/jour)",
+  "session.scale.hourly": "Horaire (mL/heure)",
+  "session.time": "Heure",
+  "session.factors": "Facteurs",
+  "session.load": "Charger dans le calculateur",
+  "session.deleteCalculation": "Supprimer",
+  "session.empty": "Aucun calcul enregistré pour l’instant.",
+  "session.chart": "Évolution des PIE ({unit})",
+  "session.low": "Basse",
+  "session.high": "Haute",
+  "session.factorChange": "Facteur activé (+) ou désactivé (−)",
+
+  "print.title": "Rapport des pertes insensibles en eau",
+  "print.generated": "Généré le {time} · Protocole {protocol} · Moteur v{version}",
+  "print.activeFactors": "Facteurs actifs",
+  "print.noFactors": "Aucun",
+  "print.chartText": "La note clinique et le calcul étape par étape sont imprimés en anglais, tels qu’ils sont copiés dans le dossier.",
+
+  "view.calculator": "Calculateur",
+  "view.board": "Tableau de l’unité",
+
+  "board.title": "Tableau de l’unité",
+  "board.hint": "Chaque session patient enregistrée avec son dernier calcul enregistré. Modifier un facteur recalcule la ligne et l’enregistre dans la session du patient.",
+  "board.filterBed": "Lit ou identifiant",
+  "board.filterFactor": "Facteur actif",
+  "board.allFactors": "Tous les patients",
+  "board.sort": "Trier par",
+  "board.sort.bed": "Lit",
+  "board.sort.factors": "Plus de facteurs actifs",
+  "board.sort.iwl": "PIE quotidienne la plus élevée",
+  "board.sort.warnings": "Alerte la plus grave",
+  "board.bed": "Lit",
+  "board.patient": "Patient",
+  "board.weight": "Poids (kg)",
+  "board.factors": "Facteurs",
+  "board.warnings": "Alertes",
+  "board.noWarnings": "Aucune",
+  "board.saved": "Enregistré le {time}",
+  "board.noCalculation": "Aucun calcul enregistré",
+  "board.open": "Ouvrir dans le calculateur",
+  "board.empty": "Aucune session patient. Enregistrer un calcul dans une session du calculateur pour ajouter un patient.",
+  "board.noMatch": "Aucun patient ne correspond aux filtres.",
+  "board.storageError": "Le stockage local n’est pas disponible dans ce navigateur",
+
+  "fhir.title": "Données du DPI (SMART on FHIR)",
+  "fhir.authorizing": "Connexion au DPI…",
+  "fhir.loading": "Chargement des données du patient depuis le DPI…",
+  "fhir.failed": "Échec du lancement SMART : {error}",
+  "fhir.patient": "Patient : {name}",
+  "fhir.hint": "Le formulaire a été rempli à partir des derniers enregistrements du DPI. Vérifier chaque valeur avant de calculer ; modifier un champ ne change pas le dossier.",
+  "fhir.field": "Mesure",
+  "fhir.value": "Valeur",
+  "fhir.measuredAt": "Mesuré le",
+  "fhir.source": "Source",
+  "fhir.record": "Enregistrement",
+  "fhir.birthDate": "Date de naissance",
+  "fhir.notRecorded": "non renseigné",
+  "fhir.missing": "Introuvable dans le DPI : {fields}",
+  "fhir.vital.weight": "Poids corporel",
+  "fhir.vital.height": "Taille",
+  "fhir.vital.temperature": "Température corporelle",
+  "fhir.vital.respiratoryRate": "Fréquence respiratoire",
+  "fhir.write": "Enregistrer l’estimation de PIE dans le DPI",
+  "fhir.writeHint": "Enregistre la plage de PIE quotidienne et ses composantes sous forme d’Observation liée aux enregistrements ci-dessus.",
+  "fhir.writing": "Enregistrement…",
+  "fhir.written": "Enregistré sous {reference}",
+  "fhir.writeFailed": "Impossible d’enregistrer dans le DPI : {error}",
+
+  "protocol.title": "Profil de protocole",
+  "protocol.load": "Charger un JSON",
+  "protocol.download": "Télécharger ce profil en JSON",
+  "protocol.remove": "Supprimer ce profil",
+  "protocol.values": "Coefficients et références",
+  "protocol.coefficient": "Coefficient",
+  "protocol.value": "Valeur",
+  "protocol.citation": "Référence",
+  "protocol.normalRR": "FR normale, {band}",
+  "protocol.breathsPerMinute": "cycles/min",
+
+  "references.title": "Références scientifiques",
+  "disclaimer.title": "Avertissement médical",
+  "disclaimer.important": "Important : ",
+  "disclaimer.0": "Ce calculateur est fourni à des fins éducatives et d’information uniquement. Les informations fournies peuvent être inexactes et ne constituent pas un avis médical. Consultez toujours un professionnel de santé qualifié ou un néonatologiste avant toute décision clinique.",
+  "disclaimer.1": "Cet outil ne remplace ni le jugement médical, ni l’évaluation clinique, ni les protocoles établis. Les soignants doivent vérifier tous les calculs et tenir compte des particularités du patient, des recommandations de l’établissement et des pratiques actuelles fondées sur les données probantes.",
+  "disclaimer.2": "L’utilisation de ce calculateur se fait à vos propres risques. Les développeurs déclinent toute responsabilité quant aux décisions cliniques prises sur la base de cet outil.",
+
+  "field.weight": "Poids",
+  "field.weightOunces": "Poids (oz)",
+  "field.height": "Taille",
+  "field.temperature": "Température",
+  "field.respiratoryRate": "Fréquence respiratoire",
+  "field.ageYears": "Âge (ans)",
+  "field.ageMonths": "Âge (mois)",
+  "field.relativeHumidity": "Humidité relative",
+  "field.airTemperature": "Température de l’air",
+  "field.birthWeight": "Poids de naissance",
+  "field.gestationalWeeks": "Âge gestationnel (semaines)",
+  "field.gestationalDays": "Âge gestationnel (jours)",
+  "field.postnatalAge": "Âge postnatal",
+  "field.burnPartial": "{region} (partielle)",
+  "field.burnFull": "{region} (totale)",
+  "field.exposureHours": "{factor} – durée (heures)",
+  "field.exposureStart": "{factor} – début",
+  "field.exposureStop": "{factor} – fin",
+
+  "error.notANumber": "{field} : « {text} » n’est pas un nombre valide",
+  "error.ambiguous": "{field} : « {text} » est ambigu — saisir {whole} ou {decimal}",
+  "error.wholeNumber": "{field} : « {text} » doit être un nombre entier",
+  "error.weight": "Veuillez saisir un poids valide (kg)",
+  "error.height": "Veuillez saisir une taille valide (cm)",
+  "error.gestationalAge": "Veuillez saisir un âge gestationnel entre {min} et {max} semaines",
+  "error.gestationalDays": "Veuillez saisir des jours d’âge gestationnel entre 0 et 6",
+  "error.postnatalAge": "Veuillez saisir un âge postnatal valide (jours)",
+  "error.postnatalAgeMismatch": "Un âge postnatal de {days} jours ne correspond pas à l’âge saisi de {months} mois ; corriger l’un des deux ou effacer l’âge",
+  "error.birthWeight": "Veuillez saisir un poids de naissance valide (g)",
+  "error.burnPercent": "Veuillez saisir des pourcentages de brûlure valides pour : {region}",
+  "error.burnRegionTotal": "La surface brûlée de la région « {region} » ne peut pas dépasser 100 % de la région",
+  "error.relativeHumidity": "L’humidité relative doit être comprise entre 0 et 100 %",
+  "error.airTemperature": "La température de l’air doit être comprise entre {min} et {max} °C",
+  "error.careSettingFactor": "Le mode de soins table radiante nécessite le facteur « {factor} » ; veuillez le cocher ou choisir un autre mode de soins",
+  "error.lowHumidityReplaced": "Ce calcul a été enregistré avec le facteur Humidité basse, remplacé par le modèle d’humidité ; veuillez saisir l’humidité relative, sinon aucun ajustement d’humidité n’est appliqué",
+  "error.notATime": "{field} : « {text} » n’est pas une heure valide (HH:MM)",
+  "error.exposureHours": "{factor} : la durée doit être supérieure à 0 et d’au plus 24 heures",
+  "error.exposureTime": "{factor} : les heures de début et de fin doivent être comprises entre 00:00 et 23:59",
+  "error.exposureWindow": "{factor} : les heures de début et de fin doivent être différentes",
+  "error.factorConflict": "{first} n’est pas cumulable avec {second}",
+  "error.shareLinkVersion": "La version « {version} » du lien partagé n’est pas prise en charge ; mettre à jour le calculateur et rouvrir le lien",
+  "error.shareLinkValue": "Le lien partagé contient une valeur {param} inconnue : « {value} »",
+  "error.shareLinkRegion": "Le lien partagé contient une région brûlée inconnue : « {region} »",
+  "error.shareLinkProtocol": "Le lien partagé a été calculé avec le profil de protocole « {protocol} », qui n’est pas chargé sur cet appareil",
+  "error.sensitivityRange": "{field} : la plage doit être comprise entre 0 et {max} {unit}",
+  "error.fhirUnit": "{vital} dans {observation} a l’unité « {unit} », qui ne peut pas être convertie ; la saisir à la main",
+  "error.fhirBirthDate": "La date de naissance « {date} » n’est pas une date passée complète ; saisir l’âge à la main",
+  "error.burnRegionsMissing": "Veuillez indiquer les régions brûlées dans l’évaluation des brûlures",
+  "error.urineOutput": "Veuillez saisir une diurèse valide (mL/kg/heure)",
+  "error.urineOutputRequired": "La diurèse est requise pour le remplacement pertes insensibles + urines",
+  "error.dehydration": "Veuillez saisir un pourcentage de déshydratation entre 0 et {max}",
+  "error.ongoingLosses": "Veuillez saisir des pertes en cours valides (mL/jour)",
+  "error.deficitFraction": "La fraction du déficit donnée en première phase doit être comprise entre 0 et 1",
+  "error.firstPhaseHours": "La première phase doit durer moins de 24 heures",
+  "error.balanceHours": "Le tableau de bilan contient au plus {max} heures",
+  "error.balanceVolume": "Heure {hour} : veuillez saisir un volume valide pour : {entry} (mL)",
+  "error.balanceThreshold": "Veuillez saisir un seuil de bilan négatif valide (mL/kg)",
+  "error.protocolJson": "Le fichier de protocole n’est pas un JSON valide",
+  "error.protocolObject": "Le fichier de protocole doit contenir un objet JSON",
+  "error.protocolSchema": "Le schéma du protocole doit être « {schema} »",
+  "error.protocolField": "Le champ « {property} » du protocole est requis",
+  "error.protocolDescription": "La description du protocole doit être du texte",
+  "error.protocolCoefficients": "Les coefficients du protocole sont absents",
+  "error.protocolCoefficientValue": "{coefficient} : une valeur numérique est requise",
+  "error.protocolCoefficientRange": "{coefficient} doit être compris entre {min} et {max} {unit}",
+  "error.protocolCoefficientCitation": "{coefficient} : une citation est requise",
+  "error.protocolBaseOrder": "La PIE de base (basse) ne peut pas dépasser la PIE de base (haute)",
+  "error.protocolBands": "Le protocole nécessite au moins une tranche de fréquence respiratoire",
+  "error.protocolBandInvalid": "La tranche de fréquence respiratoire {band} n’est pas valide",
+  "error.protocolBandLabel": "La tranche de fréquence respiratoire {band} nécessite un libellé et une citation",
+  "error.protocolBandRange": "La tranche de fréquence respiratoire {band} nécessite une plage normale avec 0 < min ≤ max",
+  "error.protocolBandOpen": "La dernière tranche de fréquence respiratoire doit être ouverte (maxAgeMonths: null)",
+  "error.protocolBandOrder": "La tranche de fréquence respiratoire {band} doit se terminer à un âge postérieur à la tranche précédente",
+  "error.protocolReserved": "L’identifiant de protocole « {id} » est réservé",
+  "error.monteCarloIterations": "Le nombre de tirages Monte Carlo doit être un entier entre 1 et {max}",
+  "error.csvQuote": "Ligne CSV {line} : un champ entre guillemets n’est jamais fermé",
+  "error.csvEmpty": "L’entrée CSV est vide",
+  "error.csvDuplicateColumn": "L’en-tête CSV contient la colonne « {column} » plusieurs fois",
+  "error.csvEmptyColumn": "L’en-tête CSV contient un nom de colonne vide",
+  "error.csvFieldCount": "La ligne CSV {line} a {fields} champs ; l’en-tête en a {columns}",
+  "error.jsonInvalid": "L’entrée JSON n’est pas un JSON valide",
+  "error.jsonNotArray": "L’entrée JSON doit être un tableau de lignes",
+  "error.jsonRowObject": "La ligne JSON {row} n’est pas un objet",
+  "error.jsonRowValue": "Ligne JSON {row} : « {column} » doit être une chaîne, un nombre, un booléen ou null",
+  "error.unknownChoice": "{column} inconnu : « {value} » ; valeurs attendues : {expected}",
+  "error.unknownFactor": "Facteur inconnu « {value} » ; valeurs attendues : {expected}"
+};
@@ -0,0 +1,105 @@
+/**
+ * Registration for the offline service worker in public/sw.js. The worker keeps serving the installed
+ * app shell until the user accepts an update; the page only reports that one is ready and reloads once
+ * the worker has switched versions. Ward tablets stay open for whole shifts, so updates are also checked
+ * for periodically rather than only on navigation.
+ */
+
+type WorkerMessage = { type: "UPDATE_AVAILABLE" } | { type: "UPDATE_APPLIED" };
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const assetURL = (path: string) => `${import.meta.env.BASE_URL}${path}`;
+
+// index.html is not part of this tree, so declare the manifest and icons if the page does not.
+const addHeadLink = (rel: string, href: string) => {
+  if (document.head.querySelector(`link[rel="${rel}"]`)) return;
+  const link = document.createElement("link");
+  link.rel = rel;
+  link.href = href;
+  document.head.appendChild(link);
+};
+
+const addThemeColor = (color: string) => {
+  if (document.head.querySelector('meta[name="theme-color"]')) return;
+  const meta = document.createElement("meta");
+  meta.name = "theme-color";
+  meta.content = color;
+  document.head.appendChild(meta);
+};
+
+/** Asks the browser not to evict IndexedDB sessions and stored settings under storage pressure. */
+const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist || await navigator.storage.persisted()) return;
+  await navigator.storage.persist();
+};
+
+export const isServiceWorkerSupported = () => import.meta.env.PROD && "serviceWorker" in navigator;
+
+/**
+ * Registers the worker and calls onUpdateAvailable when a newer version has been downloaded, either a
+ * new app shell or a new sw.js. Returns a cleanup function for use in an effect.
+ */
+export const registerServiceWorker = (onUpdateAvailable: () => void): (() => void) => {
+  if (!isServiceWorkerSupported()) return () => {};
+
+  addHeadLink("manifest", assetURL("manifest.webmanifest"));
+  addHeadLink("icon", assetURL("icons/icon.svg"));
+  addHeadLink("apple-touch-icon", assetURL("icons/apple-touch-icon.png"));
+  addThemeColor("#2563eb");
+  requestPersistentStorage().catch(() => undefined);
+
+  const onMessage = (event: MessageEvent<WorkerMessage>) => {
+    if (event.data?.type === "UPDATE_AVAILABLE") onUpdateAvailable();
+  };
+  navigator.serviceWorker.addEventListener("message", onMessage);
+
+  let timer: number | undefined;
+  const checkForUpdate = (registration: ServiceWorkerRegistration) => {
+    registration.update().catch(() => undefined);
+    registration.active?.postMessage({ type: "CHECK_FOR_UPDATE" });
+  };
+
+  navigator.serviceWorker
+    .register(assetURL("sw.js"))
+    .then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) onUpdateAvailable();
+      registration.addEventListener("updatefound", () => {
+        const installing = registration.installing;
+        installing?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update.
+          if (installing.state === "installed" && navigator.serviceWorker.controller) onUpdateAvailable();
+        });
+      });
+      checkForUpdate(registration);
+      timer = window.setInterval(() => checkForUpdate(registration), UPDATE_CHECK_INTERVAL_MS);
+    })
+    .catch(() => undefined);
+
+  return () => {
+    navigator.serviceWorker.removeEventListener("message", onMessage);
+    window.clearInterval(timer);
+  };
+};
+
+/** Switches to the downloaded version and reloads the page once the worker has done so. */
+export const applyServiceWorkerUpdate = async () => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  const worker = registration?.waiting ?? registration?.active;
+  if (!worker) {
+    window.location.reload();
+    return;
+  }
+
+  let reloading = false;
+  const reload = () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  };
+  navigator.serviceWorker.addEventListener("controllerchange", reload);
+  navigator.serviceWorker.addEventListener("message", (event: MessageEvent<WorkerMessage>) => {
+    if (event.data?.type === "UPDATE_APPLIED") reload();
+  });
+  worker.postMessage({ type: "APPLY_UPDATE" });
+};
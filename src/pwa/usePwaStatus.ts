@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { applyServiceWorkerUpdate, registerServiceWorker } from "./serviceWorker";
+
+export interface PwaStatus {
+  online: boolean;
+  updateAvailable: boolean;
+  applyUpdate: () => void;
+}
+
+export const usePwaStatus = (): PwaStatus => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  useEffect(() => registerServiceWorker(() => setUpdateAvailable(true)), []);
+
+  return {
+    online,
+    updateAvailable,
+    applyUpdate: () => {
+      applyServiceWorkerUpdate().catch(() => window.location.reload());
+    }
+  };
+};
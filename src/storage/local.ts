@@ -0,0 +1,17 @@
+/** localStorage access that degrades to "nothing stored" when storage is disabled (private browsing). */
+
+export const readLocal = (key: string) => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeLocal = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // The setting then lasts for this page only.
+  }
+};
@@ -0,0 +1,21 @@
+import { getLanguageForLocale, isLanguage, isNumeralSystem, Language, NumeralSystem } from "../i18n";
+import { readLocal, writeLocal } from "./local";
+
+/** Display language and digit style, kept in localStorage. The first visit follows the browser language. */
+
+const LANGUAGE_KEY = "pediatric-iwl.language";
+const NUMERALS_KEY = "pediatric-iwl.numerals";
+
+export const loadLanguage = (): Language => {
+  const stored = readLocal(LANGUAGE_KEY);
+  return isLanguage(stored) ? stored : getLanguageForLocale(navigator.language);
+};
+
+export const storeLanguage = (language: Language) => writeLocal(LANGUAGE_KEY, language);
+
+export const loadNumerals = (): NumeralSystem => {
+  const stored = readLocal(NUMERALS_KEY);
+  return isNumeralSystem(stored) ? stored : "latn";
+};
+
+export const storeNumerals = (numerals: NumeralSystem) => writeLocal(NUMERALS_KEY, numerals);
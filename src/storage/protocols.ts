@@ -0,0 +1,28 @@
+import { BUILTIN_PROTOCOL, ProtocolProfile, upgradeProtocolProfile, validateProtocolProfile } from "../engine";
+import { readLocal, writeLocal } from "./local";
+
+/**
+ * Loaded protocol profiles and the active selection, kept in localStorage so the choice survives reloads.
+ * Stored profiles are upgraded to the current schema and re-validated on read; anything that still does not
+ * pass is dropped.
+ */
+
+const PROFILES_KEY = "pediatric-iwl.protocols";
+const SELECTED_KEY = "pediatric-iwl.protocol";
+
+export const loadStoredProtocols = (): ProtocolProfile[] => {
+  try {
+    const stored: unknown = JSON.parse(readLocal(PROFILES_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored.map(upgradeProtocolProfile).filter((profile): profile is ProtocolProfile => validateProtocolProfile(profile) === null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeProtocols = (profiles: ProtocolProfile[]) => writeLocal(PROFILES_KEY, JSON.stringify(profiles));
+
+export const loadSelectedProtocolId = () => readLocal(SELECTED_KEY) ?? BUILTIN_PROTOCOL.id;
+
+export const storeSelectedProtocolId = (id: string) => writeLocal(SELECTED_KEY, id);
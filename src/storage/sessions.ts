@@ -0,0 +1,135 @@
+import { CalculationResult, IWLFormValues, IWLInput, UnitBoardPatient } from "../engine";
+
+/**
+ * Patient sessions kept in the browser's IndexedDB. Nothing leaves the device; the identifier is
+ * whatever the ward uses locally (bed number, initials, study ID).
+ */
+
+export interface PatientSession {
+  id: string;
+  // Bed or cot on the unit board; sessions saved before the board have none.
+  bed?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedCalculation {
+  // Assigned by IndexedDB on insert.
+  id?: number;
+  sessionId: string;
+  timestamp: string;
+  form: IWLFormValues;
+  input: IWLInput;
+  result: CalculationResult;
+}
+
+const DB_NAME = "pediatric-iwl";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const CALCULATIONS = "calculations";
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(CALCULATIONS)) {
+        const store = db.createObjectStore(CALCULATIONS, { keyPath: "id", autoIncrement: true });
+        store.createIndex("sessionId", "sessionId");
+      }
+    };
+    database = promisify(request);
+  }
+  return database;
+};
+
+const transaction = async (stores: string[], mode: IDBTransactionMode) => (await openDatabase()).transaction(stores, mode);
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const listSessions = async (): Promise<PatientSession[]> => {
+  const tx = await transaction([SESSIONS], "readonly");
+  const sessions = await promisify(tx.objectStore(SESSIONS).getAll() as IDBRequest<PatientSession[]>);
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/** Creates the session if the identifier is new; returns the stored session either way. */
+export const openSession = async (id: string): Promise<PatientSession> => {
+  const tx = await transaction([SESSIONS], "readwrite");
+  const store = tx.objectStore(SESSIONS);
+  const existing = await promisify(store.get(id) as IDBRequest<PatientSession | undefined>);
+  const now = new Date().toISOString();
+  const session = existing ?? { id, createdAt: now, updatedAt: now };
+  if (!existing) store.add(session);
+  await completion(tx);
+  return session;
+};
+
+export const updateSessionBed = async (id: string, bed: string) => {
+  const tx = await transaction([SESSIONS], "readwrite");
+  const store = tx.objectStore(SESSIONS);
+  const session = await promisify(store.get(id) as IDBRequest<PatientSession | undefined>);
+  if (session) store.put({ ...session, bed });
+  await completion(tx);
+};
+
+export const deleteSession = async (id: string) => {
+  const tx = await transaction([SESSIONS, CALCULATIONS], "readwrite");
+  tx.objectStore(SESSIONS).delete(id);
+  const calculations = tx.objectStore(CALCULATIONS);
+  const keys = await promisify(calculations.index("sessionId").getAllKeys(id));
+  keys.forEach(key => calculations.delete(key));
+  await completion(tx);
+};
+
+export const listCalculations = async (sessionId: string): Promise<SavedCalculation[]> => {
+  const tx = await transaction([CALCULATIONS], "readonly");
+  const calculations = await promisify(tx.objectStore(CALCULATIONS).index("sessionId").getAll(sessionId) as IDBRequest<SavedCalculation[]>);
+  return calculations.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+export const saveCalculation = async (calculation: Omit<SavedCalculation, "id">): Promise<SavedCalculation> => {
+  const tx = await transaction([SESSIONS, CALCULATIONS], "readwrite");
+  const id = await promisify(tx.objectStore(CALCULATIONS).add(calculation)) as number;
+  const sessions = tx.objectStore(SESSIONS);
+  const session = await promisify(sessions.get(calculation.sessionId) as IDBRequest<PatientSession | undefined>);
+  if (session) sessions.put({ ...session, updatedAt: calculation.timestamp });
+  await completion(tx);
+  return { ...calculation, id };
+};
+
+export const deleteCalculation = async (id: number) => {
+  const tx = await transaction([CALCULATIONS], "readwrite");
+  tx.objectStore(CALCULATIONS).delete(id);
+  await completion(tx);
+};
+
+/** Every session with its most recent calculation, for the unit board. */
+export const listUnitBoard = async (): Promise<UnitBoardPatient[]> => {
+  const sessions = await listSessions();
+  return Promise.all(sessions.map(async session => {
+    const calculations = await listCalculations(session.id);
+    const latest = calculations[calculations.length - 1];
+    return {
+      id: session.id,
+      bed: session.bed ?? "",
+      latest: latest ? { timestamp: latest.timestamp, form: latest.form, input: latest.input, result: latest.result } : null
+    };
+  }));
+};